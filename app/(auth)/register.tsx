@@ -60,7 +60,7 @@ export default function RegisterScreen() {
         Alert.alert('Registration Failed', error);
       }
     } else {
-      Alert.alert('Success', 'Account created successfully! Please sign in.');
+      Alert.alert('Check Your Email', 'Account created! Confirm your email address using the link we sent, then sign in.');
       router.replace('/(auth)/login');
     }
     setLoading(false);
@@ -1,49 +1,37 @@
 import { Tabs } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
-import { Chrome as Home, Users, Calendar, MessageCircle, ChartBar as BarChart3, Settings, Baby, Stethoscope, ClipboardList } from 'lucide-react-native';
+import { Chrome as Home, Users, Calendar, MessageCircle, ChartBar as BarChart3, Settings, Baby, ClipboardList, type LucideIcon } from 'lucide-react-native';
+import { can, type Permission, type Role } from '@/lib/permissions';
 
-export default function TabLayout() {
-  const { user } = useAuth();
+interface TabConfig {
+  name: string;
+  title: string;
+  roleTitles?: Partial<Record<Role, string>>;
+  icon: LucideIcon;
+  permission: Permission;
+  // Roles the tab is shown to when more roles hold the permission; the route stays open to all of them
+  roles?: Role[];
+}
 
-  const getTabsForRole = () => {
-    switch (user?.role) {
-      case 'admin':
-        return [
-          { name: 'index', title: 'Dashboard', icon: Home },
-          { name: 'patients', title: 'Patients', icon: Baby },
-          { name: 'staff', title: 'Staff', icon: Users },
-          { name: 'appointments', title: 'Appointments', icon: Calendar },
-          { name: 'reports', title: 'Reports', icon: BarChart3 },
-          { name: 'settings', title: 'Settings', icon: Settings },
-        ];
-      case 'doctor':
-        return [
-          { name: 'index', title: 'Dashboard', icon: Home },
-          { name: 'patients', title: 'My Patients', icon: Baby },
-          { name: 'appointments', title: 'Schedule', icon: Calendar },
-          { name: 'messages', title: 'Messages', icon: MessageCircle },
-          { name: 'reports', title: 'Reports', icon: BarChart3 },
-        ];
-      case 'staff':
-        return [
-          { name: 'index', title: 'Dashboard', icon: Home },
-          { name: 'patients', title: 'Patients', icon: Baby },
-          { name: 'appointments', title: 'Appointments', icon: Calendar },
-          { name: 'tasks', title: 'Tasks', icon: ClipboardList },
-        ];
-      case 'parent':
-      default:
-        return [
-          { name: 'index', title: 'Home', icon: Home },
-          { name: 'babies', title: 'My Babies', icon: Baby },
-          { name: 'appointments', title: 'Appointments', icon: Calendar },
-          { name: 'messages', title: 'Messages', icon: MessageCircle },
-          { name: 'growth', title: 'Growth', icon: BarChart3 },
-        ];
-    }
-  };
+// Every screen in this folder, in tab bar order; each role sees the tabs it has permission for.
+// The tab sets are the ones each role had before the permission model, with two additions:
+// Settings for every role, since notification preferences are per user, and Messages for
+// staff, who work the triage queue.
+const TABS: TabConfig[] = [
+  { name: 'index', title: 'Dashboard', roleTitles: { parent: 'Home' }, icon: Home, permission: 'dashboard.view' },
+  { name: 'patients', title: 'Patients', roleTitles: { doctor: 'My Patients' }, icon: Baby, permission: 'patients.list' },
+  { name: 'babies', title: 'My Babies', icon: Baby, permission: 'babies.list' },
+  { name: 'staff', title: 'Staff', icon: Users, permission: 'staff.manage' },
+  { name: 'appointments', title: 'Appointments', roleTitles: { doctor: 'Schedule' }, icon: Calendar, permission: 'appointments.view' },
+  { name: 'messages', title: 'Messages', icon: MessageCircle, permission: 'messages.view', roles: ['doctor', 'staff', 'parent'] },
+  { name: 'tasks', title: 'Tasks', icon: ClipboardList, permission: 'tasks.manage', roles: ['staff'] },
+  { name: 'growth', title: 'Growth', icon: BarChart3, permission: 'growth.view' },
+  { name: 'reports', title: 'Reports', icon: BarChart3, permission: 'reports.view' },
+  { name: 'settings', title: 'Settings', icon: Settings, permission: 'settings.view' },
+];
 
-  const tabs = getTabsForRole();
+export default function TabLayout() {
+  const { user } = useAuth();
 
   return (
     <Tabs
@@ -70,12 +58,14 @@ export default function TabLayout() {
         },
       }}
     >
-      {tabs.map((tab) => (
+      {TABS.map((tab) => (
         <Tabs.Screen
           key={tab.name}
           name={tab.name}
           options={{
-            title: tab.title,
+            title: (user && tab.roleTitles?.[user.role]) || tab.title,
+            // Hidden tabs stay registered so expo-router does not add them back with default options
+            href: can(user, tab.permission) && (!tab.roles || tab.roles.includes(user!.role)) ? undefined : null,
             tabBarIcon: ({ size, color }) => (
               <tab.icon size={size} color={color} strokeWidth={2} />
             ),
@@ -8,13 +8,15 @@ import {
   RefreshControl,
 } from 'react-native';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
-import { Calendar, Clock, User, Baby, CircleCheck as CheckCircle, Circle as XCircle, CircleAlert as AlertCircle, Plus } from 'lucide-react-native';
-import type { Appointment } from '@/types/database';
+import { router } from 'expo-router';
+import { Calendar, Clock, User, Baby, CircleCheck as CheckCircle, Circle as XCircle, CircleAlert as AlertCircle, Plus, UserCheck } from 'lucide-react-native';
+import { APPOINTMENT_STATUS_LABELS, getAppointmentStatusColor } from '@/lib/appointmentLifecycle';
+import { getPermissionScope } from '@/lib/permissions';
+import { selectAppointmentListItems, type AppointmentListItem } from '@/lib/queries';
 
 export default function AppointmentsScreen() {
   const { user } = useAuth();
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [appointments, setAppointments] = useState<AppointmentListItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const mounted = useRef(true);
@@ -30,18 +32,12 @@ export default function AppointmentsScreen() {
 
   const loadAppointments = async () => {
     try {
-      let query = supabase
-        .from('appointments')
-        .select(`
-          *,
-          babies (*),
-          users!appointments_doctor_id_fkey (*),
-          parents:users!appointments_parent_id_fkey (*)
-        `)
+      let query = selectAppointmentListItems()
         .order('appointment_date', { ascending: true });
 
-      if (user?.role === 'parent') {
-        query = query.eq('parent_id', user.id);
+      // Families only see their own appointments; doctors see their own schedule
+      if (getPermissionScope(user, 'appointments.view') === 'own') {
+        query = query.eq('parent_id', user!.id);
       } else if (user?.role === 'doctor') {
         query = query.eq('doctor_id', user.id);
       }
@@ -71,26 +67,16 @@ export default function AppointmentsScreen() {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'confirmed':
-        return '#10b981';
-      case 'completed':
-        return '#0ea5e9';
-      case 'cancelled':
-        return '#ef4444';
-      default:
-        return '#f59e0b';
-    }
-  };
-
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'confirmed':
         return CheckCircle;
+      case 'checked_in':
+        return UserCheck;
       case 'completed':
         return CheckCircle;
       case 'cancelled':
+      case 'no_show':
         return XCircle;
       default:
         return AlertCircle;
@@ -127,7 +113,7 @@ export default function AppointmentsScreen() {
     return date < now;
   };
 
-  const renderAppointmentCard = (appointment: Appointment) => {
+  const renderAppointmentCard = (appointment: AppointmentListItem) => {
     const StatusIcon = getStatusIcon(appointment.status);
     const isAppointmentToday = isToday(appointment.appointment_date);
     const isAppointmentPast = isPast(appointment.appointment_date);
@@ -140,6 +126,7 @@ export default function AppointmentsScreen() {
           isAppointmentToday && styles.todayCard,
           isAppointmentPast && appointment.status !== 'completed' && styles.pastCard,
         ]}
+        onPress={() => router.push(`/appointment/${appointment.id}`)}
       >
         <View style={styles.appointmentHeader}>
           <View style={styles.dateTimeContainer}>
@@ -153,9 +140,9 @@ export default function AppointmentsScreen() {
             </View>
           </View>
 
-          <View style={[styles.statusBadge, { backgroundColor: getStatusColor(appointment.status) }]}>
+          <View style={[styles.statusBadge, { backgroundColor: getAppointmentStatusColor(appointment.status) }]}>
             <StatusIcon size={16} color="#ffffff" strokeWidth={2} />
-            <Text style={styles.statusText}>{appointment.status}</Text>
+            <Text style={styles.statusText}>{APPOINTMENT_STATUS_LABELS[appointment.status]}</Text>
           </View>
         </View>
 
@@ -163,7 +150,7 @@ export default function AppointmentsScreen() {
           <View style={styles.participantInfo}>
             <Baby size={20} color="#0ea5e9" strokeWidth={2} />
             <Text style={styles.participantName}>
-              {appointment.babies?.first_name} {appointment.babies?.last_name}
+              {appointment.baby.first_name} {appointment.baby.last_name}
             </Text>
           </View>
 
@@ -171,7 +158,7 @@ export default function AppointmentsScreen() {
             <View style={styles.participantInfo}>
               <User size={20} color="#64748b" strokeWidth={2} />
               <Text style={styles.participantName}>
-                {appointment.parents?.first_name} {appointment.parents?.last_name}
+                {appointment.parent.first_name} {appointment.parent.last_name}
               </Text>
             </View>
           )}
@@ -180,7 +167,7 @@ export default function AppointmentsScreen() {
             <View style={styles.participantInfo}>
               <User size={20} color="#64748b" strokeWidth={2} />
               <Text style={styles.participantName}>
-                Dr. {appointment.users?.first_name} {appointment.users?.last_name}
+                Dr. {appointment.doctor.first_name} {appointment.doctor.last_name}
               </Text>
             </View>
           )}
@@ -194,6 +181,10 @@ export default function AppointmentsScreen() {
         {appointment.notes && (
           <Text style={styles.notes}>{appointment.notes}</Text>
         )}
+
+        {appointment.reschedule_requested_at && user?.role !== 'parent' && (
+          <Text style={styles.rescheduleRequest}>New time requested by family</Text>
+        )}
       </TouchableOpacity>
     );
   };
@@ -202,11 +193,22 @@ export default function AppointmentsScreen() {
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Appointments</Text>
-        {user?.role === 'parent' && (
-          <TouchableOpacity style={styles.addButton}>
+        <View style={styles.headerActions}>
+          {user?.role === 'doctor' && (
+            <TouchableOpacity
+              style={[styles.addButton, styles.secondaryHeaderButton]}
+              onPress={() => router.push('/availability')}
+            >
+              <Clock size={24} color="#ffffff" strokeWidth={2} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => router.push('/book-appointment')}
+          >
             <Plus size={24} color="#ffffff" strokeWidth={2} />
           </TouchableOpacity>
-        )}
+        </View>
       </View>
 
       <ScrollView 
@@ -267,6 +269,13 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  secondaryHeaderButton: {
+    backgroundColor: '#334155',
+  },
   content: {
     flex: 1,
   },
@@ -403,4 +412,10 @@ const styles = StyleSheet.create({
     marginTop: 12,
     fontStyle: 'italic',
   },
+  rescheduleRequest: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#b45309',
+    marginTop: 8,
+  },
 });
\ No newline at end of file
@@ -12,11 +12,13 @@ import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { router } from 'expo-router';
 import { Plus, Baby, Calendar, Weight, Ruler } from 'lucide-react-native';
-import type { Baby as BabyType } from '@/types/database';
+import RequirePermission from '@/components/RequirePermission';
+import { calculateAge } from '@/lib/age';
+import { BABY_WITH_ALLERGIES, selectBabiesWithAllergies, type BabyWithAllergies } from '@/lib/queries';
 
 export default function BabiesScreen() {
   const { user } = useAuth();
-  const [babies, setBabies] = useState<BabyType[]>([]);
+  const [babies, setBabies] = useState<BabyWithAllergies[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const mounted = useRef(true);
@@ -38,17 +40,15 @@ export default function BabiesScreen() {
           .from('parent_babies')
           .select(`
             baby_id,
-            babies (*)
+            babies (${BABY_WITH_ALLERGIES})
           `)
           .eq('parent_id', user.id);
 
-        const babyData = parentBabies?.map(pb => pb.babies).filter(Boolean) || [];
-        setBabies(babyData as BabyType[]);
+        const babyData = parentBabies?.map(pb => pb.babies) || [];
+        setBabies(babyData);
       } else {
         // Load all babies for staff/doctors/admin
-        const { data } = await supabase
-          .from('babies')
-          .select('*')
+        const { data } = await selectBabiesWithAllergies()
           .order('created_at', { ascending: false });
 
         if (mounted.current) {
@@ -74,22 +74,7 @@ export default function BabiesScreen() {
     }
   };
 
-  const calculateAge = (birthDate: string) => {
-    const birth = new Date(birthDate);
-    const now = new Date();
-    const ageInMonths = (now.getFullYear() - birth.getFullYear()) * 12 + 
-                       (now.getMonth() - birth.getMonth());
-    
-    if (ageInMonths < 12) {
-      return `${ageInMonths} months`;
-    } else {
-      const years = Math.floor(ageInMonths / 12);
-      const months = ageInMonths % 12;
-      return months > 0 ? `${years}y ${months}m` : `${years} years`;
-    }
-  };
-
-  const renderBabyCard = (baby: BabyType) => (
+  const renderBabyCard = (baby: BabyWithAllergies) => (
     <TouchableOpacity 
       key={baby.id} 
       style={styles.babyCard}
@@ -137,14 +122,14 @@ export default function BabiesScreen() {
         <Text style={styles.headerTitle}>
           {user?.role === 'parent' ? 'My Babies' : 'Patients'}
         </Text>
-        {(user?.role === 'admin' || user?.role === 'doctor' || user?.role === 'staff') && (
+        <RequirePermission permission="patients.create">
           <TouchableOpacity 
             style={styles.addButton}
             onPress={() => router.push('/add-baby')}
           >
             <Plus size={24} color="#ffffff" strokeWidth={2} />
           </TouchableOpacity>
-        )}
+        </RequirePermission>
       </View>
 
       <ScrollView 
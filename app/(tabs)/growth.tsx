@@ -11,22 +11,29 @@ import {
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { LineChart } from 'react-native-chart-kit';
+import MilestoneTracker from '@/components/MilestoneTracker';
 import { 
   TrendingUp, 
   Weight, 
   Ruler, 
   Calendar,
   Baby,
-  Plus
+  Plus,
+  Clock
 } from 'lucide-react-native';
-import type { VitalRecord, Baby as BabyType } from '@/types/database';
+import {
+  assessGrowth,
+  formatPercentile,
+  getAgeInMonths,
+  getPercentileValue,
+  PERCENTILE_BANDS,
+  type GrowthIndicator,
+  type GrowthStatus,
+} from '@/lib/growthStandards';
+import { BABY_WITH_VITALS, type BabyWithVitals } from '@/lib/queries';
 
 const screenWidth = Dimensions.get('window').width;
 
-interface BabyWithVitals extends BabyType {
-  vital_records: VitalRecord[];
-}
-
 export default function GrowthScreen() {
   const { user } = useAuth();
   const [babies, setBabies] = useState<BabyWithVitals[]>([]);
@@ -51,20 +58,17 @@ export default function GrowthScreen() {
           .from('parent_babies')
           .select(`
             baby_id,
-            babies (
-              *,
-              vital_records (*)
-            )
+            babies (${BABY_WITH_VITALS})
           `)
           .eq('parent_id', user.id);
 
-        const babyData = parentBabies?.map(pb => pb.babies).filter(Boolean) || [];
+        const babyData = parentBabies?.map(pb => pb.babies) || [];
         if (mounted.current) {
-          setBabies(babyData as BabyWithVitals[]);
+          setBabies(babyData);
         }
         if (babyData.length > 0) {
           if (mounted.current) {
-            setSelectedBaby(babyData[0] as BabyWithVitals);
+            setSelectedBaby(babyData[0]);
           }
         }
       }
@@ -87,56 +91,59 @@ export default function GrowthScreen() {
     }
   };
 
-  const getWeightData = () => {
+  const getChartData = (
+    indicator: 'weight_for_age' | 'length_for_age' | 'head_circumference_for_age',
+    field: 'weight' | 'height' | 'head_circumference',
+    rgb: string
+  ) => {
     if (!selectedBaby?.vital_records) return { labels: [], datasets: [{ data: [] }] };
-    
-    const weightRecords = selectedBaby.vital_records
-      .filter(record => record.weight)
-      .sort((a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime())
-      .slice(-6); // Last 6 records
 
-    const labels = weightRecords.map(record => {
-      const date = new Date(record.recorded_at);
-      return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-    });
-
-    const data = weightRecords.map(record => record.weight || 0);
-
-    return {
-      labels: labels.length > 0 ? labels : ['No Data'],
-      datasets: [{
-        data: data.length > 0 ? data : [0],
-        color: (opacity = 1) => `rgba(14, 165, 233, ${opacity})`,
-        strokeWidth: 3,
-      }],
-    };
-  };
-
-  const getHeightData = () => {
-    if (!selectedBaby?.vital_records) return { labels: [], datasets: [{ data: [] }] };
-    
-    const heightRecords = selectedBaby.vital_records
-      .filter(record => record.height)
+    const records = selectedBaby.vital_records
+      .filter(record => record[field])
       .sort((a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime())
       .slice(-6); // Last 6 records
 
-    const labels = heightRecords.map(record => {
+    const labels = records.map(record => {
       const date = new Date(record.recorded_at);
       return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
     });
 
-    const data = heightRecords.map(record => record.height || 0);
+    const data = records.map(record => record[field] || 0);
+
+    // Reference curves evaluated at each record's age, so they line up with the plotted points
+    const ages = records.map(record => getAgeInMonths(selectedBaby.birth_date, record.recorded_at));
+    const bands = PERCENTILE_BANDS.map(band => ({
+      band,
+      data: ages.map(age => getPercentileValue(indicator, selectedBaby.gender, age, band.zScore)),
+    }))
+      .filter(({ data }) => data.length > 0 && data.every(value => value != null))
+      .map(({ band, data }) => ({
+        data: data as number[],
+        color: (opacity = 1) =>
+          band.percentile === 50
+            ? `rgba(100, 116, 139, ${opacity * 0.8})`
+            : `rgba(148, 163, 184, ${opacity * 0.5})`,
+        strokeWidth: band.percentile === 50 ? 2 : 1,
+        strokeDashArray: band.percentile === 50 ? undefined : [4, 4],
+        withDots: false,
+      }));
 
     return {
       labels: labels.length > 0 ? labels : ['No Data'],
-      datasets: [{
-        data: data.length > 0 ? data : [0],
-        color: (opacity = 1) => `rgba(16, 185, 129, ${opacity})`,
-        strokeWidth: 3,
-      }],
+      datasets: [
+        {
+          data: data.length > 0 ? data : [0],
+          color: (opacity = 1) => `rgba(${rgb}, ${opacity})`,
+          strokeWidth: 3,
+        },
+        ...bands,
+      ],
     };
   };
 
+  const hasRecords = (field: 'weight' | 'height' | 'head_circumference') =>
+    !!selectedBaby?.vital_records?.some(record => record[field]);
+
   const getLatestVitals = () => {
     if (!selectedBaby?.vital_records || selectedBaby.vital_records.length === 0) {
       return { weight: null, height: null, lastUpdated: null };
@@ -152,6 +159,28 @@ export default function GrowthScreen() {
     };
   };
 
+  const assessment = selectedBaby
+    ? assessGrowth(selectedBaby, selectedBaby.vital_records || [])
+    : null;
+
+  const getPercentileLabel = (indicator: GrowthIndicator) => {
+    const measurement = assessment?.latest?.measurements[indicator];
+    return measurement ? `${formatPercentile(measurement.percentile)} percentile` : null;
+  };
+
+  const getAssessmentColor = (status: GrowthStatus) => {
+    switch (status) {
+      case 'concern':
+        return '#ef4444';
+      case 'monitor':
+        return '#f59e0b';
+      case 'insufficient_data':
+        return '#64748b';
+      default:
+        return '#10b981';
+    }
+  };
+
   const chartConfig = {
     backgroundColor: '#ffffff',
     backgroundGradientFrom: '#ffffff',
@@ -240,6 +269,9 @@ export default function GrowthScreen() {
                       {getLatestVitals().weight || '--'} kg
                     </Text>
                     <Text style={styles.statLabel}>Weight</Text>
+                    {getPercentileLabel('weight_for_age') && (
+                      <Text style={styles.statPercentile}>{getPercentileLabel('weight_for_age')}</Text>
+                    )}
                   </View>
 
                   <View style={styles.statCard}>
@@ -248,6 +280,9 @@ export default function GrowthScreen() {
                       {getLatestVitals().height || '--'} cm
                     </Text>
                     <Text style={styles.statLabel}>Height</Text>
+                    {getPercentileLabel('length_for_age') && (
+                      <Text style={styles.statPercentile}>{getPercentileLabel('length_for_age')}</Text>
+                    )}
                   </View>
                 </View>
                 
@@ -262,11 +297,15 @@ export default function GrowthScreen() {
               </View>
 
               <View style={styles.chartsContainer}>
+                <Text style={styles.chartLegend}>
+                  Dashed lines show the 3rd, 15th, 85th and 97th percentiles; the solid grey line is the median.
+                </Text>
+
                 <View style={styles.chartSection}>
-                  <Text style={styles.chartTitle}>Weight Progression</Text>
+                  <Text style={styles.chartTitle}>Weight-for-Age</Text>
                   <View style={styles.chartWrapper}>
                     <LineChart
-                      data={getWeightData()}
+                      data={getChartData('weight_for_age', 'weight', '14, 165, 233')}
                       width={screenWidth - 48}
                       height={220}
                       chartConfig={chartConfig}
@@ -277,10 +316,10 @@ export default function GrowthScreen() {
                 </View>
 
                 <View style={styles.chartSection}>
-                  <Text style={styles.chartTitle}>Height Progression</Text>
+                  <Text style={styles.chartTitle}>Length-for-Age</Text>
                   <View style={styles.chartWrapper}>
                     <LineChart
-                      data={getHeightData()}
+                      data={getChartData('length_for_age', 'height', '16, 185, 129')}
                       width={screenWidth - 48}
                       height={220}
                       chartConfig={chartConfig}
@@ -289,17 +328,49 @@ export default function GrowthScreen() {
                     />
                   </View>
                 </View>
+
+                {hasRecords('head_circumference') && (
+                  <View style={styles.chartSection}>
+                    <Text style={styles.chartTitle}>Head Circumference-for-Age</Text>
+                    <View style={styles.chartWrapper}>
+                      <LineChart
+                        data={getChartData('head_circumference_for_age', 'head_circumference', '139, 92, 246')}
+                        width={screenWidth - 48}
+                        height={220}
+                        chartConfig={chartConfig}
+                        bezier
+                        style={styles.chart}
+                      />
+                    </View>
+                  </View>
+                )}
               </View>
 
-              <View style={styles.milestonesContainer}>
-                <Text style={styles.sectionTitle}>Growth Milestones</Text>
-                <View style={styles.milestoneCard}>
-                  <Text style={styles.milestoneTitle}>Development on Track</Text>
-                  <Text style={styles.milestoneDescription}>
-                    {selectedBaby.first_name}'s growth is following expected patterns. 
-                    Continue regular check-ups and monitoring.
-                  </Text>
+              {assessment && (
+                <View style={styles.milestonesContainer}>
+                  <Text style={styles.sectionTitle}>Growth Assessment</Text>
+                  <View style={styles.milestoneCard}>
+                    <Text style={[styles.milestoneTitle, { color: getAssessmentColor(assessment.status) }]}>
+                      {assessment.title}
+                    </Text>
+                    <Text style={styles.milestoneDescription}>
+                      {assessment.description}
+                    </Text>
+                    {assessment.findings.length > 0 && (
+                      <View style={styles.findingsList}>
+                        {assessment.findings.map((finding) => (
+                          <Text key={finding} style={styles.findingText}>
+                            • {finding}
+                          </Text>
+                        ))}
+                      </View>
+                    )}
+                  </View>
                 </View>
+              )}
+
+              <View style={styles.milestonesContainer}>
+                <MilestoneTracker key={selectedBaby.id} babyId={selectedBaby.id} birthDate={selectedBaby.birth_date} />
               </View>
             </>
           )}
@@ -436,6 +507,12 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#64748b',
   },
+  statPercentile: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#0ea5e9',
+    marginTop: 4,
+  },
   lastUpdated: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -456,6 +533,11 @@ const styles = StyleSheet.create({
   chartSection: {
     marginBottom: 32,
   },
+  chartLegend: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 16,
+  },
   chartTitle: {
     fontSize: 18,
     fontWeight: '700',
@@ -501,4 +583,16 @@ const styles = StyleSheet.create({
     color: '#64748b',
     lineHeight: 20,
   },
+  findingsList: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+    gap: 4,
+  },
+  findingText: {
+    fontSize: 13,
+    color: '#1e293b',
+    lineHeight: 18,
+  },
 });
\ No newline at end of file
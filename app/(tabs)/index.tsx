@@ -52,19 +52,21 @@ export default function DashboardScreen() {
   };
 
   const loadParentStats = async () => {
+    if (!user) return;
+
     const today = new Date().toISOString().split('T')[0];
     
     // Get parent's babies
     const { data: babies } = await supabase
       .from('parent_babies')
       .select('baby_id')
-      .eq('parent_id', user?.id);
+      .eq('parent_id', user.id);
 
     // Get today's appointments
     const { data: appointments } = await supabase
       .from('appointments')
       .select('*')
-      .eq('parent_id', user?.id)
+      .eq('parent_id', user.id)
       .gte('appointment_date', today)
       .lt('appointment_date', new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString());
 
@@ -72,7 +74,7 @@ export default function DashboardScreen() {
     const { data: messages } = await supabase
       .from('messages')
       .select('*')
-      .eq('recipient_id', user?.id)
+      .eq('recipient_id', user.id)
       .eq('is_read', false);
 
     if (mounted.current) {
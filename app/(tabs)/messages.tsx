@@ -9,52 +9,82 @@ import {
 } from 'react-native';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { router } from 'expo-router';
 import { 
   MessageCircle, 
   User, 
-  Clock, 
   Send,
   Baby,
-  Stethoscope
+  Users,
+  Clock
 } from 'lucide-react-native';
-import type { Message } from '@/types/database';
+import { getParticipantProfile, isClinicRole, isUnreadFor } from '@/lib/conversations';
+import { describeSla, getUrgencyColor, URGENCY_LABELS } from '@/lib/triage';
+import { selectConversationThreads, type ConversationThread } from '@/lib/queries';
+import type { Conversation, Message } from '@/types/database';
 
-interface MessageWithSender extends Message {
-  sender: {
-    first_name: string;
-    last_name: string;
-    role: string;
-  };
-  baby?: {
-    first_name: string;
-    last_name: string;
-  };
-}
+type ThreadFilter = 'queue' | 'mine' | 'urgent' | 'resolved' | 'all';
+
+const CLINIC_FILTERS: { key: ThreadFilter; label: string; doctorsOnly?: boolean }[] = [
+  { key: 'mine', label: 'Assigned to Me', doctorsOnly: true },
+  { key: 'queue', label: 'Queue' },
+  { key: 'urgent', label: 'Urgent' },
+  { key: 'resolved', label: 'Resolved' },
+  { key: 'all', label: 'All' },
+];
+
+const URGENCY_RANK: Record<Conversation['urgency'], number> = { urgent: 0, priority: 1, routine: 2 };
 
 export default function MessagesScreen() {
   const { user } = useAuth();
-  const [messages, setMessages] = useState<MessageWithSender[]>([]);
+  const [threads, setThreads] = useState<ConversationThread[]>([]);
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [filter, setFilter] = useState<ThreadFilter>(user?.role === 'doctor' ? 'mine' : 'queue');
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const mounted = useRef(true);
+  const threadsRef = useRef<ConversationThread[]>([]);
+
+  const isParent = user?.role === 'parent';
 
   useEffect(() => {
     mounted.current = true;
-    loadMessages();
+    loadThreads();
     
-    // Subscribe to real-time message updates
+    // Row level security limits these events to the user's own threads
     const subscription = supabase
-      .channel('messages')
+      .channel('conversations')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+        },
+        (payload) => {
+          receiveMessage(payload.new as Message);
+        }
+      )
       .on(
         'postgres_changes',
         {
-          event: '*',
+          event: 'UPDATE',
           schema: 'public',
           table: 'messages',
-          filter: `recipient_id=eq.${user?.id}`,
         },
         () => {
-          loadMessages();
+          loadUnreadCounts();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'conversations',
+        },
+        (payload) => {
+          updateThread(payload.new as Conversation);
         }
       )
       .subscribe();
@@ -65,24 +95,26 @@ export default function MessagesScreen() {
     };
   }, []);
 
-  const loadMessages = async () => {
+  useEffect(() => {
+    threadsRef.current = threads;
+  }, [threads]);
+
+  const loadThreads = async () => {
+    if (!user) return;
+
     try {
-      const { data, error } = await supabase
-        .from('messages')
-        .select(`
-          *,
-          sender:users!messages_sender_id_fkey (first_name, last_name, role),
-          baby:babies (first_name, last_name)
-        `)
-        .eq('recipient_id', user?.id)
-        .order('sent_at', { ascending: false });
+      const { data, error } = await selectConversationThreads()
+        .order('last_message_at', { ascending: false })
+        .order('sent_at', { referencedTable: 'messages', ascending: false })
+        .limit(1, { referencedTable: 'messages' });
 
       if (error) throw error;
       if (mounted.current) {
-        setMessages(data || []);
+        setThreads(data || []);
       }
+      await loadUnreadCounts();
     } catch (error) {
-      console.error('Error loading messages:', error);
+      console.error('Error loading conversations:', error);
     } finally {
       if (mounted.current) {
         setLoading(false);
@@ -90,32 +122,89 @@ export default function MessagesScreen() {
     }
   };
 
-  const onRefresh = async () => {
-    if (mounted.current) {
-      setRefreshing(true);
+  const loadUnreadCounts = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('conversation_id, sender_id, is_read, sender:user_profiles!messages_sender_id_fkey (role)')
+        .eq('is_read', false)
+        .neq('sender_id', user.id);
+
+      if (error) throw error;
+
+      const counts: Record<string, number> = {};
+      for (const message of data) {
+        if (!message.conversation_id) continue;
+        if (!isUnreadFor({ ...message, sender_role: message.sender?.role }, user)) continue;
+        counts[message.conversation_id] = (counts[message.conversation_id] || 0) + 1;
+      }
+
+      if (mounted.current) {
+        setUnreadCounts(counts);
+      }
+    } catch (error) {
+      console.error('Error loading unread counts:', error);
     }
-    await loadMessages();
-    if (mounted.current) {
-      setRefreshing(false);
+  };
+
+  // Assignment and SLA changes arrive without the embedded names
+  const updateThread = (conversation: Conversation) => {
+    if (conversation.assigned_to !== threadsRef.current.find(thread => thread.id === conversation.id)?.assigned_to) {
+      loadThreads();
+      return;
     }
+    setThreads(prev =>
+      prev.map(thread => (thread.id === conversation.id ? { ...thread, ...conversation } : thread))
+    );
   };
 
-  const markAsRead = async (messageId: string) => {
+  // Moves the thread to the top with the new preview instead of refetching the list
+  const receiveMessage = async (message: Message) => {
+    if (!user || !message.conversation_id) return;
+
     try {
-      await supabase
-        .from('messages')
-        .update({ is_read: true })
-        .eq('id', messageId);
-      
-      if (mounted.current) {
-        setMessages(prev => 
-        prev.map(msg => 
-          msg.id === messageId ? { ...msg, is_read: true } : msg
-        )
-        );
+      // A brand new thread needs its parent and baby details
+      if (!threadsRef.current.some(thread => thread.id === message.conversation_id)) {
+        await loadThreads();
+        return;
+      }
+
+      const sender = await getParticipantProfile(message.sender_id);
+      if (!mounted.current) return;
+      if (!sender) {
+        await loadThreads();
+        return;
+      }
+
+      setThreads(prev => {
+        const thread = prev.find(entry => entry.id === message.conversation_id);
+        if (!thread) return prev;
+        return [
+          { ...thread, last_message_at: message.sent_at, messages: [{ ...message, sender }] },
+          ...prev.filter(entry => entry.id !== thread.id),
+        ];
+      });
+
+      if (isUnreadFor({ ...message, sender_role: sender.role }, user)) {
+        setUnreadCounts(prev => ({
+          ...prev,
+          [message.conversation_id!]: (prev[message.conversation_id!] || 0) + 1,
+        }));
       }
     } catch (error) {
-      console.error('Error marking message as read:', error);
+      console.error('Error receiving message:', error);
+    }
+  };
+
+  const onRefresh = async () => {
+    if (mounted.current) {
+      setRefreshing(true);
+    }
+    await loadThreads();
+    if (mounted.current) {
+      setRefreshing(false);
     }
   };
 
@@ -134,59 +223,120 @@ export default function MessagesScreen() {
     });
   };
 
-  const getSenderIcon = (role: string) => {
-    switch (role) {
-      case 'doctor':
-        return Stethoscope;
-      case 'admin':
-      case 'staff':
-        return User;
+  const getThreadTitle = (thread: ConversationThread) => {
+    if (isParent) return 'Care Team';
+    return thread.parent ? `${thread.parent.first_name} ${thread.parent.last_name}` : 'Family';
+  };
+
+  const getPreview = (message?: ConversationThread['messages'][number]) => {
+    if (!message) return 'No messages yet';
+    const body = message.content || (message.message_type === 'image' ? 'Sent a photo' : 'Sent a document');
+    if (message.sender_id === user?.id) return `You: ${body}`;
+    if (message.sender && isClinicRole(message.sender.role) && isParent) {
+      const prefix = message.sender.role === 'doctor' ? 'Dr. ' : '';
+      return `${prefix}${message.sender.last_name}: ${body}`;
+    }
+    return body;
+  };
+
+  const matchesFilter = (thread: ConversationThread) => {
+    const active = thread.triage_status !== 'resolved';
+    switch (filter) {
+      case 'queue':
+        return thread.triage_status === 'open';
+      case 'mine':
+        return active && thread.assigned_to === user?.id;
+      case 'urgent':
+        return active && thread.urgency === 'urgent';
+      case 'resolved':
+        return !active;
       default:
-        return User;
+        return true;
     }
   };
 
-  const renderMessageCard = (message: MessageWithSender) => {
-    const SenderIcon = getSenderIcon(message.sender.role);
+  // Work queues put the most urgent and soonest-due threads first
+  const sortByTriage = (a: ConversationThread, b: ConversationThread) => {
+    const rank = URGENCY_RANK[a.urgency] - URGENCY_RANK[b.urgency];
+    if (rank !== 0) return rank;
+    const dueA = a.sla_due_at ? new Date(a.sla_due_at).getTime() : Infinity;
+    const dueB = b.sla_due_at ? new Date(b.sla_due_at).getTime() : Infinity;
+    if (dueA !== dueB) return dueA - dueB;
+    return new Date(b.last_message_at).getTime() - new Date(a.last_message_at).getTime();
+  };
+
+  const visibleThreads = isParent
+    ? threads
+    : threads.filter(matchesFilter).sort((a, b) =>
+        filter === 'all' || filter === 'resolved' ? 0 : sortByTriage(a, b)
+      );
+
+  const renderTriageInfo = (thread: ConversationThread) => {
+    const sla = describeSla(thread.sla_due_at);
+
+    return (
+      <View style={styles.triageRow}>
+        {thread.urgency !== 'routine' && (
+          <View style={[styles.urgencyBadge, { backgroundColor: getUrgencyColor(thread.urgency) }]}>
+            <Text style={styles.urgencyText}>{URGENCY_LABELS[thread.urgency]}</Text>
+          </View>
+        )}
+        <Text style={styles.assigneeText}>
+          {thread.assignee ? `Dr. ${thread.assignee.last_name}` : 'Unassigned'}
+        </Text>
+        {sla && thread.triage_status !== 'resolved' && (
+          <View style={styles.slaInfo}>
+            <Clock size={12} color={sla.overdue ? '#ef4444' : '#64748b'} strokeWidth={2} />
+            <Text style={[styles.slaText, sla.overdue && styles.overdueText]}>{sla.text}</Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderThreadCard = (thread: ConversationThread) => {
+    const ThreadIcon = isParent ? Users : User;
+    const lastMessage = thread.messages[0];
+    const unread = unreadCounts[thread.id] || 0;
     
     return (
       <TouchableOpacity 
-        key={message.id} 
-        style={[styles.messageCard, !message.is_read && styles.unreadCard]}
-        onPress={() => markAsRead(message.id)}
+        key={thread.id} 
+        style={[styles.messageCard, unread > 0 && styles.unreadCard]}
+        onPress={() => router.push(`/conversation/${thread.id}`)}
       >
         <View style={styles.messageHeader}>
           <View style={styles.senderInfo}>
             <View style={styles.senderAvatar}>
-              <SenderIcon size={20} color="#0ea5e9" strokeWidth={2} />
+              <ThreadIcon size={20} color="#0ea5e9" strokeWidth={2} />
             </View>
             <View style={styles.senderDetails}>
-              <Text style={styles.senderName}>
-                {message.sender.role === 'doctor' ? 'Dr. ' : ''}
-                {message.sender.first_name} {message.sender.last_name}
-              </Text>
-              <Text style={styles.senderRole}>{message.sender.role}</Text>
+              <Text style={styles.senderName}>{getThreadTitle(thread)}</Text>
+              <Text style={styles.senderRole}>{isParent ? 'Doctors & staff' : 'Parent'}</Text>
             </View>
           </View>
-          <Text style={styles.messageTime}>{formatTime(message.sent_at)}</Text>
+          <View style={styles.threadMeta}>
+            <Text style={styles.messageTime}>{formatTime(lastMessage?.sent_at ?? thread.last_message_at)}</Text>
+            {unread > 0 && (
+              <View style={styles.unreadBadge}>
+                <Text style={styles.unreadBadgeText}>{unread}</Text>
+              </View>
+            )}
+          </View>
         </View>
 
-        {message.baby && (
-          <View style={styles.babyInfo}>
-            <Baby size={16} color="#64748b" strokeWidth={2} />
-            <Text style={styles.babyName}>
-              Regarding {message.baby.first_name} {message.baby.last_name}
-            </Text>
-          </View>
-        )}
+        <View style={styles.babyInfo}>
+          <Baby size={16} color="#64748b" strokeWidth={2} />
+          <Text style={styles.babyName}>
+            {thread.baby ? `Regarding ${thread.baby.first_name} ${thread.baby.last_name}` : 'General questions'}
+          </Text>
+        </View>
 
-        <Text style={styles.messageContent} numberOfLines={3}>
-          {message.content}
+        <Text style={[styles.messageContent, unread > 0 && styles.unreadContent]} numberOfLines={2}>
+          {getPreview(lastMessage)}
         </Text>
 
-        {!message.is_read && (
-          <View style={styles.unreadIndicator} />
-        )}
+        {!isParent && renderTriageInfo(thread)}
       </TouchableOpacity>
     );
   };
@@ -195,11 +345,31 @@ export default function MessagesScreen() {
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Messages</Text>
-        <TouchableOpacity style={styles.composeButton}>
+        <TouchableOpacity style={styles.composeButton} onPress={() => router.push('/compose-message')}>
           <Send size={24} color="#ffffff" strokeWidth={2} />
         </TouchableOpacity>
       </View>
 
+      {!isParent && (
+        <View style={styles.filterContainer}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.filterRow}>
+              {CLINIC_FILTERS.filter(option => !option.doctorsOnly || user?.role === 'doctor').map(({ key, label }) => (
+                <TouchableOpacity
+                  key={key}
+                  style={[styles.filterChip, filter === key && styles.activeFilterChip]}
+                  onPress={() => setFilter(key)}
+                >
+                  <Text style={[styles.filterChipText, filter === key && styles.activeFilterChipText]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ScrollView>
+        </View>
+      )}
+
       <ScrollView 
         style={styles.content}
         refreshControl={
@@ -208,19 +378,25 @@ export default function MessagesScreen() {
       >
         {loading ? (
           <View style={styles.loadingContainer}>
-            <Text style={styles.loadingText}>Loading messages...</Text>
+            <Text style={styles.loadingText}>Loading conversations...</Text>
           </View>
-        ) : messages.length === 0 ? (
+        ) : visibleThreads.length === 0 ? (
           <View style={styles.emptyContainer}>
             <MessageCircle size={64} color="#94a3b8" strokeWidth={1.5} />
-            <Text style={styles.emptyTitle}>No messages yet</Text>
+            <Text style={styles.emptyTitle}>
+              {isParent || threads.length === 0 ? 'No messages yet' : 'Nothing here'}
+            </Text>
             <Text style={styles.emptyText}>
-              Messages from your healthcare team will appear here
+              {isParent
+                ? 'Start a conversation with your care team using the send button'
+                : threads.length === 0
+                  ? 'Conversations with families will appear here'
+                  : 'No conversations match this filter'}
             </Text>
           </View>
         ) : (
           <View style={styles.messagesList}>
-            {messages.map(renderMessageCard)}
+            {visibleThreads.map(renderThreadCard)}
           </View>
         )}
       </ScrollView>
@@ -255,6 +431,37 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  filterContainer: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  activeFilterChip: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  filterChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  activeFilterChipText: {
+    color: '#ffffff',
+  },
   content: {
     flex: 1,
   },
@@ -366,13 +573,64 @@ const styles = StyleSheet.create({
     color: '#1e293b',
     lineHeight: 24,
   },
-  unreadIndicator: {
-    position: 'absolute',
-    top: 16,
-    right: 16,
-    width: 8,
-    height: 8,
+  unreadContent: {
+    fontWeight: '600',
+  },
+  threadMeta: {
+    alignItems: 'flex-end',
+    gap: 6,
+  },
+  unreadBadge: {
+    minWidth: 22,
+    height: 22,
+    paddingHorizontal: 6,
     backgroundColor: '#0ea5e9',
-    borderRadius: 4,
+    borderRadius: 11,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  unreadBadgeText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  triageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  urgencyBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  urgencyText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  assigneeText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#64748b',
+  },
+  slaInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 'auto',
+  },
+  slaText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  overdueText: {
+    color: '#ef4444',
+    fontWeight: '600',
   },
-});
\ No newline at end of file
+});
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -9,29 +9,34 @@ import {
   TextInput,
 } from 'react-native';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
 import { router } from 'expo-router';
-import { Search, Plus, Baby, Calendar, Weight, Ruler, Activity, TriangleAlert as AlertTriangle } from 'lucide-react-native';
-import type { Baby as BabyType } from '@/types/database';
+import { Search, Plus, Baby, Calendar, Weight, Ruler, Activity, TriangleAlert as AlertTriangle, TrendingDown } from 'lucide-react-native';
+import SevereAllergyBanner from '@/components/SevereAllergyBanner';
+import { calculateAge } from '@/lib/age';
+import { ALLERGY_SEVERITY_LABELS, getActiveAllergies, getAllergySeverityColor } from '@/lib/allergies';
+import {
+  DEFAULT_GROWTH_ALERT_CONFIG,
+  evaluateGrowthAlerts,
+  type GrowthAlert,
+} from '@/lib/growthAlerts';
+import { selectPatients, type Patient } from '@/lib/queries';
+import type { VitalRecord } from '@/types/database';
 
-interface BabyWithDoctor extends BabyType {
-  assigned_doctor?: {
-    first_name: string;
-    last_name: string;
-  };
-  latest_vitals?: {
-    weight?: number;
-    height?: number;
-    temperature?: number;
-    recorded_at: string;
-  };
-}
+type BabyWithDoctor = Patient & { latest_vitals?: VitalRecord };
+
+type PatientFilter = 'all' | 'attention';
+
+const FLAT_WEIGHT_WINDOWS = [14, 30, 60];
 
 export default function PatientsScreen() {
   const { user } = useAuth();
   const [patients, setPatients] = useState<BabyWithDoctor[]>([]);
   const [filteredPatients, setFilteredPatients] = useState<BabyWithDoctor[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [filter, setFilter] = useState<PatientFilter>('all');
+  const [flatWeightWindowDays, setFlatWeightWindowDays] = useState(
+    DEFAULT_GROWTH_ALERT_CONFIG.flatWeightWindowDays
+  );
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -41,17 +46,11 @@ export default function PatientsScreen() {
 
   useEffect(() => {
     filterPatients();
-  }, [searchQuery, patients]);
+  }, [searchQuery, patients, filter, flatWeightWindowDays]);
 
   const loadPatients = async () => {
     try {
-      let query = supabase
-        .from('babies')
-        .select(`
-          *,
-          assigned_doctor:users!babies_assigned_doctor_id_fkey (first_name, last_name),
-          vital_records (weight, height, temperature, recorded_at)
-        `)
+      let query = selectPatients()
         .order('created_at', { ascending: false });
 
       // For doctors, only show their assigned patients
@@ -67,7 +66,7 @@ export default function PatientsScreen() {
       const processedData = data?.map(baby => ({
         ...baby,
         latest_vitals: baby.vital_records
-          ?.sort((a, b) => new Date(b.recorded_at).getTime() - new Date(a.recorded_at).getTime())[0]
+          .sort((a, b) => new Date(b.recorded_at).getTime() - new Date(a.recorded_at).getTime())[0]
       })) || [];
 
       setPatients(processedData);
@@ -78,41 +77,42 @@ export default function PatientsScreen() {
     }
   };
 
+  // Alerts are evaluated once per load or window change, not on every render and filter pass
+  const alertsByPatient = useMemo(() => {
+    const config = { ...DEFAULT_GROWTH_ALERT_CONFIG, flatWeightWindowDays };
+    return new Map(
+      patients.map(patient => [patient.id, evaluateGrowthAlerts(patient, patient.vital_records || [], config)])
+    );
+  }, [patients, flatWeightWindowDays]);
+
+  const getAlerts = (patient: BabyWithDoctor): GrowthAlert[] => alertsByPatient.get(patient.id) ?? [];
+
   const filterPatients = () => {
-    if (!searchQuery.trim()) {
-      setFilteredPatients(patients);
-      return;
+    let filtered = patients;
+
+    if (filter === 'attention') {
+      filtered = filtered.filter(patient => getAlerts(patient).length > 0);
+    }
+
+    if (searchQuery.trim()) {
+      filtered = filtered.filter(patient =>
+        `${patient.first_name} ${patient.last_name}`
+          .toLowerCase()
+          .includes(searchQuery.toLowerCase())
+      );
     }
 
-    const filtered = patients.filter(patient =>
-      `${patient.first_name} ${patient.last_name}`
-        .toLowerCase()
-        .includes(searchQuery.toLowerCase())
-    );
     setFilteredPatients(filtered);
   };
 
+  const attentionCount = patients.filter(patient => getAlerts(patient).length > 0).length;
+
   const onRefresh = async () => {
     setRefreshing(true);
     await loadPatients();
     setRefreshing(false);
   };
 
-  const calculateAge = (birthDate: string) => {
-    const birth = new Date(birthDate);
-    const now = new Date();
-    const ageInMonths = (now.getFullYear() - birth.getFullYear()) * 12 + 
-                       (now.getMonth() - birth.getMonth());
-    
-    if (ageInMonths < 12) {
-      return `${ageInMonths} months`;
-    } else {
-      const years = Math.floor(ageInMonths / 12);
-      const months = ageInMonths % 12;
-      return months > 0 ? `${years}y ${months}m` : `${years} years`;
-    }
-  };
-
   const getVitalStatus = (patient: BabyWithDoctor) => {
     if (!patient.latest_vitals) return 'No data';
     
@@ -135,69 +135,119 @@ export default function PatientsScreen() {
     return '#ef4444';
   };
 
-  const renderPatientCard = (patient: BabyWithDoctor) => (
-    <TouchableOpacity 
-      key={patient.id} 
-      style={styles.patientCard}
-      onPress={() => router.push(`/patient/${patient.id}`)}
-    >
-      <View style={styles.patientHeader}>
-        <View style={styles.patientAvatar}>
-          <Baby size={24} color="#0ea5e9" strokeWidth={2} />
-        </View>
-        
-        <View style={styles.patientBasicInfo}>
-          <Text style={styles.patientName}>
-            {patient.first_name} {patient.last_name}
-          </Text>
-          <Text style={styles.patientAge}>
-            {calculateAge(patient.birth_date)} • {patient.gender}
-          </Text>
-          {patient.assigned_doctor && (
-            <Text style={styles.doctorName}>
-              Dr. {patient.assigned_doctor.first_name} {patient.assigned_doctor.last_name}
+  const renderPatientCard = (patient: BabyWithDoctor) => {
+    const alerts = getAlerts(patient);
+    // Severe allergies get their own banner; the rest are listed with their severity
+    const otherAllergies = getActiveAllergies(patient.allergies).filter(allergy => allergy.severity !== 'severe');
+
+    return (
+      <TouchableOpacity 
+        key={patient.id} 
+        style={styles.patientCard}
+        onPress={() => router.push(`/patient/${patient.id}`)}
+      >
+        <View style={styles.patientHeader}>
+          <View style={styles.patientAvatar}>
+            <Baby size={24} color="#0ea5e9" strokeWidth={2} />
+          </View>
+          
+          <View style={styles.patientBasicInfo}>
+            <Text style={styles.patientName}>
+              {patient.first_name} {patient.last_name}
+            </Text>
+            <Text style={styles.patientAge}>
+              {calculateAge(patient.birth_date)} • {patient.gender}
             </Text>
+            {patient.assigned_doctor && (
+              <Text style={styles.doctorName}>
+                Dr. {patient.assigned_doctor.first_name} {patient.assigned_doctor.last_name}
+              </Text>
+            )}
+          </View>
+
+          {alerts.length > 0 && (
+            <View
+              style={[
+                styles.alertBadge,
+                alerts[0].severity === 'critical' && styles.criticalAlertBadge,
+              ]}
+            >
+              <TrendingDown size={14} color="#ffffff" strokeWidth={2} />
+              <Text style={styles.alertBadgeText}>{alerts.length}</Text>
+            </View>
           )}
-        </View>
 
-        <View style={[styles.vitalStatus, { backgroundColor: getVitalStatusColor(patient) }]}>
-          <Activity size={16} color="#ffffff" strokeWidth={2} />
+          <TouchableOpacity
+            style={[styles.vitalStatus, { backgroundColor: getVitalStatusColor(patient) }]}
+            onPress={() => router.push(`/record-vitals?babyId=${patient.id}`)}
+          >
+            <Activity size={16} color="#ffffff" strokeWidth={2} />
+          </TouchableOpacity>
         </View>
-      </View>
 
-      <View style={styles.patientVitals}>
-        <View style={styles.vitalItem}>
-          <Weight size={16} color="#64748b" strokeWidth={2} />
-          <Text style={styles.vitalText}>
-            {patient.latest_vitals?.weight || '--'} kg
-          </Text>
-        </View>
+        <View style={styles.patientVitals}>
+          <View style={styles.vitalItem}>
+            <Weight size={16} color="#64748b" strokeWidth={2} />
+            <Text style={styles.vitalText}>
+              {patient.latest_vitals?.weight || '--'} kg
+            </Text>
+          </View>
 
-        <View style={styles.vitalItem}>
-          <Ruler size={16} color="#64748b" strokeWidth={2} />
-          <Text style={styles.vitalText}>
-            {patient.latest_vitals?.height || '--'} cm
-          </Text>
-        </View>
+          <View style={styles.vitalItem}>
+            <Ruler size={16} color="#64748b" strokeWidth={2} />
+            <Text style={styles.vitalText}>
+              {patient.latest_vitals?.height || '--'} cm
+            </Text>
+          </View>
 
-        <View style={styles.vitalItem}>
-          <Calendar size={16} color="#64748b" strokeWidth={2} />
-          <Text style={styles.vitalText}>
-            {getVitalStatus(patient)}
-          </Text>
+          <View style={styles.vitalItem}>
+            <Calendar size={16} color="#64748b" strokeWidth={2} />
+            <Text style={styles.vitalText}>
+              {getVitalStatus(patient)}
+            </Text>
+          </View>
         </View>
-      </View>
 
-      {patient.allergies && patient.allergies.length > 0 && (
-        <View style={styles.alertsContainer}>
-          <AlertTriangle size={16} color="#f59e0b" strokeWidth={2} />
-          <Text style={styles.allergyText}>
-            Allergies: {patient.allergies.join(', ')}
-          </Text>
-        </View>
-      )}
-    </TouchableOpacity>
-  );
+        {alerts.map((alert) => (
+          <View
+            key={`${alert.type}-${alert.title}`}
+            style={[
+              styles.growthAlert,
+              alert.severity === 'critical' && styles.criticalGrowthAlert,
+            ]}
+          >
+            <Text
+              style={[
+                styles.growthAlertTitle,
+                alert.severity === 'critical' && styles.criticalGrowthAlertTitle,
+              ]}
+            >
+              {alert.title}
+            </Text>
+            <Text style={styles.growthAlertDetail}>{alert.detail}</Text>
+          </View>
+        ))}
+
+        <SevereAllergyBanner allergies={patient.allergies} compact />
+
+        {otherAllergies.length > 0 && (
+          <View style={styles.alertsContainer}>
+            <AlertTriangle size={16} color={getAllergySeverityColor(otherAllergies[0].severity)} strokeWidth={2} />
+            <Text style={styles.allergyText}>
+              Allergies:{' '}
+              {otherAllergies
+                .map(allergy =>
+                  allergy.severity
+                    ? `${allergy.allergen} (${ALLERGY_SEVERITY_LABELS[allergy.severity].toLowerCase()})`
+                    : allergy.allergen
+                )
+                .join(', ')}
+            </Text>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
 
   return (
     <View style={styles.container}>
@@ -224,6 +274,47 @@ export default function PatientsScreen() {
             onChangeText={setSearchQuery}
           />
         </View>
+
+        <View style={styles.filterRow}>
+          <TouchableOpacity
+            style={[styles.filterChip, filter === 'all' && styles.activeFilterChip]}
+            onPress={() => setFilter('all')}
+          >
+            <Text style={[styles.filterChipText, filter === 'all' && styles.activeFilterChipText]}>
+              All
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.filterChip, filter === 'attention' && styles.activeFilterChip]}
+            onPress={() => setFilter('attention')}
+          >
+            <Text style={[styles.filterChipText, filter === 'attention' && styles.activeFilterChipText]}>
+              Needs attention ({attentionCount})
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {filter === 'attention' && (
+          <View style={styles.windowRow}>
+            <Text style={styles.windowLabel}>Flat weight window</Text>
+            {FLAT_WEIGHT_WINDOWS.map((days) => (
+              <TouchableOpacity
+                key={days}
+                style={[styles.windowChip, flatWeightWindowDays === days && styles.activeWindowChip]}
+                onPress={() => setFlatWeightWindowDays(days)}
+              >
+                <Text
+                  style={[
+                    styles.windowChipText,
+                    flatWeightWindowDays === days && styles.activeFilterChipText,
+                  ]}
+                >
+                  {days}d
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
       </View>
 
       <ScrollView 
@@ -240,12 +331,18 @@ export default function PatientsScreen() {
           <View style={styles.emptyContainer}>
             <Baby size={64} color="#94a3b8" strokeWidth={1.5} />
             <Text style={styles.emptyTitle}>
-              {searchQuery ? 'No patients found' : 'No patients yet'}
+              {searchQuery
+                ? 'No patients found'
+                : filter === 'attention'
+                  ? 'No growth alerts'
+                  : 'No patients yet'}
             </Text>
             <Text style={styles.emptyText}>
               {searchQuery 
                 ? 'Try adjusting your search terms'
-                : 'Start by adding your first patient'
+                : filter === 'attention'
+                  ? 'All patients are following their expected growth'
+                  : 'Start by adding your first patient'
               }
             </Text>
           </View>
@@ -307,6 +404,56 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#1e293b',
   },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  activeFilterChip: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  filterChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  activeFilterChipText: {
+    color: '#ffffff',
+  },
+  windowRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  windowLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    marginRight: 4,
+  },
+  windowChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+  },
+  activeWindowChip: {
+    backgroundColor: '#1e293b',
+  },
+  windowChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748b',
+  },
   content: {
     flex: 1,
   },
@@ -388,6 +535,24 @@ const styles = StyleSheet.create({
     color: '#0ea5e9',
     fontWeight: '500',
   },
+  alertBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f59e0b',
+    marginRight: 8,
+  },
+  criticalAlertBadge: {
+    backgroundColor: '#ef4444',
+  },
+  alertBadgeText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
   vitalStatus: {
     width: 32,
     height: 32,
@@ -412,6 +577,29 @@ const styles = StyleSheet.create({
     color: '#64748b',
     fontWeight: '500',
   },
+  growthAlert: {
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: '#fef3c7',
+    borderRadius: 8,
+  },
+  criticalGrowthAlert: {
+    backgroundColor: '#fee2e2',
+  },
+  growthAlertTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#92400e',
+    marginBottom: 2,
+  },
+  criticalGrowthAlertTitle: {
+    color: '#991b1b',
+  },
+  growthAlertDetail: {
+    fontSize: 12,
+    color: '#64748b',
+  },
   alertsContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -423,6 +611,7 @@ const styles = StyleSheet.create({
     borderRadius: 8,
   },
   allergyText: {
+    flex: 1,
     fontSize: 12,
     color: '#92400e',
     fontWeight: '500',
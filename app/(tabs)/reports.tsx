@@ -11,7 +11,15 @@ import {
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { BarChart, PieChart } from 'react-native-chart-kit';
-import { ChartBar as BarChart3, TrendingUp, Users, Calendar, Download, Baby, Activity } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { ChartBar as BarChart3, TrendingUp, Users, Calendar, Download, Baby, Activity, Syringe, ChevronRight } from 'lucide-react-native';
+import {
+  computeImmunizationStatus,
+  formatDoseLabel,
+  loadImmunizationSchedule,
+  type ScheduledDose,
+} from '@/lib/immunizations';
+import { getPermissionScope } from '@/lib/permissions';
 
 const screenWidth = Dimensions.get('window').width;
 
@@ -24,6 +32,15 @@ interface ReportStats {
   weeklyAppointments: number[];
 }
 
+interface OverdueVaccination {
+  babyId: string;
+  babyName: string;
+  doses: ScheduledDose[];
+  daysOverdue: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export default function ReportsScreen() {
   const { user } = useAuth();
   const [stats, setStats] = useState<ReportStats>({
@@ -34,13 +51,20 @@ export default function ReportsScreen() {
     ageDistribution: [],
     weeklyAppointments: [],
   });
+  const [overdueVaccinations, setOverdueVaccinations] = useState<OverdueVaccination[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const mounted = useRef(true);
 
+  const scope = getPermissionScope(user, 'reports.view');
+
   useEffect(() => {
     mounted.current = true;
-    loadReportData();
+    if (scope) {
+      loadReportData();
+    } else {
+      setLoading(false);
+    }
     
     return () => {
       mounted.current = false;
@@ -49,30 +73,36 @@ export default function ReportsScreen() {
 
   const loadReportData = async () => {
     try {
+      // Doctors report on their own patients and schedule; admins on the whole clinic
+      const onlyAssigned = scope === 'assigned';
+
       // Get total patients
-      const { data: babies } = await supabase
-        .from('babies')
-        .select('*');
+      let babiesQuery = supabase.from('babies').select('*');
+      if (onlyAssigned) {
+        babiesQuery = babiesQuery.eq('assigned_doctor_id', user!.id);
+      }
+      const { data: babies } = await babiesQuery;
 
       // Get new patients this month
       const startOfMonth = new Date();
       startOfMonth.setDate(1);
       startOfMonth.setHours(0, 0, 0, 0);
 
-      const { data: newPatients } = await supabase
-        .from('babies')
-        .select('*')
-        .gte('created_at', startOfMonth.toISOString());
+      const newPatients = babies?.filter(baby => new Date(baby.created_at) >= startOfMonth);
 
       // Get appointments this week
       const startOfWeek = new Date();
       startOfWeek.setDate(startOfWeek.getDate() - startOfWeek.getDay());
       startOfWeek.setHours(0, 0, 0, 0);
 
-      const { data: weeklyAppointments } = await supabase
+      let appointmentsQuery = supabase
         .from('appointments')
         .select('*')
         .gte('appointment_date', startOfWeek.toISOString());
+      if (onlyAssigned) {
+        appointmentsQuery = appointmentsQuery.eq('doctor_id', user!.id);
+      }
+      const { data: weeklyAppointments } = await appointmentsQuery;
 
       // Calculate age distribution
       const ageGroups = { '0-6m': 0, '6m-1y': 0, '1-2y': 0, '2y+': 0 };
@@ -102,7 +132,38 @@ export default function ReportsScreen() {
         weeklyData[day]++;
       });
 
+      // Find babies with vaccinations past their grace period
+      let immunizationsQuery = supabase
+        .from('immunization_records')
+        .select('baby_id, vaccine_id, dose_number, administered_on');
+      if (onlyAssigned) {
+        immunizationsQuery = immunizationsQuery.in('baby_id', (babies || []).map(baby => baby.id));
+      }
+      const [schedule, { data: immunizations }] = await Promise.all([
+        loadImmunizationSchedule(),
+        immunizationsQuery,
+      ]);
+
+      const today = new Date();
+      const overdue: OverdueVaccination[] = (babies || [])
+        .map(baby => {
+          const records = (immunizations || []).filter(record => record.baby_id === baby.id);
+          const doses = computeImmunizationStatus(baby.birth_date, schedule, records, today)
+            .filter(dose => dose.status === 'overdue');
+          return {
+            babyId: baby.id,
+            babyName: `${baby.first_name} ${baby.last_name}`,
+            doses,
+            daysOverdue: doses.length > 0
+              ? Math.floor((today.getTime() - doses[0].dueDate.getTime()) / DAY_MS)
+              : 0,
+          };
+        })
+        .filter(item => item.doses.length > 0)
+        .sort((a, b) => b.daysOverdue - a.daysOverdue);
+
       if (mounted.current) {
+        setOverdueVaccinations(overdue);
         setStats({
         totalPatients: babies?.length || 0,
         newPatientsThisMonth: newPatients?.length || 0,
@@ -153,6 +214,21 @@ export default function ReportsScreen() {
     }],
   };
 
+  if (!scope) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Reports & Analytics</Text>
+        </View>
+        <View style={styles.emptyContainer}>
+          <BarChart3 size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Not available</Text>
+          <Text style={styles.emptyText}>Reports are only available to doctors and administrators</Text>
+        </View>
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -242,6 +318,41 @@ export default function ReportsScreen() {
               )}
             </View>
 
+            <View style={styles.insightsContainer}>
+              <Text style={styles.sectionTitle}>Overdue Vaccinations</Text>
+              {overdueVaccinations.length === 0 ? (
+                <View style={styles.insightCard}>
+                  <View style={styles.insightHeader}>
+                    <Syringe size={20} color="#10b981" strokeWidth={2} />
+                    <Text style={styles.insightTitle}>All caught up</Text>
+                  </View>
+                  <Text style={styles.insightDescription}>
+                    No patients have vaccinations past their due window.
+                  </Text>
+                </View>
+              ) : (
+                overdueVaccinations.map((item) => (
+                  <TouchableOpacity
+                    key={item.babyId}
+                    style={styles.insightCard}
+                    onPress={() => router.push(`/patient/${item.babyId}`)}
+                  >
+                    <View style={styles.insightHeader}>
+                      <Syringe size={20} color="#ef4444" strokeWidth={2} />
+                      <Text style={[styles.insightTitle, styles.overdueTitle]}>{item.babyName}</Text>
+                      <ChevronRight size={20} color="#94a3b8" strokeWidth={2} />
+                    </View>
+                    <Text style={styles.insightDescription}>
+                      {item.doses.map(formatDoseLabel).join(', ')}
+                    </Text>
+                    <Text style={styles.overdueDays}>
+                      {item.daysOverdue} {item.daysOverdue === 1 ? 'day' : 'days'} overdue
+                    </Text>
+                  </TouchableOpacity>
+                ))
+              )}
+            </View>
+
             <View style={styles.insightsContainer}>
               <Text style={styles.sectionTitle}>Key Insights</Text>
               
@@ -309,6 +420,25 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     paddingTop: 100,
   },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
   loadingText: {
     fontSize: 16,
     color: '#64748b',
@@ -416,4 +546,13 @@ const styles = StyleSheet.create({
     color: '#64748b',
     lineHeight: 20,
   },
+  overdueTitle: {
+    flex: 1,
+  },
+  overdueDays: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ef4444',
+    marginTop: 8,
+  },
 });
\ No newline at end of file
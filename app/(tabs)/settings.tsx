@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import {
   View,
   Text,
@@ -9,13 +9,57 @@ import {
   Alert,
 } from 'react-native';
 import { useAuth } from '@/contexts/AuthContext';
-import { User, Bell, Shield, Smartphone, CircleHelp as HelpCircle, LogOut, ChevronRight, Settings as SettingsIcon } from 'lucide-react-native';
+import { User, Bell, Shield, Smartphone, CircleHelp as HelpCircle, LogOut, ChevronRight, Settings as SettingsIcon, Clock, MessageCircle, Pill, type LucideIcon } from 'lucide-react-native';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  loadNotificationPreferences,
+  registerForPushNotifications,
+  saveNotificationPreferences,
+  syncAppointmentReminders,
+  syncMedicationReminders,
+  type PreferenceKey,
+} from '@/lib/notifications';
+
+interface SettingItem {
+  icon: LucideIcon;
+  label: string;
+  subtitle?: string;
+  onPress?: () => void;
+  hasSwitch?: boolean;
+  switchValue?: boolean;
+  onSwitchChange?: (value: boolean) => void;
+}
 
 export default function SettingsScreen() {
   const { user, signOut } = useAuth();
-  const [notificationsEnabled, setNotificationsEnabled] = React.useState(true);
+  const [preferences, setPreferences] = React.useState(DEFAULT_NOTIFICATION_PREFERENCES);
   const [twoFactorEnabled, setTwoFactorEnabled] = React.useState(false);
 
+  useEffect(() => {
+    if (!user) return;
+    loadNotificationPreferences(user.id)
+      .then(setPreferences)
+      .catch((error) => console.error('Error loading notification preferences:', error));
+  }, [user?.id]);
+
+  const updatePreference = async (key: PreferenceKey, value: boolean) => {
+    if (!user) return;
+
+    const previous = preferences;
+    setPreferences({ ...preferences, [key]: value });
+    try {
+      await saveNotificationPreferences(user.id, { [key]: value });
+      if (key === 'push_enabled' && value) {
+        await registerForPushNotifications(user.id);
+      }
+      await Promise.all([syncAppointmentReminders(user), syncMedicationReminders(user)]);
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      setPreferences(previous);
+      Alert.alert('Error', 'Could not save your notification settings');
+    }
+  };
+
   const handleSignOut = () => {
     Alert.alert(
       'Sign Out',
@@ -27,7 +71,7 @@ export default function SettingsScreen() {
     );
   };
 
-  const settingsSections = [
+  const settingsSections: { title: string; items: SettingItem[] }[] = [
     {
       title: 'Account',
       items: [
@@ -53,14 +97,56 @@ export default function SettingsScreen() {
           label: 'Push Notifications',
           subtitle: 'Receive alerts and updates',
           hasSwitch: true,
-          switchValue: notificationsEnabled,
-          onSwitchChange: setNotificationsEnabled,
+          switchValue: preferences.push_enabled,
+          onSwitchChange: (value: boolean) => updatePreference('push_enabled', value),
         },
+        ...(preferences.push_enabled
+          ? [
+              {
+                icon: Clock,
+                label: 'Day-Before Reminder',
+                subtitle: '24 hours before each appointment',
+                hasSwitch: true,
+                switchValue: preferences.reminder_24h,
+                onSwitchChange: (value: boolean) => updatePreference('reminder_24h', value),
+              },
+              {
+                icon: Clock,
+                label: 'Hour-Before Reminder',
+                subtitle: '1 hour before each appointment',
+                hasSwitch: true,
+                switchValue: preferences.reminder_1h,
+                onSwitchChange: (value: boolean) => updatePreference('reminder_1h', value),
+              },
+              ...(user?.role === 'parent'
+                ? [
+                    {
+                      icon: Pill,
+                      label: 'Medication Reminders',
+                      subtitle: 'When the next dose is due',
+                      hasSwitch: true,
+                      switchValue: preferences.medication_reminders,
+                      onSwitchChange: (value: boolean) => updatePreference('medication_reminders', value),
+                    },
+                  ]
+                : []),
+              {
+                icon: MessageCircle,
+                label: 'Message Alerts',
+                subtitle: 'When you receive a new message',
+                hasSwitch: true,
+                switchValue: preferences.message_alerts,
+                onSwitchChange: (value: boolean) => updatePreference('message_alerts', value),
+              },
+            ]
+          : []),
         {
           icon: Smartphone,
           label: 'SMS Notifications',
           subtitle: 'Get important updates via text',
-          onPress: () => {},
+          hasSwitch: true,
+          switchValue: preferences.sms_enabled,
+          onSwitchChange: (value: boolean) => updatePreference('sms_enabled', value),
         },
       ],
     },
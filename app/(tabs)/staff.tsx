@@ -0,0 +1,729 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { router } from 'expo-router';
+import { Search, UserPlus, Users, Stethoscope, Baby, Calendar, Mail, X, Shield } from 'lucide-react-native';
+import { can } from '@/lib/permissions';
+import type { StaffInvitation, User } from '@/types/database';
+
+type StaffRole = StaffInvitation['role'];
+type StaffFilter = 'all' | 'doctor' | 'staff' | 'inactive';
+
+interface StaffMember extends User {
+  patient_count: number;
+  upcoming_appointments: number;
+}
+
+const STAFF_ROLES: StaffRole[] = ['doctor', 'staff', 'admin'];
+const FILTERS: { key: StaffFilter; label: string }[] = [
+  { key: 'all', label: 'All' },
+  { key: 'doctor', label: 'Doctors' },
+  { key: 'staff', label: 'Staff' },
+  { key: 'inactive', label: 'Inactive' },
+];
+
+const countBy = <T,>(rows: T[], key: (row: T) => string | null | undefined) =>
+  rows.reduce<Record<string, number>>((counts, row) => {
+    const value = key(row);
+    if (value) counts[value] = (counts[value] || 0) + 1;
+    return counts;
+  }, {});
+
+export default function StaffScreen() {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<StaffMember[]>([]);
+  const [invitations, setInvitations] = useState<StaffInvitation[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [filter, setFilter] = useState<StaffFilter>('all');
+  const [showInvite, setShowInvite] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<StaffRole>('doctor');
+  const [inviting, setInviting] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    if (can(user, 'staff.manage')) {
+      loadStaff();
+    } else {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadStaff = async () => {
+    try {
+      const [profilesResult, babiesResult, appointmentsResult, invitationsResult] = await Promise.all([
+        supabase
+          .from('user_profiles')
+          .select('*')
+          .in('role', ['admin', 'doctor', 'staff'])
+          .order('last_name', { ascending: true }),
+        supabase
+          .from('babies')
+          .select('assigned_doctor_id')
+          .not('assigned_doctor_id', 'is', null),
+        supabase
+          .from('appointments')
+          .select('doctor_id')
+          .gte('appointment_date', new Date().toISOString())
+          .in('status', ['scheduled', 'confirmed']),
+        supabase
+          .from('staff_invitations')
+          .select('*')
+          .is('accepted_at', null)
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (profilesResult.error) throw profilesResult.error;
+      if (babiesResult.error) throw babiesResult.error;
+      if (appointmentsResult.error) throw appointmentsResult.error;
+      if (invitationsResult.error) throw invitationsResult.error;
+
+      const patientCounts = countBy(babiesResult.data || [], row => row.assigned_doctor_id);
+      const appointmentCounts = countBy(appointmentsResult.data || [], row => row.doctor_id);
+
+      setMembers(
+        (profilesResult.data || []).map((profile: User) => ({
+          ...profile,
+          patient_count: patientCounts[profile.id] || 0,
+          upcoming_appointments: appointmentCounts[profile.id] || 0,
+        }))
+      );
+      setInvitations(invitationsResult.data || []);
+    } catch (error) {
+      console.error('Error loading staff:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadStaff();
+    setRefreshing(false);
+  };
+
+  const filteredMembers = members.filter((member) => {
+    if (filter === 'inactive' && member.is_active !== false) return false;
+    if ((filter === 'doctor' || filter === 'staff') && (member.role !== filter || member.is_active === false)) {
+      return false;
+    }
+    if (!searchQuery.trim()) return true;
+
+    const query = searchQuery.toLowerCase();
+    return (
+      `${member.first_name} ${member.last_name}`.toLowerCase().includes(query) ||
+      member.email.toLowerCase().includes(query)
+    );
+  });
+
+  const handleInvite = async () => {
+    const email = inviteEmail.trim().toLowerCase();
+    if (!/^\S+@\S+\.\S+$/.test(email)) {
+      Alert.alert('Error', 'Please enter a valid email address');
+      return;
+    }
+    if (members.some(member => member.email.toLowerCase() === email)) {
+      Alert.alert('Error', 'A staff account with this email already exists');
+      return;
+    }
+
+    setInviting(true);
+    try {
+      const { error } = await supabase.from('staff_invitations').insert({
+        email,
+        role: inviteRole,
+        invited_by: user!.id,
+      });
+
+      if (error) throw error;
+
+      Alert.alert(
+        'Invitation Created',
+        `Ask ${email} to register with this email address. Their account will be created with the ${inviteRole} role.`
+      );
+      setInviteEmail('');
+      setShowInvite(false);
+      await loadStaff();
+    } catch (error) {
+      console.error('Error inviting staff:', error);
+      Alert.alert('Error', 'Could not create the invitation. It may already be pending.');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const cancelInvitation = async (invitation: StaffInvitation) => {
+    try {
+      const { error } = await supabase
+        .from('staff_invitations')
+        .delete()
+        .eq('id', invitation.id);
+
+      if (error) throw error;
+      setInvitations(invitations.filter(i => i.id !== invitation.id));
+    } catch (error) {
+      console.error('Error cancelling invitation:', error);
+      Alert.alert('Error', 'Could not cancel the invitation');
+    }
+  };
+
+  const updateMember = async (member: StaffMember, updates: Partial<Pick<User, 'role' | 'is_active'>>) => {
+    try {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .update(updates)
+        .eq('id', member.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      setMembers(members.map(m => (m.id === member.id ? { ...m, ...data } : m)));
+    } catch (error) {
+      console.error('Error updating staff member:', error);
+      Alert.alert('Error', 'Could not update this account');
+    }
+  };
+
+  const changeRole = (member: StaffMember) => {
+    Alert.alert(
+      'Change Role',
+      `Select a new role for ${member.first_name} ${member.last_name}`,
+      [
+        ...STAFF_ROLES.filter(role => role !== member.role).map(role => ({
+          text: role.charAt(0).toUpperCase() + role.slice(1),
+          onPress: () => {
+            if (member.role === 'doctor' && member.patient_count > 0) {
+              Alert.alert(
+                'Reassign Patients',
+                `${member.patient_count} patients are still assigned to this doctor. Reassign them from the patient chart.`
+              );
+            }
+            updateMember(member, { role });
+          },
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const toggleActive = (member: StaffMember) => {
+    const deactivating = member.is_active !== false;
+    Alert.alert(
+      deactivating ? 'Deactivate Account' : 'Reactivate Account',
+      deactivating
+        ? `${member.first_name} ${member.last_name} will no longer be able to sign in. Their records are kept.`
+        : `${member.first_name} ${member.last_name} will be able to sign in again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: deactivating ? 'Deactivate' : 'Reactivate',
+          style: deactivating ? 'destructive' : 'default',
+          onPress: () => updateMember(member, { is_active: !deactivating }),
+        },
+      ]
+    );
+  };
+
+  const getRoleColor = (role: User['role']) => {
+    switch (role) {
+      case 'admin': return '#8b5cf6';
+      case 'doctor': return '#0ea5e9';
+      case 'staff': return '#10b981';
+      default: return '#64748b';
+    }
+  };
+
+  const renderMemberCard = (member: StaffMember) => {
+    const inactive = member.is_active === false;
+    const isSelf = member.id === user?.id;
+
+    return (
+      <View key={member.id} style={[styles.memberCard, inactive && styles.inactiveCard]}>
+        <View style={styles.memberHeader}>
+          <View style={[styles.memberAvatar, { backgroundColor: `${getRoleColor(member.role)}20` }]}>
+            {member.role === 'doctor' ? (
+              <Stethoscope size={22} color={getRoleColor(member.role)} strokeWidth={2} />
+            ) : (
+              <Shield size={22} color={getRoleColor(member.role)} strokeWidth={2} />
+            )}
+          </View>
+
+          <View style={styles.memberInfo}>
+            <Text style={styles.memberName}>
+              {member.role === 'doctor' ? 'Dr. ' : ''}{member.first_name} {member.last_name}
+            </Text>
+            <Text style={styles.memberEmail}>{member.email}</Text>
+          </View>
+
+          <View style={[styles.roleBadge, { backgroundColor: getRoleColor(member.role) }]}>
+            <Text style={styles.roleBadgeText}>{member.role}</Text>
+          </View>
+        </View>
+
+        {member.role === 'doctor' && (
+          <View style={styles.memberStats}>
+            <View style={styles.statItem}>
+              <Baby size={16} color="#64748b" strokeWidth={2} />
+              <Text style={styles.statText}>
+                {member.patient_count} {member.patient_count === 1 ? 'patient' : 'patients'}
+              </Text>
+            </View>
+            <View style={styles.statItem}>
+              <Calendar size={16} color="#64748b" strokeWidth={2} />
+              <Text style={styles.statText}>{member.upcoming_appointments} upcoming</Text>
+            </View>
+          </View>
+        )}
+
+        {inactive && (
+          <Text style={styles.inactiveText}>
+            Deactivated{member.deactivated_at ? ` on ${new Date(member.deactivated_at).toLocaleDateString()}` : ''}
+          </Text>
+        )}
+
+        {!isSelf && (
+          <View style={styles.memberActions}>
+            <TouchableOpacity style={styles.actionButton} onPress={() => changeRole(member)}>
+              <Text style={styles.actionButtonText}>Change Role</Text>
+            </TouchableOpacity>
+            {member.role === 'doctor' && (
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => router.push(`/availability?doctorId=${member.id}`)}
+              >
+                <Text style={styles.actionButtonText}>Hours</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.actionButton, !inactive && styles.destructiveButton]}
+              onPress={() => toggleActive(member)}
+            >
+              <Text style={[styles.actionButtonText, !inactive && styles.destructiveButtonText]}>
+                {inactive ? 'Reactivate' : 'Deactivate'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  if (!can(user, 'staff.manage')) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Staff</Text>
+        </View>
+        <View style={styles.emptyContainer}>
+          <Users size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Not available</Text>
+          <Text style={styles.emptyText}>Only administrators can manage staff accounts</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Staff</Text>
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => setShowInvite(!showInvite)}
+        >
+          {showInvite ? (
+            <X size={24} color="#ffffff" strokeWidth={2} />
+          ) : (
+            <UserPlus size={24} color="#ffffff" strokeWidth={2} />
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.searchContainer}>
+        {showInvite && (
+          <View style={styles.inviteCard}>
+            <Text style={styles.inviteTitle}>Invite Staff Member</Text>
+            <View style={styles.searchInputContainer}>
+              <Mail size={20} color="#64748b" strokeWidth={2} />
+              <TextInput
+                style={styles.searchInput}
+                placeholder="name@clinic.com"
+                placeholderTextColor="#94a3b8"
+                value={inviteEmail}
+                onChangeText={setInviteEmail}
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+            <View style={styles.filterRow}>
+              {STAFF_ROLES.map((role) => (
+                <TouchableOpacity
+                  key={role}
+                  style={[styles.filterChip, inviteRole === role && styles.activeFilterChip]}
+                  onPress={() => setInviteRole(role)}
+                >
+                  <Text style={[styles.filterChipText, inviteRole === role && styles.activeFilterChipText]}>
+                    {role.charAt(0).toUpperCase() + role.slice(1)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity
+              style={[styles.inviteButton, inviting && styles.buttonDisabled]}
+              onPress={handleInvite}
+              disabled={inviting}
+            >
+              <Text style={styles.inviteButtonText}>
+                {inviting ? 'Sending...' : 'Send Invitation'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.searchInputContainer}>
+          <Search size={20} color="#64748b" strokeWidth={2} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search staff..."
+            placeholderTextColor="#94a3b8"
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+          />
+        </View>
+
+        <View style={styles.filterRow}>
+          {FILTERS.map(({ key, label }) => (
+            <TouchableOpacity
+              key={key}
+              style={[styles.filterChip, filter === key && styles.activeFilterChip]}
+              onPress={() => setFilter(key)}
+            >
+              <Text style={[styles.filterChipText, filter === key && styles.activeFilterChipText]}>
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+      >
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <Text style={styles.loadingText}>Loading staff...</Text>
+          </View>
+        ) : (
+          <View style={styles.membersList}>
+            {invitations.length > 0 && filter === 'all' && !searchQuery && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Pending Invitations</Text>
+                {invitations.map((invitation) => (
+                  <View key={invitation.id} style={styles.invitationRow}>
+                    <Mail size={18} color="#f59e0b" strokeWidth={2} />
+                    <View style={styles.memberInfo}>
+                      <Text style={styles.invitationEmail}>{invitation.email}</Text>
+                      <Text style={styles.memberEmail}>
+                        {invitation.role} · invited {new Date(invitation.created_at).toLocaleDateString()}
+                      </Text>
+                    </View>
+                    <TouchableOpacity onPress={() => cancelInvitation(invitation)}>
+                      <X size={18} color="#64748b" strokeWidth={2} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {filteredMembers.length === 0 ? (
+              <View style={styles.emptyContainer}>
+                <Users size={64} color="#94a3b8" strokeWidth={1.5} />
+                <Text style={styles.emptyTitle}>No staff found</Text>
+                <Text style={styles.emptyText}>
+                  {searchQuery ? 'Try adjusting your search terms' : 'Invite your first staff member'}
+                </Text>
+              </View>
+            ) : (
+              filteredMembers.map(renderMemberCard)
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    backgroundColor: '#1e293b',
+    paddingTop: 60,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  addButton: {
+    backgroundColor: '#0ea5e9',
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  searchContainer: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  searchInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 12,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  activeFilterChip: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  filterChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  activeFilterChipText: {
+    color: '#ffffff',
+  },
+  inviteCard: {
+    paddingBottom: 16,
+    marginBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  inviteTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 12,
+  },
+  inviteButton: {
+    backgroundColor: '#0ea5e9',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  inviteButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  content: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  membersList: {
+    paddingHorizontal: 24,
+    paddingTop: 24,
+    paddingBottom: 32,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 12,
+  },
+  invitationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#fffbeb',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  invitationEmail: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 2,
+  },
+  memberCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  inactiveCard: {
+    opacity: 0.6,
+  },
+  memberHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  memberAvatar: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 16,
+  },
+  memberInfo: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 2,
+  },
+  memberEmail: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  roleBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  roleBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ffffff',
+    textTransform: 'capitalize',
+  },
+  memberStats: {
+    flexDirection: 'row',
+    gap: 24,
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+  },
+  statItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  statText: {
+    fontSize: 14,
+    color: '#64748b',
+    fontWeight: '500',
+  },
+  inactiveText: {
+    fontSize: 13,
+    color: '#ef4444',
+    fontWeight: '500',
+    marginTop: 12,
+  },
+  memberActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#f1f5f9',
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  destructiveButton: {
+    backgroundColor: '#fee2e2',
+  },
+  destructiveButtonText: {
+    color: '#b91c1c',
+  },
+});
@@ -0,0 +1,634 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { router } from 'expo-router';
+import {
+  Plus,
+  X,
+  Baby,
+  Clock,
+  ClipboardList,
+  Circle,
+  CircleCheck as CheckCircle,
+  User as UserIcon,
+} from 'lucide-react-native';
+import { can } from '@/lib/permissions';
+import { selectTasksWithDetails, type TaskWithDetails } from '@/lib/queries';
+import type { Task } from '@/types/database';
+
+type TaskFilter = 'all' | 'mine' | 'unassigned' | 'overdue' | 'done';
+
+const FILTERS: { key: TaskFilter; label: string }[] = [
+  { key: 'all', label: 'Open' },
+  { key: 'mine', label: 'Mine' },
+  { key: 'unassigned', label: 'Unassigned' },
+  { key: 'overdue', label: 'Overdue' },
+  { key: 'done', label: 'Done' },
+];
+
+const PRIORITIES: Task['priority'][] = ['low', 'medium', 'high', 'urgent'];
+const PRIORITY_RANK: Record<Task['priority'], number> = { urgent: 0, high: 1, medium: 2, low: 3 };
+
+const DUE_OPTIONS = [
+  { label: 'Today', days: 0 },
+  { label: 'Tomorrow', days: 1 },
+  { label: 'Next week', days: 7 },
+];
+
+const isOpen = (task: Task) => task.status === 'open' || task.status === 'in_progress';
+
+const isOverdue = (task: Task) =>
+  isOpen(task) && !!task.due_date && new Date(task.due_date).getTime() < Date.now();
+
+export default function TasksScreen() {
+  const { user } = useAuth();
+  const [tasks, setTasks] = useState<TaskWithDetails[]>([]);
+  const [filter, setFilter] = useState<TaskFilter>('all');
+  const [showForm, setShowForm] = useState(false);
+  const [newTask, setNewTask] = useState({
+    title: '',
+    priority: 'medium' as Task['priority'],
+    dueInDays: 0,
+    assignToMe: true,
+  });
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const canManage = can(user, 'tasks.manage');
+
+  useEffect(() => {
+    if (canManage) {
+      loadTasks();
+    } else {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadTasks = async () => {
+    try {
+      const { data, error } = await selectTasksWithDetails()
+        .neq('status', 'cancelled')
+        .order('due_date', { ascending: true, nullsFirst: false });
+
+      if (error) throw error;
+      setTasks(data || []);
+    } catch (error) {
+      console.error('Error loading tasks:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadTasks();
+    setRefreshing(false);
+  };
+
+  const filteredTasks = tasks
+    .filter((task) => {
+      switch (filter) {
+        case 'mine':
+          return isOpen(task) && task.assigned_to === user?.id;
+        case 'unassigned':
+          return isOpen(task) && !task.assigned_to;
+        case 'overdue':
+          return isOverdue(task);
+        case 'done':
+          return task.status === 'done';
+        default:
+          return isOpen(task);
+      }
+    })
+    .sort((a, b) => {
+      if (filter === 'done') {
+        return new Date(b.completed_at || b.updated_at).getTime() - new Date(a.completed_at || a.updated_at).getTime();
+      }
+      return PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority];
+    });
+
+  const overdueCount = tasks.filter(isOverdue).length;
+
+  const updateTask = async (task: TaskWithDetails, updates: Partial<Pick<Task, 'status' | 'assigned_to'>>) => {
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .update(updates)
+        .eq('id', task.id);
+
+      if (error) throw error;
+      await loadTasks();
+    } catch (error) {
+      console.error('Error updating task:', error);
+      Alert.alert('Error', 'Could not update the task');
+    }
+  };
+
+  const toggleDone = (task: TaskWithDetails) => {
+    updateTask(task, { status: task.status === 'done' ? 'open' : 'done' });
+  };
+
+  const handleCreate = async () => {
+    if (!newTask.title.trim()) {
+      Alert.alert('Error', 'Please enter a task title');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const dueDate = new Date();
+      dueDate.setDate(dueDate.getDate() + newTask.dueInDays);
+      dueDate.setHours(17, 0, 0, 0);
+
+      const { error } = await supabase.from('tasks').insert({
+        title: newTask.title.trim(),
+        priority: newTask.priority,
+        due_date: dueDate.toISOString(),
+        assigned_to: newTask.assignToMe ? user!.id : null,
+        created_by: user!.id,
+      });
+
+      if (error) throw error;
+
+      setNewTask({ title: '', priority: 'medium', dueInDays: 0, assignToMe: true });
+      setShowForm(false);
+      await loadTasks();
+    } catch (error) {
+      console.error('Error creating task:', error);
+      Alert.alert('Error', 'Could not create the task');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getPriorityColor = (priority: Task['priority']) => {
+    switch (priority) {
+      case 'urgent': return '#ef4444';
+      case 'high': return '#f59e0b';
+      case 'medium': return '#0ea5e9';
+      default: return '#94a3b8';
+    }
+  };
+
+  const formatDue = (task: Task) => {
+    if (!task.due_date) return 'No due date';
+    const due = new Date(task.due_date);
+    const today = new Date();
+    const dayDiff = Math.round(
+      (new Date(due.toDateString()).getTime() - new Date(today.toDateString()).getTime()) / (1000 * 60 * 60 * 24)
+    );
+
+    if (dayDiff === 0) return `Today, ${due.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+    if (dayDiff === 1) return 'Tomorrow';
+    if (dayDiff === -1) return 'Yesterday';
+    return due.toLocaleDateString();
+  };
+
+  const renderTaskCard = (task: TaskWithDetails) => {
+    const done = task.status === 'done';
+    const overdue = isOverdue(task);
+
+    return (
+      <View key={task.id} style={[styles.taskCard, { borderLeftColor: getPriorityColor(task.priority) }]}>
+        <View style={styles.taskHeader}>
+          <TouchableOpacity style={styles.checkbox} onPress={() => toggleDone(task)}>
+            {done ? (
+              <CheckCircle size={24} color="#10b981" strokeWidth={2} />
+            ) : (
+              <Circle size={24} color="#94a3b8" strokeWidth={2} />
+            )}
+          </TouchableOpacity>
+
+          <View style={styles.taskInfo}>
+            <Text style={[styles.taskTitle, done && styles.doneTaskTitle]}>{task.title}</Text>
+            {task.description && (
+              <Text style={styles.taskDescription}>{task.description}</Text>
+            )}
+          </View>
+
+          <View style={[styles.priorityBadge, { backgroundColor: getPriorityColor(task.priority) }]}>
+            <Text style={styles.priorityText}>{task.priority}</Text>
+          </View>
+        </View>
+
+        <View style={styles.taskMeta}>
+          <View style={styles.metaItem}>
+            <Clock size={14} color={overdue ? '#ef4444' : '#64748b'} strokeWidth={2} />
+            <Text style={[styles.metaText, overdue && styles.overdueText]}>
+              {overdue ? 'Overdue · ' : ''}{formatDue(task)}
+            </Text>
+          </View>
+
+          {task.baby && (
+            <TouchableOpacity
+              style={styles.metaItem}
+              onPress={() => router.push(`/patient/${task.baby_id}`)}
+            >
+              <Baby size={14} color="#0ea5e9" strokeWidth={2} />
+              <Text style={styles.babyLink}>
+                {task.baby.first_name} {task.baby.last_name}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          <View style={styles.metaItem}>
+            <UserIcon size={14} color="#64748b" strokeWidth={2} />
+            <Text style={styles.metaText}>
+              {task.assigned_to === user?.id
+                ? 'You'
+                : task.assignee
+                  ? `${task.assignee.first_name} ${task.assignee.last_name}`
+                  : 'Unassigned'}
+            </Text>
+          </View>
+        </View>
+
+        {!done && task.assigned_to !== user?.id && (
+          <TouchableOpacity
+            style={styles.claimButton}
+            onPress={() => updateTask(task, { assigned_to: user!.id })}
+          >
+            <Text style={styles.claimButtonText}>Assign to me</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  if (!canManage) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Tasks</Text>
+        </View>
+        <View style={styles.emptyContainer}>
+          <ClipboardList size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Not available</Text>
+          <Text style={styles.emptyText}>Tasks are only available to clinic staff</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Tasks</Text>
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => setShowForm(!showForm)}
+        >
+          {showForm ? (
+            <X size={24} color="#ffffff" strokeWidth={2} />
+          ) : (
+            <Plus size={24} color="#ffffff" strokeWidth={2} />
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.filterContainer}>
+        {showForm && (
+          <View style={styles.form}>
+            <TextInput
+              style={styles.input}
+              placeholder="What needs to be done?"
+              placeholderTextColor="#94a3b8"
+              value={newTask.title}
+              onChangeText={(title) => setNewTask({ ...newTask, title })}
+            />
+            <View style={styles.chipRow}>
+              {PRIORITIES.map((priority) => (
+                <TouchableOpacity
+                  key={priority}
+                  style={[styles.smallChip, newTask.priority === priority && styles.activeFilterChip]}
+                  onPress={() => setNewTask({ ...newTask, priority })}
+                >
+                  <Text style={[styles.smallChipText, newTask.priority === priority && styles.activeFilterChipText]}>
+                    {priority}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.chipRow}>
+              {DUE_OPTIONS.map(({ label, days }) => (
+                <TouchableOpacity
+                  key={label}
+                  style={[styles.smallChip, newTask.dueInDays === days && styles.activeFilterChip]}
+                  onPress={() => setNewTask({ ...newTask, dueInDays: days })}
+                >
+                  <Text style={[styles.smallChipText, newTask.dueInDays === days && styles.activeFilterChipText]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={[styles.smallChip, newTask.assignToMe && styles.activeFilterChip]}
+                onPress={() => setNewTask({ ...newTask, assignToMe: !newTask.assignToMe })}
+              >
+                <Text style={[styles.smallChipText, newTask.assignToMe && styles.activeFilterChipText]}>
+                  Assign to me
+                </Text>
+              </TouchableOpacity>
+            </View>
+            <TouchableOpacity
+              style={[styles.createButton, saving && styles.buttonDisabled]}
+              onPress={handleCreate}
+              disabled={saving}
+            >
+              <Text style={styles.createButtonText}>{saving ? 'Saving...' : 'Add Task'}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={styles.filterRow}>
+            {FILTERS.map(({ key, label }) => (
+              <TouchableOpacity
+                key={key}
+                style={[styles.filterChip, filter === key && styles.activeFilterChip]}
+                onPress={() => setFilter(key)}
+              >
+                <Text style={[styles.filterChipText, filter === key && styles.activeFilterChipText]}>
+                  {key === 'overdue' ? `${label} (${overdueCount})` : label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ScrollView>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+      >
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <Text style={styles.loadingText}>Loading tasks...</Text>
+          </View>
+        ) : filteredTasks.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <ClipboardList size={64} color="#94a3b8" strokeWidth={1.5} />
+            <Text style={styles.emptyTitle}>
+              {filter === 'overdue' ? 'Nothing overdue' : filter === 'done' ? 'No completed tasks' : 'All caught up'}
+            </Text>
+            <Text style={styles.emptyText}>
+              Tasks are created automatically when appointments are confirmed or completed
+            </Text>
+          </View>
+        ) : (
+          <View style={styles.tasksList}>
+            {filteredTasks.map(renderTaskCard)}
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    backgroundColor: '#1e293b',
+    paddingTop: 60,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  addButton: {
+    backgroundColor: '#0ea5e9',
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  filterContainer: {
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  form: {
+    paddingBottom: 16,
+    marginBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  input: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  smallChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  smallChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#64748b',
+    textTransform: 'capitalize',
+  },
+  createButton: {
+    backgroundColor: '#0ea5e9',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  createButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  activeFilterChip: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  filterChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  activeFilterChipText: {
+    color: '#ffffff',
+  },
+  content: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  tasksList: {
+    paddingHorizontal: 24,
+    paddingTop: 24,
+    paddingBottom: 32,
+  },
+  taskCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderLeftWidth: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  taskHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  checkbox: {
+    paddingTop: 2,
+  },
+  taskInfo: {
+    flex: 1,
+  },
+  taskTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 4,
+  },
+  doneTaskTitle: {
+    color: '#94a3b8',
+    textDecorationLine: 'line-through',
+  },
+  taskDescription: {
+    fontSize: 14,
+    color: '#64748b',
+    lineHeight: 20,
+  },
+  priorityBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  priorityText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#ffffff',
+    textTransform: 'capitalize',
+  },
+  taskMeta: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 16,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  metaItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  metaText: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  overdueText: {
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+  babyLink: {
+    fontSize: 13,
+    color: '#0ea5e9',
+    fontWeight: '500',
+  },
+  claimButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#e0f2fe',
+    borderRadius: 8,
+  },
+  claimButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#0369a1',
+  },
+});
@@ -3,6 +3,8 @@ import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
+import { useAppointmentReminders } from '@/hooks/useAppointmentReminders';
+import { usePermissionGuard } from '@/hooks/usePermissionGuard';
 import { SplashScreen } from 'expo-router';
 import LoadingScreen from '@/components/LoadingScreen';
 
@@ -10,7 +12,9 @@ import LoadingScreen from '@/components/LoadingScreen';
 SplashScreen.preventAutoHideAsync();
 
 function RootLayoutNav() {
-  const { session, loading } = useAuth();
+  const { session, user, loading } = useAuth();
+  useAppointmentReminders(user);
+  usePermissionGuard(user);
 
   useEffect(() => {
     if (!loading) {
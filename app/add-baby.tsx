@@ -0,0 +1,5 @@
+import PatientOnboardingForm from '@/components/PatientOnboardingForm';
+
+export default function AddBabyScreen() {
+  return <PatientOnboardingForm title="Add Baby" />;
+}
@@ -0,0 +1,5 @@
+import PatientOnboardingForm from '@/components/PatientOnboardingForm';
+
+export default function AddPatientScreen() {
+  return <PatientOnboardingForm title="Add Patient" />;
+}
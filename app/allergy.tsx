@@ -0,0 +1,584 @@
+import React, { useEffect, useState, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, Baby, ShieldAlert } from 'lucide-react-native';
+import {
+  ALLERGY_CATEGORY_LABELS,
+  ALLERGY_SEVERITY_LABELS,
+  COMMON_REACTIONS,
+  getAllergen,
+  getAllergySeverityColor,
+  matchAllergen,
+  searchAllergens,
+  VERIFICATION_STATUS_LABELS,
+  type Allergen,
+  type AllergyCategory,
+  type AllergySeverity,
+  type VerificationStatus,
+} from '@/lib/allergies';
+import { parseCalendarDate } from '@/lib/calendarDates';
+import { can } from '@/lib/permissions';
+import type { Allergy, Baby as BabyType } from '@/types/database';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Suggestions shown under the allergen field
+const SUGGESTION_LIMIT = 8;
+
+export default function AllergyScreen() {
+  const { user } = useAuth();
+  const { babyId, allergyId } = useLocalSearchParams<{ babyId: string; allergyId?: string }>();
+  const [baby, setBaby] = useState<Pick<BabyType, 'id' | 'first_name' | 'last_name' | 'birth_date'> | null>(null);
+  const [allergen, setAllergen] = useState('');
+  const [allergenCode, setAllergenCode] = useState<string | null>(null);
+  const [category, setCategory] = useState<AllergyCategory | null>(null);
+  const [reaction, setReaction] = useState('');
+  const [severity, setSeverity] = useState<AllergySeverity | null>(null);
+  const [onsetDate, setOnsetDate] = useState('');
+  const [verification, setVerification] = useState<VerificationStatus>('unconfirmed');
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const mounted = useRef(true);
+
+  const canEdit = can(user, 'allergies.manage');
+  const editing = !!allergyId;
+
+  useEffect(() => {
+    mounted.current = true;
+    loadData();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, [babyId, allergyId]);
+
+  const loadData = async () => {
+    try {
+      const [babyResult, allergyResult] = await Promise.all([
+        supabase.from('babies').select('id, first_name, last_name, birth_date').eq('id', babyId).single(),
+        allergyId
+          ? supabase.from('allergies').select('*').eq('id', allergyId).single()
+          : Promise.resolve({ data: null, error: null }),
+      ]);
+
+      if (babyResult.error) throw babyResult.error;
+      if (allergyResult.error) throw allergyResult.error;
+      if (mounted.current) {
+        setBaby(babyResult.data);
+        const existing = allergyResult.data;
+        if (existing) {
+          setAllergen(existing.allergen);
+          setAllergenCode(existing.allergen_code ?? null);
+          setCategory(existing.category ?? null);
+          setReaction(existing.reaction ?? '');
+          setSeverity(existing.severity ?? null);
+          setOnsetDate(existing.onset_date ?? '');
+          setVerification(existing.verification_status);
+          setNotes(existing.notes ?? '');
+        }
+      }
+    } catch (error) {
+      console.error('Error loading allergy:', error);
+      Alert.alert('Error', 'Could not load the allergy record');
+    } finally {
+      if (mounted.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const changeAllergen = (text: string) => {
+    setAllergen(text);
+    const match = matchAllergen(text);
+    setAllergenCode(match?.code ?? null);
+    if (match) setCategory(match.category);
+  };
+
+  const selectAllergen = (option: Allergen) => {
+    setAllergen(option.name);
+    setAllergenCode(option.code);
+    setCategory(option.category);
+  };
+
+  const handleSave = async () => {
+    if (!baby || !user) return;
+
+    if (!allergen.trim()) {
+      Alert.alert('Error', 'Please enter the allergen');
+      return;
+    }
+    if (!category) {
+      Alert.alert('Error', 'Please choose a category');
+      return;
+    }
+    if (!severity) {
+      Alert.alert('Error', 'Please choose a severity');
+      return;
+    }
+
+    if (onsetDate) {
+      if (!DATE_PATTERN.test(onsetDate)) {
+        Alert.alert('Error', 'Please enter the onset date as YYYY-MM-DD');
+        return;
+      }
+      const date = parseCalendarDate(onsetDate);
+      if (date > new Date() || date < parseCalendarDate(baby.birth_date)) {
+        Alert.alert('Error', 'The onset date must be between the date of birth and today');
+        return;
+      }
+    }
+
+    setSaving(true);
+    try {
+      const record = {
+        allergen: allergen.trim(),
+        allergen_code: allergenCode,
+        category,
+        reaction: reaction.trim() || null,
+        severity,
+        onset_date: onsetDate || null,
+        verification_status: verification,
+        notes: notes.trim() || null,
+      };
+
+      const { error } = editing
+        ? await supabase.from('allergies').update(record).eq('id', allergyId)
+        : await supabase.from('allergies').insert({ ...record, baby_id: baby.id, recorded_by: user.id });
+
+      if (error) {
+        if (error.code === '23505') {
+          Alert.alert('Already Recorded', `${allergen.trim()} is already on this patient's allergy list`);
+          return;
+        }
+        throw error;
+      }
+
+      router.back();
+    } catch (error) {
+      console.error('Error saving allergy:', error);
+      Alert.alert('Error', 'Could not save the allergy. Please try again.');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  const handleDelete = () => {
+    if (!allergyId) return;
+
+    Alert.alert('Remove Allergy', 'Only remove allergies entered in error. Mark disproven allergies as refuted instead.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const { error } = await supabase.from('allergies').delete().eq('id', allergyId);
+            if (error) throw error;
+            router.back();
+          } catch (error) {
+            console.error('Error removing allergy:', error);
+            Alert.alert('Error', 'Could not remove the allergy');
+          }
+        },
+      },
+    ]);
+  };
+
+  const coded = getAllergen(allergenCode);
+  const suggestions = coded ? [] : searchAllergens(allergen).slice(0, SUGGESTION_LIMIT);
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{editing ? 'Edit Allergy' : 'Record Allergy'}</Text>
+      </View>
+
+      {!canEdit ? (
+        <View style={styles.emptyContainer}>
+          <ShieldAlert size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Not available</Text>
+          <Text style={styles.emptyText}>
+            Allergies are recorded by your care team
+          </Text>
+        </View>
+      ) : loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading...</Text>
+        </View>
+      ) : !baby ? (
+        <View style={styles.emptyContainer}>
+          <Baby size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Patient not found</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentInner} keyboardShouldPersistTaps="handled">
+          <View style={styles.patientBanner}>
+            <Baby size={20} color="#0ea5e9" strokeWidth={2} />
+            <Text style={styles.patientBannerText}>
+              {baby.first_name} {baby.last_name}
+            </Text>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Allergen</Text>
+            <View style={styles.field}>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. Peanut"
+                  placeholderTextColor="#94a3b8"
+                  value={allergen}
+                  onChangeText={changeAllergen}
+                />
+              </View>
+              <Text style={styles.hintText}>
+                {coded
+                  ? `Coded as ${coded.name} (${ALLERGY_CATEGORY_LABELS[coded.category].toLowerCase()})`
+                  : allergen.trim()
+                    ? 'Not in the allergen list; it will be saved as written'
+                    : 'Choose from the list or type the allergen'}
+              </Text>
+            </View>
+
+            {suggestions.length > 0 && (
+              <View style={styles.chipRow}>
+                {suggestions.map((option) => (
+                  <TouchableOpacity key={option.code} style={styles.chip} onPress={() => selectAllergen(option)}>
+                    <Text style={styles.chipText}>{option.name}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            <Text style={styles.fieldLabel}>Category</Text>
+            <View style={styles.chipRow}>
+              {(Object.keys(ALLERGY_CATEGORY_LABELS) as AllergyCategory[]).map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, category === option && styles.selectedChip]}
+                  onPress={() => setCategory(option)}
+                >
+                  <Text style={[styles.chipText, category === option && styles.selectedChipText]}>
+                    {ALLERGY_CATEGORY_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Reaction</Text>
+            <View style={styles.chipRow}>
+              {COMMON_REACTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, reaction === option && styles.selectedChip]}
+                  onPress={() => setReaction(option)}
+                >
+                  <Text style={[styles.chipText, reaction === option && styles.selectedChipText]}>{option}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.field}>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Describe the reaction"
+                  placeholderTextColor="#94a3b8"
+                  value={reaction}
+                  onChangeText={setReaction}
+                />
+              </View>
+            </View>
+
+            <Text style={styles.fieldLabel}>Severity</Text>
+            <View style={styles.chipRow}>
+              {(Object.keys(ALLERGY_SEVERITY_LABELS) as AllergySeverity[]).map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.chip,
+                    severity === option && {
+                      backgroundColor: getAllergySeverityColor(option),
+                      borderColor: getAllergySeverityColor(option),
+                    },
+                  ]}
+                  onPress={() => setSeverity(option)}
+                >
+                  <Text style={[styles.chipText, severity === option && styles.selectedChipText]}>
+                    {ALLERGY_SEVERITY_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Onset Date</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="YYYY-MM-DD (optional)"
+                  placeholderTextColor="#94a3b8"
+                  value={onsetDate}
+                  onChangeText={setOnsetDate}
+                />
+              </View>
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Verification</Text>
+            <View style={styles.chipRow}>
+              {(Object.keys(VERIFICATION_STATUS_LABELS) as VerificationStatus[]).map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, verification === option && styles.selectedChip]}
+                  onPress={() => setVerification(option)}
+                >
+                  <Text style={[styles.chipText, verification === option && styles.selectedChipText]}>
+                    {VERIFICATION_STATUS_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Notes</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={[styles.input, styles.notesInput]}
+                  placeholder="How it was confirmed, e.g. skin prick test"
+                  placeholderTextColor="#94a3b8"
+                  value={notes}
+                  onChangeText={setNotes}
+                  multiline
+                />
+              </View>
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            <Text style={styles.saveButtonText}>
+              {saving ? 'Saving...' : 'Save Allergy'}
+            </Text>
+          </TouchableOpacity>
+
+          {editing && (
+            <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+              <Text style={styles.deleteButtonText}>Remove Entered in Error</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      )}
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    backgroundColor: '#1e293b',
+    paddingTop: 60,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#334155',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 24,
+    paddingBottom: 48,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  patientBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#e0f2fe',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  patientBannerText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  selectedChip: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  selectedChipText: {
+    color: '#ffffff',
+  },
+  field: {
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 6,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  saveButton: {
+    backgroundColor: '#0ea5e9',
+    paddingVertical: 18,
+    borderRadius: 16,
+    alignItems: 'center',
+    marginTop: 8,
+    shadowColor: '#0ea5e9',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  saveButtonDisabled: {
+    opacity: 0.7,
+  },
+  saveButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  deleteButton: {
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  deleteButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+});
@@ -0,0 +1,741 @@
+import React, { useEffect, useState, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, Baby, Calendar, Clock, History, Stethoscope, User as UserIcon } from 'lucide-react-native';
+import SevereAllergyBanner from '@/components/SevereAllergyBanner';
+import {
+  ACTION_TARGET_STATUS,
+  APPOINTMENT_ACTION_LABELS,
+  APPOINTMENT_STATUS_LABELS,
+  CANCELLATION_REASONS,
+  getAppointmentActions,
+  getAppointmentStatusColor,
+  type AppointmentAction,
+} from '@/lib/appointmentLifecycle';
+import { syncAppointmentReminders } from '@/lib/notifications';
+import { can } from '@/lib/permissions';
+import { APPOINTMENT_TYPE_LABELS } from '@/lib/scheduling';
+import {
+  selectAppointmentDetails,
+  selectAppointmentHistory,
+  type AppointmentDetail,
+  type AppointmentHistoryEntry,
+} from '@/lib/queries';
+import type { Appointment } from '@/types/database';
+
+// Actions that need extra input before they can be saved
+type PendingAction = 'cancel' | 'complete' | 'request_reschedule' | null;
+
+export default function AppointmentDetailScreen() {
+  const { user } = useAuth();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [appointment, setAppointment] = useState<AppointmentDetail | null>(null);
+  const [history, setHistory] = useState<AppointmentHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+  const [cancelReason, setCancelReason] = useState(CANCELLATION_REASONS[0]);
+  const [cancelDetail, setCancelDetail] = useState('');
+  const [visitNotes, setVisitNotes] = useState('');
+  const [rescheduleNote, setRescheduleNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const mounted = useRef(true);
+
+  useEffect(() => {
+    mounted.current = true;
+    loadAppointment();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, [id]);
+
+  const loadAppointment = async () => {
+    try {
+      const [appointmentResult, historyResult] = await Promise.all([
+        selectAppointmentDetails().eq('id', id).single(),
+        selectAppointmentHistory()
+          .eq('appointment_id', id)
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (appointmentResult.error) throw appointmentResult.error;
+      if (historyResult.error) throw historyResult.error;
+
+      if (mounted.current) {
+        setAppointment(appointmentResult.data);
+        setHistory(historyResult.data || []);
+        setVisitNotes(appointmentResult.data.visit_notes || '');
+      }
+    } catch (error) {
+      console.error('Error loading appointment:', error);
+    } finally {
+      if (mounted.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadAppointment();
+    setRefreshing(false);
+  };
+
+  const saveUpdate = async (updates: Partial<Appointment>, successMessage: string) => {
+    if (!appointment) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('appointments')
+        .update(updates)
+        .eq('id', appointment.id)
+        .select('id');
+
+      if (error) throw error;
+      // Row-level security filters out rows the user may not change instead of raising
+      if (!data || data.length === 0) {
+        Alert.alert('Error', 'You do not have permission to update this appointment');
+        return;
+      }
+
+      setPendingAction(null);
+      syncAppointmentReminders(user!);
+      await loadAppointment();
+      Alert.alert('Updated', successMessage);
+    } catch (error) {
+      console.error('Error updating appointment:', error);
+      Alert.alert('Error', (error as { message?: string }).message || 'Could not update the appointment');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  const handleAction = (action: AppointmentAction) => {
+    switch (action) {
+      case 'cancel':
+      case 'complete':
+      case 'request_reschedule':
+        setPendingAction(pendingAction === action ? null : action);
+        return;
+      case 'reschedule':
+        router.push(`/book-appointment?rescheduleId=${appointment!.id}`);
+        return;
+      case 'no_show':
+        Alert.alert('Mark No-Show', 'Record that the family did not attend this appointment?', [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Mark No-Show',
+            style: 'destructive',
+            onPress: () => saveUpdate({ status: 'no_show' }, 'Marked as no-show'),
+          },
+        ]);
+        return;
+      default:
+        saveUpdate(
+          { status: ACTION_TARGET_STATUS[action] },
+          `Appointment ${APPOINTMENT_STATUS_LABELS[ACTION_TARGET_STATUS[action]!].toLowerCase()}`
+        );
+    }
+  };
+
+  const submitCancel = () => {
+    const reason = cancelReason === 'Other' ? cancelDetail.trim() : cancelReason;
+    if (!reason) {
+      Alert.alert('Error', 'Please describe why the appointment is cancelled');
+      return;
+    }
+    saveUpdate({ status: 'cancelled', cancellation_reason: reason }, 'Appointment cancelled');
+  };
+
+  const submitComplete = () => {
+    if (!visitNotes.trim()) {
+      Alert.alert('Error', 'Please add visit notes before completing the appointment');
+      return;
+    }
+    saveUpdate({ status: 'completed', visit_notes: visitNotes.trim() }, 'Visit completed');
+  };
+
+  const submitRescheduleRequest = () => {
+    if (!rescheduleNote.trim()) {
+      Alert.alert('Error', 'Please tell the clinic which times suit you');
+      return;
+    }
+    saveUpdate(
+      { reschedule_requested_at: new Date().toISOString(), reschedule_note: rescheduleNote.trim() },
+      'The clinic will contact you with a new time'
+    );
+  };
+
+  const formatDateTime = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  const describeHistory = (entry: AppointmentHistoryEntry) => {
+    if (!entry.from_status) return `Booked as ${APPOINTMENT_STATUS_LABELS[entry.to_status].toLowerCase()}`;
+    if (entry.previous_date && entry.new_date) {
+      return `Moved from ${formatDateTime(entry.previous_date)} to ${formatDateTime(entry.new_date)}`;
+    }
+    if (entry.from_status === entry.to_status) return entry.reason || 'Updated';
+    return `${APPOINTMENT_STATUS_LABELS[entry.from_status]} → ${APPOINTMENT_STATUS_LABELS[entry.to_status]}`;
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Loading appointment...</Text>
+      </View>
+    );
+  }
+
+  if (!appointment) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <ArrowLeft size={24} color="#ffffff" strokeWidth={2} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Appointment</Text>
+        </View>
+        <View style={styles.emptyContainer}>
+          <Calendar size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Appointment not found</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const actions = user ? getAppointmentActions(appointment, user) : [];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Appointment</Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentInner}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <SevereAllergyBanner allergies={appointment.baby?.allergies} />
+
+        <View style={styles.card}>
+          <View style={styles.rowBetween}>
+            <Text style={styles.typeText}>{APPOINTMENT_TYPE_LABELS[appointment.type]}</Text>
+            <View style={[styles.statusBadge, { backgroundColor: getAppointmentStatusColor(appointment.status) }]}>
+              <Text style={styles.statusText}>{APPOINTMENT_STATUS_LABELS[appointment.status]}</Text>
+            </View>
+          </View>
+
+          <View style={styles.infoRow}>
+            <Calendar size={18} color="#64748b" strokeWidth={2} />
+            <Text style={styles.infoText}>{formatDateTime(appointment.appointment_date)}</Text>
+          </View>
+          <View style={styles.infoRow}>
+            <Clock size={18} color="#64748b" strokeWidth={2} />
+            <Text style={styles.infoText}>{appointment.duration_minutes} min</Text>
+          </View>
+          {appointment.baby && (
+            <TouchableOpacity
+              style={styles.infoRow}
+              onPress={() =>
+                router.push(can(user, 'patients.list') ? `/patient/${appointment.baby_id}` : `/baby/${appointment.baby_id}`)
+              }
+            >
+              <Baby size={18} color="#0ea5e9" strokeWidth={2} />
+              <Text style={[styles.infoText, styles.linkText]}>
+                {appointment.baby.first_name} {appointment.baby.last_name}
+              </Text>
+            </TouchableOpacity>
+          )}
+          {appointment.doctor && (
+            <View style={styles.infoRow}>
+              <Stethoscope size={18} color="#64748b" strokeWidth={2} />
+              <Text style={styles.infoText}>
+                Dr. {appointment.doctor.first_name} {appointment.doctor.last_name}
+              </Text>
+            </View>
+          )}
+          {appointment.parent && user?.role !== 'parent' && (
+            <View style={styles.infoRow}>
+              <UserIcon size={18} color="#64748b" strokeWidth={2} />
+              <Text style={styles.infoText}>
+                {appointment.parent.first_name} {appointment.parent.last_name}
+                {appointment.parent.phone ? ` · ${appointment.parent.phone}` : ''}
+              </Text>
+            </View>
+          )}
+
+          {appointment.notes && <Text style={styles.notes}>{appointment.notes}</Text>}
+        </View>
+
+        {appointment.reschedule_requested_at && (
+          <View style={styles.banner}>
+            <Text style={styles.bannerTitle}>New time requested</Text>
+            {appointment.reschedule_note && (
+              <Text style={styles.bannerText}>{appointment.reschedule_note}</Text>
+            )}
+          </View>
+        )}
+
+        {appointment.status === 'cancelled' && appointment.cancellation_reason && (
+          <View style={[styles.banner, styles.cancelBanner]}>
+            <Text style={[styles.bannerTitle, styles.cancelBannerText]}>Cancelled</Text>
+            <Text style={[styles.bannerText, styles.cancelBannerText]}>{appointment.cancellation_reason}</Text>
+          </View>
+        )}
+
+        {appointment.visit_notes && appointment.status === 'completed' && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Visit Notes</Text>
+            <Text style={styles.bodyText}>{appointment.visit_notes}</Text>
+          </View>
+        )}
+
+        {can(user, 'notes.view') && appointment.status !== 'cancelled' && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Encounter Note</Text>
+            <Text style={styles.bodyText}>SOAP note for this visit, signed by the treating doctor</Text>
+            <TouchableOpacity
+              style={[styles.submitButton, styles.noteButton]}
+              onPress={() => router.push(`/encounter-note?appointmentId=${appointment.id}`)}
+            >
+              <Text style={styles.submitButtonText}>Open Note</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {actions.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Actions</Text>
+            <View style={styles.actionGrid}>
+              {actions.map((action) => (
+                <TouchableOpacity
+                  key={action}
+                  style={[
+                    styles.actionButton,
+                    action === 'cancel' && styles.destructiveButton,
+                    pendingAction === action && styles.activeActionButton,
+                  ]}
+                  onPress={() => handleAction(action)}
+                  disabled={saving}
+                >
+                  <Text
+                    style={[
+                      styles.actionButtonText,
+                      action === 'cancel' && styles.destructiveButtonText,
+                      pendingAction === action && styles.activeActionButtonText,
+                    ]}
+                  >
+                    {APPOINTMENT_ACTION_LABELS[action]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {pendingAction === 'cancel' && (
+              <View style={styles.actionForm}>
+                <Text style={styles.formLabel}>Reason for cancelling</Text>
+                <View style={styles.chipRow}>
+                  {CANCELLATION_REASONS.map((reason) => (
+                    <TouchableOpacity
+                      key={reason}
+                      style={[styles.chip, cancelReason === reason && styles.selectedChip]}
+                      onPress={() => setCancelReason(reason)}
+                    >
+                      <Text style={[styles.chipText, cancelReason === reason && styles.selectedChipText]}>
+                        {reason}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {cancelReason === 'Other' && (
+                  <TextInput
+                    style={styles.input}
+                    value={cancelDetail}
+                    onChangeText={setCancelDetail}
+                    placeholder="Describe the reason"
+                    placeholderTextColor="#94a3b8"
+                  />
+                )}
+                <TouchableOpacity
+                  style={[styles.submitButton, styles.destructiveSubmit, saving && styles.buttonDisabled]}
+                  onPress={submitCancel}
+                  disabled={saving}
+                >
+                  <Text style={styles.submitButtonText}>Cancel Appointment</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {pendingAction === 'complete' && (
+              <View style={styles.actionForm}>
+                <Text style={styles.formLabel}>Visit notes</Text>
+                <TextInput
+                  style={[styles.input, styles.multilineInput]}
+                  value={visitNotes}
+                  onChangeText={setVisitNotes}
+                  placeholder="Findings, advice given and next steps"
+                  placeholderTextColor="#94a3b8"
+                  multiline
+                />
+                <TouchableOpacity
+                  style={[styles.submitButton, saving && styles.buttonDisabled]}
+                  onPress={submitComplete}
+                  disabled={saving}
+                >
+                  <Text style={styles.submitButtonText}>Complete Visit</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {pendingAction === 'request_reschedule' && (
+              <View style={styles.actionForm}>
+                <Text style={styles.formLabel}>Which days or times suit you?</Text>
+                <TextInput
+                  style={[styles.input, styles.multilineInput]}
+                  value={rescheduleNote}
+                  onChangeText={setRescheduleNote}
+                  placeholder="e.g. Any weekday morning next week"
+                  placeholderTextColor="#94a3b8"
+                  multiline
+                />
+                <TouchableOpacity
+                  style={[styles.submitButton, saving && styles.buttonDisabled]}
+                  onPress={submitRescheduleRequest}
+                  disabled={saving}
+                >
+                  <Text style={styles.submitButtonText}>Send Request</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <View style={styles.cardTitleRow}>
+            <History size={18} color="#1e293b" strokeWidth={2} />
+            <Text style={styles.cardTitle}>History</Text>
+          </View>
+          {history.length === 0 ? (
+            <Text style={styles.bodyText}>No changes recorded yet</Text>
+          ) : (
+            history.map((entry) => (
+              <View key={entry.id} style={styles.historyItem}>
+                <View style={styles.historyDot} />
+                <View style={styles.historyContent}>
+                  <Text style={styles.historyTitle}>{describeHistory(entry)}</Text>
+                  {entry.reason && entry.from_status !== entry.to_status && (
+                    <Text style={styles.bodyText}>{entry.reason}</Text>
+                  )}
+                  <Text style={styles.historyMeta}>
+                    {formatDateTime(entry.created_at)}
+                    {entry.changed_by_user
+                      ? ` · ${entry.changed_by_user.first_name} ${entry.changed_by_user.last_name}`
+                      : ''}
+                  </Text>
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#f8fafc',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  header: {
+    backgroundColor: '#1e293b',
+    paddingTop: 60,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#334155',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 24,
+    paddingBottom: 48,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 12,
+  },
+  rowBetween: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  typeText: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  statusBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 10,
+  },
+  infoText: {
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  linkText: {
+    color: '#0ea5e9',
+    fontWeight: '500',
+  },
+  notes: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 8,
+    fontStyle: 'italic',
+  },
+  banner: {
+    backgroundColor: '#fef3c7',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  bannerTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#92400e',
+    marginBottom: 4,
+  },
+  bannerText: {
+    fontSize: 14,
+    color: '#92400e',
+  },
+  cancelBanner: {
+    backgroundColor: '#fee2e2',
+  },
+  cancelBannerText: {
+    color: '#991b1b',
+  },
+  bodyText: {
+    fontSize: 14,
+    color: '#475569',
+    lineHeight: 20,
+  },
+  actionGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#e0f2fe',
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0369a1',
+  },
+  activeActionButton: {
+    backgroundColor: '#0ea5e9',
+  },
+  activeActionButtonText: {
+    color: '#ffffff',
+  },
+  destructiveButton: {
+    backgroundColor: '#fee2e2',
+  },
+  destructiveButtonText: {
+    color: '#b91c1c',
+  },
+  actionForm: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  formLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  selectedChip: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  selectedChipText: {
+    color: '#ffffff',
+  },
+  input: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: '#1e293b',
+    marginBottom: 12,
+  },
+  multilineInput: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  submitButton: {
+    backgroundColor: '#0ea5e9',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  noteButton: {
+    marginTop: 12,
+  },
+  destructiveSubmit: {
+    backgroundColor: '#ef4444',
+  },
+  submitButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  historyItem: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  historyDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#0ea5e9',
+    marginTop: 5,
+  },
+  historyContent: {
+    flex: 1,
+  },
+  historyTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 2,
+  },
+  historyMeta: {
+    fontSize: 12,
+    color: '#94a3b8',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,529 @@
+import React, { useEffect, useState, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  Alert,
+} from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, CalendarOff, Trash2, Clock } from 'lucide-react-native';
+import { WEEKDAY_LABELS, parseTimeOfDay } from '@/lib/scheduling';
+import { can } from '@/lib/permissions';
+import type { DoctorSchedule, DoctorTimeOff } from '@/types/database';
+
+interface DayDraft {
+  enabled: boolean;
+  start: string;
+  end: string;
+  breakStart: string;
+  breakEnd: string;
+}
+
+const DEFAULT_DAY: DayDraft = {
+  enabled: false,
+  start: '09:00',
+  end: '17:00',
+  breakStart: '12:00',
+  breakEnd: '13:00',
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toDraft = (schedule?: DoctorSchedule): DayDraft =>
+  schedule
+    ? {
+        enabled: true,
+        start: schedule.start_time.slice(0, 5),
+        end: schedule.end_time.slice(0, 5),
+        breakStart: schedule.break_start?.slice(0, 5) ?? '',
+        breakEnd: schedule.break_end?.slice(0, 5) ?? '',
+      }
+    : { ...DEFAULT_DAY };
+
+const validateDay = (label: string, draft: DayDraft) => {
+  if (!TIME_PATTERN.test(draft.start) || !TIME_PATTERN.test(draft.end)) {
+    return `${label}: use HH:MM for working hours`;
+  }
+  if (parseTimeOfDay(draft.end) <= parseTimeOfDay(draft.start)) {
+    return `${label}: end time must be after start time`;
+  }
+  if (draft.breakStart || draft.breakEnd) {
+    if (!TIME_PATTERN.test(draft.breakStart) || !TIME_PATTERN.test(draft.breakEnd)) {
+      return `${label}: use HH:MM for the break or leave it empty`;
+    }
+    const breakStart = parseTimeOfDay(draft.breakStart);
+    const breakEnd = parseTimeOfDay(draft.breakEnd);
+    if (breakEnd <= breakStart || breakStart < parseTimeOfDay(draft.start) || breakEnd > parseTimeOfDay(draft.end)) {
+      return `${label}: the break must fall within working hours`;
+    }
+  }
+  return null;
+};
+
+export default function AvailabilityScreen() {
+  const { user } = useAuth();
+  const params = useLocalSearchParams<{ doctorId?: string }>();
+  const doctorId = can(user, 'staff.manage') && params.doctorId ? params.doctorId : user?.id;
+  const [week, setWeek] = useState<DayDraft[]>(WEEKDAY_LABELS.map(() => ({ ...DEFAULT_DAY })));
+  const [timeOff, setTimeOff] = useState<DoctorTimeOff[]>([]);
+  const [newTimeOff, setNewTimeOff] = useState({ start: '', end: '', reason: '' });
+  const [saving, setSaving] = useState(false);
+  const mounted = useRef(true);
+
+  const canEdit = can(user, 'availability.manage');
+
+  useEffect(() => {
+    mounted.current = true;
+    if (canEdit && doctorId) {
+      loadAvailability();
+    }
+
+    return () => {
+      mounted.current = false;
+    };
+  }, [doctorId]);
+
+  const loadAvailability = async () => {
+    if (!doctorId) return;
+
+    try {
+      const [schedulesResult, timeOffResult] = await Promise.all([
+        supabase.from('doctor_schedules').select('*').eq('doctor_id', doctorId),
+        supabase
+          .from('doctor_time_off')
+          .select('*')
+          .eq('doctor_id', doctorId)
+          .gte('ends_at', new Date().toISOString())
+          .order('starts_at', { ascending: true }),
+      ]);
+
+      if (schedulesResult.error) throw schedulesResult.error;
+      if (timeOffResult.error) throw timeOffResult.error;
+
+      if (mounted.current) {
+        const schedules: DoctorSchedule[] = schedulesResult.data || [];
+        setWeek(WEEKDAY_LABELS.map((_, weekday) => toDraft(schedules.find(s => s.weekday === weekday))));
+        setTimeOff(timeOffResult.data || []);
+      }
+    } catch (error) {
+      console.error('Error loading availability:', error);
+    }
+  };
+
+  const updateDay = (weekday: number, changes: Partial<DayDraft>) => {
+    setWeek(week.map((draft, index) => (index === weekday ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleSaveHours = async () => {
+    if (!doctorId) return;
+
+    for (let weekday = 0; weekday < week.length; weekday++) {
+      if (!week[weekday].enabled) continue;
+      const problem = validateDay(WEEKDAY_LABELS[weekday], week[weekday]);
+      if (problem) {
+        Alert.alert('Check Hours', problem);
+        return;
+      }
+    }
+
+    setSaving(true);
+    try {
+      const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+      const enabledDays = week
+        .map((draft, weekday) => ({ draft, weekday }))
+        .filter(({ draft }) => draft.enabled);
+      const disabledDays = week
+        .map((draft, weekday) => ({ draft, weekday }))
+        .filter(({ draft }) => !draft.enabled)
+        .map(({ weekday }) => weekday);
+
+      if (disabledDays.length > 0) {
+        const { error } = await supabase
+          .from('doctor_schedules')
+          .delete()
+          .eq('doctor_id', doctorId)
+          .in('weekday', disabledDays);
+        if (error) throw error;
+      }
+
+      if (enabledDays.length > 0) {
+        const { error } = await supabase.from('doctor_schedules').upsert(
+          enabledDays.map(({ draft, weekday }) => ({
+            doctor_id: doctorId,
+            weekday,
+            start_time: draft.start,
+            end_time: draft.end,
+            break_start: draft.breakStart || null,
+            break_end: draft.breakEnd || null,
+            timezone,
+          })),
+          { onConflict: 'doctor_id,weekday' }
+        );
+        if (error) throw error;
+      }
+
+      Alert.alert('Saved', 'Working hours updated');
+    } catch (error) {
+      console.error('Error saving working hours:', error);
+      Alert.alert('Error', 'Could not save working hours');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  const handleAddTimeOff = async () => {
+    if (!doctorId) return;
+
+    const { start, end, reason } = newTimeOff;
+    const endDate = end || start;
+    if (!DATE_PATTERN.test(start) || !DATE_PATTERN.test(endDate) || endDate < start) {
+      Alert.alert('Error', 'Enter the first and last day off as YYYY-MM-DD');
+      return;
+    }
+
+    try {
+      const startsAt = new Date(`${start}T00:00:00`);
+      const endsAt = new Date(`${endDate}T00:00:00`);
+      endsAt.setDate(endsAt.getDate() + 1);
+
+      const { error } = await supabase.from('doctor_time_off').insert({
+        doctor_id: doctorId,
+        starts_at: startsAt.toISOString(),
+        ends_at: endsAt.toISOString(),
+        reason: reason.trim() || null,
+      });
+
+      if (error) throw error;
+      setNewTimeOff({ start: '', end: '', reason: '' });
+      await loadAvailability();
+    } catch (error) {
+      console.error('Error adding time off:', error);
+      Alert.alert('Error', 'Could not add time off');
+    }
+  };
+
+  const handleRemoveTimeOff = async (entry: DoctorTimeOff) => {
+    try {
+      const { error } = await supabase.from('doctor_time_off').delete().eq('id', entry.id);
+      if (error) throw error;
+      setTimeOff(timeOff.filter(t => t.id !== entry.id));
+    } catch (error) {
+      console.error('Error removing time off:', error);
+      Alert.alert('Error', 'Could not remove time off');
+    }
+  };
+
+  const formatRange = (entry: DoctorTimeOff) => {
+    const start = new Date(entry.starts_at);
+    const end = new Date(new Date(entry.ends_at).getTime() - 1);
+    return start.toDateString() === end.toDateString()
+      ? start.toLocaleDateString()
+      : `${start.toLocaleDateString()} – ${end.toLocaleDateString()}`;
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Availability</Text>
+      </View>
+
+      {!canEdit ? (
+        <View style={styles.emptyContainer}>
+          <Clock size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Not available</Text>
+          <Text style={styles.emptyText}>Only doctors and administrators can manage availability</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Working Hours</Text>
+            {week.map((draft, weekday) => (
+              <View key={WEEKDAY_LABELS[weekday]} style={styles.dayRow}>
+                <View style={styles.dayHeader}>
+                  <Text style={styles.dayLabel}>{WEEKDAY_LABELS[weekday]}</Text>
+                  <Switch
+                    value={draft.enabled}
+                    onValueChange={(enabled) => updateDay(weekday, { enabled })}
+                    trackColor={{ false: '#e2e8f0', true: '#0ea5e9' }}
+                    thumbColor="#ffffff"
+                  />
+                </View>
+                {draft.enabled && (
+                  <View style={styles.timeRow}>
+                    <TextInput
+                      style={styles.timeInput}
+                      value={draft.start}
+                      onChangeText={(start) => updateDay(weekday, { start })}
+                      placeholder="09:00"
+                      placeholderTextColor="#94a3b8"
+                    />
+                    <Text style={styles.timeSeparator}>to</Text>
+                    <TextInput
+                      style={styles.timeInput}
+                      value={draft.end}
+                      onChangeText={(end) => updateDay(weekday, { end })}
+                      placeholder="17:00"
+                      placeholderTextColor="#94a3b8"
+                    />
+                    <Text style={styles.timeSeparator}>break</Text>
+                    <TextInput
+                      style={styles.timeInput}
+                      value={draft.breakStart}
+                      onChangeText={(breakStart) => updateDay(weekday, { breakStart })}
+                      placeholder="12:00"
+                      placeholderTextColor="#94a3b8"
+                    />
+                    <Text style={styles.timeSeparator}>–</Text>
+                    <TextInput
+                      style={styles.timeInput}
+                      value={draft.breakEnd}
+                      onChangeText={(breakEnd) => updateDay(weekday, { breakEnd })}
+                      placeholder="13:00"
+                      placeholderTextColor="#94a3b8"
+                    />
+                  </View>
+                )}
+              </View>
+            ))}
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              onPress={handleSaveHours}
+              disabled={saving}
+            >
+              <Text style={styles.primaryButtonText}>{saving ? 'Saving...' : 'Save Hours'}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Time Off</Text>
+            {timeOff.length === 0 ? (
+              <Text style={styles.helperText}>No upcoming time off</Text>
+            ) : (
+              timeOff.map((entry) => (
+                <View key={entry.id} style={styles.timeOffRow}>
+                  <CalendarOff size={18} color="#f59e0b" strokeWidth={2} />
+                  <View style={styles.timeOffInfo}>
+                    <Text style={styles.timeOffDates}>{formatRange(entry)}</Text>
+                    {entry.reason && <Text style={styles.helperText}>{entry.reason}</Text>}
+                  </View>
+                  <TouchableOpacity onPress={() => handleRemoveTimeOff(entry)}>
+                    <Trash2 size={18} color="#ef4444" strokeWidth={2} />
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+
+            <View style={styles.timeOffForm}>
+              <View style={styles.timeRow}>
+                <TextInput
+                  style={[styles.input, styles.flexInput]}
+                  value={newTimeOff.start}
+                  onChangeText={(start) => setNewTimeOff({ ...newTimeOff, start })}
+                  placeholder="First day (YYYY-MM-DD)"
+                  placeholderTextColor="#94a3b8"
+                />
+                <TextInput
+                  style={[styles.input, styles.flexInput]}
+                  value={newTimeOff.end}
+                  onChangeText={(end) => setNewTimeOff({ ...newTimeOff, end })}
+                  placeholder="Last day"
+                  placeholderTextColor="#94a3b8"
+                />
+              </View>
+              <TextInput
+                style={styles.input}
+                value={newTimeOff.reason}
+                onChangeText={(reason) => setNewTimeOff({ ...newTimeOff, reason })}
+                placeholder="Reason (optional)"
+                placeholderTextColor="#94a3b8"
+              />
+              <TouchableOpacity style={styles.secondaryButton} onPress={handleAddTimeOff}>
+                <Text style={styles.secondaryButtonText}>Add Time Off</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    backgroundColor: '#1e293b',
+    paddingTop: 60,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#334155',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 24,
+    paddingBottom: 48,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 12,
+  },
+  helperText: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  dayRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  dayLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  timeInput: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: '#1e293b',
+    width: 58,
+    textAlign: 'center',
+  },
+  timeSeparator: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  timeOffRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  timeOffInfo: {
+    flex: 1,
+  },
+  timeOffDates: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  timeOffForm: {
+    marginTop: 12,
+    gap: 8,
+  },
+  input: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  flexInput: {
+    flex: 1,
+  },
+  primaryButton: {
+    backgroundColor: '#0ea5e9',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#e0f2fe',
+  },
+  secondaryButtonText: {
+    color: '#0369a1',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,666 @@
+import React, { useEffect, useState, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { router, useLocalSearchParams } from 'expo-router';
+import {
+  ArrowLeft,
+  Baby,
+  Calendar,
+  Clock,
+  MessageCircle,
+  Pencil,
+  Ruler,
+  Stethoscope,
+  Thermometer,
+  Users,
+  Weight,
+  ClipboardList,
+  FileDown,
+} from 'lucide-react-native';
+import AllergyCard from '@/components/AllergyCard';
+import CareLogCard from '@/components/CareLogCard';
+import ImmunizationCard from '@/components/ImmunizationCard';
+import MedicationCard from '@/components/MedicationCard';
+import RequirePermission from '@/components/RequirePermission';
+import SevereAllergyBanner from '@/components/SevereAllergyBanner';
+import { calculateAge } from '@/lib/age';
+import { BABY_REPORT_LABELS, exportBabyReport, type BabyReportKind } from '@/lib/babyReport';
+import { evaluateVitalRecord, formatPercentile } from '@/lib/growthStandards';
+import { can } from '@/lib/permissions';
+import {
+  selectAppointmentsWithDoctor,
+  selectPatientCharts,
+  type AppointmentWithDoctor,
+  type PatientChart,
+} from '@/lib/queries';
+
+// Parents may correct how their baby's name is spelled; clinical fields are
+// owned by the care team and enforced by the babies update trigger.
+const PARENT_EDITABLE_FIELDS = ['first_name', 'last_name'] as const;
+
+export default function BabyProfileScreen() {
+  const { user } = useAuth();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [baby, setBaby] = useState<PatientChart | null>(null);
+  const [appointments, setAppointments] = useState<AppointmentWithDoctor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [exporting, setExporting] = useState<BabyReportKind | null>(null);
+  const [form, setForm] = useState<Record<(typeof PARENT_EDITABLE_FIELDS)[number], string>>({
+    first_name: '',
+    last_name: '',
+  });
+  const mounted = useRef(true);
+
+  const isParent = user?.role === 'parent';
+
+  useEffect(() => {
+    mounted.current = true;
+    loadBaby();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, [id]);
+
+  const loadBaby = async () => {
+    try {
+      const [babyResult, appointmentsResult] = await Promise.all([
+        selectPatientCharts().eq('id', id).single(),
+        selectAppointmentsWithDoctor()
+          .eq('baby_id', id)
+          .neq('status', 'cancelled')
+          .gte('appointment_date', new Date().toISOString())
+          .order('appointment_date', { ascending: true }),
+      ]);
+
+      if (babyResult.error) throw babyResult.error;
+
+      const profile = babyResult.data;
+      // Parents only see babies they are linked to
+      if (!can(user, 'patients.view', profile)) {
+        throw new Error('Not linked to this baby');
+      }
+
+      if (mounted.current) {
+        setBaby(profile);
+        setAppointments(appointmentsResult.data || []);
+        setForm({ first_name: profile.first_name, last_name: profile.last_name });
+      }
+    } catch (error) {
+      console.error('Error loading baby profile:', error);
+      if (mounted.current) {
+        setBaby(null);
+      }
+    } finally {
+      if (mounted.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const onRefresh = async () => {
+    if (mounted.current) {
+      setRefreshing(true);
+    }
+    await loadBaby();
+    if (mounted.current) {
+      setRefreshing(false);
+    }
+  };
+
+  const exportReport = async (kind: BabyReportKind) => {
+    if (!baby) return;
+
+    setExporting(kind);
+    try {
+      await exportBabyReport(kind, baby.id);
+    } catch (error) {
+      console.error('Error exporting report:', error);
+      Alert.alert('Error', 'Could not create the report. Please try again.');
+    } finally {
+      if (mounted.current) {
+        setExporting(null);
+      }
+    }
+  };
+
+  const saveProfile = async () => {
+    if (!baby) return;
+
+    if (!form.first_name.trim() || !form.last_name.trim()) {
+      Alert.alert('Error', 'Please fill in all required fields');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updates = Object.fromEntries(
+        PARENT_EDITABLE_FIELDS.map(field => [field, form[field].trim()])
+      );
+      const { error } = await supabase.from('babies').update(updates).eq('id', baby.id);
+
+      if (error) throw error;
+      if (mounted.current) {
+        setEditing(false);
+      }
+      await loadBaby();
+    } catch (error) {
+      console.error('Error updating baby profile:', error);
+      Alert.alert('Error', 'Could not save changes. Please try again.');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+
+  const formatTime = (dateString: string) =>
+    new Date(dateString).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+    });
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Loading profile...</Text>
+      </View>
+    );
+  }
+
+  if (!baby) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <ArrowLeft size={24} color="#ffffff" strokeWidth={2} />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.emptyContainer}>
+          <Baby size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Profile not found</Text>
+          <Text style={styles.emptyText}>
+            Contact your doctor if you think this is a mistake
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  const latest = [...baby.vital_records].sort(
+    (a, b) => new Date(b.recorded_at).getTime() - new Date(a.recorded_at).getTime()
+  )[0];
+  const latestPoint = latest ? evaluateVitalRecord(baby, latest) : null;
+  const otherCaregivers = baby.parent_babies.filter(link => link.parent_id !== user?.id);
+
+  const renderPercentile = (indicator: 'weight_for_age' | 'length_for_age' | 'head_circumference_for_age') => {
+    const measurement = latestPoint?.measurements[indicator];
+    return measurement ? (
+      <Text style={styles.vitalPercentile}>{formatPercentile(measurement.percentile)} percentile</Text>
+    ) : null;
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2} />
+        </TouchableOpacity>
+        <View style={styles.headerInfo}>
+          <Text style={styles.headerTitle}>
+            {baby.first_name} {baby.last_name}
+          </Text>
+          <Text style={styles.headerSubtitle}>{calculateAge(baby.birth_date)} old</Text>
+        </View>
+        {isParent && !editing && (
+          <TouchableOpacity style={styles.headerButton} onPress={() => setEditing(true)}>
+            <Pencil size={20} color="#ffffff" strokeWidth={2} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentInner}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+      >
+        <SevereAllergyBanner allergies={baby.allergies} />
+
+        {editing && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Edit Name</Text>
+            <Text style={styles.fieldLabel}>First Name</Text>
+            <TextInput
+              style={styles.input}
+              value={form.first_name}
+              onChangeText={(text) => setForm({ ...form, first_name: text })}
+              autoCapitalize="words"
+            />
+            <Text style={styles.fieldLabel}>Last Name</Text>
+            <TextInput
+              style={styles.input}
+              value={form.last_name}
+              onChangeText={(text) => setForm({ ...form, last_name: text })}
+              autoCapitalize="words"
+            />
+            <Text style={styles.mutedText}>
+              Medical details such as allergies and blood type are updated by your care team.
+            </Text>
+            <View style={styles.formActions}>
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => setEditing(false)}
+                disabled={saving}
+              >
+                <Text style={styles.secondaryButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.primaryButton, saving && styles.buttonDisabled]}
+                onPress={saveProfile}
+                disabled={saving}
+              >
+                <Text style={styles.primaryButtonText}>{saving ? 'Saving...' : 'Save'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        <View style={styles.quickActions}>
+          <TouchableOpacity style={styles.actionCard} onPress={() => router.push(`/compose-message?babyId=${baby.id}`)}>
+            <MessageCircle size={28} color="#f59e0b" strokeWidth={2} />
+            <Text style={styles.actionTitle}>Message Doctor</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionCard} onPress={() => router.push(`/book-appointment?babyId=${baby.id}`)}>
+            <Calendar size={28} color="#10b981" strokeWidth={2} />
+            <Text style={styles.actionTitle}>Book a Visit</Text>
+          </TouchableOpacity>
+        </View>
+
+        {(Object.keys(BABY_REPORT_LABELS) as BabyReportKind[]).map((kind) => (
+          <TouchableOpacity
+            key={kind}
+            style={styles.chartLink}
+            onPress={() => exportReport(kind)}
+            disabled={!!exporting}
+          >
+            <FileDown size={18} color="#0ea5e9" strokeWidth={2} />
+            <Text style={styles.chartLinkText}>
+              {exporting === kind ? 'Preparing document...' : `Export ${BABY_REPORT_LABELS[kind]}`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+
+        {can(user, 'patients.list') && (
+          <TouchableOpacity
+            style={styles.chartLink}
+            onPress={() => router.push(`/patient/${baby.id}`)}
+          >
+            <ClipboardList size={18} color="#0ea5e9" strokeWidth={2} />
+            <Text style={styles.chartLinkText}>Open full patient chart</Text>
+          </TouchableOpacity>
+        )}
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Latest Vitals</Text>
+          {latest ? (
+            <>
+              <View style={styles.vitalsRow}>
+                <View style={styles.vitalCard}>
+                  <Weight size={20} color="#0ea5e9" strokeWidth={2} />
+                  <Text style={styles.vitalValue}>{latest.weight ?? '--'} kg</Text>
+                  <Text style={styles.vitalLabel}>Weight</Text>
+                  {renderPercentile('weight_for_age')}
+                </View>
+                <View style={styles.vitalCard}>
+                  <Ruler size={20} color="#10b981" strokeWidth={2} />
+                  <Text style={styles.vitalValue}>{latest.height ?? '--'} cm</Text>
+                  <Text style={styles.vitalLabel}>Length</Text>
+                  {renderPercentile('length_for_age')}
+                </View>
+              </View>
+              {latest.temperature != null && (
+                <View style={styles.infoRow}>
+                  <Thermometer size={16} color="#ef4444" strokeWidth={2} />
+                  <Text style={styles.infoText}>{latest.temperature} °C</Text>
+                </View>
+              )}
+              <View style={styles.infoRow}>
+                <Clock size={16} color="#64748b" strokeWidth={2} />
+                <Text style={styles.mutedText}>
+                  Recorded {new Date(latest.recorded_at).toLocaleDateString()}
+                </Text>
+              </View>
+            </>
+          ) : (
+            <Text style={styles.mutedText}>No vitals recorded yet</Text>
+          )}
+        </View>
+
+        <RequirePermission permission="care_logs.view" target={baby}>
+          <CareLogCard babyId={baby.id} readOnly={!can(user, 'care_logs.manage', baby)} />
+        </RequirePermission>
+
+        <AllergyCard babyId={baby.id} allergies={baby.allergies} canEdit={can(user, 'allergies.manage', baby)} />
+
+        <MedicationCard
+          babyId={baby.id}
+          canPrescribe={can(user, 'medications.prescribe', baby)}
+          canLogDoses={can(user, 'medications.log_dose', baby)}
+        />
+
+        <ImmunizationCard
+          babyId={baby.id}
+          birthDate={baby.birth_date}
+          canRecord={can(user, 'immunizations.record', baby)}
+        />
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Care Team</Text>
+          <View style={styles.infoRow}>
+            <Stethoscope size={16} color="#0ea5e9" strokeWidth={2} />
+            <Text style={styles.infoText}>
+              {baby.assigned_doctor
+                ? `Dr. ${baby.assigned_doctor.first_name} ${baby.assigned_doctor.last_name}`
+                : 'No doctor assigned yet'}
+            </Text>
+          </View>
+          {otherCaregivers.map((link) => (
+            <View key={link.parent_id} style={styles.infoRow}>
+              <Users size={16} color="#64748b" strokeWidth={2} />
+              <Text style={styles.infoText}>
+                {link.parent?.first_name} {link.parent?.last_name}
+                <Text style={styles.relationshipText}> · {link.relationship}</Text>
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Upcoming Appointments</Text>
+          {appointments.length === 0 ? (
+            <Text style={styles.mutedText}>No upcoming appointments</Text>
+          ) : (
+            appointments.map((appointment) => (
+              <View key={appointment.id} style={styles.appointmentRow}>
+                <View style={styles.infoRow}>
+                  <Calendar size={16} color="#64748b" strokeWidth={2} />
+                  <Text style={styles.appointmentDate}>
+                    {formatDate(appointment.appointment_date)} · {formatTime(appointment.appointment_date)}
+                  </Text>
+                </View>
+                <Text style={styles.appointmentDetail}>
+                  {appointment.type}
+                  {appointment.doctor && ` with Dr. ${appointment.doctor.first_name} ${appointment.doctor.last_name}`}
+                </Text>
+              </View>
+            ))
+          )}
+        </View>
+
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  header: {
+    backgroundColor: '#1e293b',
+    paddingTop: 60,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#334155',
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#94a3b8',
+    marginTop: 4,
+  },
+  headerButton: {
+    backgroundColor: '#0ea5e9',
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 24,
+    paddingBottom: 48,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  quickActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginBottom: 16,
+  },
+  actionCard: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  actionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 8,
+  },
+  chartLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chartLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0ea5e9',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  vitalsRow: {
+    flexDirection: 'row',
+    gap: 16,
+    marginBottom: 12,
+  },
+  vitalCard: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  vitalValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  vitalLabel: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  vitalPercentile: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#0ea5e9',
+    marginTop: 4,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#1e293b',
+    fontWeight: '500',
+  },
+  relationshipText: {
+    color: '#64748b',
+    textTransform: 'capitalize',
+  },
+  mutedText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  appointmentRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  appointmentDate: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  appointmentDetail: {
+    fontSize: 14,
+    color: '#64748b',
+    textTransform: 'capitalize',
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 16,
+  },
+  primaryButton: {
+    backgroundColor: '#0ea5e9',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    backgroundColor: '#f1f5f9',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 12,
+  },
+  secondaryButtonText: {
+    color: '#64748b',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,660 @@
+import React, { useEffect, useState, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, Baby, Calendar, Clock, Stethoscope } from 'lucide-react-native';
+import {
+  APPOINTMENT_DURATIONS,
+  APPOINTMENT_TYPE_LABELS,
+  WEEKDAY_LABELS,
+  findAvailableSlots,
+  getBookingErrorMessage,
+  type AppointmentType,
+  type BusyTime,
+} from '@/lib/scheduling';
+import { syncAppointmentReminders } from '@/lib/notifications';
+import type { Appointment, Baby as BabyType, DoctorSchedule, DoctorTimeOff, User } from '@/types/database';
+
+type BabyOption = Pick<BabyType, 'id' | 'first_name' | 'last_name' | 'assigned_doctor_id'>;
+type Doctor = Pick<User, 'id' | 'first_name' | 'last_name'>;
+
+const APPOINTMENT_TYPES = Object.keys(APPOINTMENT_DURATIONS) as AppointmentType[];
+const BOOKING_WINDOW_DAYS = 21;
+
+const getUpcomingDays = () => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return Array.from({ length: BOOKING_WINDOW_DAYS }, (_, index) => {
+    const day = new Date(today);
+    day.setDate(today.getDate() + index);
+    return day;
+  });
+};
+
+export default function BookAppointmentScreen() {
+  const { user } = useAuth();
+  const { babyId, rescheduleId } = useLocalSearchParams<{ babyId?: string; rescheduleId?: string }>();
+  const [babies, setBabies] = useState<BabyOption[]>([]);
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [selectedBabyId, setSelectedBabyId] = useState<string | null>(babyId ?? null);
+  const [doctorId, setDoctorId] = useState<string | null>(null);
+  const [type, setType] = useState<AppointmentType>('checkup');
+  const [day, setDay] = useState(getUpcomingDays()[0]);
+  const [schedules, setSchedules] = useState<DoctorSchedule[]>([]);
+  const [timeOff, setTimeOff] = useState<DoctorTimeOff[]>([]);
+  const [busy, setBusy] = useState<BusyTime[]>([]);
+  const [slot, setSlot] = useState<Date | null>(null);
+  const [notes, setNotes] = useState('');
+  const [original, setOriginal] = useState<Appointment | null>(null);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const mounted = useRef(true);
+
+  const isParent = user?.role === 'parent';
+  const isReschedule = !!rescheduleId;
+  const days = getUpcomingDays();
+
+  useEffect(() => {
+    mounted.current = true;
+    loadOptions();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    setSlot(null);
+    if (doctorId) {
+      loadAvailability(doctorId);
+    }
+  }, [doctorId]);
+
+  const loadOptions = async () => {
+    try {
+      const [babyOptions, doctorsResult] = await Promise.all([
+        loadBabyOptions(),
+        supabase
+          .from('user_profiles')
+          .select('id, first_name, last_name')
+          .eq('role', 'doctor')
+          .neq('is_active', false)
+          .order('last_name', { ascending: true }),
+      ]);
+
+      if (doctorsResult.error) throw doctorsResult.error;
+
+      if (mounted.current) {
+        setBabies(babyOptions);
+        setDoctors(doctorsResult.data || []);
+
+        if (rescheduleId) {
+          await loadOriginal(rescheduleId);
+          return;
+        }
+
+        const initialBaby = babyOptions.find(b => b.id === babyId) ?? (babyOptions.length === 1 ? babyOptions[0] : null);
+        if (initialBaby) {
+          selectBaby(initialBaby);
+        } else if (user?.role === 'doctor') {
+          setDoctorId(user.id);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading booking options:', error);
+      Alert.alert('Error', 'Could not load booking options');
+    }
+  };
+
+  const loadBabyOptions = async (): Promise<BabyOption[]> => {
+    if (isParent) {
+      const { data, error } = await supabase
+        .from('parent_babies')
+        .select('babies (id, first_name, last_name, assigned_doctor_id)')
+        .eq('parent_id', user!.id);
+
+      if (error) throw error;
+      return data.map(row => row.babies);
+    }
+
+    const { data, error } = await supabase
+      .from('babies')
+      .select('id, first_name, last_name, assigned_doctor_id')
+      .order('first_name', { ascending: true });
+
+    if (error) throw error;
+    return data;
+  };
+
+  const loadOriginal = async (id: string) => {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    if (mounted.current) {
+      setOriginal(data);
+      setSelectedBabyId(data.baby_id);
+      setDoctorId(data.doctor_id);
+      setType(data.type);
+      setNotes(data.notes || '');
+    }
+  };
+
+  const loadAvailability = async (id: string) => {
+    setLoadingSlots(true);
+    try {
+      const from = days[0];
+      const to = new Date(days[days.length - 1]);
+      to.setDate(to.getDate() + 1);
+
+      const [schedulesResult, timeOffResult, busyResult] = await Promise.all([
+        supabase.from('doctor_schedules').select('*').eq('doctor_id', id),
+        supabase
+          .from('doctor_time_off')
+          .select('*')
+          .eq('doctor_id', id)
+          .lt('starts_at', to.toISOString())
+          .gt('ends_at', from.toISOString()),
+        supabase.rpc('get_doctor_busy_times', {
+          p_doctor_id: id,
+          p_from: from.toISOString(),
+          p_to: to.toISOString(),
+        }),
+      ]);
+
+      if (schedulesResult.error) throw schedulesResult.error;
+      if (timeOffResult.error) throw timeOffResult.error;
+      if (busyResult.error) throw busyResult.error;
+
+      if (mounted.current) {
+        setSchedules(schedulesResult.data || []);
+        setTimeOff(timeOffResult.data || []);
+        // The appointment being moved should not block its own replacement slot
+        // on its doctor's calendar
+        setBusy(
+          (busyResult.data || []).filter(
+            b =>
+              !rescheduleId ||
+              original?.doctor_id !== id ||
+              new Date(b.starts_at).getTime() !== new Date(original.appointment_date).getTime()
+          )
+        );
+      }
+    } catch (error) {
+      console.error('Error loading availability:', error);
+    } finally {
+      if (mounted.current) {
+        setLoadingSlots(false);
+      }
+    }
+  };
+
+  const selectBaby = (baby: BabyOption) => {
+    setSelectedBabyId(baby.id);
+    if (baby.assigned_doctor_id) {
+      setDoctorId(baby.assigned_doctor_id);
+    }
+  };
+
+  const durationMinutes = APPOINTMENT_DURATIONS[type];
+  const slots = findAvailableSlots({ day, durationMinutes, schedules, timeOff, busy });
+  const hasSchedule = schedules.length > 0;
+
+  const resolveParentId = async (targetBabyId: string) => {
+    if (isParent) return user!.id;
+
+    const { data, error } = await supabase
+      .from('parent_babies')
+      .select('parent_id')
+      .eq('baby_id', targetBabyId)
+      .order('created_at', { ascending: true })
+      .limit(1);
+
+    if (error) throw error;
+    return data?.[0]?.parent_id ?? null;
+  };
+
+  const handleBook = async () => {
+    if (!selectedBabyId || !doctorId || !slot) {
+      Alert.alert('Error', 'Please choose a baby, doctor and time');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (original) {
+        const { error } = await supabase
+          .from('appointments')
+          .update({
+            doctor_id: doctorId,
+            appointment_date: slot.toISOString(),
+            duration_minutes: durationMinutes,
+            notes: notes.trim() || null,
+          })
+          .eq('id', original.id);
+
+        if (error) {
+          Alert.alert('Time Unavailable', getBookingErrorMessage(error));
+          await loadAvailability(doctorId);
+          setSlot(null);
+          return;
+        }
+
+        syncAppointmentReminders(user!);
+        Alert.alert('Appointment Rescheduled', 'The family will see the new time in their appointments.', [
+          { text: 'OK', onPress: () => router.back() },
+        ]);
+        return;
+      }
+
+      const parentId = await resolveParentId(selectedBabyId);
+      if (!parentId) {
+        Alert.alert('No Parent Linked', 'Link a parent to this baby before booking an appointment.');
+        return;
+      }
+
+      const { error } = await supabase.from('appointments').insert({
+        baby_id: selectedBabyId,
+        doctor_id: doctorId,
+        parent_id: parentId,
+        appointment_date: slot.toISOString(),
+        duration_minutes: durationMinutes,
+        type,
+        status: isParent ? 'scheduled' : 'confirmed',
+        notes: notes.trim() || null,
+      });
+
+      if (error) {
+        Alert.alert('Time Unavailable', getBookingErrorMessage(error));
+        await loadAvailability(doctorId);
+        setSlot(null);
+        return;
+      }
+
+      syncAppointmentReminders(user!);
+      Alert.alert(
+        'Appointment Booked',
+        `${APPOINTMENT_TYPE_LABELS[type]} on ${slot.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })} at ${slot.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`,
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error) {
+      console.error('Error booking appointment:', error);
+      Alert.alert('Error', 'Could not book the appointment. Please try again.');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{isReschedule ? 'Reschedule' : 'Book Appointment'}</Text>
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+        {original && (
+          <View style={styles.rescheduleBanner}>
+            <Text style={styles.rescheduleTitle}>
+              Currently {new Date(original.appointment_date).toLocaleString('en-US', {
+                weekday: 'short',
+                month: 'short',
+                day: 'numeric',
+                hour: 'numeric',
+                minute: '2-digit',
+              })}
+            </Text>
+            {original.reschedule_note && (
+              <Text style={styles.rescheduleNote}>Family request: {original.reschedule_note}</Text>
+            )}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Baby size={18} color="#0ea5e9" strokeWidth={2} />
+            <Text style={styles.sectionTitle}>Baby</Text>
+          </View>
+          {babies.length === 0 ? (
+            <Text style={styles.helperText}>No babies available to book for</Text>
+          ) : (
+            <View style={styles.chipRow}>
+              {babies.map((baby) => (
+                <TouchableOpacity
+                  key={baby.id}
+                  style={[styles.chip, selectedBabyId === baby.id && styles.selectedChip]}
+                  onPress={() => selectBaby(baby)}
+                  disabled={isReschedule}
+                >
+                  <Text style={[styles.chipText, selectedBabyId === baby.id && styles.selectedChipText]}>
+                    {baby.first_name} {baby.last_name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Clock size={18} color="#0ea5e9" strokeWidth={2} />
+            <Text style={styles.sectionTitle}>Visit Type</Text>
+          </View>
+          <View style={styles.chipRow}>
+            {APPOINTMENT_TYPES.filter(t => !isParent || t !== 'emergency').map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, type === option && styles.selectedChip]}
+                onPress={() => {
+                  setType(option);
+                  setSlot(null);
+                }}
+                disabled={isReschedule}
+              >
+                <Text style={[styles.chipText, type === option && styles.selectedChipText]}>
+                  {APPOINTMENT_TYPE_LABELS[option]} · {APPOINTMENT_DURATIONS[option]} min
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Stethoscope size={18} color="#0ea5e9" strokeWidth={2} />
+            <Text style={styles.sectionTitle}>Doctor</Text>
+          </View>
+          <View style={styles.chipRow}>
+            {doctors.map((doctor) => (
+              <TouchableOpacity
+                key={doctor.id}
+                style={[styles.chip, doctorId === doctor.id && styles.selectedChip]}
+                onPress={() => setDoctorId(doctor.id)}
+              >
+                <Text style={[styles.chipText, doctorId === doctor.id && styles.selectedChipText]}>
+                  Dr. {doctor.first_name} {doctor.last_name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {doctorId && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Calendar size={18} color="#0ea5e9" strokeWidth={2} />
+              <Text style={styles.sectionTitle}>Date & Time</Text>
+            </View>
+
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.dayStrip}>
+              {days.map((option) => {
+                const selected = option.getTime() === day.getTime();
+                const available = !hasSchedule || schedules.some(s => s.weekday === option.getDay());
+                return (
+                  <TouchableOpacity
+                    key={option.toISOString()}
+                    style={[styles.dayChip, selected && styles.selectedChip, !available && styles.unavailableDay]}
+                    onPress={() => {
+                      setDay(option);
+                      setSlot(null);
+                    }}
+                  >
+                    <Text style={[styles.dayName, selected && styles.selectedChipText]}>
+                      {WEEKDAY_LABELS[option.getDay()]}
+                    </Text>
+                    <Text style={[styles.dayNumber, selected && styles.selectedChipText]}>
+                      {option.getDate()}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+
+            {loadingSlots ? (
+              <Text style={styles.helperText}>Checking availability...</Text>
+            ) : !hasSchedule ? (
+              <Text style={styles.helperText}>
+                {isParent
+                  ? 'This doctor has not published working hours yet. Please contact the clinic to book.'
+                  : 'This doctor has no working hours yet. Set them up under Availability first.'}
+              </Text>
+            ) : slots.length === 0 ? (
+              <Text style={styles.helperText}>No free times on this day. Try another date.</Text>
+            ) : (
+              <View style={styles.slotGrid}>
+                {slots.map((option) => (
+                  <TouchableOpacity
+                    key={option.toISOString()}
+                    style={[styles.slotChip, slot?.getTime() === option.getTime() && styles.selectedChip]}
+                    onPress={() => setSlot(option)}
+                  >
+                    <Text style={[styles.slotText, slot?.getTime() === option.getTime() && styles.selectedChipText]}>
+                      {option.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Notes</Text>
+          <TextInput
+            style={styles.notesInput}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Reason for the visit (optional)"
+            placeholderTextColor="#94a3b8"
+            multiline
+          />
+        </View>
+
+        <TouchableOpacity
+          style={[styles.bookButton, (!slot || saving) && styles.buttonDisabled]}
+          onPress={handleBook}
+          disabled={!slot || saving}
+        >
+          <Text style={styles.bookButtonText}>
+            {saving ? 'Saving...' : isReschedule ? 'Move Appointment' : 'Book Appointment'}
+          </Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    backgroundColor: '#1e293b',
+    paddingTop: 60,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#334155',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 24,
+    paddingBottom: 48,
+  },
+  rescheduleBanner: {
+    backgroundColor: '#fef3c7',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  rescheduleTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#92400e',
+  },
+  rescheduleNote: {
+    fontSize: 14,
+    color: '#92400e',
+    marginTop: 4,
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  helperText: {
+    fontSize: 14,
+    color: '#64748b',
+    lineHeight: 20,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  selectedChip: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  selectedChipText: {
+    color: '#ffffff',
+  },
+  dayStrip: {
+    marginBottom: 16,
+  },
+  dayChip: {
+    width: 56,
+    paddingVertical: 10,
+    marginRight: 8,
+    borderRadius: 12,
+    backgroundColor: '#f1f5f9',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    alignItems: 'center',
+  },
+  unavailableDay: {
+    opacity: 0.4,
+  },
+  dayName: {
+    fontSize: 12,
+    color: '#64748b',
+    fontWeight: '500',
+  },
+  dayNumber: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  slotGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  slotChip: {
+    width: '30%',
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#f1f5f9',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    alignItems: 'center',
+  },
+  slotText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  notesInput: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    minHeight: 80,
+    textAlignVertical: 'top',
+    marginTop: 12,
+  },
+  bookButton: {
+    backgroundColor: '#0ea5e9',
+    paddingVertical: 18,
+    borderRadius: 16,
+    alignItems: 'center',
+    shadowColor: '#0ea5e9',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  bookButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+});
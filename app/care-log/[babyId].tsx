@@ -0,0 +1,505 @@
+import React, { useEffect, useState, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, ChevronLeft, ChevronRight, NotebookPen, Trash2 } from 'lucide-react-native';
+import {
+  describeCareLog,
+  formatDuration,
+  getCareLogColor,
+  isRunning,
+  startOfDay,
+  summarizeByDay,
+  summarizeCareLogs,
+  type CareSummary,
+} from '@/lib/careLog';
+import { can } from '@/lib/permissions';
+import type { Baby as BabyType, CareLog } from '@/types/database';
+
+type Period = 'day' | 'week';
+
+const WEEK_DAYS = 7;
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export default function CareLogScreen() {
+  const { user } = useAuth();
+  const { babyId } = useLocalSearchParams<{ babyId: string }>();
+  const [baby, setBaby] = useState<Pick<BabyType, 'first_name' | 'last_name'> | null>(null);
+  const [entries, setEntries] = useState<CareLog[]>([]);
+  const [period, setPeriod] = useState<Period>('day');
+  const [selectedDay, setSelectedDay] = useState(startOfDay(new Date()));
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const mounted = useRef(true);
+
+  // Only the baby's parents write to the log; the care team sees it read-only
+  const canEdit = can(user, 'care_logs.manage');
+  const isToday = selectedDay.getTime() === startOfDay(new Date()).getTime();
+
+  useEffect(() => {
+    mounted.current = true;
+
+    return () => {
+      mounted.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    loadLog();
+  }, [babyId, selectedDay.getTime()]);
+
+  const loadLog = async () => {
+    try {
+      // The selected day and the six before it, which covers both views
+      const since = addDays(selectedDay, -(WEEK_DAYS - 1)).toISOString();
+      const until = addDays(selectedDay, 1).toISOString();
+
+      const [babyResult, entriesResult] = await Promise.all([
+        supabase.from('babies').select('first_name, last_name').eq('id', babyId).single(),
+        supabase
+          .from('care_logs')
+          .select('*')
+          .eq('baby_id', babyId)
+          .lt('started_at', until)
+          .or(`started_at.gte.${since},ended_at.gte.${since},ended_at.is.null`)
+          .order('started_at', { ascending: false }),
+      ]);
+
+      if (babyResult.error) throw babyResult.error;
+      if (entriesResult.error) throw entriesResult.error;
+      if (mounted.current) {
+        setBaby(babyResult.data);
+        setEntries(entriesResult.data || []);
+      }
+    } catch (error) {
+      console.error('Error loading care log:', error);
+    } finally {
+      if (mounted.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const onRefresh = async () => {
+    if (mounted.current) {
+      setRefreshing(true);
+    }
+    await loadLog();
+    if (mounted.current) {
+      setRefreshing(false);
+    }
+  };
+
+  const deleteEntry = (entry: CareLog) => {
+    Alert.alert('Delete Entry', `Remove "${describeCareLog(entry)}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const { error } = await supabase.from('care_logs').delete().eq('id', entry.id);
+            if (error) throw error;
+            setEntries(current => current.filter(item => item.id !== entry.id));
+          } catch (error) {
+            console.error('Error deleting care log entry:', error);
+            Alert.alert('Error', 'Could not delete this entry');
+          }
+        },
+      },
+    ]);
+  };
+
+  const now = new Date();
+  const days = summarizeByDay(entries, WEEK_DAYS, selectedDay, now);
+  const daySummary = days[days.length - 1].summary;
+  const dayEntries = entries.filter((entry) => {
+    const startedAt = new Date(entry.started_at);
+    return startedAt >= selectedDay && startedAt < addDays(selectedDay, 1);
+  });
+
+  const weekTotals = summarizeCareLogs(entries, addDays(selectedDay, -(WEEK_DAYS - 1)), addDays(selectedDay, 1), now);
+  const maxSleep = Math.max(...days.map(({ summary }) => summary.sleepMinutes), 1);
+
+  const renderSummary = (summary: CareSummary, divisor = 1) => {
+    const value = (amount: number) => (divisor === 1 ? amount : amount / divisor);
+    const items = [
+      { label: 'Feeds', text: `${Math.round(value(summary.feeds) * 10) / 10}` },
+      { label: 'Breastfeeding', text: formatDuration(value(summary.breastMinutes)) },
+      { label: 'Bottle', text: `${Math.round(value(summary.bottleMl))} ml` },
+      { label: 'Solids', text: `${Math.round(value(summary.solids) * 10) / 10}` },
+      { label: 'Sleep', text: formatDuration(value(summary.sleepMinutes)) },
+      { label: 'Wet', text: `${Math.round(value(summary.wetDiapers) * 10) / 10}` },
+      { label: 'Dirty', text: `${Math.round(value(summary.dirtyDiapers) * 10) / 10}` },
+      { label: 'Pumped', text: `${Math.round(value(summary.pumpedMl))} ml` },
+    ];
+
+    return (
+      <View style={styles.summaryGrid}>
+        {items.map((item) => (
+          <View key={item.label} style={styles.summaryItem}>
+            <Text style={styles.summaryNumber}>{item.text}</Text>
+            <Text style={styles.summaryLabel}>{item.label}</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle}>Care Log</Text>
+          {baby && <Text style={styles.headerSubtitle}>{baby.first_name} {baby.last_name}</Text>}
+        </View>
+      </View>
+
+      <View style={styles.periodToggle}>
+        {(['day', 'week'] as Period[]).map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.periodOption, period === option && styles.selectedPeriodOption]}
+            onPress={() => setPeriod(option)}
+          >
+            <Text style={[styles.periodOptionText, period === option && styles.selectedPeriodOptionText]}>
+              {option === 'day' ? 'Daily' : 'Weekly'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.dateNav}>
+        <TouchableOpacity style={styles.dateNavButton} onPress={() => setSelectedDay(addDays(selectedDay, -1))}>
+          <ChevronLeft size={20} color="#1e293b" strokeWidth={2} />
+        </TouchableOpacity>
+        <Text style={styles.dateNavText}>
+          {period === 'day'
+            ? isToday ? 'Today' : formatDay(selectedDay)
+            : `${formatDay(addDays(selectedDay, -(WEEK_DAYS - 1)))} – ${formatDay(selectedDay)}`}
+        </Text>
+        <TouchableOpacity
+          style={[styles.dateNavButton, isToday && styles.dateNavButtonDisabled]}
+          onPress={() => setSelectedDay(addDays(selectedDay, 1))}
+          disabled={isToday}
+        >
+          <ChevronRight size={20} color="#1e293b" strokeWidth={2} />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading...</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentInner}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        >
+          {period === 'day' ? (
+            <>
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Totals</Text>
+                {renderSummary(daySummary)}
+              </View>
+
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Entries</Text>
+                {dayEntries.length === 0 ? (
+                  <View style={styles.emptyContainer}>
+                    <NotebookPen size={48} color="#94a3b8" strokeWidth={1.5} />
+                    <Text style={styles.mutedText}>Nothing logged on this day</Text>
+                  </View>
+                ) : (
+                  dayEntries.map((entry) => (
+                    <View key={entry.id} style={styles.entryRow}>
+                      <View style={[styles.dot, { backgroundColor: getCareLogColor(entry.entry_type) }]} />
+                      <View style={styles.entryInfo}>
+                        <Text style={styles.entryText}>{describeCareLog(entry, now)}</Text>
+                        <Text style={styles.entryTime}>
+                          {formatTime(entry.started_at)}
+                          {entry.ended_at && entry.ended_at !== entry.started_at ? ` – ${formatTime(entry.ended_at)}` : ''}
+                          {isRunning(entry) ? ' · in progress' : ''}
+                        </Text>
+                      </View>
+                      {canEdit && (
+                        <TouchableOpacity style={styles.deleteButton} onPress={() => deleteEntry(entry)}>
+                          <Trash2 size={16} color="#94a3b8" strokeWidth={2} />
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  ))
+                )}
+              </View>
+            </>
+          ) : (
+            <>
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Daily Average</Text>
+                {renderSummary(weekTotals, WEEK_DAYS)}
+              </View>
+
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Day by Day</Text>
+                {[...days].reverse().map(({ date, summary }) => (
+                  <TouchableOpacity
+                    key={date.toISOString()}
+                    style={styles.dayRow}
+                    onPress={() => {
+                      setSelectedDay(date);
+                      setPeriod('day');
+                    }}
+                  >
+                    <Text style={styles.dayLabel}>{formatDay(date)}</Text>
+                    <View style={styles.dayStats}>
+                      <Text style={styles.dayStat}>
+                        <Text style={{ color: getCareLogColor('feeding') }}>{summary.feeds}</Text> feeds ·{' '}
+                        <Text style={{ color: getCareLogColor('diaper') }}>{summary.wetDiapers}/{summary.dirtyDiapers}</Text> diapers
+                      </Text>
+                      <View style={styles.sleepBarTrack}>
+                        <View
+                          style={[
+                            styles.sleepBar,
+                            { width: `${(summary.sleepMinutes / maxSleep) * 100}%`, backgroundColor: getCareLogColor('sleep') },
+                          ]}
+                        />
+                      </View>
+                      <Text style={styles.dayStat}>{formatDuration(summary.sleepMinutes)} sleep</Text>
+                    </View>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    backgroundColor: '#1e293b',
+    paddingTop: 60,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#334155',
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#94a3b8',
+    marginTop: 2,
+  },
+  periodToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 10,
+    padding: 3,
+    marginHorizontal: 24,
+    marginTop: 16,
+  },
+  periodOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  selectedPeriodOption: {
+    backgroundColor: '#ffffff',
+  },
+  periodOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  selectedPeriodOptionText: {
+    color: '#0ea5e9',
+  },
+  dateNav: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+  },
+  dateNavButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ffffff',
+  },
+  dateNavButtonDisabled: {
+    opacity: 0.3,
+  },
+  dateNavText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    paddingHorizontal: 24,
+    paddingBottom: 48,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  mutedText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 16,
+  },
+  summaryItem: {
+    width: '25%',
+    alignItems: 'center',
+  },
+  summaryNumber: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  summaryLabel: {
+    fontSize: 11,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 16,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  entryTime: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 6,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  dayLabel: {
+    width: 96,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  dayStats: {
+    flex: 1,
+    gap: 4,
+  },
+  dayStat: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  sleepBarTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#f1f5f9',
+    overflow: 'hidden',
+  },
+  sleepBar: {
+    height: 6,
+    borderRadius: 3,
+  },
+});
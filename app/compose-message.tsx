@@ -0,0 +1,348 @@
+import React, { useEffect, useState, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, Baby, MessageCircle, User as UserIcon } from 'lucide-react-native';
+import EmergencyGuidanceBanner from '@/components/EmergencyGuidanceBanner';
+import { getOrCreateConversation, sendMessage } from '@/lib/conversations';
+import { detectUrgentFlags } from '@/lib/triage';
+import type { Baby as BabyType, User } from '@/types/database';
+
+type BabyOption = Pick<BabyType, 'id' | 'first_name' | 'last_name'>;
+type ParentOption = Pick<User, 'id' | 'first_name' | 'last_name'>;
+
+// Parents can also ask the care team something that is not about one baby
+const GENERAL_TOPIC = 'general';
+
+export default function ComposeMessageScreen() {
+  const { user } = useAuth();
+  const { babyId } = useLocalSearchParams<{ babyId?: string }>();
+  const [babies, setBabies] = useState<BabyOption[]>([]);
+  const [parents, setParents] = useState<ParentOption[]>([]);
+  const [topic, setTopic] = useState<string | null>(babyId ?? null);
+  const [parentId, setParentId] = useState<string | null>(null);
+  const [content, setContent] = useState('');
+  const [sending, setSending] = useState(false);
+  const mounted = useRef(true);
+
+  const isParent = user?.role === 'parent';
+
+  useEffect(() => {
+    mounted.current = true;
+    loadBabies();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    setParentId(null);
+    setParents([]);
+    if (!isParent && topic && topic !== GENERAL_TOPIC) {
+      loadParents(topic);
+    }
+  }, [topic]);
+
+  const loadBabies = async () => {
+    try {
+      let options: BabyOption[];
+      if (isParent) {
+        const { data, error } = await supabase
+          .from('parent_babies')
+          .select('babies (id, first_name, last_name)')
+          .eq('parent_id', user!.id);
+
+        if (error) throw error;
+        options = data.map(row => row.babies);
+      } else {
+        const { data, error } = await supabase
+          .from('babies')
+          .select('id, first_name, last_name')
+          .order('first_name', { ascending: true });
+
+        if (error) throw error;
+        options = data;
+      }
+
+      if (mounted.current) {
+        setBabies(options);
+        if (!babyId && isParent && options.length === 1) {
+          setTopic(options[0].id);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading babies:', error);
+      Alert.alert('Error', 'Could not load your babies');
+    }
+  };
+
+  const loadParents = async (selectedBabyId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('parent_babies')
+        .select('parent:user_profiles!parent_babies_parent_id_fkey (id, first_name, last_name)')
+        .eq('baby_id', selectedBabyId);
+
+      if (error) throw error;
+
+      const options = data.map(row => row.parent);
+
+      if (mounted.current) {
+        setParents(options);
+        if (options.length === 1) {
+          setParentId(options[0].id);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading parents:', error);
+    }
+  };
+
+  const recipientParentId = isParent ? user?.id ?? null : parentId;
+  const urgentFlags = isParent ? detectUrgentFlags(content) : [];
+  const canSend = !!topic && !!recipientParentId && !!content.trim() && !sending;
+
+  const handleSend = async () => {
+    if (!user || !topic || !recipientParentId) return;
+
+    setSending(true);
+    try {
+      const conversation = await getOrCreateConversation(
+        recipientParentId,
+        topic === GENERAL_TOPIC ? null : topic,
+        user.id
+      );
+      await sendMessage(conversation, user, content);
+      router.replace(`/conversation/${conversation.id}`);
+    } catch (error) {
+      console.error('Error sending message:', error);
+      Alert.alert('Error', 'Could not send your message');
+    } finally {
+      if (mounted.current) {
+        setSending(false);
+      }
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>New Message</Text>
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Baby size={18} color="#0ea5e9" strokeWidth={2} />
+            <Text style={styles.sectionTitle}>About</Text>
+          </View>
+          <View style={styles.chipRow}>
+            {babies.map((baby) => (
+              <TouchableOpacity
+                key={baby.id}
+                style={[styles.chip, topic === baby.id && styles.selectedChip]}
+                onPress={() => setTopic(baby.id)}
+              >
+                <Text style={[styles.chipText, topic === baby.id && styles.selectedChipText]}>
+                  {baby.first_name} {baby.last_name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            {isParent && (
+              <TouchableOpacity
+                style={[styles.chip, topic === GENERAL_TOPIC && styles.selectedChip]}
+                onPress={() => setTopic(GENERAL_TOPIC)}
+              >
+                <Text style={[styles.chipText, topic === GENERAL_TOPIC && styles.selectedChipText]}>
+                  General question
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
+        {!isParent && topic && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <UserIcon size={18} color="#0ea5e9" strokeWidth={2} />
+              <Text style={styles.sectionTitle}>Parent</Text>
+            </View>
+            {parents.length === 0 ? (
+              <Text style={styles.helperText}>No parent accounts are linked to this baby yet</Text>
+            ) : (
+              <View style={styles.chipRow}>
+                {parents.map((parent) => (
+                  <TouchableOpacity
+                    key={parent.id}
+                    style={[styles.chip, parentId === parent.id && styles.selectedChip]}
+                    onPress={() => setParentId(parent.id)}
+                  >
+                    <Text style={[styles.chipText, parentId === parent.id && styles.selectedChipText]}>
+                      {parent.first_name} {parent.last_name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
+
+        <EmergencyGuidanceBanner flags={urgentFlags} />
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <MessageCircle size={18} color="#0ea5e9" strokeWidth={2} />
+            <Text style={styles.sectionTitle}>Message</Text>
+          </View>
+          <TextInput
+            style={styles.messageInput}
+            value={content}
+            onChangeText={setContent}
+            placeholder={isParent ? 'What would you like to ask the care team?' : 'Write to the family...'}
+            placeholderTextColor="#94a3b8"
+            multiline
+          />
+          {isParent && (
+            <Text style={styles.helperText}>
+              For emergencies, call the clinic or emergency services instead of sending a message.
+            </Text>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.sendButton, !canSend && styles.buttonDisabled]}
+          onPress={handleSend}
+          disabled={!canSend}
+        >
+          <Text style={styles.sendButtonText}>{sending ? 'Sending...' : 'Send Message'}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    backgroundColor: '#1e293b',
+    paddingTop: 60,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#334155',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 24,
+    paddingBottom: 48,
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  helperText: {
+    fontSize: 14,
+    color: '#64748b',
+    lineHeight: 20,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  selectedChip: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  selectedChipText: {
+    color: '#ffffff',
+  },
+  messageInput: {
+    minHeight: 120,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    textAlignVertical: 'top',
+    marginBottom: 12,
+  },
+  sendButton: {
+    backgroundColor: '#0ea5e9',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  sendButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
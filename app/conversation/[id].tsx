@@ -0,0 +1,770 @@
+import React, { useEffect, useState, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  Image,
+  Modal,
+} from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
+import * as WebBrowser from 'expo-web-browser';
+import { ArrowLeft, FileText, MessageCircle, Paperclip, Send, X } from 'lucide-react-native';
+import AttachmentCamera from '@/components/AttachmentCamera';
+import EmergencyGuidanceBanner from '@/components/EmergencyGuidanceBanner';
+import TriagePanel from '@/components/TriagePanel';
+import {
+  ATTACHMENT_MIME_TYPES,
+  formatFileSize,
+  getAttachmentUrls,
+  removeAttachment,
+  uploadAttachment,
+  validateAttachment,
+  type PendingAttachment,
+} from '@/lib/attachments';
+import {
+  getDisplayName,
+  getParticipantProfile,
+  isUnreadFor,
+  markConversationRead,
+  sendMessage,
+} from '@/lib/conversations';
+import { detectUrgentFlags, URGENT_FLAG_LABELS } from '@/lib/triage';
+import { useConversationChannel } from '@/hooks/useConversationChannel';
+import {
+  selectConversationDetails,
+  selectMessagesWithSender,
+  type ConversationDetail,
+  type MessageWithSender as ThreadMessage,
+} from '@/lib/queries';
+import type { Message } from '@/types/database';
+
+// Flags on a family's messages keep the emergency guidance up for a day
+const GUIDANCE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export default function ConversationScreen() {
+  const { user } = useAuth();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [conversation, setConversation] = useState<ConversationDetail | null>(null);
+  const [messages, setMessages] = useState<ThreadMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [attachment, setAttachment] = useState<PendingAttachment | null>(null);
+  const [attachmentUrls, setAttachmentUrls] = useState<Record<string, string>>({});
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [cameraVisible, setCameraVisible] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const mounted = useRef(true);
+  const scrollRef = useRef<ScrollView>(null);
+
+  const isParent = user?.role === 'parent';
+
+  useEffect(() => {
+    mounted.current = true;
+    loadConversation();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, [id]);
+
+  const { onlineParticipants, typingParticipants, notifyTyping } = useConversationChannel(
+    conversation?.id,
+    user,
+    {
+      onInsert: async (message) => {
+        try {
+          const sender = await getParticipantProfile(message.sender_id);
+          if (!mounted.current) return;
+          // Without the sender's name the row cannot be shown on its own
+          if (!sender) {
+            await loadMessages();
+            return;
+          }
+
+          // Our own sends are already in the list from handleSend
+          setMessages(prev =>
+            prev.some(existing => existing.id === message.id)
+              ? prev
+              : [...prev, { ...message, sender }]
+          );
+          await loadAttachmentUrls([message]);
+
+          if (isUnreadFor({ ...message, sender_role: sender.role }, user!)) {
+            await markConversationRead(id);
+          }
+        } catch (error) {
+          console.error('Error receiving message:', error);
+        }
+      },
+      onUpdate: (message) => {
+        setMessages(prev =>
+          prev.map(existing =>
+            existing.id === message.id
+              ? { ...existing, is_read: message.is_read, read_at: message.read_at }
+              : existing
+          )
+        );
+      },
+    }
+  );
+
+  const loadConversation = async () => {
+    try {
+      const { data, error } = await selectConversationDetails()
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (mounted.current) {
+        setConversation(data);
+      }
+      if (data) {
+        await loadMessages();
+      }
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+      Alert.alert('Error', 'Could not load this conversation');
+    } finally {
+      if (mounted.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const loadMessages = async () => {
+    try {
+      const { data, error } = await selectMessagesWithSender()
+        .eq('conversation_id', id)
+        .order('sent_at', { ascending: true });
+
+      if (error) throw error;
+      const thread = data || [];
+
+      if (mounted.current) {
+        setMessages(thread);
+      }
+
+      await loadAttachmentUrls(thread);
+
+      // Opening the thread counts as reading everything the other side sent
+      if (thread.some(message => isUnreadFor({ ...message, sender_role: message.sender?.role }, user!))) {
+        await markConversationRead(id);
+      }
+    } catch (error) {
+      console.error('Error loading messages:', error);
+    }
+  };
+
+  const loadAttachmentUrls = async (thread: Pick<Message, 'attachment_path'>[]) => {
+    const paths = thread
+      .map(message => message.attachment_path)
+      .filter((path): path is string => !!path);
+
+    try {
+      const urls = await getAttachmentUrls(paths);
+      if (mounted.current) {
+        setAttachmentUrls(prev => ({ ...prev, ...urls }));
+      }
+    } catch (error) {
+      console.error('Error loading attachments:', error);
+    }
+  };
+
+  const selectAttachment = (file: PendingAttachment) => {
+    const invalid = validateAttachment(file);
+    if (invalid) {
+      Alert.alert('Cannot attach file', invalid);
+      return;
+    }
+    setAttachment(file);
+  };
+
+  const pickDocument = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: Object.keys(ATTACHMENT_MIME_TYPES),
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets[0]) return;
+
+      const asset = result.assets[0];
+      selectAttachment({
+        uri: asset.uri,
+        name: asset.name,
+        mimeType: asset.mimeType ?? 'application/octet-stream',
+        size: asset.size,
+      });
+    } catch (error) {
+      console.error('Error picking file:', error);
+      Alert.alert('Error', 'Could not open the file');
+    }
+  };
+
+  const showAttachmentOptions = () => {
+    if (Platform.OS === 'web') {
+      pickDocument();
+      return;
+    }
+
+    Alert.alert('Add Attachment', undefined, [
+      { text: 'Take Photo', onPress: () => setCameraVisible(true) },
+      { text: 'Choose Photo or PDF', onPress: pickDocument },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleSend = async () => {
+    if (!conversation || !user || (!draft.trim() && !attachment)) return;
+
+    setSending(true);
+    try {
+      const uploaded = attachment ? await uploadAttachment(conversation.id, attachment) : undefined;
+      let message: Message;
+      try {
+        message = await sendMessage(conversation, user, draft, uploaded);
+      } catch (error) {
+        if (uploaded) {
+          await removeAttachment(uploaded.attachment_path).catch(removeError =>
+            console.error('Error removing unsent attachment:', removeError)
+          );
+        }
+        throw error;
+      }
+      if (mounted.current) {
+        setDraft('');
+        setAttachment(null);
+        if (uploaded && attachment) {
+          setAttachmentUrls(prev => ({ ...prev, [uploaded.attachment_path]: attachment.uri }));
+        }
+        setMessages(prev =>
+          prev.some(existing => existing.id === message.id)
+            ? prev
+            : [...prev, { ...message, sender: { first_name: user.first_name, last_name: user.last_name, role: user.role } }]
+        );
+      }
+    } catch (error) {
+      console.error('Error sending message:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Could not send your message');
+    } finally {
+      if (mounted.current) {
+        setSending(false);
+      }
+    }
+  };
+
+  const formatTimestamp = (timestamp: string) =>
+    new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  const renderAttachment = (message: ThreadMessage, mine: boolean) => {
+    if (!message.attachment_path) return null;
+    const url = attachmentUrls[message.attachment_path];
+
+    if (message.message_type === 'image') {
+      return (
+        <TouchableOpacity disabled={!url} onPress={() => url && setPreviewUrl(url)}>
+          {url ? (
+            <Image source={{ uri: url }} style={styles.imageThumbnail} resizeMode="cover" />
+          ) : (
+            <View style={[styles.imageThumbnail, styles.imagePlaceholder]}>
+              <Text style={styles.placeholderText}>Loading photo...</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+      );
+    }
+
+    return (
+      <TouchableOpacity
+        style={[styles.documentCard, mine && styles.myDocumentCard]}
+        disabled={!url}
+        onPress={() => url && WebBrowser.openBrowserAsync(url)}
+      >
+        <FileText size={24} color={mine ? '#ffffff' : '#0ea5e9'} strokeWidth={2} />
+        <View style={styles.documentInfo}>
+          <Text style={[styles.documentName, mine && styles.myBubbleText]} numberOfLines={1}>
+            {message.attachment_name ?? 'Document'}
+          </Text>
+          {message.attachment_size != null && (
+            <Text style={[styles.documentMeta, mine && styles.myDocumentMeta]}>
+              PDF · {formatFileSize(message.attachment_size)}
+            </Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const getSenderName = (message: ThreadMessage) => (message.sender ? getDisplayName(message.sender) : '');
+
+  const formatTime = (timestamp: string) =>
+    new Date(timestamp).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  const getActivityText = () => {
+    if (typingParticipants.length > 0) {
+      return typingParticipants.length === 1
+        ? `${typingParticipants[0].name} is typing...`
+        : 'Several people are typing...';
+    }
+    if (onlineParticipants.length > 0) {
+      return `${onlineParticipants.map(participant => participant.name).join(', ')} ${
+        onlineParticipants.length === 1 ? 'is' : 'are'
+      } here`;
+    }
+    return null;
+  };
+
+  const activityText = getActivityText();
+
+  const getGuidanceFlags = () => {
+    if (!isParent) return [];
+    const since = Date.now() - GUIDANCE_WINDOW_MS;
+    const recentFlags = messages
+      .filter(message => message.sender_id === user?.id && new Date(message.sent_at).getTime() > since)
+      .flatMap(message => message.urgent_flags ?? []);
+    return Array.from(new Set([...detectUrgentFlags(draft), ...recentFlags]));
+  };
+
+  const guidanceFlags = getGuidanceFlags();
+
+  const title = isParent
+    ? 'Care Team'
+    : conversation?.parent
+      ? `${conversation.parent.first_name} ${conversation.parent.last_name}`
+      : 'Conversation';
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Loading conversation...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle} numberOfLines={1}>{title}</Text>
+          {conversation && (
+            <TouchableOpacity
+              disabled={!conversation.baby || isParent}
+              onPress={() => conversation.baby && router.push(`/patient/${conversation.baby.id}`)}
+            >
+              <Text style={styles.headerSubtitle}>
+                {conversation.baby
+                  ? `About ${conversation.baby.first_name} ${conversation.baby.last_name}`
+                  : 'General questions'}
+              </Text>
+            </TouchableOpacity>
+          )}
+          {activityText && (
+            <Text style={styles.activityText} numberOfLines={1}>{activityText}</Text>
+          )}
+        </View>
+      </View>
+
+      {!conversation ? (
+        <View style={styles.emptyContainer}>
+          <MessageCircle size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Conversation not found</Text>
+        </View>
+      ) : (
+        <>
+          {!isParent && (
+            <TriagePanel
+              conversation={conversation}
+              onChange={(updated) => setConversation(prev => (prev ? { ...prev, ...updated } : prev))}
+            />
+          )}
+
+          <ScrollView
+            ref={scrollRef}
+            style={styles.content}
+            contentContainerStyle={styles.contentInner}
+            onContentSizeChange={() => scrollRef.current?.scrollToEnd({ animated: false })}
+          >
+            <EmergencyGuidanceBanner flags={guidanceFlags} />
+
+            {messages.length === 0 ? (
+              <Text style={styles.helperText}>
+                {isParent
+                  ? 'Send a message and someone from the care team will reply.'
+                  : 'No messages yet. Say hello to the family.'}
+              </Text>
+            ) : (
+              messages.map((message) => {
+                const mine = message.sender_id === user?.id;
+                return (
+                  <View key={message.id} style={[styles.messageRow, mine && styles.myMessageRow]}>
+                    {!mine && <Text style={styles.senderName}>{getSenderName(message)}</Text>}
+                    <View style={[styles.bubble, mine ? styles.myBubble : styles.theirBubble]}>
+                      {renderAttachment(message, mine)}
+                      {!!message.content && (
+                        <Text
+                          style={[
+                            styles.bubbleText,
+                            mine && styles.myBubbleText,
+                            !!message.attachment_path && styles.caption,
+                          ]}
+                        >
+                          {message.content}
+                        </Text>
+                      )}
+                    </View>
+                    {!isParent && !!message.urgent_flags?.length && (
+                      <Text style={styles.flagText}>
+                        Flagged: {message.urgent_flags.map(flag => URGENT_FLAG_LABELS[flag] ?? flag).join(', ')}
+                      </Text>
+                    )}
+                    <Text style={styles.timestamp}>
+                      {formatTimestamp(message.sent_at)}
+                      {mine && message.is_read
+                        ? ` · Read${message.read_at ? ` ${formatTime(message.read_at)}` : ''}`
+                        : ''}
+                    </Text>
+                  </View>
+                );
+              })
+            )}
+          </ScrollView>
+
+          {attachment && (
+            <View style={styles.pendingAttachment}>
+              {attachment.mimeType.startsWith('image/') ? (
+                <Image source={{ uri: attachment.uri }} style={styles.pendingThumbnail} />
+              ) : (
+                <FileText size={24} color="#0ea5e9" strokeWidth={2} />
+              )}
+              <View style={styles.documentInfo}>
+                <Text style={styles.documentName} numberOfLines={1}>{attachment.name}</Text>
+                {attachment.size != null && (
+                  <Text style={styles.documentMeta}>{formatFileSize(attachment.size)}</Text>
+                )}
+              </View>
+              <TouchableOpacity onPress={() => setAttachment(null)} disabled={sending}>
+                <X size={20} color="#64748b" strokeWidth={2} />
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <View style={styles.composer}>
+            <TouchableOpacity style={styles.attachButton} onPress={showAttachmentOptions} disabled={sending}>
+              <Paperclip size={20} color="#64748b" strokeWidth={2} />
+            </TouchableOpacity>
+            <TextInput
+              style={styles.composerInput}
+              value={draft}
+              onChangeText={(text) => {
+                setDraft(text);
+                notifyTyping();
+              }}
+              placeholder="Write a message..."
+              placeholderTextColor="#94a3b8"
+              multiline
+            />
+            <TouchableOpacity
+              style={[styles.sendButton, ((!draft.trim() && !attachment) || sending) && styles.buttonDisabled]}
+              onPress={handleSend}
+              disabled={(!draft.trim() && !attachment) || sending}
+            >
+              <Send size={20} color="#ffffff" strokeWidth={2} />
+            </TouchableOpacity>
+          </View>
+
+          <AttachmentCamera
+            visible={cameraVisible}
+            onClose={() => setCameraVisible(false)}
+            onCapture={(photo) => {
+              setCameraVisible(false);
+              selectAttachment(photo);
+            }}
+          />
+
+          <Modal visible={!!previewUrl} transparent animationType="fade" onRequestClose={() => setPreviewUrl(null)}>
+            <View style={styles.previewBackdrop}>
+              <TouchableOpacity style={styles.previewClose} onPress={() => setPreviewUrl(null)}>
+                <X size={24} color="#ffffff" strokeWidth={2} />
+              </TouchableOpacity>
+              {previewUrl && (
+                <Image source={{ uri: previewUrl }} style={styles.previewImage} resizeMode="contain" />
+              )}
+            </View>
+          </Modal>
+        </>
+      )}
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#f8fafc',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  header: {
+    backgroundColor: '#1e293b',
+    paddingTop: 60,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#334155',
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#94a3b8',
+    marginTop: 2,
+  },
+  activityText: {
+    fontSize: 12,
+    color: '#38bdf8',
+    marginTop: 2,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 24,
+    paddingBottom: 16,
+  },
+  helperText: {
+    fontSize: 14,
+    color: '#64748b',
+    lineHeight: 20,
+    textAlign: 'center',
+  },
+  messageRow: {
+    alignItems: 'flex-start',
+    marginBottom: 16,
+  },
+  myMessageRow: {
+    alignItems: 'flex-end',
+  },
+  senderName: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748b',
+    marginBottom: 4,
+  },
+  bubble: {
+    maxWidth: '80%',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  theirBubble: {
+    backgroundColor: '#ffffff',
+    borderBottomLeftRadius: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.08,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  myBubble: {
+    backgroundColor: '#0ea5e9',
+    borderBottomRightRadius: 4,
+  },
+  bubbleText: {
+    fontSize: 16,
+    color: '#1e293b',
+    lineHeight: 22,
+  },
+  myBubbleText: {
+    color: '#ffffff',
+  },
+  caption: {
+    marginTop: 8,
+  },
+  imageThumbnail: {
+    width: 200,
+    height: 200,
+    borderRadius: 12,
+  },
+  imagePlaceholder: {
+    backgroundColor: '#e2e8f0',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  placeholderText: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  documentCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    minWidth: 200,
+    padding: 10,
+    borderRadius: 12,
+    backgroundColor: '#f1f5f9',
+  },
+  myDocumentCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  documentInfo: {
+    flex: 1,
+  },
+  documentName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  documentMeta: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  myDocumentMeta: {
+    color: '#e0f2fe',
+  },
+  pendingAttachment: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#ffffff',
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+  },
+  pendingThumbnail: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+  },
+  attachButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#f1f5f9',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  previewBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(15, 23, 42, 0.95)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  previewClose: {
+    position: 'absolute',
+    top: 60,
+    right: 24,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#334155',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 1,
+  },
+  previewImage: {
+    width: '100%',
+    height: '80%',
+  },
+  flagText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ef4444',
+    marginTop: 4,
+  },
+  timestamp: {
+    fontSize: 11,
+    color: '#94a3b8',
+    marginTop: 4,
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 32,
+    backgroundColor: '#ffffff',
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+  },
+  composerInput: {
+    flex: 1,
+    maxHeight: 120,
+    minHeight: 44,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 22,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    backgroundColor: '#f8fafc',
+  },
+  sendButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#0ea5e9',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -0,0 +1,706 @@
+import React, { useEffect, useState, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, Baby, FileText, PenLine } from 'lucide-react-native';
+import SevereAllergyBanner from '@/components/SevereAllergyBanner';
+import {
+  EMPTY_SOAP,
+  getLatestVersion,
+  getNoteStatusColor,
+  isSoapEmpty,
+  NOTE_STATUS_LABELS,
+  NOTE_TEMPLATES,
+  SOAP_SECTIONS,
+  sortVersions,
+  type SoapContent,
+} from '@/lib/encounterNotes';
+import { can } from '@/lib/permissions';
+import { APPOINTMENT_TYPE_LABELS } from '@/lib/scheduling';
+import {
+  selectAppointmentDetails,
+  selectEncounterNotesWithVersions,
+  type AppointmentDetail,
+  type EncounterNoteWithVersions,
+} from '@/lib/queries';
+import type { User } from '@/types/database';
+
+type StaffName = Pick<User, 'first_name' | 'last_name'>;
+
+// 'edit' writes the original note until it is signed; 'amend' adds a signed amendment
+type Mode = 'view' | 'edit' | 'amend';
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const formatName = (person: StaffName | null) => (person ? `Dr. ${person.first_name} ${person.last_name}` : 'Unknown');
+
+const toContent = (version: SoapContent): SoapContent => ({
+  subjective: version.subjective,
+  objective: version.objective,
+  assessment: version.assessment,
+  plan: version.plan,
+});
+
+export default function EncounterNoteScreen() {
+  const { user } = useAuth();
+  const { appointmentId } = useLocalSearchParams<{ appointmentId: string }>();
+  const [appointment, setAppointment] = useState<AppointmentDetail | null>(null);
+  const [note, setNote] = useState<EncounterNoteWithVersions | null>(null);
+  const [mode, setMode] = useState<Mode>('view');
+  const [content, setContent] = useState<SoapContent>(EMPTY_SOAP);
+  const [amendmentReason, setAmendmentReason] = useState('');
+  const [viewingVersion, setViewingVersion] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const mounted = useRef(true);
+
+  const canView = can(user, 'notes.view');
+  const canWrite = can(user, 'notes.write');
+
+  useEffect(() => {
+    mounted.current = true;
+    loadNote();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, [appointmentId]);
+
+  const loadNote = async () => {
+    try {
+      const [appointmentResult, noteResult] = await Promise.all([
+        selectAppointmentDetails().eq('id', appointmentId).single(),
+        selectEncounterNotesWithVersions()
+          .eq('appointment_id', appointmentId)
+          .maybeSingle(),
+      ]);
+
+      if (appointmentResult.error) throw appointmentResult.error;
+      if (noteResult.error) throw noteResult.error;
+      if (!mounted.current) return;
+
+      const loadedAppointment = appointmentResult.data;
+      const loadedNote = noteResult.data;
+      setAppointment(loadedAppointment);
+      setNote(loadedNote);
+      setViewingVersion(null);
+      setAmendmentReason('');
+
+      const latest = getLatestVersion(loadedNote?.versions);
+      if (!loadedNote) {
+        setContent(NOTE_TEMPLATES[loadedAppointment.type]);
+        setMode(canWrite ? 'edit' : 'view');
+      } else if (latest && !latest.signed_at && latest.author_id === user?.id) {
+        setContent(toContent(latest));
+        setMode('edit');
+      } else {
+        setMode('view');
+      }
+    } catch (error) {
+      console.error('Error loading encounter note:', error);
+      Alert.alert('Error', 'Could not load the encounter note');
+    } finally {
+      if (mounted.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const saveNote = async (sign: boolean) => {
+    if (!appointment || !user) return;
+
+    if (isSoapEmpty(content)) {
+      Alert.alert('Error', 'Please complete the note before saving');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const signature = sign ? { signed_at: new Date().toISOString(), signed_by: user.id } : {};
+      const draft = getLatestVersion(note?.versions);
+
+      if (!note) {
+        const { data: created, error: noteError } = await supabase
+          .from('encounter_notes')
+          .insert({
+            baby_id: appointment.baby_id,
+            appointment_id: appointment.id,
+            template: appointment.type,
+            author_id: user.id,
+          })
+          .select()
+          .single();
+
+        if (noteError) throw noteError;
+
+        // `version` is numbered by the insert trigger; versions are always inserted unsigned
+        const { data: version, error } = await supabase
+          .from('encounter_note_versions')
+          .insert({ note_id: created.id, version: 1, ...content, author_id: user.id })
+          .select()
+          .single();
+        if (error) throw error;
+
+        if (sign) {
+          const { error: signError } = await supabase
+            .from('encounter_note_versions')
+            .update(signature)
+            .eq('id', version.id);
+          if (signError) throw signError;
+        }
+      } else if (draft && !draft.signed_at) {
+        const { error } = await supabase
+          .from('encounter_note_versions')
+          .update({ ...content, ...signature })
+          .eq('id', draft.id);
+        if (error) throw error;
+      }
+
+      await loadNote();
+    } catch (error) {
+      console.error('Error saving encounter note:', error);
+      Alert.alert('Error', 'Could not save the note. Please try again.');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  const confirmSign = () => {
+    Alert.alert('Sign Note', 'Signed notes cannot be edited. Later changes are recorded as amendments.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Sign', onPress: () => saveNote(true) },
+    ]);
+  };
+
+  const startAmendment = () => {
+    const latest = getLatestVersion(note?.versions);
+    if (!latest) return;
+    setContent(toContent(latest));
+    setAmendmentReason('');
+    setViewingVersion(null);
+    setMode('amend');
+  };
+
+  const saveAmendment = async () => {
+    if (!note || !user) return;
+
+    if (!amendmentReason.trim()) {
+      Alert.alert('Error', 'Please give a reason for the amendment');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: amendment, error } = await supabase
+        .from('encounter_note_versions')
+        .insert({
+          note_id: note.id,
+          version: note.versions.length + 1,
+          ...content,
+          amendment_reason: amendmentReason.trim(),
+          author_id: user.id,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+
+      const { error: signError } = await supabase
+        .from('encounter_note_versions')
+        .update({ signed_at: new Date().toISOString(), signed_by: user.id })
+        .eq('id', amendment.id);
+      if (signError) throw signError;
+
+      await loadNote();
+    } catch (error) {
+      console.error('Error amending encounter note:', error);
+      Alert.alert('Error', 'Could not save the amendment. Please try again.');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  const discardDraft = () => {
+    if (!note) {
+      router.back();
+      return;
+    }
+
+    Alert.alert('Discard Draft', 'Delete this unsigned note?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const { error } = await supabase.from('encounter_notes').delete().eq('id', note.id);
+            if (error) throw error;
+            router.back();
+          } catch (error) {
+            console.error('Error discarding encounter note:', error);
+            Alert.alert('Error', 'Could not discard the draft');
+          }
+        },
+      },
+    ]);
+  };
+
+  const versions = sortVersions(note?.versions);
+  const shown = viewingVersion != null
+    ? versions.find(version => version.version === viewingVersion) ?? null
+    : versions[0] ?? null;
+  const latestSigned = !!versions[0]?.signed_at;
+
+  const renderEditor = () => (
+    <>
+      {mode === 'amend' && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Reason for Amendment</Text>
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={[styles.input, styles.reasonInput]}
+              placeholder="e.g. Corrected weight, added lab result"
+              placeholderTextColor="#94a3b8"
+              value={amendmentReason}
+              onChangeText={setAmendmentReason}
+              multiline
+            />
+          </View>
+        </View>
+      )}
+
+      {SOAP_SECTIONS.map((section) => (
+        <View key={section.key} style={styles.section}>
+          <Text style={styles.sectionTitle}>{section.label}</Text>
+          <Text style={styles.hintText}>{section.hint}</Text>
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={[styles.input, styles.soapInput]}
+              value={content[section.key]}
+              onChangeText={(text) => setContent({ ...content, [section.key]: text })}
+              multiline
+            />
+          </View>
+        </View>
+      ))}
+
+      {mode === 'edit' ? (
+        <>
+          <TouchableOpacity
+            style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+            onPress={confirmSign}
+            disabled={saving}
+          >
+            <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Sign Note'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => saveNote(false)}
+            disabled={saving}
+          >
+            <Text style={styles.secondaryButtonText}>Save Draft</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.discardButton} onPress={discardDraft} disabled={saving}>
+            <Text style={styles.discardButtonText}>{note ? 'Discard Draft' : 'Cancel'}</Text>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <>
+          <TouchableOpacity
+            style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+            onPress={saveAmendment}
+            disabled={saving}
+          >
+            <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Sign Amendment'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.discardButton} onPress={() => setMode('view')} disabled={saving}>
+            <Text style={styles.discardButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </>
+  );
+
+  const renderNote = () => {
+    if (!note || !shown) {
+      return (
+        <View style={styles.emptyContainer}>
+          <FileText size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>No note yet</Text>
+          <Text style={styles.emptyText}>The doctor has not written a note for this appointment</Text>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <View style={styles.section}>
+          {SOAP_SECTIONS.map((section) => (
+            <View key={section.key} style={styles.soapBlock}>
+              <Text style={styles.soapLabel}>{section.label}</Text>
+              <Text style={styles.soapText}>{shown[section.key].trim() || '—'}</Text>
+            </View>
+          ))}
+          <Text style={styles.signatureText}>
+            {shown.signed_at
+              ? `${shown.version > 1 ? 'Amendment signed' : 'Signed'} by ${formatName(shown.signer)} · ${formatDateTime(shown.signed_at)}`
+              : `Draft by ${formatName(shown.author)} · last saved ${formatDateTime(shown.updated_at)}`}
+          </Text>
+        </View>
+
+        {canWrite && latestSigned && (
+          <TouchableOpacity style={styles.saveButton} onPress={startAmendment}>
+            <Text style={styles.saveButtonText}>Amend Note</Text>
+          </TouchableOpacity>
+        )}
+
+        {versions.length > 1 && (
+          <View style={[styles.section, styles.historySection]}>
+            <Text style={styles.sectionTitle}>Version History</Text>
+            {versions.map((version) => {
+              const selected = version.version === shown.version;
+              return (
+                <TouchableOpacity
+                  key={version.id}
+                  style={[styles.versionRow, selected && styles.selectedVersionRow]}
+                  onPress={() => setViewingVersion(version.version)}
+                >
+                  <PenLine size={16} color={selected ? '#0ea5e9' : '#64748b'} strokeWidth={2} />
+                  <View style={styles.versionInfo}>
+                    <Text style={styles.versionTitle}>
+                      {version.version === 1 ? 'Original note' : `Amendment ${version.version - 1}`}
+                      {version === versions[0] ? ' · current' : ''}
+                    </Text>
+                    <Text style={styles.versionDetail}>
+                      {formatName(version.author)} · {formatDateTime(version.signed_at ?? version.updated_at)}
+                    </Text>
+                    {version.amendment_reason ? (
+                      <Text style={styles.versionReason}>{version.amendment_reason}</Text>
+                    ) : null}
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Encounter Note</Text>
+      </View>
+
+      {!canView ? (
+        <View style={styles.emptyContainer}>
+          <FileText size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Not available</Text>
+          <Text style={styles.emptyText}>
+            Clinical notes are only available to the care team
+          </Text>
+        </View>
+      ) : loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading...</Text>
+        </View>
+      ) : !appointment ? (
+        <View style={styles.emptyContainer}>
+          <FileText size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Appointment not found</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+          <SevereAllergyBanner allergies={appointment.baby?.allergies} />
+
+          <View style={styles.patientBanner}>
+            <Baby size={20} color="#0ea5e9" strokeWidth={2} />
+            <View style={styles.patientBannerInfo}>
+              <Text style={styles.patientBannerText}>
+                {appointment.baby ? `${appointment.baby.first_name} ${appointment.baby.last_name}` : 'Patient'}
+              </Text>
+              <Text style={styles.patientBannerDetail}>
+                {APPOINTMENT_TYPE_LABELS[appointment.type]} · {formatDateTime(appointment.appointment_date)}
+              </Text>
+            </View>
+            {note && (
+              <View style={[styles.statusBadge, { backgroundColor: getNoteStatusColor(note.status) }]}>
+                <Text style={styles.statusText}>{NOTE_STATUS_LABELS[note.status]}</Text>
+              </View>
+            )}
+          </View>
+
+          {mode === 'view' ? renderNote() : renderEditor()}
+        </ScrollView>
+      )}
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    backgroundColor: '#1e293b',
+    paddingTop: 60,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#334155',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 24,
+    paddingBottom: 48,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  historySection: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#64748b',
+    marginBottom: 12,
+  },
+  patientBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#e0f2fe',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  patientBannerInfo: {
+    flex: 1,
+  },
+  patientBannerText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  patientBannerDetail: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  soapInput: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+  },
+  reasonInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  soapBlock: {
+    marginBottom: 16,
+  },
+  soapLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#0369a1',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 4,
+  },
+  soapText: {
+    fontSize: 15,
+    color: '#1e293b',
+    lineHeight: 22,
+  },
+  signatureText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: '#64748b',
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+    paddingTop: 12,
+  },
+  versionRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+  },
+  selectedVersionRow: {
+    backgroundColor: '#f0f9ff',
+  },
+  versionInfo: {
+    flex: 1,
+  },
+  versionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  versionDetail: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  versionReason: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: '#475569',
+    marginTop: 4,
+  },
+  saveButton: {
+    backgroundColor: '#0ea5e9',
+    paddingVertical: 18,
+    borderRadius: 16,
+    alignItems: 'center',
+    marginTop: 8,
+    shadowColor: '#0ea5e9',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  saveButtonDisabled: {
+    opacity: 0.7,
+  },
+  saveButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#0ea5e9',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0ea5e9',
+  },
+  discardButton: {
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  discardButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+});
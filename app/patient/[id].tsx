@@ -0,0 +1,872 @@
+import React, { useEffect, useState, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { router, useLocalSearchParams } from 'expo-router';
+import {
+  ArrowLeft,
+  Baby,
+  Calendar,
+  Clock,
+  Droplet,
+  Activity,
+  MessageCircle,
+  Users,
+  Stethoscope,
+  Pencil,
+  TriangleAlert as AlertTriangle,
+} from 'lucide-react-native';
+import AllergyCard from '@/components/AllergyCard';
+import CareLogCard from '@/components/CareLogCard';
+import EncounterNotesTimeline from '@/components/EncounterNotesTimeline';
+import ImmunizationCard from '@/components/ImmunizationCard';
+import MedicationCard from '@/components/MedicationCard';
+import MilestoneTracker from '@/components/MilestoneTracker';
+import ProblemList from '@/components/ProblemList';
+import RequirePermission from '@/components/RequirePermission';
+import SevereAllergyBanner from '@/components/SevereAllergyBanner';
+import { calculateAge } from '@/lib/age';
+import { APPOINTMENT_STATUS_LABELS, getAppointmentStatusColor } from '@/lib/appointmentLifecycle';
+import { evaluateGrowthAlerts } from '@/lib/growthAlerts';
+import { evaluateVitalRecord, formatPercentile } from '@/lib/growthStandards';
+import { can } from '@/lib/permissions';
+import {
+  selectAppointmentsWithDoctor,
+  selectMessagesWithSender,
+  selectPatientCharts,
+  type AppointmentWithDoctor,
+  type MessageWithSender,
+  type PatientChart,
+} from '@/lib/queries';
+import type { User, VitalRecord } from '@/types/database';
+
+type Doctor = Pick<User, 'id' | 'first_name' | 'last_name'>;
+
+export default function PatientDetailScreen() {
+  const { user } = useAuth();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [patient, setPatient] = useState<PatientChart | null>(null);
+  const [appointments, setAppointments] = useState<AppointmentWithDoctor[]>([]);
+  const [messages, setMessages] = useState<MessageWithSender[]>([]);
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [medicalForm, setMedicalForm] = useState({
+    bloodType: '',
+    medicalNotes: '',
+  });
+  const mounted = useRef(true);
+
+  const canReassign = can(user, 'patients.assign_doctor');
+
+  useEffect(() => {
+    mounted.current = true;
+    loadPatient();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, [id]);
+
+  const loadPatient = async () => {
+    try {
+      const [patientResult, appointmentsResult, messagesResult] = await Promise.all([
+        selectPatientCharts().eq('id', id).single(),
+        selectAppointmentsWithDoctor()
+          .eq('baby_id', id)
+          .order('appointment_date', { ascending: false }),
+        selectMessagesWithSender()
+          .eq('baby_id', id)
+          .order('sent_at', { ascending: false }),
+      ]);
+
+      if (patientResult.error) throw patientResult.error;
+
+      if (canReassign) {
+        const { data: doctorData } = await supabase
+          .from('user_profiles')
+          .select('id, first_name, last_name')
+          .eq('role', 'doctor')
+          .order('last_name', { ascending: true });
+        if (mounted.current) {
+          setDoctors(doctorData || []);
+        }
+      }
+
+      if (mounted.current) {
+        const chart = patientResult.data;
+        chart.vital_records = [...chart.vital_records].sort(
+          (a, b) => new Date(b.recorded_at).getTime() - new Date(a.recorded_at).getTime()
+        );
+        setPatient(chart);
+        setAppointments(appointmentsResult.data || []);
+        setMessages(messagesResult.data || []);
+        setMedicalForm({
+          bloodType: chart.blood_type || '',
+          medicalNotes: chart.medical_notes || '',
+        });
+      }
+    } catch (error) {
+      console.error('Error loading patient:', error);
+    } finally {
+      if (mounted.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const onRefresh = async () => {
+    if (mounted.current) {
+      setRefreshing(true);
+    }
+    await loadPatient();
+    if (mounted.current) {
+      setRefreshing(false);
+    }
+  };
+
+  const saveMedicalInfo = async () => {
+    if (!patient) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('babies')
+        .update({
+          blood_type: medicalForm.bloodType.trim() || null,
+          medical_notes: medicalForm.medicalNotes.trim() || null,
+        })
+        .eq('id', patient.id);
+
+      if (error) throw error;
+      if (mounted.current) {
+        setEditing(false);
+      }
+      await loadPatient();
+    } catch (error) {
+      console.error('Error updating patient:', error);
+      Alert.alert('Error', 'Could not save changes. Please try again.');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  const assignDoctor = async (doctor: Doctor) => {
+    if (!patient) return;
+
+    try {
+      const { error } = await supabase
+        .from('babies')
+        .update({ assigned_doctor_id: doctor.id })
+        .eq('id', patient.id);
+
+      if (error) throw error;
+      await loadPatient();
+    } catch (error) {
+      console.error('Error assigning doctor:', error);
+      Alert.alert('Error', 'Could not assign doctor. Please try again.');
+    }
+  };
+
+  const handleReassign = () => {
+    Alert.alert(
+      'Assign Doctor',
+      'Select the doctor responsible for this patient',
+      [
+        ...doctors.map(doctor => ({
+          text: `Dr. ${doctor.first_name} ${doctor.last_name}`,
+          onPress: () => assignDoctor(doctor),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+
+  const formatTime = (dateString: string) =>
+    new Date(dateString).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+    });
+
+  const renderVitalRecord = (record: VitalRecord) => {
+    const point = evaluateVitalRecord(patient!, record);
+    const weightPercentile = point.measurements.weight_for_age?.percentile;
+    const values = [
+      record.weight != null && `${record.weight} kg`,
+      record.height != null && `${record.height} cm`,
+      record.head_circumference != null && `HC ${record.head_circumference} cm`,
+      record.temperature != null && `${record.temperature} °C`,
+      record.heart_rate != null && `HR ${record.heart_rate}`,
+      record.respiratory_rate != null && `RR ${record.respiratory_rate}`,
+      record.oxygen_saturation != null && `SpO2 ${record.oxygen_saturation}%`,
+    ].filter(Boolean);
+
+    return (
+      <View key={record.id} style={styles.timelineItem}>
+        <View style={styles.timelineDot} />
+        <View style={styles.timelineContent}>
+          <View style={styles.rowBetween}>
+            <Text style={styles.timelineDate}>{formatDate(record.recorded_at)}</Text>
+            {weightPercentile != null && (
+              <Text style={styles.percentileText}>
+                {formatPercentile(weightPercentile)} wt
+              </Text>
+            )}
+          </View>
+          <Text style={styles.timelineValues}>{values.join(' • ') || 'No measurements'}</Text>
+          {record.feeding_time && (
+            <Text style={styles.timelineNote}>Fed at {record.feeding_time}</Text>
+          )}
+          {record.notes && <Text style={styles.timelineNote}>{record.notes}</Text>}
+        </View>
+      </View>
+    );
+  };
+
+  const renderAppointment = (appointment: AppointmentWithDoctor) => (
+    <TouchableOpacity
+      key={appointment.id}
+      style={styles.listItem}
+      onPress={() => router.push(`/appointment/${appointment.id}`)}
+    >
+      <View style={styles.rowBetween}>
+        <View style={styles.inlineRow}>
+          <Calendar size={14} color="#64748b" strokeWidth={2} />
+          <Text style={styles.listItemTitle}>
+            {formatDate(appointment.appointment_date)} · {formatTime(appointment.appointment_date)}
+          </Text>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: getAppointmentStatusColor(appointment.status) }]}>
+          <Text style={styles.statusText}>{APPOINTMENT_STATUS_LABELS[appointment.status]}</Text>
+        </View>
+      </View>
+      <Text style={styles.listItemSubtitle}>
+        {appointment.type}
+        {appointment.doctor && ` with Dr. ${appointment.doctor.first_name} ${appointment.doctor.last_name}`}
+      </Text>
+      {appointment.notes && <Text style={styles.timelineNote}>{appointment.notes}</Text>}
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Loading patient...</Text>
+      </View>
+    );
+  }
+
+  if (!patient || !can(user, 'patients.list')) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <ArrowLeft size={24} color="#ffffff" strokeWidth={2} />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.emptyContainer}>
+          <Baby size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Patient not found</Text>
+          <Text style={styles.emptyText}>
+            This chart does not exist or you do not have access to it
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  const now = Date.now();
+  const upcomingAppointments = appointments
+    .filter(appointment => new Date(appointment.appointment_date).getTime() >= now)
+    .reverse();
+  const pastAppointments = appointments.filter(
+    appointment => new Date(appointment.appointment_date).getTime() < now
+  );
+  const growthAlerts = evaluateGrowthAlerts(patient, patient.vital_records);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2} />
+        </TouchableOpacity>
+        <View style={styles.headerInfo}>
+          <Text style={styles.headerTitle}>
+            {patient.first_name} {patient.last_name}
+          </Text>
+          <Text style={styles.headerSubtitle}>
+            {calculateAge(patient.birth_date)} • {patient.gender} • Born {formatDate(patient.birth_date)}
+          </Text>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentInner}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+      >
+        <SevereAllergyBanner allergies={patient.allergies} />
+
+        {can(user, 'vitals.record', patient) && (
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => router.push(`/record-vitals?babyId=${patient.id}`)}
+            >
+              <Activity size={18} color="#ffffff" strokeWidth={2} />
+              <Text style={styles.actionButtonText}>Record Vitals</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {growthAlerts.map((alert) => (
+          <View
+            key={`${alert.type}-${alert.title}`}
+            style={[styles.alertBanner, alert.severity === 'critical' && styles.criticalAlertBanner]}
+          >
+            <AlertTriangle
+              size={18}
+              color={alert.severity === 'critical' ? '#991b1b' : '#92400e'}
+              strokeWidth={2}
+            />
+            <View style={styles.alertContent}>
+              <Text style={styles.alertTitle}>{alert.title}</Text>
+              <Text style={styles.alertDetail}>{alert.detail}</Text>
+            </View>
+          </View>
+        ))}
+
+        <View style={styles.card}>
+          <View style={styles.rowBetween}>
+            <Text style={styles.cardTitle}>Medical Information</Text>
+            {can(user, 'medical_info.update', patient) && !editing && (
+              <TouchableOpacity style={styles.editButton} onPress={() => setEditing(true)}>
+                <Pencil size={16} color="#0ea5e9" strokeWidth={2} />
+                <Text style={styles.editButtonText}>Edit</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {editing ? (
+            <>
+              <Text style={styles.fieldLabel}>Blood Type</Text>
+              <TextInput
+                style={styles.input}
+                value={medicalForm.bloodType}
+                onChangeText={(text) => setMedicalForm({ ...medicalForm, bloodType: text })}
+                placeholder="e.g. O+"
+                placeholderTextColor="#94a3b8"
+                autoCapitalize="characters"
+              />
+              <Text style={styles.fieldLabel}>Medical Notes</Text>
+              <TextInput
+                style={[styles.input, styles.notesInput]}
+                value={medicalForm.medicalNotes}
+                onChangeText={(text) => setMedicalForm({ ...medicalForm, medicalNotes: text })}
+                placeholder="Clinical notes"
+                placeholderTextColor="#94a3b8"
+                multiline
+              />
+              <View style={styles.formActions}>
+                <TouchableOpacity
+                  style={styles.secondaryButton}
+                  onPress={() => setEditing(false)}
+                  disabled={saving}
+                >
+                  <Text style={styles.secondaryButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.primaryButton, saving && styles.buttonDisabled]}
+                  onPress={saveMedicalInfo}
+                  disabled={saving}
+                >
+                  <Text style={styles.primaryButtonText}>{saving ? 'Saving...' : 'Save'}</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          ) : (
+            <>
+              <View style={styles.infoRow}>
+                <Droplet size={16} color="#ef4444" strokeWidth={2} />
+                <Text style={styles.infoLabel}>Blood type</Text>
+                <Text style={styles.infoValue}>{patient.blood_type || 'Unknown'}</Text>
+              </View>
+              <Text style={styles.notesText}>
+                {patient.medical_notes || 'No medical notes'}
+              </Text>
+            </>
+          )}
+        </View>
+
+        <AllergyCard babyId={patient.id} allergies={patient.allergies} canEdit={can(user, 'allergies.manage', patient)} />
+
+        <ProblemList babyId={patient.id} canEdit={can(user, 'problems.manage', patient)} />
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Care Team</Text>
+          <View style={styles.infoRow}>
+            <Stethoscope size={16} color="#0ea5e9" strokeWidth={2} />
+            <Text style={styles.infoLabel}>Doctor</Text>
+            <Text style={styles.infoValue}>
+              {patient.assigned_doctor
+                ? `Dr. ${patient.assigned_doctor.first_name} ${patient.assigned_doctor.last_name}`
+                : 'Unassigned'}
+            </Text>
+          </View>
+          {canReassign && (
+            <TouchableOpacity style={styles.linkButton} onPress={handleReassign}>
+              <Text style={styles.linkButtonText}>Change assigned doctor</Text>
+            </TouchableOpacity>
+          )}
+
+          <View style={styles.subsection}>
+            <View style={styles.inlineRow}>
+              <Users size={16} color="#64748b" strokeWidth={2} />
+              <Text style={styles.subsectionTitle}>Parents & Guardians</Text>
+            </View>
+            {patient.parent_babies.length === 0 ? (
+              <Text style={styles.mutedText}>No linked parents</Text>
+            ) : (
+              patient.parent_babies.map((link, index) => (
+                <View key={link.parent?.id || index} style={styles.parentRow}>
+                  <Text style={styles.parentName}>
+                    {link.parent?.first_name} {link.parent?.last_name}
+                    <Text style={styles.relationshipText}> · {link.relationship}</Text>
+                  </Text>
+                  {link.parent?.email && <Text style={styles.mutedText}>{link.parent.email}</Text>}
+                  {link.parent?.phone && <Text style={styles.mutedText}>{link.parent.phone}</Text>}
+                </View>
+              ))
+            )}
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Vitals Timeline</Text>
+          {patient.vital_records.length === 0 ? (
+            <Text style={styles.mutedText}>No vitals recorded yet</Text>
+          ) : (
+            patient.vital_records.map(renderVitalRecord)
+          )}
+        </View>
+
+        <MedicationCard
+          babyId={patient.id}
+          canPrescribe={can(user, 'medications.prescribe', patient)}
+          canLogDoses={can(user, 'medications.log_dose', patient)}
+        />
+
+        <ImmunizationCard babyId={patient.id} birthDate={patient.birth_date} canRecord={can(user, 'immunizations.record', patient)} />
+
+        <MilestoneTracker babyId={patient.id} birthDate={patient.birth_date} canReview={can(user, 'milestones.review', patient)} />
+
+        <EncounterNotesTimeline babyId={patient.id} />
+
+        <RequirePermission permission="care_logs.view" target={patient}>
+          <CareLogCard babyId={patient.id} readOnly />
+        </RequirePermission>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Upcoming Appointments</Text>
+          {upcomingAppointments.length === 0 ? (
+            <Text style={styles.mutedText}>Nothing scheduled</Text>
+          ) : (
+            upcomingAppointments.map(renderAppointment)
+          )}
+
+          <View style={styles.subsection}>
+            <View style={styles.inlineRow}>
+              <Clock size={16} color="#64748b" strokeWidth={2} />
+              <Text style={styles.subsectionTitle}>Past Appointments</Text>
+            </View>
+            {pastAppointments.length === 0 ? (
+              <Text style={styles.mutedText}>No past visits</Text>
+            ) : (
+              pastAppointments.map(renderAppointment)
+            )}
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Messages</Text>
+          {messages.length === 0 ? (
+            <Text style={styles.mutedText}>No messages about this patient</Text>
+          ) : (
+            messages.map((message) => (
+              <View key={message.id} style={styles.listItem}>
+                <View style={styles.rowBetween}>
+                  <View style={styles.inlineRow}>
+                    <MessageCircle size={14} color="#64748b" strokeWidth={2} />
+                    <Text style={styles.listItemTitle}>
+                      {message.sender?.role === 'doctor' ? 'Dr. ' : ''}
+                      {message.sender?.first_name} {message.sender?.last_name}
+                    </Text>
+                  </View>
+                  <Text style={styles.mutedText}>{formatDate(message.sent_at)}</Text>
+                </View>
+                <Text style={styles.messageContent}>{message.content}</Text>
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  header: {
+    backgroundColor: '#1e293b',
+    paddingTop: 60,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#334155',
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#94a3b8',
+    marginTop: 4,
+    textTransform: 'capitalize',
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 24,
+    paddingBottom: 48,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#0ea5e9',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  actionButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  alertBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    backgroundColor: '#fef3c7',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  criticalAlertBanner: {
+    backgroundColor: '#fee2e2',
+  },
+  alertContent: {
+    flex: 1,
+  },
+  alertTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  alertDetail: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  rowBetween: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  editButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 16,
+  },
+  editButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0ea5e9',
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  infoLabel: {
+    fontSize: 14,
+    color: '#64748b',
+    width: 80,
+  },
+  infoValue: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  notesText: {
+    fontSize: 14,
+    color: '#1e293b',
+    lineHeight: 20,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  notesInput: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#0ea5e9',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    backgroundColor: '#f1f5f9',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 12,
+  },
+  secondaryButtonText: {
+    color: '#64748b',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  linkButton: {
+    marginBottom: 8,
+  },
+  linkButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0ea5e9',
+  },
+  subsection: {
+    marginTop: 8,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+    gap: 8,
+  },
+  subsectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  parentRow: {
+    paddingVertical: 4,
+  },
+  parentName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  relationshipText: {
+    color: '#64748b',
+    textTransform: 'capitalize',
+  },
+  mutedText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  timelineItem: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingBottom: 16,
+  },
+  timelineDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#0ea5e9',
+    marginTop: 5,
+  },
+  timelineContent: {
+    flex: 1,
+  },
+  timelineDate: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  percentileText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#0ea5e9',
+  },
+  timelineValues: {
+    fontSize: 14,
+    color: '#1e293b',
+    marginTop: 4,
+  },
+  timelineNote: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+  listItem: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  listItemTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  listItemSubtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 4,
+    textTransform: 'capitalize',
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ffffff',
+    textTransform: 'capitalize',
+  },
+  messageContent: {
+    fontSize: 14,
+    color: '#1e293b',
+    lineHeight: 20,
+    marginTop: 6,
+  },
+});
@@ -0,0 +1,700 @@
+import React, { useEffect, useState, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, Baby, Pill, Scale, TriangleAlert as AlertTriangle } from 'lucide-react-native';
+import SevereAllergyBanner from '@/components/SevereAllergyBanner';
+import { ALLERGY_SEVERITY_LABELS, formatAllergyList } from '@/lib/allergies';
+import {
+  computeDose,
+  findAllergyConflicts,
+  formatDose,
+  FREQUENCY_LABELS,
+  FREQUENCY_OPTIONS,
+  getPrescriptionEnd,
+  loadFormulary,
+  loadLatestWeight,
+  STALE_WEIGHT_DAYS,
+  type DoseFrequency,
+} from '@/lib/medications';
+import { can } from '@/lib/permissions';
+import { selectBabiesWithAllergies, type BabyWithAllergies } from '@/lib/queries';
+import type { Medication } from '@/types/database';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DURATION_DAYS = '5';
+
+export default function PrescribeMedicationScreen() {
+  const { user } = useAuth();
+  const { babyId } = useLocalSearchParams<{ babyId: string }>();
+  const [baby, setBaby] = useState<BabyWithAllergies | null>(null);
+  const [formulary, setFormulary] = useState<Medication[]>([]);
+  const [weight, setWeight] = useState<{ weightKg: number; recordedAt: string } | null>(null);
+  const [medication, setMedication] = useState<Medication | null>(null);
+  const [customDrug, setCustomDrug] = useState(false);
+  const [drugName, setDrugName] = useState('');
+  const [drugClass, setDrugClass] = useState('');
+  const [dosePerKg, setDosePerKg] = useState('');
+  const [frequency, setFrequency] = useState<DoseFrequency>(8);
+  const [durationDays, setDurationDays] = useState(DEFAULT_DURATION_DAYS);
+  const [instructions, setInstructions] = useState('');
+  const [overrideReason, setOverrideReason] = useState('');
+  const [doseOverrideReason, setDoseOverrideReason] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const mounted = useRef(true);
+
+  const canPrescribe = can(user, 'medications.prescribe');
+
+  useEffect(() => {
+    mounted.current = true;
+    loadData();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, [babyId]);
+
+  const loadData = async () => {
+    try {
+      const [babyResult, medications, latestWeight] = await Promise.all([
+        selectBabiesWithAllergies().eq('id', babyId).single(),
+        loadFormulary(),
+        loadLatestWeight(babyId),
+      ]);
+
+      if (babyResult.error) throw babyResult.error;
+      if (mounted.current) {
+        setBaby(babyResult.data);
+        setFormulary(medications);
+        setWeight(latestWeight);
+      }
+    } catch (error) {
+      console.error('Error loading prescription details:', error);
+      Alert.alert('Error', 'Could not load patient details');
+    } finally {
+      if (mounted.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const selectMedication = (selected: Medication) => {
+    setMedication(selected);
+    setCustomDrug(false);
+    setDrugName(selected.name);
+    setDrugClass(selected.drug_class ?? '');
+    setDosePerKg(String(selected.dose_mg_per_kg));
+    setDoseOverrideReason('');
+    setFrequency(selected.frequency_hours);
+  };
+
+  const selectCustomDrug = () => {
+    setMedication(null);
+    setCustomDrug(true);
+    setDrugName('');
+    setDrugClass('');
+    setDosePerKg('');
+    setDoseOverrideReason('');
+  };
+
+  const parsedDosePerKg = parseFloat(dosePerKg);
+  const dose = weight && parsedDosePerKg > 0
+    ? computeDose(parsedDosePerKg, weight.weightKg, medication?.max_dose_mg)
+    : null;
+  // A capped dose can be overridden to the full weight-based dose with a reason
+  const doseOverride = dose?.capped && doseOverrideReason.trim() ? doseOverrideReason.trim() : null;
+  const prescribedDoseMg = dose && weight
+    ? doseOverride ? computeDose(parsedDosePerKg, weight.weightKg).doseMg : dose.doseMg
+    : null;
+  const weightAgeDays = weight
+    ? Math.floor((Date.now() - new Date(weight.recordedAt).getTime()) / DAY_MS)
+    : null;
+  const allergyList = formatAllergyList(baby?.allergies);
+  const conflicts = drugName.trim()
+    ? findAllergyConflicts({ name: drugName, drug_class: drugClass || null }, baby?.allergies)
+    : [];
+
+  const handleSave = async () => {
+    if (!baby || !user) return;
+
+    if (!weight || !dose) {
+      Alert.alert('Error', 'A recorded weight and a dose per kg are needed to calculate the dose');
+      return;
+    }
+
+    if (!drugName.trim()) {
+      Alert.alert('Error', 'Please choose or enter a medication');
+      return;
+    }
+
+    const days = parseInt(durationDays, 10);
+    if (!days || days < 1 || days > 90) {
+      Alert.alert('Error', 'Duration must be between 1 and 90 days');
+      return;
+    }
+
+    if (conflicts.length > 0 && !overrideReason.trim()) {
+      Alert.alert('Allergy Conflict', 'Enter a reason to prescribe despite the recorded allergy');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const startsAt = new Date();
+      const { error } = await supabase.from('prescriptions').insert({
+        baby_id: baby.id,
+        medication_id: medication?.id ?? null,
+        drug_name: drugName.trim(),
+        drug_class: drugClass.trim() || null,
+        dose_mg_per_kg: parsedDosePerKg,
+        weight_kg: weight.weightKg,
+        dose_mg: prescribedDoseMg ?? dose.doseMg,
+        frequency_hours: frequency,
+        duration_days: days,
+        starts_at: startsAt.toISOString(),
+        ends_at: getPrescriptionEnd(startsAt, days).toISOString(),
+        instructions: instructions.trim() || null,
+        allergy_override_reason: conflicts.length > 0 ? overrideReason.trim() : null,
+        dose_override_reason: doseOverride,
+        prescribed_by: user.id,
+      });
+
+      if (error) {
+        if (error.hint === 'allergy_conflict') {
+          Alert.alert('Allergy Conflict', 'This medication conflicts with a recorded allergy. Enter a reason to override.');
+          return;
+        }
+        if (error.hint === 'dose_limit') {
+          Alert.alert('Dose Limit', 'This dose is above the weight-based dose or the maximum single dose. Enter a reason to override.');
+          return;
+        }
+        throw error;
+      }
+
+      router.back();
+    } catch (error) {
+      console.error('Error saving prescription:', error);
+      Alert.alert('Error', 'Could not save the prescription. Please try again.');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Prescribe</Text>
+      </View>
+
+      {!canPrescribe ? (
+        <View style={styles.emptyContainer}>
+          <Pill size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Not available</Text>
+          <Text style={styles.emptyText}>
+            Medications are prescribed by your baby's doctor
+          </Text>
+        </View>
+      ) : loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading...</Text>
+        </View>
+      ) : !baby ? (
+        <View style={styles.emptyContainer}>
+          <Baby size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Patient not found</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+          <SevereAllergyBanner allergies={baby.allergies} />
+
+          <View style={styles.patientBanner}>
+            <Baby size={20} color="#0ea5e9" strokeWidth={2} />
+            <View style={styles.patientBannerInfo}>
+              <Text style={styles.patientBannerText}>
+                {baby.first_name} {baby.last_name}
+              </Text>
+              <Text style={[styles.allergyText, !allergyList && styles.noAllergyText]}>
+                {allergyList ? `Allergies: ${allergyList}` : 'No known allergies'}
+              </Text>
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.weightRow}>
+              <Scale size={20} color={weight ? '#0ea5e9' : '#ef4444'} strokeWidth={2} />
+              <View style={styles.weightInfo}>
+                <Text style={styles.weightValue}>
+                  {weight ? `${weight.weightKg} kg` : 'No weight recorded'}
+                </Text>
+                <Text style={styles.weightDetail}>
+                  {weight
+                    ? `Recorded ${new Date(weight.recordedAt).toLocaleDateString()}`
+                    : 'Record vitals before prescribing a weight-based dose'}
+                </Text>
+              </View>
+            </View>
+            {weightAgeDays != null && weightAgeDays > STALE_WEIGHT_DAYS && (
+              <Text style={styles.warningText}>
+                This weight is {weightAgeDays} days old. Consider re-weighing before prescribing.
+              </Text>
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Medication</Text>
+            <View style={styles.chipRow}>
+              {formulary.map((option) => (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[styles.chip, medication?.id === option.id && styles.selectedChip]}
+                  onPress={() => selectMedication(option)}
+                >
+                  <Text style={[styles.chipText, medication?.id === option.id && styles.selectedChipText]}>
+                    {option.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={[styles.chip, customDrug && styles.selectedChip]}
+                onPress={selectCustomDrug}
+              >
+                <Text style={[styles.chipText, customDrug && styles.selectedChipText]}>Other</Text>
+              </TouchableOpacity>
+            </View>
+
+            {customDrug && (
+              <>
+                <View style={styles.field}>
+                  <Text style={styles.fieldLabel}>Drug Name</Text>
+                  <View style={styles.inputContainer}>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="e.g. Nitrofurantoin"
+                      placeholderTextColor="#94a3b8"
+                      value={drugName}
+                      onChangeText={setDrugName}
+                    />
+                  </View>
+                </View>
+                <View style={styles.field}>
+                  <Text style={styles.fieldLabel}>Drug Class</Text>
+                  <View style={styles.inputContainer}>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="Optional, used for the allergy check"
+                      placeholderTextColor="#94a3b8"
+                      value={drugClass}
+                      onChangeText={setDrugClass}
+                    />
+                  </View>
+                </View>
+              </>
+            )}
+          </View>
+
+          {conflicts.length > 0 && (
+            <View style={styles.conflictBox}>
+              <View style={styles.conflictHeader}>
+                <AlertTriangle size={20} color="#dc2626" strokeWidth={2} />
+                <Text style={styles.conflictTitle}>Allergy conflict</Text>
+              </View>
+              <Text style={styles.conflictText}>
+                {drugName.trim()} matches the recorded allerg{conflicts.length === 1 ? 'y' : 'ies'}:{' '}
+                {conflicts
+                  .map(allergy =>
+                    [allergy.allergen, allergy.severity ? ALLERGY_SEVERITY_LABELS[allergy.severity].toLowerCase() : null, allergy.reaction]
+                      .filter(Boolean)
+                      .join(', ')
+                  )
+                  .join('; ')}
+                .
+              </Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={[styles.input, styles.notesInput]}
+                  placeholder="Reason for prescribing anyway"
+                  placeholderTextColor="#94a3b8"
+                  value={overrideReason}
+                  onChangeText={setOverrideReason}
+                  multiline
+                />
+              </View>
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Dose</Text>
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Dose per kg (mg/kg)</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. 15"
+                  placeholderTextColor="#94a3b8"
+                  value={dosePerKg}
+                  onChangeText={setDosePerKg}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            </View>
+
+            {dose && (
+              <View style={styles.doseBox}>
+                <Text style={styles.doseValue}>{formatDose(prescribedDoseMg ?? dose.doseMg)} per dose</Text>
+                <Text style={styles.doseDetail}>
+                  {!dose.capped
+                    ? `${parsedDosePerKg} mg/kg × ${weight?.weightKg} kg`
+                    : doseOverride
+                      ? `Above the maximum single dose of ${formatDose(medication?.max_dose_mg ?? dose.doseMg)}`
+                      : `Capped at the maximum single dose of ${formatDose(medication?.max_dose_mg ?? dose.doseMg)}`}
+                </Text>
+                {dose.capped && (
+                  <View style={[styles.inputContainer, styles.doseOverrideInput]}>
+                    <TextInput
+                      style={[styles.input, styles.notesInput]}
+                      placeholder="Reason to prescribe the full weight-based dose"
+                      placeholderTextColor="#94a3b8"
+                      value={doseOverrideReason}
+                      onChangeText={setDoseOverrideReason}
+                      multiline
+                    />
+                  </View>
+                )}
+              </View>
+            )}
+
+            <Text style={styles.fieldLabel}>Frequency</Text>
+            <View style={styles.chipRow}>
+              {FREQUENCY_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, frequency === option && styles.selectedChip]}
+                  onPress={() => setFrequency(option)}
+                >
+                  <Text style={[styles.chipText, frequency === option && styles.selectedChipText]}>
+                    {FREQUENCY_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Duration (days)</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. 5"
+                  placeholderTextColor="#94a3b8"
+                  value={durationDays}
+                  onChangeText={setDurationDays}
+                  keyboardType="number-pad"
+                />
+              </View>
+            </View>
+
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Instructions</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={[styles.input, styles.notesInput]}
+                  placeholder="e.g. Give with food"
+                  placeholderTextColor="#94a3b8"
+                  value={instructions}
+                  onChangeText={setInstructions}
+                  multiline
+                />
+              </View>
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={[
+              styles.saveButton,
+              (conflicts.length > 0 || doseOverride) && styles.overrideButton,
+              (saving || !dose) && styles.saveButtonDisabled,
+            ]}
+            onPress={handleSave}
+            disabled={saving || !dose}
+          >
+            <Text style={styles.saveButtonText}>
+              {saving ? 'Saving...' : conflicts.length > 0 || doseOverride ? 'Prescribe Anyway' : 'Save Prescription'}
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    backgroundColor: '#1e293b',
+    paddingTop: 60,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#334155',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 24,
+    paddingBottom: 48,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  patientBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#e0f2fe',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  patientBannerInfo: {
+    flex: 1,
+  },
+  patientBannerText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  allergyText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#dc2626',
+    marginTop: 2,
+  },
+  noAllergyText: {
+    fontWeight: '400',
+    color: '#64748b',
+  },
+  weightRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  weightInfo: {
+    flex: 1,
+  },
+  weightValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  weightDetail: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  warningText: {
+    fontSize: 14,
+    color: '#b45309',
+    marginTop: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  selectedChip: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  selectedChipText: {
+    color: '#ffffff',
+  },
+  field: {
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  conflictBox: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    padding: 20,
+    marginBottom: 16,
+  },
+  conflictHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  conflictTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#dc2626',
+  },
+  conflictText: {
+    fontSize: 14,
+    color: '#7f1d1d',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  doseBox: {
+    backgroundColor: '#f0f9ff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  doseValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#0369a1',
+  },
+  doseDetail: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 4,
+  },
+  doseOverrideInput: {
+    marginTop: 12,
+  },
+  saveButton: {
+    backgroundColor: '#0ea5e9',
+    paddingVertical: 18,
+    borderRadius: 16,
+    alignItems: 'center',
+    marginTop: 8,
+    shadowColor: '#0ea5e9',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  overrideButton: {
+    backgroundColor: '#dc2626',
+    shadowColor: '#dc2626',
+  },
+  saveButtonDisabled: {
+    opacity: 0.7,
+  },
+  saveButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
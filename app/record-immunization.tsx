@@ -0,0 +1,486 @@
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, Baby, Syringe } from 'lucide-react-native';
+import SevereAllergyBanner from '@/components/SevereAllergyBanner';
+import { parseCalendarDate, toCalendarDate } from '@/lib/calendarDates';
+import {
+  IMMUNIZATION_SITE_LABELS,
+  loadImmunizationSchedule,
+  type ImmunizationSite,
+  type ScheduleEntry,
+} from '@/lib/immunizations';
+import { can } from '@/lib/permissions';
+import { selectBabiesWithAllergies, type BabyWithAllergies } from '@/lib/queries';
+import type { ImmunizationRecord } from '@/types/database';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export default function RecordImmunizationScreen() {
+  const { user } = useAuth();
+  const { babyId, vaccineId, dose } = useLocalSearchParams<{ babyId: string; vaccineId?: string; dose?: string }>();
+  const [baby, setBaby] = useState<BabyWithAllergies | null>(null);
+  const [schedule, setSchedule] = useState<ScheduleEntry[]>([]);
+  const [given, setGiven] = useState<Pick<ImmunizationRecord, 'vaccine_id' | 'dose_number'>[]>([]);
+  const [selectedVaccineId, setSelectedVaccineId] = useState<string | null>(vaccineId ?? null);
+  const [doseNumber, setDoseNumber] = useState<number | null>(dose ? Number(dose) : null);
+  const [administeredOn, setAdministeredOn] = useState(toCalendarDate(new Date()));
+  const [lotNumber, setLotNumber] = useState('');
+  const [site, setSite] = useState<ImmunizationSite | null>(null);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const mounted = useRef(true);
+
+  const canRecord = can(user, 'immunizations.record');
+
+  useEffect(() => {
+    mounted.current = true;
+    loadData();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, [babyId]);
+
+  const loadData = async () => {
+    try {
+      const [babyResult, scheduleEntries, recordsResult] = await Promise.all([
+        selectBabiesWithAllergies().eq('id', babyId).single(),
+        loadImmunizationSchedule(),
+        supabase.from('immunization_records').select('vaccine_id, dose_number').eq('baby_id', babyId),
+      ]);
+
+      if (babyResult.error) throw babyResult.error;
+      if (recordsResult.error) throw recordsResult.error;
+      if (mounted.current) {
+        setBaby(babyResult.data);
+        setSchedule(scheduleEntries);
+        setGiven(recordsResult.data || []);
+      }
+    } catch (error) {
+      console.error('Error loading immunization schedule:', error);
+      Alert.alert('Error', 'Could not load the immunization schedule');
+    } finally {
+      if (mounted.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const vaccines = useMemo(() => {
+    const seen = new Map<string, ScheduleEntry['vaccine']>();
+    schedule.forEach(entry => seen.set(entry.vaccine_id, entry.vaccine));
+    return Array.from(seen.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [schedule]);
+
+  const doseOptions = schedule
+    .filter(entry => entry.vaccine_id === selectedVaccineId)
+    .map(entry => entry.dose_number)
+    .sort((a, b) => a - b);
+
+  const isGiven = (number: number) =>
+    given.some(record => record.vaccine_id === selectedVaccineId && record.dose_number === number);
+
+  const selectVaccine = (id: string) => {
+    setSelectedVaccineId(id);
+    // Default to the first dose of this vaccine that has not been recorded yet
+    const next = schedule
+      .filter(entry => entry.vaccine_id === id)
+      .map(entry => entry.dose_number)
+      .sort((a, b) => a - b)
+      .find(number => !given.some(record => record.vaccine_id === id && record.dose_number === number));
+    setDoseNumber(next ?? null);
+  };
+
+  const handleSave = async () => {
+    if (!baby || !user) return;
+
+    if (!selectedVaccineId || doseNumber == null) {
+      Alert.alert('Error', 'Please select a vaccine and dose');
+      return;
+    }
+
+    if (!DATE_PATTERN.test(administeredOn)) {
+      Alert.alert('Error', 'Please enter the date as YYYY-MM-DD');
+      return;
+    }
+
+    const date = parseCalendarDate(administeredOn);
+    if (date > new Date()) {
+      Alert.alert('Error', 'The date given cannot be in the future');
+      return;
+    }
+    if (date < parseCalendarDate(baby.birth_date)) {
+      Alert.alert('Error', 'The date given cannot be before the date of birth');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('immunization_records').insert({
+        baby_id: baby.id,
+        vaccine_id: selectedVaccineId,
+        dose_number: doseNumber,
+        administered_on: administeredOn,
+        lot_number: lotNumber.trim() || null,
+        site,
+        notes: notes.trim() || null,
+        administered_by: user.id,
+      });
+
+      if (error) {
+        if (error.code === '23505') {
+          Alert.alert('Already Recorded', 'This dose has already been recorded for this patient');
+          return;
+        }
+        throw error;
+      }
+
+      router.back();
+    } catch (error) {
+      console.error('Error saving immunization:', error);
+      Alert.alert('Error', 'Could not save the immunization. Please try again.');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Record Immunization</Text>
+      </View>
+
+      {!canRecord ? (
+        <View style={styles.emptyContainer}>
+          <Syringe size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Not available</Text>
+          <Text style={styles.emptyText}>
+            Immunizations are recorded by your care team
+          </Text>
+        </View>
+      ) : loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading...</Text>
+        </View>
+      ) : !baby ? (
+        <View style={styles.emptyContainer}>
+          <Baby size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Patient not found</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+          <SevereAllergyBanner allergies={baby.allergies} />
+
+          <View style={styles.patientBanner}>
+            <Baby size={20} color="#0ea5e9" strokeWidth={2} />
+            <Text style={styles.patientBannerText}>
+              {baby.first_name} {baby.last_name}
+            </Text>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Vaccine</Text>
+            <View style={styles.chipRow}>
+              {vaccines.map((vaccine) => (
+                <TouchableOpacity
+                  key={vaccine.id}
+                  style={[styles.chip, selectedVaccineId === vaccine.id && styles.selectedChip]}
+                  onPress={() => selectVaccine(vaccine.id)}
+                >
+                  <Text style={[styles.chipText, selectedVaccineId === vaccine.id && styles.selectedChipText]}>
+                    {vaccine.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {doseOptions.length > 0 && (
+              <>
+                <Text style={styles.fieldLabel}>Dose</Text>
+                <View style={styles.chipRow}>
+                  {doseOptions.map((number) => (
+                    <TouchableOpacity
+                      key={number}
+                      style={[
+                        styles.chip,
+                        doseNumber === number && styles.selectedChip,
+                        isGiven(number) && styles.disabledChip,
+                      ]}
+                      onPress={() => setDoseNumber(number)}
+                      disabled={isGiven(number)}
+                    >
+                      <Text style={[styles.chipText, doseNumber === number && styles.selectedChipText]}>
+                        Dose {number}{isGiven(number) ? ' ✓' : ''}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Administration</Text>
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Date Given</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="#94a3b8"
+                  value={administeredOn}
+                  onChangeText={setAdministeredOn}
+                />
+              </View>
+            </View>
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Lot Number</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. AB1234"
+                  placeholderTextColor="#94a3b8"
+                  value={lotNumber}
+                  onChangeText={setLotNumber}
+                  autoCapitalize="characters"
+                />
+              </View>
+            </View>
+            <Text style={styles.fieldLabel}>Site</Text>
+            <View style={styles.chipRow}>
+              {(Object.keys(IMMUNIZATION_SITE_LABELS) as ImmunizationSite[]).map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, site === option && styles.selectedChip]}
+                  onPress={() => setSite(site === option ? null : option)}
+                >
+                  <Text style={[styles.chipText, site === option && styles.selectedChipText]}>
+                    {IMMUNIZATION_SITE_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Notes</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={[styles.input, styles.notesInput]}
+                  placeholder="Reactions or other observations"
+                  placeholderTextColor="#94a3b8"
+                  value={notes}
+                  onChangeText={setNotes}
+                  multiline
+                />
+              </View>
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            <Text style={styles.saveButtonText}>
+              {saving ? 'Saving...' : 'Save Immunization'}
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    backgroundColor: '#1e293b',
+    paddingTop: 60,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#334155',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 24,
+    paddingBottom: 48,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  patientBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#e0f2fe',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  patientBannerText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  selectedChip: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  disabledChip: {
+    opacity: 0.5,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  selectedChipText: {
+    color: '#ffffff',
+  },
+  field: {
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  saveButton: {
+    backgroundColor: '#0ea5e9',
+    paddingVertical: 18,
+    borderRadius: 16,
+    alignItems: 'center',
+    marginTop: 8,
+    shadowColor: '#0ea5e9',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  saveButtonDisabled: {
+    opacity: 0.7,
+  },
+  saveButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
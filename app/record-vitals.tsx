@@ -0,0 +1,665 @@
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, Baby, Activity, TriangleAlert as AlertTriangle, CircleAlert as AlertCircle } from 'lucide-react-native';
+import SevereAllergyBanner from '@/components/SevereAllergyBanner';
+import {
+  toCentimeters,
+  toKilograms,
+  validateVitals,
+  type LengthUnit,
+  type VitalField,
+  type VitalInput,
+  type VitalIssue,
+  type WeightUnit,
+} from '@/lib/vitals';
+import { can } from '@/lib/permissions';
+import { selectBabiesWithAllergies, type BabyWithAllergies } from '@/lib/queries';
+import type { Baby as BabyType, VitalRecord } from '@/types/database';
+
+type FormField = VitalField | 'feeding_time' | 'notes';
+
+const EMPTY_FORM: Record<FormField, string> = {
+  weight: '',
+  height: '',
+  head_circumference: '',
+  temperature: '',
+  heart_rate: '',
+  respiratory_rate: '',
+  oxygen_saturation: '',
+  feeding_time: '',
+  notes: '',
+};
+
+const parseNumber = (text: string) => {
+  if (!text.trim()) return undefined;
+  return parseFloat(text.replace(',', '.'));
+};
+
+export default function RecordVitalsScreen() {
+  const { user } = useAuth();
+  const { babyId } = useLocalSearchParams<{ babyId?: string }>();
+  const [babies, setBabies] = useState<BabyWithAllergies[]>([]);
+  const [selectedBaby, setSelectedBaby] = useState<BabyWithAllergies | null>(null);
+  const [previousRecord, setPreviousRecord] = useState<VitalRecord | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>('kg');
+  const [lengthUnit, setLengthUnit] = useState<LengthUnit>('cm');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const mounted = useRef(true);
+
+  const canRecord = can(user, 'vitals.record');
+
+  useEffect(() => {
+    mounted.current = true;
+    loadBabies();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (selectedBaby) {
+      loadPreviousRecord(selectedBaby.id);
+    }
+  }, [selectedBaby?.id]);
+
+  const loadBabies = async () => {
+    try {
+      let query = selectBabiesWithAllergies()
+        .order('first_name', { ascending: true });
+
+      if (babyId) {
+        query = query.eq('id', babyId);
+      } else if (user?.role === 'doctor') {
+        query = query.eq('assigned_doctor_id', user.id);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      if (mounted.current) {
+        setBabies(data || []);
+        if (babyId && data?.[0]) {
+          setSelectedBaby(data[0]);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading babies:', error);
+    } finally {
+      if (mounted.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const loadPreviousRecord = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('vital_records')
+        .select('*')
+        .eq('baby_id', id)
+        .order('recorded_at', { ascending: false })
+        .limit(1);
+
+      if (error) throw error;
+      if (mounted.current) {
+        setPreviousRecord(data?.[0] || null);
+      }
+    } catch (error) {
+      console.error('Error loading previous vitals:', error);
+    }
+  };
+
+  const input = useMemo<VitalInput>(() => {
+    const values: VitalInput = {};
+    const weight = parseNumber(form.weight);
+    const height = parseNumber(form.height);
+    const headCircumference = parseNumber(form.head_circumference);
+
+    if (weight != null) values.weight = toKilograms(weight, weightUnit);
+    if (height != null) values.height = toCentimeters(height, lengthUnit);
+    if (headCircumference != null) {
+      values.head_circumference = toCentimeters(headCircumference, lengthUnit);
+    }
+    (['temperature', 'heart_rate', 'respiratory_rate', 'oxygen_saturation'] as const).forEach(field => {
+      const value = parseNumber(form[field]);
+      if (value != null) values[field] = value;
+    });
+    return values;
+  }, [form, weightUnit, lengthUnit]);
+
+  const issues = useMemo(
+    () => (selectedBaby ? validateVitals(selectedBaby, input, previousRecord) : []),
+    [selectedBaby, input, previousRecord]
+  );
+
+  const getFieldIssues = (field: VitalIssue['field']) => issues.filter(issue => issue.field === field);
+
+  const saveRecord = async () => {
+    if (!selectedBaby || !user) return;
+
+    setSaving(true);
+    try {
+      const round = (value: number | undefined, digits: number) =>
+        value == null ? null : Number(value.toFixed(digits));
+
+      const { error } = await supabase.from('vital_records').insert({
+        baby_id: selectedBaby.id,
+        weight: round(input.weight, 2),
+        height: round(input.height, 1),
+        head_circumference: round(input.head_circumference, 1),
+        temperature: round(input.temperature, 1),
+        heart_rate: round(input.heart_rate, 0),
+        respiratory_rate: round(input.respiratory_rate, 0),
+        oxygen_saturation: round(input.oxygen_saturation, 1),
+        feeding_time: form.feeding_time.trim() || null,
+        notes: form.notes.trim() || null,
+        recorded_by: user.id,
+        recorded_at: new Date().toISOString(),
+      });
+
+      if (error) throw error;
+
+      // Keep the summary columns on the baby in step with the newest measurements
+      const updates: Partial<BabyType> = {};
+      if (input.weight != null) updates.current_weight = round(input.weight, 2)!;
+      if (input.height != null) updates.current_height = round(input.height, 1)!;
+      if (Object.keys(updates).length > 0) {
+        const { error: updateError } = await supabase.from('babies').update(updates).eq('id', selectedBaby.id);
+        if (updateError) {
+          // The record itself is saved, so only the summary on the profile is stale
+          console.error('Error updating current measurements:', updateError);
+          Alert.alert(
+            'Vitals Saved',
+            "The measurements were recorded, but the patient's current weight and length could not be updated.",
+            [{ text: 'OK', onPress: () => router.back() }]
+          );
+          return;
+        }
+      }
+
+      router.back();
+    } catch (error) {
+      console.error('Error saving vitals:', error);
+      Alert.alert('Error', 'Could not save vitals. Please try again.');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  const handleSave = () => {
+    if (!selectedBaby) {
+      Alert.alert('Error', 'Please select a patient');
+      return;
+    }
+
+    const hasMeasurement = Object.keys(input).length > 0;
+    if (!hasMeasurement && !form.feeding_time.trim() && !form.notes.trim()) {
+      Alert.alert('Error', 'Please enter at least one measurement');
+      return;
+    }
+
+    const errors = issues.filter(issue => issue.level === 'error');
+    if (errors.length > 0) {
+      Alert.alert('Check Values', errors.map(issue => issue.message).join('\n'));
+      return;
+    }
+
+    const warnings = issues.filter(issue => issue.level === 'warning');
+    if (warnings.length > 0) {
+      Alert.alert(
+        'Please Confirm',
+        warnings.map(issue => issue.message).join('\n'),
+        [
+          { text: 'Review', style: 'cancel' },
+          { text: 'Save Anyway', style: 'destructive', onPress: saveRecord },
+        ]
+      );
+      return;
+    }
+
+    saveRecord();
+  };
+
+  const renderIssues = (field: VitalIssue['field']) =>
+    getFieldIssues(field).map((issue) => (
+      <View key={issue.message} style={styles.issueRow}>
+        {issue.level === 'error' ? (
+          <AlertCircle size={14} color="#ef4444" strokeWidth={2} />
+        ) : (
+          <AlertTriangle size={14} color="#f59e0b" strokeWidth={2} />
+        )}
+        <Text style={[styles.issueText, issue.level === 'error' && styles.errorText]}>
+          {issue.message}
+        </Text>
+      </View>
+    ));
+
+  const renderField = (
+    field: VitalField,
+    label: string,
+    unit: string,
+    placeholder: string
+  ) => (
+    <View style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <View
+        style={[
+          styles.inputContainer,
+          getFieldIssues(field).some(issue => issue.level === 'error') && styles.inputError,
+        ]}
+      >
+        <TextInput
+          style={styles.input}
+          placeholder={placeholder}
+          placeholderTextColor="#94a3b8"
+          value={form[field]}
+          onChangeText={(text) => setForm({ ...form, [field]: text })}
+          keyboardType="decimal-pad"
+        />
+        <Text style={styles.unitText}>{unit}</Text>
+      </View>
+      {renderIssues(field)}
+    </View>
+  );
+
+  const renderUnitToggle = <T extends string>(
+    options: T[],
+    value: T,
+    onChange: (unit: T) => void
+  ) => (
+    <View style={styles.unitToggle}>
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option}
+          style={[styles.unitOption, value === option && styles.selectedUnitOption]}
+          onPress={() => onChange(option)}
+        >
+          <Text style={[styles.unitOptionText, value === option && styles.selectedUnitOptionText]}>
+            {option}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Record Vitals</Text>
+      </View>
+
+      {!canRecord ? (
+        <View style={styles.emptyContainer}>
+          <Activity size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Not available</Text>
+          <Text style={styles.emptyText}>
+            Vitals are recorded by your care team during visits
+          </Text>
+        </View>
+      ) : loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading...</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+          {!babyId && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Patient</Text>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.babySelectorContent}
+              >
+                {babies.map((baby) => (
+                  <TouchableOpacity
+                    key={baby.id}
+                    style={[
+                      styles.babyTab,
+                      selectedBaby?.id === baby.id && styles.selectedBabyTab,
+                    ]}
+                    onPress={() => setSelectedBaby(baby)}
+                  >
+                    <Text style={[
+                      styles.babyTabText,
+                      selectedBaby?.id === baby.id && styles.selectedBabyTabText,
+                    ]}>
+                      {baby.first_name} {baby.last_name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </View>
+          )}
+
+          {selectedBaby && <SevereAllergyBanner allergies={selectedBaby.allergies} />}
+
+          {selectedBaby && (
+            <View style={styles.patientBanner}>
+              <Baby size={20} color="#0ea5e9" strokeWidth={2} />
+              <Text style={styles.patientBannerText}>
+                {selectedBaby.first_name} {selectedBaby.last_name}
+              </Text>
+              {previousRecord && (
+                <Text style={styles.previousText}>
+                  Last: {new Date(previousRecord.recorded_at).toLocaleDateString()}
+                </Text>
+              )}
+            </View>
+          )}
+          {renderIssues('recorded_at')}
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Growth</Text>
+              <View style={styles.unitToggles}>
+                {renderUnitToggle<WeightUnit>(['kg', 'lb'], weightUnit, setWeightUnit)}
+                {renderUnitToggle<LengthUnit>(['cm', 'in'], lengthUnit, setLengthUnit)}
+              </View>
+            </View>
+            {renderField('weight', 'Weight', weightUnit, weightUnit === 'kg' ? '4.25' : '9.4')}
+            {renderField('height', 'Length / Height', lengthUnit, lengthUnit === 'cm' ? '55.0' : '21.5')}
+            {renderField('head_circumference', 'Head Circumference', lengthUnit, lengthUnit === 'cm' ? '38.0' : '15.0')}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Vital Signs</Text>
+            {renderField('temperature', 'Temperature', '°C', '36.8')}
+            {renderField('heart_rate', 'Heart Rate', 'bpm', '140')}
+            {renderField('respiratory_rate', 'Respiratory Rate', '/min', '40')}
+            {renderField('oxygen_saturation', 'SpO2', '%', '98')}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Other</Text>
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Feeding Time</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. 07:30"
+                  placeholderTextColor="#94a3b8"
+                  value={form.feeding_time}
+                  onChangeText={(text) => setForm({ ...form, feeding_time: text })}
+                />
+              </View>
+            </View>
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Notes</Text>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={[styles.input, styles.notesInput]}
+                  placeholder="Observations"
+                  placeholderTextColor="#94a3b8"
+                  value={form.notes}
+                  onChangeText={(text) => setForm({ ...form, notes: text })}
+                  multiline
+                />
+              </View>
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            <Text style={styles.saveButtonText}>
+              {saving ? 'Saving...' : 'Save Vitals'}
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    backgroundColor: '#1e293b',
+    paddingTop: 60,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#334155',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 24,
+    paddingBottom: 48,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  babySelectorContent: {
+    gap: 12,
+  },
+  babyTab: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  selectedBabyTab: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  babyTabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  selectedBabyTabText: {
+    color: '#ffffff',
+  },
+  patientBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#e0f2fe',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  patientBannerText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  previousText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  unitToggles: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  unitToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    padding: 2,
+  },
+  unitOption: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  selectedUnitOption: {
+    backgroundColor: '#0ea5e9',
+  },
+  unitOptionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  selectedUnitOptionText: {
+    color: '#ffffff',
+  },
+  field: {
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  inputError: {
+    borderColor: '#ef4444',
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  unitText: {
+    fontSize: 14,
+    color: '#64748b',
+    marginLeft: 8,
+  },
+  issueRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 6,
+    marginTop: 6,
+  },
+  issueText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#92400e',
+    lineHeight: 16,
+  },
+  errorText: {
+    color: '#b91c1c',
+  },
+  saveButton: {
+    backgroundColor: '#0ea5e9',
+    paddingVertical: 18,
+    borderRadius: 16,
+    alignItems: 'center',
+    marginTop: 8,
+    shadowColor: '#0ea5e9',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  saveButtonDisabled: {
+    opacity: 0.7,
+  },
+  saveButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
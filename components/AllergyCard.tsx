@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { router } from 'expo-router';
+import { ShieldAlert } from 'lucide-react-native';
+import {
+  ALLERGY_SEVERITY_LABELS,
+  describeAllergy,
+  getActiveAllergies,
+  getAllergySeverityColor,
+  VERIFICATION_STATUS_LABELS,
+} from '@/lib/allergies';
+import type { Allergy } from '@/types/database';
+
+interface AllergyCardProps {
+  babyId: string;
+  allergies?: Allergy[];
+  canEdit?: boolean;
+}
+
+export default function AllergyCard({ babyId, allergies = [], canEdit = false }: AllergyCardProps) {
+  const [showRefuted, setShowRefuted] = useState(false);
+
+  const active = getActiveAllergies(allergies);
+  const refuted = allergies.filter(allergy => allergy.verification_status === 'refuted');
+
+  const renderAllergy = (allergy: Allergy) => {
+    const color = getAllergySeverityColor(allergy.severity);
+    const detail = describeAllergy(allergy);
+
+    return (
+      <TouchableOpacity
+        key={allergy.id}
+        style={styles.allergyRow}
+        onPress={() => router.push(`/allergy?babyId=${babyId}&allergyId=${allergy.id}`)}
+        disabled={!canEdit}
+      >
+        <View style={[styles.severityDot, { backgroundColor: color }]} />
+        <View style={styles.allergyInfo}>
+          <Text style={[styles.allergen, allergy.verification_status === 'refuted' && styles.refutedText]}>
+            {allergy.allergen}
+          </Text>
+          {detail ? <Text style={styles.allergyDetail}>{detail}</Text> : null}
+          <Text style={styles.verificationText}>
+            {VERIFICATION_STATUS_LABELS[allergy.verification_status]}
+            {!allergy.allergen_code && allergy.verification_status !== 'refuted' ? ' · not coded' : ''}
+          </Text>
+        </View>
+        <Text style={[styles.severityText, { color }]}>
+          {allergy.severity ? ALLERGY_SEVERITY_LABELS[allergy.severity] : 'Severity unknown'}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.titleRow}>
+        <ShieldAlert size={20} color="#0ea5e9" strokeWidth={2} />
+        <Text style={styles.title}>Allergies</Text>
+        {canEdit && (
+          <TouchableOpacity style={styles.addButton} onPress={() => router.push(`/allergy?babyId=${babyId}`)}>
+            <Text style={styles.addButtonText}>Add</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {active.length === 0 ? (
+        <Text style={styles.mutedText}>No known allergies</Text>
+      ) : (
+        active.map(renderAllergy)
+      )}
+
+      {refuted.length > 0 && (
+        <>
+          {showRefuted && refuted.map(renderAllergy)}
+          <TouchableOpacity style={styles.toggleButton} onPress={() => setShowRefuted(!showRefuted)}>
+            <Text style={styles.toggleButtonText}>
+              {showRefuted ? 'Hide refuted' : `Show refuted (${refuted.length})`}
+            </Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  addButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#e0f2fe',
+  },
+  addButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#0369a1',
+  },
+  mutedText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  allergyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  severityDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  allergyInfo: {
+    flex: 1,
+  },
+  allergen: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  refutedText: {
+    color: '#94a3b8',
+    textDecorationLine: 'line-through',
+  },
+  allergyDetail: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  verificationText: {
+    fontSize: 11,
+    color: '#94a3b8',
+    marginTop: 2,
+  },
+  severityText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  toggleButton: {
+    marginTop: 12,
+    alignItems: 'center',
+  },
+  toggleButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0ea5e9',
+  },
+});
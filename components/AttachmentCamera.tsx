@@ -0,0 +1,169 @@
+import React, { useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, Alert } from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { Camera, RefreshCw, X } from 'lucide-react-native';
+import type { PendingAttachment } from '@/lib/attachments';
+
+interface AttachmentCameraProps {
+  visible: boolean;
+  onClose: () => void;
+  onCapture: (photo: PendingAttachment) => void;
+}
+
+export default function AttachmentCamera({ visible, onClose, onCapture }: AttachmentCameraProps) {
+  const [permission, requestPermission] = useCameraPermissions();
+  const [facing, setFacing] = useState<'back' | 'front'>('back');
+  const [capturing, setCapturing] = useState(false);
+  const cameraRef = useRef<CameraView>(null);
+
+  const handleCapture = async () => {
+    if (!cameraRef.current) return;
+
+    setCapturing(true);
+    try {
+      const photo = await cameraRef.current.takePictureAsync({ quality: 0.7 });
+      if (photo) {
+        onCapture({
+          uri: photo.uri,
+          name: `photo-${Date.now()}.jpg`,
+          mimeType: 'image/jpeg',
+        });
+      }
+    } catch (error) {
+      console.error('Error taking photo:', error);
+      Alert.alert('Error', 'Could not take a photo');
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {!permission?.granted ? (
+          <View style={styles.permissionContainer}>
+            <Camera size={64} color="#94a3b8" strokeWidth={1.5} />
+            <Text style={styles.permissionTitle}>Camera access needed</Text>
+            <Text style={styles.permissionText}>
+              Allow camera access to take a photo for your care team.
+            </Text>
+            <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+              <Text style={styles.permissionButtonText}>Allow Camera</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <CameraView ref={cameraRef} style={styles.camera} facing={facing}>
+            <View style={styles.topBar}>
+              <TouchableOpacity style={styles.iconButton} onPress={onClose}>
+                <X size={24} color="#ffffff" strokeWidth={2} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => setFacing(current => (current === 'back' ? 'front' : 'back'))}
+              >
+                <RefreshCw size={22} color="#ffffff" strokeWidth={2} />
+              </TouchableOpacity>
+            </View>
+            <View style={styles.bottomBar}>
+              <TouchableOpacity
+                style={[styles.shutter, capturing && styles.shutterDisabled]}
+                onPress={handleCapture}
+                disabled={capturing}
+              >
+                <View style={styles.shutterInner} />
+              </TouchableOpacity>
+            </View>
+          </CameraView>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  camera: {
+    flex: 1,
+    justifyContent: 'space-between',
+  },
+  topBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingTop: 60,
+    paddingHorizontal: 24,
+  },
+  iconButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(15, 23, 42, 0.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  bottomBar: {
+    alignItems: 'center',
+    paddingBottom: 48,
+  },
+  shutter: {
+    width: 76,
+    height: 76,
+    borderRadius: 38,
+    borderWidth: 4,
+    borderColor: '#ffffff',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  shutterDisabled: {
+    opacity: 0.5,
+  },
+  shutterInner: {
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    backgroundColor: '#ffffff',
+  },
+  permissionContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    backgroundColor: '#f8fafc',
+  },
+  permissionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  permissionText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    lineHeight: 24,
+    marginBottom: 24,
+  },
+  permissionButton: {
+    backgroundColor: '#0ea5e9',
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    marginBottom: 16,
+  },
+  permissionButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#64748b',
+    fontWeight: '500',
+  },
+});
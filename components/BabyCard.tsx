@@ -1,29 +1,19 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { Baby, Calendar, Weight, Ruler } from 'lucide-react-native';
-import type { Baby as BabyType } from '@/types/database';
+import SevereAllergyBanner from '@/components/SevereAllergyBanner';
+import { calculateAge } from '@/lib/age';
+import { getActiveAllergies } from '@/lib/allergies';
+import type { BabyWithAllergies } from '@/lib/queries';
 
 interface BabyCardProps {
-  baby: BabyType;
+  baby: BabyWithAllergies;
   onPress: () => void;
   showDoctor?: boolean;
 }
 
 export default function BabyCard({ baby, onPress, showDoctor = false }: BabyCardProps) {
-  const calculateAge = (birthDate: string) => {
-    const birth = new Date(birthDate);
-    const now = new Date();
-    const ageInMonths = (now.getFullYear() - birth.getFullYear()) * 12 + 
-                       (now.getMonth() - birth.getMonth());
-    
-    if (ageInMonths < 12) {
-      return `${ageInMonths} months`;
-    } else {
-      const years = Math.floor(ageInMonths / 12);
-      const months = ageInMonths % 12;
-      return months > 0 ? `${years}y ${months}m` : `${years} years`;
-    }
-  };
+  const otherAllergies = getActiveAllergies(baby.allergies).filter(allergy => allergy.severity !== 'severe');
 
   return (
     <TouchableOpacity style={styles.card} onPress={onPress}>
@@ -63,10 +53,12 @@ export default function BabyCard({ baby, onPress, showDoctor = false }: BabyCard
         )}
       </View>
 
-      {baby.allergies && baby.allergies.length > 0 && (
+      <SevereAllergyBanner allergies={baby.allergies} compact />
+
+      {otherAllergies.length > 0 && (
         <View style={styles.allergies}>
           <Text style={styles.allergiesText}>
-            Allergies: {baby.allergies.join(', ')}
+            Allergies: {otherAllergies.map(allergy => allergy.allergen).join(', ')}
           </Text>
         </View>
       )}
@@ -0,0 +1,588 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert } from 'react-native';
+import { router } from 'expo-router';
+import { ChevronRight, Droplets, Milk, Moon, NotebookPen, Square, Timer } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import {
+  describeCareLog,
+  DIAPER_KIND_LABELS,
+  FEEDING_METHOD_LABELS,
+  formatDuration,
+  formatElapsed,
+  getCareLogColor,
+  isRunning,
+  SIDE_LABELS,
+  startOfDay,
+  summarizeByDay,
+  type CareLogType,
+  type CareSide,
+  type DiaperKind,
+  type FeedingMethod,
+} from '@/lib/careLog';
+import type { CareLog } from '@/types/database';
+
+interface CareLogCardProps {
+  babyId: string;
+  readOnly?: boolean;
+}
+
+// Entries shown under today's totals before the full log
+const RECENT_PREVIEW = 3;
+
+const QUICK_ACTIONS: { type: CareLogType; label: string; Icon: typeof Milk }[] = [
+  { type: 'feeding', label: 'Feed', Icon: Milk },
+  { type: 'sleep', label: 'Sleep', Icon: Moon },
+  { type: 'diaper', label: 'Diaper', Icon: Droplets },
+  { type: 'pumping', label: 'Pump', Icon: Timer },
+];
+
+const RUNNING_LABELS: Record<CareLogType, string> = {
+  feeding: 'Breastfeeding',
+  sleep: 'Sleeping',
+  diaper: 'Diaper',
+  pumping: 'Pumping',
+};
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+export default function CareLogCard({ babyId, readOnly = false }: CareLogCardProps) {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<CareLog[]>([]);
+  const [openForm, setOpenForm] = useState<CareLogType | null>(null);
+  const [method, setMethod] = useState<FeedingMethod>('breast');
+  const [side, setSide] = useState<CareSide>('left');
+  const [volume, setVolume] = useState('');
+  const [food, setFood] = useState('');
+  const [pumpVolumes, setPumpVolumes] = useState<Record<string, string>>({});
+  const [now, setNow] = useState(new Date());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const mounted = useRef(true);
+
+  const running = entries.filter(isRunning);
+
+  useEffect(() => {
+    mounted.current = true;
+    loadEntries();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, [babyId]);
+
+  useEffect(() => {
+    if (running.length === 0) return;
+
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [running.length]);
+
+  const loadEntries = async () => {
+    try {
+      const since = startOfDay(new Date()).toISOString();
+      const { data, error } = await supabase
+        .from('care_logs')
+        .select('*')
+        .eq('baby_id', babyId)
+        .or(`started_at.gte.${since},ended_at.gte.${since},ended_at.is.null`)
+        .order('started_at', { ascending: false });
+
+      if (error) throw error;
+      if (mounted.current) {
+        setEntries(data || []);
+        setNow(new Date());
+      }
+    } catch (error) {
+      console.error('Error loading care log:', error);
+    } finally {
+      if (mounted.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const addEntry = async (entry: Partial<CareLog> & Pick<CareLog, 'entry_type'>, timed = false) => {
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const startedAt = new Date().toISOString();
+      const { data, error } = await supabase
+        .from('care_logs')
+        .insert({
+          baby_id: babyId,
+          started_at: startedAt,
+          // One-off entries are closed immediately; timed ones stay open until stopped
+          ended_at: timed ? null : startedAt,
+          logged_by: user.id,
+          ...entry,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      if (mounted.current) {
+        setEntries(current => [data, ...current]);
+        setOpenForm(null);
+        setVolume('');
+        setFood('');
+        setNow(new Date());
+      }
+    } catch (error) {
+      console.error('Error saving care log:', error);
+      Alert.alert('Error', 'Could not save this entry');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  const stopTimer = async (entry: CareLog) => {
+    setSaving(true);
+    try {
+      const pumped = pumpVolumes[entry.id]?.trim();
+      const { data, error } = await supabase
+        .from('care_logs')
+        .update({
+          ended_at: new Date().toISOString(),
+          ...(pumped ? { volume_ml: parseFloat(pumped.replace(',', '.')) } : {}),
+        })
+        .eq('id', entry.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      if (mounted.current) {
+        setEntries(current => current.map(item => (item.id === entry.id ? data : item)));
+      }
+    } catch (error) {
+      console.error('Error stopping timer:', error);
+      Alert.alert('Error', 'Could not stop the timer');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  const handleQuickAction = (type: CareLogType) => {
+    if (type === 'sleep') {
+      if (running.some(entry => entry.entry_type === 'sleep')) {
+        Alert.alert('Already Sleeping', 'Stop the current sleep timer first');
+        return;
+      }
+      addEntry({ entry_type: 'sleep' }, true);
+      return;
+    }
+    setOpenForm(openForm === type ? null : type);
+  };
+
+  const saveFeed = () => {
+    if (method === 'breast') {
+      addEntry({ entry_type: 'feeding', feeding_method: 'breast', side }, true);
+      return;
+    }
+    if (method === 'bottle') {
+      const ml = parseFloat(volume.replace(',', '.'));
+      if (!(ml > 0)) {
+        Alert.alert('Error', 'Please enter the amount in ml');
+        return;
+      }
+      addEntry({ entry_type: 'feeding', feeding_method: 'bottle', volume_ml: ml });
+      return;
+    }
+    addEntry({ entry_type: 'feeding', feeding_method: 'solid', food: food.trim() || null });
+  };
+
+  const renderChips = <T extends string>(options: Record<T, string>, value: T, onChange: (value: T) => void) => (
+    <View style={styles.chipRow}>
+      {(Object.keys(options) as T[]).map((option) => (
+        <TouchableOpacity
+          key={option}
+          style={[styles.chip, value === option && styles.selectedChip]}
+          onPress={() => onChange(option)}
+        >
+          <Text style={[styles.chipText, value === option && styles.selectedChipText]}>{options[option]}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderForm = () => {
+    switch (openForm) {
+      case 'feeding':
+        return (
+          <View style={styles.form}>
+            {renderChips(FEEDING_METHOD_LABELS, method, setMethod)}
+            {method === 'breast' && renderChips(SIDE_LABELS, side, setSide)}
+            {method === 'bottle' && (
+              <TextInput
+                style={styles.input}
+                placeholder="Amount (ml)"
+                placeholderTextColor="#94a3b8"
+                value={volume}
+                onChangeText={setVolume}
+                keyboardType="decimal-pad"
+              />
+            )}
+            {method === 'solid' && (
+              <TextInput
+                style={styles.input}
+                placeholder="What was offered? e.g. mashed banana"
+                placeholderTextColor="#94a3b8"
+                value={food}
+                onChangeText={setFood}
+              />
+            )}
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              onPress={saveFeed}
+              disabled={saving}
+            >
+              <Text style={styles.primaryButtonText}>{method === 'breast' ? 'Start Timer' : 'Save Feed'}</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      case 'diaper':
+        return (
+          <View style={styles.form}>
+            <View style={styles.chipRow}>
+              {(Object.keys(DIAPER_KIND_LABELS) as DiaperKind[]).map((kind) => (
+                <TouchableOpacity
+                  key={kind}
+                  style={styles.chip}
+                  onPress={() => addEntry({ entry_type: 'diaper', diaper_kind: kind })}
+                  disabled={saving}
+                >
+                  <Text style={styles.chipText}>{DIAPER_KIND_LABELS[kind]}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        );
+      case 'pumping':
+        return (
+          <View style={styles.form}>
+            {renderChips(SIDE_LABELS, side, setSide)}
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              onPress={() => addEntry({ entry_type: 'pumping', side }, true)}
+              disabled={saving}
+            >
+              <Text style={styles.primaryButtonText}>Start Timer</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const [{ summary: today }] = summarizeByDay(entries, 1, now, now);
+  const recent = entries.filter(entry => !isRunning(entry)).slice(0, RECENT_PREVIEW);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.titleRow}>
+        <NotebookPen size={20} color="#0ea5e9" strokeWidth={2} />
+        <Text style={styles.title}>Daily Care</Text>
+      </View>
+
+      {running.map((entry) => (
+        <View key={entry.id} style={styles.timerRow}>
+          <View style={[styles.dot, { backgroundColor: getCareLogColor(entry.entry_type) }]} />
+          <View style={styles.timerInfo}>
+            <Text style={styles.timerLabel}>
+              {RUNNING_LABELS[entry.entry_type]}
+              {entry.side ? ` · ${SIDE_LABELS[entry.side]}` : ''}
+            </Text>
+            <Text style={styles.timerElapsed}>{formatElapsed(entry.started_at, now)}</Text>
+          </View>
+          {!readOnly && entry.entry_type === 'pumping' && (
+            <TextInput
+              style={styles.pumpInput}
+              placeholder="ml"
+              placeholderTextColor="#94a3b8"
+              value={pumpVolumes[entry.id] ?? ''}
+              onChangeText={(text) => setPumpVolumes({ ...pumpVolumes, [entry.id]: text })}
+              keyboardType="decimal-pad"
+            />
+          )}
+          {!readOnly && (
+            <TouchableOpacity style={styles.stopButton} onPress={() => stopTimer(entry)} disabled={saving}>
+              <Square size={14} color="#ffffff" strokeWidth={2} fill="#ffffff" />
+              <Text style={styles.stopButtonText}>Stop</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+
+      {!readOnly && (
+        <>
+          <View style={styles.actionsRow}>
+            {QUICK_ACTIONS.map(({ type, label, Icon }) => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.actionButton, openForm === type && styles.activeActionButton]}
+                onPress={() => handleQuickAction(type)}
+                disabled={saving}
+              >
+                <Icon size={22} color={getCareLogColor(type)} strokeWidth={2} />
+                <Text style={styles.actionLabel}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {renderForm()}
+        </>
+      )}
+
+      {loading ? (
+        <Text style={styles.mutedText}>Loading today's log...</Text>
+      ) : (
+        <>
+          <View style={styles.summaryRow}>
+            <View style={styles.summaryItem}>
+              <Text style={styles.summaryNumber}>{today.feeds}</Text>
+              <Text style={styles.summaryLabel}>Feeds</Text>
+            </View>
+            <View style={styles.summaryItem}>
+              <Text style={styles.summaryNumber}>{formatDuration(today.sleepMinutes)}</Text>
+              <Text style={styles.summaryLabel}>Sleep</Text>
+            </View>
+            <View style={styles.summaryItem}>
+              <Text style={styles.summaryNumber}>{today.wetDiapers}/{today.dirtyDiapers}</Text>
+              <Text style={styles.summaryLabel}>Wet/Dirty</Text>
+            </View>
+          </View>
+
+          {recent.map((entry) => (
+            <View key={entry.id} style={styles.entryRow}>
+              <View style={[styles.dot, { backgroundColor: getCareLogColor(entry.entry_type) }]} />
+              <Text style={styles.entryText}>{describeCareLog(entry, now)}</Text>
+              <Text style={styles.entryTime}>{formatTime(entry.started_at)}</Text>
+            </View>
+          ))}
+        </>
+      )}
+
+      <TouchableOpacity style={styles.linkRow} onPress={() => router.push(`/care-log/${babyId}`)}>
+        <Text style={styles.linkText}>Daily and weekly summaries</Text>
+        <ChevronRight size={18} color="#0ea5e9" strokeWidth={2} />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  mutedText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  timerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  timerInfo: {
+    flex: 1,
+  },
+  timerLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  timerElapsed: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1e293b',
+    fontVariant: ['tabular-nums'],
+  },
+  pumpInput: {
+    width: 64,
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  stopButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#ef4444',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  stopButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#f8fafc',
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  activeActionButton: {
+    borderColor: '#0ea5e9',
+  },
+  actionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  form: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  selectedChip: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  selectedChipText: {
+    color: '#ffffff',
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  primaryButton: {
+    backgroundColor: '#0ea5e9',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginBottom: 8,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryNumber: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  entryText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  entryTime: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    marginTop: 12,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0ea5e9',
+  },
+});
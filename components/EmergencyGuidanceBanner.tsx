@@ -0,0 +1,80 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Linking } from 'react-native';
+import { AlertTriangle, Phone } from 'lucide-react-native';
+import { EMERGENCY_NUMBER, URGENT_FLAG_LABELS } from '@/lib/triage';
+
+interface EmergencyGuidanceBannerProps {
+  flags: string[];
+}
+
+export default function EmergencyGuidanceBanner({ flags }: EmergencyGuidanceBannerProps) {
+  if (flags.length === 0) return null;
+
+  return (
+    <View style={styles.banner}>
+      <View style={styles.titleRow}>
+        <AlertTriangle size={20} color="#b91c1c" strokeWidth={2} />
+        <Text style={styles.title}>This may need urgent care</Text>
+      </View>
+      <Text style={styles.flags}>
+        {flags.map(flag => URGENT_FLAG_LABELS[flag] ?? flag).join(' · ')}
+      </Text>
+      <Text style={styles.body}>
+        Messages are not monitored around the clock. If your baby is struggling to breathe, turning blue,
+        having a seizure or is hard to wake, call emergency services now instead of waiting for a reply.
+      </Text>
+      <TouchableOpacity style={styles.callButton} onPress={() => Linking.openURL(`tel:${EMERGENCY_NUMBER}`)}>
+        <Phone size={18} color="#ffffff" strokeWidth={2} />
+        <Text style={styles.callButtonText}>Call {EMERGENCY_NUMBER}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    backgroundColor: '#fef2f2',
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#b91c1c',
+  },
+  flags: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#dc2626',
+    marginBottom: 8,
+  },
+  body: {
+    fontSize: 14,
+    color: '#7f1d1d',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  callButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#dc2626',
+    borderRadius: 10,
+    paddingVertical: 12,
+  },
+  callButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
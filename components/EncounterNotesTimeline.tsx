@@ -0,0 +1,198 @@
+import React, { useEffect, useState, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { router } from 'expo-router';
+import { FileText } from 'lucide-react-native';
+import { getLatestVersion, getNoteStatusColor, NOTE_STATUS_LABELS, summarizeNote } from '@/lib/encounterNotes';
+import { selectEncounterNoteSummaries, type EncounterNoteSummary } from '@/lib/queries';
+import { APPOINTMENT_TYPE_LABELS } from '@/lib/scheduling';
+
+interface EncounterNotesTimelineProps {
+  babyId: string;
+}
+
+const PREVIEW_COUNT = 5;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export default function EncounterNotesTimeline({ babyId }: EncounterNotesTimelineProps) {
+  const [notes, setNotes] = useState<EncounterNoteSummary[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const mounted = useRef(true);
+
+  useEffect(() => {
+    mounted.current = true;
+    loadNotes();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, [babyId]);
+
+  const loadNotes = async () => {
+    try {
+      const { data, error } = await selectEncounterNoteSummaries().eq('baby_id', babyId);
+
+      if (error) throw error;
+      if (!mounted.current) return;
+
+      // Newest visit first; the note's own timestamp breaks ties
+      const sorted = (data || []).sort((a, b) => {
+        const aDate = a.appointment?.appointment_date ?? a.created_at;
+        const bDate = b.appointment?.appointment_date ?? b.created_at;
+        return new Date(bDate).getTime() - new Date(aDate).getTime();
+      });
+      setNotes(sorted);
+    } catch (error) {
+      console.error('Error loading encounter notes:', error);
+    } finally {
+      if (mounted.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const visible = showAll ? notes : notes.slice(0, PREVIEW_COUNT);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.titleRow}>
+        <FileText size={20} color="#0ea5e9" strokeWidth={2} />
+        <Text style={styles.title}>Encounter Notes</Text>
+      </View>
+
+      {loading ? (
+        <Text style={styles.mutedText}>Loading...</Text>
+      ) : notes.length === 0 ? (
+        <Text style={styles.mutedText}>No notes yet. Notes are written from an appointment.</Text>
+      ) : (
+        visible.map((note) => {
+          const latest = getLatestVersion(note.versions);
+          const summary = summarizeNote(latest);
+          const amendments = Math.max(note.versions.length - 1, 0);
+
+          return (
+            <TouchableOpacity
+              key={note.id}
+              style={styles.noteRow}
+              onPress={() => router.push(`/encounter-note?appointmentId=${note.appointment_id}`)}
+            >
+              <View style={styles.timelineDot} />
+              <View style={styles.noteInfo}>
+                <View style={styles.noteHeader}>
+                  <Text style={styles.noteTitle}>
+                    {note.appointment ? APPOINTMENT_TYPE_LABELS[note.appointment.type] : 'Visit'}
+                  </Text>
+                  <View style={[styles.statusBadge, { backgroundColor: getNoteStatusColor(note.status) }]}>
+                    <Text style={styles.statusText}>{NOTE_STATUS_LABELS[note.status]}</Text>
+                  </View>
+                </View>
+                <Text style={styles.noteDetail}>
+                  {formatDate(note.appointment?.appointment_date ?? note.created_at)}
+                  {note.author ? ` · Dr. ${note.author.first_name} ${note.author.last_name}` : ''}
+                  {amendments > 0 ? ` · ${amendments} amendment${amendments === 1 ? '' : 's'}` : ''}
+                </Text>
+                {summary ? <Text style={styles.noteSummary} numberOfLines={2}>{summary}</Text> : null}
+              </View>
+            </TouchableOpacity>
+          );
+        })
+      )}
+
+      {notes.length > PREVIEW_COUNT && (
+        <TouchableOpacity style={styles.toggleButton} onPress={() => setShowAll(!showAll)}>
+          <Text style={styles.toggleButtonText}>
+            {showAll ? 'Show fewer' : `Show all (${notes.length})`}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  mutedText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  noteRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  timelineDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#0ea5e9',
+    marginTop: 5,
+  },
+  noteInfo: {
+    flex: 1,
+  },
+  noteHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  noteTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  noteDetail: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  noteSummary: {
+    fontSize: 13,
+    color: '#475569',
+    marginTop: 4,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  toggleButton: {
+    marginTop: 12,
+    alignItems: 'center',
+  },
+  toggleButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0ea5e9',
+  },
+});
@@ -0,0 +1,257 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { router } from 'expo-router';
+import { Syringe } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { parseCalendarDate } from '@/lib/calendarDates';
+import {
+  computeImmunizationStatus,
+  DOSE_STATUS_LABELS,
+  getDoseStatusColor,
+  IMMUNIZATION_SITE_LABELS,
+  loadImmunizationSchedule,
+  summarizeImmunizations,
+  type ScheduledDose,
+} from '@/lib/immunizations';
+
+interface ImmunizationCardProps {
+  babyId: string;
+  birthDate: string;
+  canRecord?: boolean;
+}
+
+// Upcoming doses shown before the card is expanded
+const UPCOMING_PREVIEW = 3;
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export default function ImmunizationCard({ babyId, birthDate, canRecord = false }: ImmunizationCardProps) {
+  const [doses, setDoses] = useState<ScheduledDose[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState(false);
+  const mounted = useRef(true);
+
+  useEffect(() => {
+    mounted.current = true;
+    loadImmunizations();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, [babyId, birthDate]);
+
+  const loadImmunizations = async () => {
+    try {
+      const [schedule, recordsResult] = await Promise.all([
+        loadImmunizationSchedule(),
+        supabase
+          .from('immunization_records')
+          .select('*')
+          .eq('baby_id', babyId),
+      ]);
+
+      if (recordsResult.error) throw recordsResult.error;
+      if (mounted.current) {
+        setDoses(computeImmunizationStatus(birthDate, schedule, recordsResult.data || []));
+      }
+    } catch (error) {
+      console.error('Error loading immunizations:', error);
+    } finally {
+      if (mounted.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const summary = summarizeImmunizations(doses);
+  const outstanding = doses.filter(dose => dose.status === 'overdue' || dose.status === 'due');
+  const upcoming = doses.filter(dose => dose.status === 'upcoming');
+  const given = doses.filter(dose => dose.status === 'given');
+  const visible = expanded
+    ? [...outstanding, ...upcoming, ...[...given].reverse()]
+    : [...outstanding, ...upcoming.slice(0, UPCOMING_PREVIEW)];
+
+  const renderDose = (dose: ScheduledDose) => {
+    const color = getDoseStatusColor(dose.status);
+    const detail = dose.record
+      ? [
+          `Given ${formatDate(parseCalendarDate(dose.record.administered_on))}`,
+          dose.record.site ? IMMUNIZATION_SITE_LABELS[dose.record.site] : null,
+          dose.record.lot_number ? `Lot ${dose.record.lot_number}` : null,
+        ]
+          .filter(Boolean)
+          .join(' · ')
+      : `Due ${formatDate(dose.dueDate)}`;
+
+    return (
+      <View key={dose.entry.id} style={styles.doseRow}>
+        <View style={[styles.statusDot, { backgroundColor: color }]} />
+        <View style={styles.doseInfo}>
+          <Text style={styles.doseName}>
+            {dose.entry.vaccine.name} · Dose {dose.entry.dose_number}
+          </Text>
+          <Text style={styles.doseDetail}>{detail}</Text>
+        </View>
+        {canRecord && !dose.record ? (
+          <TouchableOpacity
+            style={styles.recordButton}
+            onPress={() =>
+              router.push(
+                `/record-immunization?babyId=${babyId}&vaccineId=${dose.entry.vaccine_id}&dose=${dose.entry.dose_number}`
+              )
+            }
+          >
+            <Text style={styles.recordButtonText}>Record</Text>
+          </TouchableOpacity>
+        ) : (
+          <Text style={[styles.statusText, { color }]}>{DOSE_STATUS_LABELS[dose.status]}</Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.titleRow}>
+        <Syringe size={20} color="#0ea5e9" strokeWidth={2} />
+        <Text style={styles.title}>Immunizations</Text>
+      </View>
+
+      {loading ? (
+        <Text style={styles.mutedText}>Loading immunizations...</Text>
+      ) : doses.length === 0 ? (
+        <Text style={styles.mutedText}>No immunization schedule configured</Text>
+      ) : (
+        <>
+          <View style={styles.summaryRow}>
+            <View style={styles.summaryItem}>
+              <Text style={styles.summaryNumber}>{summary.given}/{summary.total}</Text>
+              <Text style={styles.summaryLabel}>Given</Text>
+            </View>
+            <View style={styles.summaryItem}>
+              <Text style={[styles.summaryNumber, { color: getDoseStatusColor('due') }]}>{summary.due}</Text>
+              <Text style={styles.summaryLabel}>Due now</Text>
+            </View>
+            <View style={styles.summaryItem}>
+              <Text style={[styles.summaryNumber, { color: getDoseStatusColor('overdue') }]}>{summary.overdue}</Text>
+              <Text style={styles.summaryLabel}>Overdue</Text>
+            </View>
+          </View>
+
+          {visible.length === 0 ? (
+            <Text style={styles.mutedText}>All scheduled doses have been given</Text>
+          ) : (
+            visible.map(renderDose)
+          )}
+
+          <TouchableOpacity style={styles.toggleButton} onPress={() => setExpanded(!expanded)}>
+            <Text style={styles.toggleButtonText}>
+              {expanded ? 'Show less' : `Show full record (${given.length} given)`}
+            </Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  mutedText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginBottom: 12,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryNumber: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  doseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  doseInfo: {
+    flex: 1,
+  },
+  doseName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  doseDetail: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  recordButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#e0f2fe',
+  },
+  recordButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#0369a1',
+  },
+  toggleButton: {
+    marginTop: 12,
+    alignItems: 'center',
+  },
+  toggleButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0ea5e9',
+  },
+});
@@ -0,0 +1,388 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { router } from 'expo-router';
+import { Pill } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import {
+  describePrescription,
+  getNextDoseAt,
+  getPrescriptionStatus,
+  getPrescriptionStatusColor,
+  PRESCRIPTION_STATUS_LABELS,
+} from '@/lib/medications';
+import { syncMedicationReminders } from '@/lib/notifications';
+import { selectPrescriptionsWithDoses, type PrescriptionWithDoses } from '@/lib/queries';
+
+interface MedicationCardProps {
+  babyId: string;
+  canPrescribe?: boolean;
+  canLogDoses?: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const formatTime = (date: Date) => {
+  const time = date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString('en-US', { weekday: 'short' })} ${time}`;
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const getLastGivenAt = (prescription: PrescriptionWithDoses) =>
+  prescription.doses.reduce<string | null>(
+    (latest, dose) => (!latest || dose.given_at > latest ? dose.given_at : latest),
+    null
+  );
+
+export default function MedicationCard({ babyId, canPrescribe = false, canLogDoses = false }: MedicationCardProps) {
+  const { user } = useAuth();
+  const [prescriptions, setPrescriptions] = useState<PrescriptionWithDoses[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [showPast, setShowPast] = useState(false);
+  const mounted = useRef(true);
+
+  useEffect(() => {
+    mounted.current = true;
+    loadPrescriptions();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, [babyId]);
+
+  const loadPrescriptions = async () => {
+    try {
+      const { data, error } = await selectPrescriptionsWithDoses()
+        .eq('baby_id', babyId)
+        .order('starts_at', { ascending: false });
+
+      if (error) throw error;
+      if (mounted.current) {
+        setPrescriptions(data || []);
+      }
+    } catch (error) {
+      console.error('Error loading medications:', error);
+    } finally {
+      if (mounted.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const saveDose = async (prescription: PrescriptionWithDoses) => {
+    if (!user) return;
+
+    setSavingId(prescription.id);
+    try {
+      const { error } = await supabase.from('medication_doses').insert({
+        prescription_id: prescription.id,
+        dose_mg: prescription.dose_mg,
+        given_by: user.id,
+      });
+
+      if (error) throw error;
+      await loadPrescriptions();
+      await syncMedicationReminders(user);
+    } catch (error) {
+      console.error('Error logging dose:', error);
+      Alert.alert('Error', 'Could not log the dose');
+    } finally {
+      if (mounted.current) {
+        setSavingId(null);
+      }
+    }
+  };
+
+  const logDose = (prescription: PrescriptionWithDoses) => {
+    const lastGivenAt = getLastGivenAt(prescription);
+    const hoursSince = lastGivenAt ? (Date.now() - new Date(lastGivenAt).getTime()) / HOUR_MS : null;
+
+    // Guard against a second carer giving the same dose twice
+    if (hoursSince != null && hoursSince < prescription.frequency_hours) {
+      Alert.alert(
+        'Dose Not Due Yet',
+        `The last dose of ${prescription.drug_name} was logged at ${formatTime(new Date(lastGivenAt!))}. Log another dose now?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Log Dose', style: 'destructive', onPress: () => saveDose(prescription) },
+        ]
+      );
+      return;
+    }
+
+    saveDose(prescription);
+  };
+
+  const stopPrescription = (prescription: PrescriptionWithDoses) => {
+    Alert.alert('Stop Medication', `Stop ${prescription.drug_name}? Dose reminders will end.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Stop',
+        style: 'destructive',
+        onPress: async () => {
+          if (!user) return;
+          try {
+            const { error } = await supabase
+              .from('prescriptions')
+              .update({
+                status: 'discontinued',
+                discontinued_by: user.id,
+                discontinued_at: new Date().toISOString(),
+              })
+              .eq('id', prescription.id);
+
+            if (error) throw error;
+            await loadPrescriptions();
+          } catch (error) {
+            console.error('Error stopping medication:', error);
+            Alert.alert('Error', 'Could not stop the medication');
+          }
+        },
+      },
+    ]);
+  };
+
+  const now = new Date();
+  const active = prescriptions.filter(prescription => getPrescriptionStatus(prescription, now) === 'active');
+  const past = prescriptions.filter(prescription => getPrescriptionStatus(prescription, now) !== 'active');
+
+  const renderActive = (prescription: PrescriptionWithDoses) => {
+    const lastGivenAt = getLastGivenAt(prescription);
+    const nextDoseAt = getNextDoseAt(prescription, lastGivenAt);
+    const overdue = nextDoseAt != null && nextDoseAt <= now;
+
+    return (
+      <View key={prescription.id} style={styles.prescriptionRow}>
+        <View style={styles.prescriptionInfo}>
+          <Text style={styles.drugName}>{prescription.drug_name}</Text>
+          <Text style={styles.prescriptionDetail}>
+            {describePrescription(prescription)} · until {formatDate(prescription.ends_at)}
+          </Text>
+          {prescription.instructions ? (
+            <Text style={styles.instructions}>{prescription.instructions}</Text>
+          ) : null}
+          {canPrescribe && prescription.allergy_override_reason ? (
+            <Text style={styles.overrideText}>Allergy override: {prescription.allergy_override_reason}</Text>
+          ) : null}
+          {canPrescribe && prescription.dose_override_reason ? (
+            <Text style={styles.overrideText}>Dose override: {prescription.dose_override_reason}</Text>
+          ) : null}
+          <Text style={[styles.nextDose, overdue && styles.overdueText]}>
+            {nextDoseAt
+              ? overdue
+                ? `Dose due since ${formatTime(nextDoseAt)}`
+                : `Next dose ${formatTime(nextDoseAt)}`
+              : 'Final dose given'}
+            {lastGivenAt ? ` · last given ${formatTime(new Date(lastGivenAt))}` : ''}
+          </Text>
+        </View>
+        <View style={styles.actions}>
+          {canLogDoses && (
+            <TouchableOpacity
+              style={[styles.logButton, savingId === prescription.id && styles.disabledButton]}
+              onPress={() => logDose(prescription)}
+              disabled={savingId === prescription.id}
+            >
+              <Text style={styles.logButtonText}>
+                {savingId === prescription.id ? 'Saving...' : 'Log dose'}
+              </Text>
+            </TouchableOpacity>
+          )}
+          {canPrescribe && (
+            <TouchableOpacity style={styles.stopButton} onPress={() => stopPrescription(prescription)}>
+              <Text style={styles.stopButtonText}>Stop</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderPast = (prescription: PrescriptionWithDoses) => {
+    const status = getPrescriptionStatus(prescription, now);
+    return (
+      <View key={prescription.id} style={styles.prescriptionRow}>
+        <View style={styles.prescriptionInfo}>
+          <Text style={styles.drugName}>{prescription.drug_name}</Text>
+          <Text style={styles.prescriptionDetail}>
+            {describePrescription(prescription)} · {formatDate(prescription.starts_at)} · {prescription.doses.length} dose
+            {prescription.doses.length === 1 ? '' : 's'} logged
+          </Text>
+        </View>
+        <Text style={[styles.statusText, { color: getPrescriptionStatusColor(status) }]}>
+          {PRESCRIPTION_STATUS_LABELS[status]}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.titleRow}>
+        <Pill size={20} color="#0ea5e9" strokeWidth={2} />
+        <Text style={styles.title}>Medications</Text>
+        {canPrescribe && (
+          <TouchableOpacity
+            style={styles.prescribeButton}
+            onPress={() => router.push(`/prescribe-medication?babyId=${babyId}`)}
+          >
+            <Text style={styles.prescribeButtonText}>Prescribe</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {loading ? (
+        <Text style={styles.mutedText}>Loading medications...</Text>
+      ) : (
+        <>
+          {active.length === 0 ? (
+            <Text style={styles.mutedText}>No active medications</Text>
+          ) : (
+            active.map(renderActive)
+          )}
+
+          {past.length > 0 && (
+            <>
+              {showPast && past.map(renderPast)}
+              <TouchableOpacity style={styles.toggleButton} onPress={() => setShowPast(!showPast)}>
+                <Text style={styles.toggleButtonText}>
+                  {showPast ? 'Hide past medications' : `Show past medications (${past.length})`}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  mutedText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  prescribeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#e0f2fe',
+  },
+  prescribeButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#0369a1',
+  },
+  prescriptionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  prescriptionInfo: {
+    flex: 1,
+  },
+  drugName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  prescriptionDetail: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  instructions: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: '#475569',
+    marginTop: 4,
+  },
+  overrideText: {
+    fontSize: 12,
+    color: '#dc2626',
+    marginTop: 4,
+  },
+  nextDose: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#0369a1',
+    marginTop: 6,
+  },
+  overdueText: {
+    color: '#dc2626',
+  },
+  actions: {
+    gap: 8,
+  },
+  logButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#0ea5e9',
+    alignItems: 'center',
+  },
+  logButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  stopButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#fee2e2',
+    alignItems: 'center',
+  },
+  stopButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  toggleButton: {
+    marginTop: 12,
+    alignItems: 'center',
+  },
+  toggleButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0ea5e9',
+  },
+});
@@ -0,0 +1,629 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView, Alert } from 'react-native';
+import { CircleCheck as CheckCircle, Circle, Flag, Sparkles } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { getAgeInMonths } from '@/lib/growthStandards';
+import { parseCalendarDate, toCalendarDate } from '@/lib/calendarDates';
+import {
+  computeMilestoneStatus,
+  formatAgeBand,
+  getCurrentAgeBand,
+  getMilestoneDomainColor,
+  getMilestoneGaps,
+  loadMilestoneCatalog,
+  MILESTONE_DOMAIN_LABELS,
+  MILESTONE_DOMAINS,
+  MILESTONE_STATUS_LABELS,
+  REVIEW_STATUS_LABELS,
+  type TrackedMilestone,
+} from '@/lib/milestones';
+import type { BabyMilestone, Milestone, MilestoneReview } from '@/types/database';
+
+interface MilestoneTrackerProps {
+  babyId: string;
+  birthDate: string;
+  canReview?: boolean;
+}
+
+type TrackerView = 'checklist' | 'timeline';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const formatDate = (value: string) =>
+  parseCalendarDate(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export default function MilestoneTracker({ babyId, birthDate, canReview = false }: MilestoneTrackerProps) {
+  const { user } = useAuth();
+  const [catalog, setCatalog] = useState<Milestone[]>([]);
+  const [records, setRecords] = useState<BabyMilestone[]>([]);
+  const [reviews, setReviews] = useState<MilestoneReview[]>([]);
+  const [band, setBand] = useState<number | null>(null);
+  const [view, setView] = useState<TrackerView>('checklist');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [achievedOn, setAchievedOn] = useState('');
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const mounted = useRef(true);
+
+  useEffect(() => {
+    mounted.current = true;
+    loadMilestones();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, [babyId, birthDate]);
+
+  const loadMilestones = async () => {
+    try {
+      const [milestones, recordsResult, reviewsResult] = await Promise.all([
+        loadMilestoneCatalog(),
+        supabase.from('baby_milestones').select('*').eq('baby_id', babyId),
+        supabase.from('milestone_reviews').select('*').eq('baby_id', babyId),
+      ]);
+
+      if (recordsResult.error) throw recordsResult.error;
+      if (reviewsResult.error) throw reviewsResult.error;
+      if (mounted.current) {
+        setCatalog(milestones);
+        setRecords(recordsResult.data || []);
+        setReviews(reviewsResult.data || []);
+        setBand(current => current ?? getCurrentAgeBand(birthDate, milestones));
+      }
+    } catch (error) {
+      console.error('Error loading milestones:', error);
+    } finally {
+      if (mounted.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const tracked = useMemo(
+    () => computeMilestoneStatus(birthDate, catalog, records, reviews),
+    [birthDate, catalog, records, reviews]
+  );
+  const gaps = getMilestoneGaps(tracked);
+  const bands = Array.from(new Set(catalog.map(milestone => milestone.age_months))).sort((a, b) => a - b);
+  const bandItems = tracked.filter(item => item.milestone.age_months === band);
+  const timeline = tracked
+    .filter(item => item.record)
+    .sort((a, b) => b.record!.achieved_on.localeCompare(a.record!.achieved_on));
+
+  const startEditing = (item: TrackedMilestone) => {
+    if (editingId === item.milestone.id) {
+      setEditingId(null);
+      return;
+    }
+    setEditingId(item.milestone.id);
+    setAchievedOn(item.record?.achieved_on ?? toCalendarDate(new Date()));
+  };
+
+  const saveAchieved = async (item: TrackedMilestone) => {
+    if (!user) return;
+
+    if (!DATE_PATTERN.test(achievedOn)) {
+      Alert.alert('Error', 'Please enter the date as YYYY-MM-DD');
+      return;
+    }
+    const date = parseCalendarDate(achievedOn);
+    if (date > new Date() || date < parseCalendarDate(birthDate)) {
+      Alert.alert('Error', 'The date must be between the date of birth and today');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('baby_milestones')
+        .upsert(
+          {
+            baby_id: babyId,
+            milestone_id: item.milestone.id,
+            achieved_on: achievedOn,
+            recorded_by: user.id,
+          },
+          { onConflict: 'baby_id,milestone_id' }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+      if (mounted.current) {
+        setRecords(current => [...current.filter(record => record.milestone_id !== item.milestone.id), data]);
+        setEditingId(null);
+      }
+    } catch (error) {
+      console.error('Error saving milestone:', error);
+      Alert.alert('Error', 'Could not save this milestone');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  const clearAchieved = async (item: TrackedMilestone) => {
+    if (!item.record) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('baby_milestones').delete().eq('id', item.record.id);
+
+      if (error) throw error;
+      if (mounted.current) {
+        setRecords(current => current.filter(record => record.id !== item.record!.id));
+        setEditingId(null);
+      }
+    } catch (error) {
+      console.error('Error removing milestone:', error);
+      Alert.alert('Error', 'Could not update this milestone');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  const saveReview = async (item: TrackedMilestone, status: MilestoneReview['status']) => {
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const notes = reviewNotes[item.milestone.id]?.trim();
+      const { data, error } = await supabase
+        .from('milestone_reviews')
+        .upsert(
+          {
+            baby_id: babyId,
+            milestone_id: item.milestone.id,
+            status,
+            notes: notes || item.review?.notes || null,
+            reviewed_by: user.id,
+            reviewed_at: new Date().toISOString(),
+          },
+          { onConflict: 'baby_id,milestone_id' }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+      if (mounted.current) {
+        setReviews(current => [...current.filter(review => review.milestone_id !== item.milestone.id), data]);
+      }
+    } catch (error) {
+      console.error('Error saving milestone review:', error);
+      Alert.alert('Error', 'Could not save the review');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  const renderGap = (item: TrackedMilestone) => (
+    <View key={item.milestone.id} style={styles.gapRow}>
+      <Text style={styles.gapTitle}>{item.milestone.title}</Text>
+      <Text style={styles.gapDetail}>
+        {MILESTONE_DOMAIN_LABELS[item.milestone.domain]} · usually seen by {formatAgeBand(item.milestone.age_months)}
+        {item.review ? ` · ${REVIEW_STATUS_LABELS[item.review.status]}` : ''}
+      </Text>
+      {item.review?.notes && <Text style={styles.gapNotes}>{item.review.notes}</Text>}
+      {canReview && (
+        <>
+          <TextInput
+            style={styles.reviewInput}
+            placeholder="Review notes"
+            placeholderTextColor="#94a3b8"
+            value={reviewNotes[item.milestone.id] ?? ''}
+            onChangeText={(text) => setReviewNotes({ ...reviewNotes, [item.milestone.id]: text })}
+          />
+          <View style={styles.chipRow}>
+            {(Object.keys(REVIEW_STATUS_LABELS) as MilestoneReview['status'][]).map((status) => (
+              <TouchableOpacity
+                key={status}
+                style={[styles.chip, item.review?.status === status && styles.selectedChip]}
+                onPress={() => saveReview(item, status)}
+                disabled={saving}
+              >
+                <Text style={[styles.chipText, item.review?.status === status && styles.selectedChipText]}>
+                  {REVIEW_STATUS_LABELS[status]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+
+  const renderChecklistItem = (item: TrackedMilestone) => {
+    const achieved = item.status === 'achieved';
+    const editing = editingId === item.milestone.id;
+
+    return (
+      <View key={item.milestone.id}>
+        <TouchableOpacity style={styles.itemRow} onPress={() => startEditing(item)}>
+          {achieved ? (
+            <CheckCircle size={22} color="#10b981" strokeWidth={2} />
+          ) : (
+            <Circle size={22} color={item.status === 'delayed' ? '#ef4444' : '#cbd5e1'} strokeWidth={2} />
+          )}
+          <View style={styles.itemInfo}>
+            <Text style={styles.itemTitle}>{item.milestone.title}</Text>
+            <Text style={[styles.itemDetail, item.status === 'delayed' && styles.delayedText]}>
+              {achieved ? `Seen ${formatDate(item.record!.achieved_on)}` : MILESTONE_STATUS_LABELS[item.status]}
+            </Text>
+          </View>
+        </TouchableOpacity>
+
+        {editing && (
+          <View style={styles.editor}>
+            <Text style={styles.editorLabel}>First seen on</Text>
+            <TextInput
+              style={styles.dateInput}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor="#94a3b8"
+              value={achievedOn}
+              onChangeText={setAchievedOn}
+            />
+            <View style={styles.editorActions}>
+              {achieved && (
+                <TouchableOpacity style={styles.secondaryButton} onPress={() => clearAchieved(item)} disabled={saving}>
+                  <Text style={styles.secondaryButtonText}>Not yet</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={[styles.primaryButton, saving && styles.buttonDisabled]}
+                onPress={() => saveAchieved(item)}
+                disabled={saving}
+              >
+                <Text style={styles.primaryButtonText}>{achieved ? 'Update Date' : 'Mark as Seen'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.titleRow}>
+        <Sparkles size={20} color="#0ea5e9" strokeWidth={2} />
+        <Text style={styles.title}>Developmental Milestones</Text>
+      </View>
+
+      {loading ? (
+        <Text style={styles.mutedText}>Loading milestones...</Text>
+      ) : catalog.length === 0 ? (
+        <Text style={styles.mutedText}>No milestones configured</Text>
+      ) : (
+        <>
+          {gaps.length > 0 && (
+            <View style={styles.gapsContainer}>
+              <View style={styles.gapsHeader}>
+                <Flag size={16} color="#ef4444" strokeWidth={2} />
+                <Text style={styles.gapsTitle}>
+                  {canReview ? 'Gaps to review' : 'Worth mentioning at your next visit'}
+                </Text>
+              </View>
+              {gaps.map(renderGap)}
+            </View>
+          )}
+
+          <View style={styles.viewToggle}>
+            {(['checklist', 'timeline'] as TrackerView[]).map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.viewOption, view === option && styles.selectedViewOption]}
+                onPress={() => setView(option)}
+              >
+                <Text style={[styles.viewOptionText, view === option && styles.selectedViewOptionText]}>
+                  {option === 'checklist' ? 'Checklist' : 'Timeline'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {view === 'checklist' ? (
+            <>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.bandRow}>
+                {bands.map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.chip, band === option && styles.selectedChip]}
+                    onPress={() => setBand(option)}
+                  >
+                    <Text style={[styles.chipText, band === option && styles.selectedChipText]}>
+                      {formatAgeBand(option)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+
+              {MILESTONE_DOMAINS.map((domain) => {
+                const items = bandItems.filter(item => item.milestone.domain === domain);
+                if (items.length === 0) return null;
+                return (
+                  <View key={domain} style={styles.domainSection}>
+                    <View style={styles.domainHeader}>
+                      <View style={[styles.domainDot, { backgroundColor: getMilestoneDomainColor(domain) }]} />
+                      <Text style={styles.domainTitle}>{MILESTONE_DOMAIN_LABELS[domain]}</Text>
+                    </View>
+                    {items.map(renderChecklistItem)}
+                  </View>
+                );
+              })}
+            </>
+          ) : timeline.length === 0 ? (
+            <Text style={styles.mutedText}>No milestones ticked yet</Text>
+          ) : (
+            timeline.map((item, index) => (
+              <View key={item.milestone.id} style={styles.timelineRow}>
+                <View style={styles.timelineRail}>
+                  <View style={[styles.domainDot, { backgroundColor: getMilestoneDomainColor(item.milestone.domain) }]} />
+                  {index < timeline.length - 1 && <View style={styles.timelineLine} />}
+                </View>
+                <View style={styles.timelineContent}>
+                  <Text style={styles.itemTitle}>{item.milestone.title}</Text>
+                  <Text style={styles.itemDetail}>
+                    {formatDate(item.record!.achieved_on)} · at {getAgeInMonths(birthDate, parseCalendarDate(item.record!.achieved_on)).toFixed(1)} months
+                  </Text>
+                </View>
+              </View>
+            ))
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  mutedText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  gapsContainer: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  gapsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  },
+  gapsTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#b91c1c',
+  },
+  gapRow: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#fee2e2',
+  },
+  gapTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  gapDetail: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  gapNotes: {
+    fontSize: 13,
+    color: '#1e293b',
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+  reviewInput: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1e293b',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 10,
+    padding: 3,
+    marginBottom: 12,
+  },
+  viewOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  selectedViewOption: {
+    backgroundColor: '#ffffff',
+  },
+  viewOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  selectedViewOptionText: {
+    color: '#0ea5e9',
+  },
+  bandRow: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  selectedChip: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  selectedChipText: {
+    color: '#ffffff',
+  },
+  domainSection: {
+    marginBottom: 12,
+  },
+  domainHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  domainDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  domainTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#64748b',
+    textTransform: 'uppercase',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  itemDetail: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  delayedText: {
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+  editor: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 12,
+    marginVertical: 8,
+  },
+  editorLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 6,
+  },
+  dateInput: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  editorActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 10,
+  },
+  primaryButton: {
+    backgroundColor: '#0ea5e9',
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  secondaryButton: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  timelineRail: {
+    alignItems: 'center',
+    paddingTop: 4,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#e2e8f0',
+    marginTop: 4,
+  },
+  timelineContent: {
+    flex: 1,
+    paddingBottom: 16,
+  },
+});
@@ -0,0 +1,815 @@
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { router } from 'expo-router';
+import {
+  ArrowLeft,
+  Baby,
+  Mail,
+  Search,
+  UserPlus,
+  X,
+  CircleCheck as CheckCircle,
+  TriangleAlert as AlertTriangle,
+} from 'lucide-react-native';
+import { matchAllergen } from '@/lib/allergies';
+import { can } from '@/lib/permissions';
+import {
+  toCentimeters,
+  toKilograms,
+  validateVitals,
+  type LengthUnit,
+  type VitalInput,
+  type WeightUnit,
+} from '@/lib/vitals';
+import type { Baby as BabyType, ParentBaby, User } from '@/types/database';
+
+type Relationship = ParentBaby['relationship'];
+
+interface ParentLink {
+  email: string;
+  relationship: Relationship;
+  // Set when the email belongs to an existing parent account; otherwise an invitation is sent
+  profile: Pick<User, 'id' | 'first_name' | 'last_name'> | null;
+}
+
+type Doctor = Pick<User, 'id' | 'first_name' | 'last_name'>;
+
+const STEPS = ['Details', 'Birth', 'Parents', 'Review'] as const;
+const RELATIONSHIPS: Relationship[] = ['mother', 'father', 'guardian'];
+const GENDERS: BabyType['gender'][] = ['female', 'male', 'other'];
+
+const parseNumber = (text: string) => {
+  if (!text.trim()) return undefined;
+  return parseFloat(text.replace(',', '.'));
+};
+
+const isValidDate = (text: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(text) && !Number.isNaN(new Date(text).getTime());
+
+interface PatientOnboardingFormProps {
+  title: string;
+}
+
+export default function PatientOnboardingForm({ title }: PatientOnboardingFormProps) {
+  const { user } = useAuth();
+  const [step, setStep] = useState(0);
+  const [details, setDetails] = useState({
+    firstName: '',
+    lastName: '',
+    birthDate: '',
+    gender: 'female' as BabyType['gender'],
+    bloodType: '',
+    allergies: '',
+    assignedDoctorId: user?.role === 'doctor' ? user.id : '',
+  });
+  const [birth, setBirth] = useState({ weight: '', height: '', headCircumference: '' });
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>('kg');
+  const [lengthUnit, setLengthUnit] = useState<LengthUnit>('cm');
+  const [parents, setParents] = useState<ParentLink[]>([]);
+  const [parentEmail, setParentEmail] = useState('');
+  const [parentRelationship, setParentRelationship] = useState<Relationship>('mother');
+  const [searching, setSearching] = useState(false);
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [saving, setSaving] = useState(false);
+  const mounted = useRef(true);
+
+  const canCreate = can(user, 'patients.create');
+
+  useEffect(() => {
+    mounted.current = true;
+    loadDoctors();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, []);
+
+  const loadDoctors = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('id, first_name, last_name')
+        .eq('role', 'doctor')
+        .order('last_name', { ascending: true });
+
+      if (error) throw error;
+      if (mounted.current) {
+        setDoctors(data || []);
+      }
+    } catch (error) {
+      console.error('Error loading doctors:', error);
+    }
+  };
+
+  const birthInput = useMemo<VitalInput>(() => {
+    const values: VitalInput = {};
+    const weight = parseNumber(birth.weight);
+    const height = parseNumber(birth.height);
+    const headCircumference = parseNumber(birth.headCircumference);
+    if (weight != null) values.weight = toKilograms(weight, weightUnit);
+    if (height != null) values.height = toCentimeters(height, lengthUnit);
+    if (headCircumference != null) {
+      values.head_circumference = toCentimeters(headCircumference, lengthUnit);
+    }
+    return values;
+  }, [birth, weightUnit, lengthUnit]);
+
+  const birthIssues = useMemo(() => {
+    if (!isValidDate(details.birthDate)) return [];
+    const draft = { birth_date: details.birthDate, gender: details.gender };
+    return validateVitals(draft, birthInput, null, new Date(details.birthDate));
+  }, [details, birthInput]);
+
+  const validateStep = () => {
+    if (step === 0) {
+      if (!details.firstName.trim() || !details.lastName.trim() || !details.birthDate) {
+        Alert.alert('Error', 'Please fill in all required fields');
+        return false;
+      }
+      if (!isValidDate(details.birthDate) || new Date(details.birthDate) > new Date()) {
+        Alert.alert('Error', 'Birth date must be a past date in YYYY-MM-DD format');
+        return false;
+      }
+    }
+    if (step === 1) {
+      const errors = birthIssues.filter(issue => issue.level === 'error');
+      if (errors.length > 0) {
+        Alert.alert('Check Values', errors.map(issue => issue.message).join('\n'));
+        return false;
+      }
+    }
+    return true;
+  };
+
+  const goNext = () => {
+    if (validateStep()) {
+      setStep(step + 1);
+    }
+  };
+
+  const addParent = async () => {
+    const email = parentEmail.trim().toLowerCase();
+    if (!/^\S+@\S+\.\S+$/.test(email)) {
+      Alert.alert('Error', 'Please enter a valid email address');
+      return;
+    }
+    if (parents.some(parent => parent.email === email)) {
+      Alert.alert('Error', 'This parent has already been added');
+      return;
+    }
+
+    setSearching(true);
+    try {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('id, first_name, last_name, role')
+        .ilike('email', email)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data && data.role !== 'parent') {
+        Alert.alert('Error', 'This email belongs to a clinic account, not a parent');
+        return;
+      }
+
+      if (mounted.current) {
+        setParents([
+          ...parents,
+          {
+            email,
+            relationship: parentRelationship,
+            profile: data ? { id: data.id, first_name: data.first_name, last_name: data.last_name } : null,
+          },
+        ]);
+        setParentEmail('');
+      }
+    } catch (error) {
+      console.error('Error looking up parent:', error);
+      Alert.alert('Error', 'Could not look up this email. Please try again.');
+    } finally {
+      if (mounted.current) {
+        setSearching(false);
+      }
+    }
+  };
+
+  const removeParent = (email: string) => {
+    setParents(parents.filter(parent => parent.email !== email));
+  };
+
+  const handleCreate = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    let babyId: string | null = null;
+    try {
+      const round = (value: number | undefined, digits: number) =>
+        value == null ? null : Number(value.toFixed(digits));
+
+      const { data: baby, error: babyError } = await supabase
+        .from('babies')
+        .insert({
+          first_name: details.firstName.trim(),
+          last_name: details.lastName.trim(),
+          birth_date: details.birthDate,
+          gender: details.gender,
+          blood_type: details.bloodType.trim() || null,
+          assigned_doctor_id: details.assignedDoctorId || null,
+          current_weight: round(birthInput.weight, 3),
+          current_height: round(birthInput.height, 1),
+        })
+        .select()
+        .single();
+
+      if (babyError) throw babyError;
+      babyId = baby.id;
+
+      if (Object.keys(birthInput).length > 0) {
+        const { error } = await supabase.from('vital_records').insert({
+          baby_id: baby.id,
+          weight: round(birthInput.weight, 3),
+          height: round(birthInput.height, 1),
+          head_circumference: round(birthInput.head_circumference, 1),
+          notes: 'Birth measurements',
+          recorded_by: user.id,
+          recorded_at: new Date(details.birthDate).toISOString(),
+        });
+        if (error) throw error;
+      }
+
+      // Quick entry only: severity and reaction are completed from the patient chart
+      const allergens = Array.from(
+        new Map(
+          details.allergies
+            .split(',')
+            .map(allergy => allergy.trim())
+            .filter(Boolean)
+            .map(allergy => [allergy.toLowerCase(), allergy] as const)
+        ).values()
+      );
+      if (allergens.length > 0) {
+        const { error } = await supabase.from('allergies').insert(
+          allergens.map((allergen) => {
+            const match = matchAllergen(allergen);
+            return {
+              baby_id: baby.id,
+              allergen,
+              allergen_code: match?.code ?? null,
+              category: match?.category ?? null,
+              verification_status: 'unconfirmed' as const,
+              recorded_by: user.id,
+            };
+          })
+        );
+        if (error) throw error;
+      }
+
+      const linked = parents.filter(parent => parent.profile);
+      if (linked.length > 0) {
+        const { error } = await supabase.from('parent_babies').insert(
+          linked.map(parent => ({
+            parent_id: parent.profile!.id,
+            baby_id: baby.id,
+            relationship: parent.relationship,
+          }))
+        );
+        if (error) throw error;
+      }
+
+      const invited = parents.filter(parent => !parent.profile);
+      if (invited.length > 0) {
+        const { error } = await supabase.from('parent_invitations').insert(
+          invited.map(parent => ({
+            baby_id: baby.id,
+            email: parent.email,
+            relationship: parent.relationship,
+            invited_by: user.id,
+          }))
+        );
+        if (error) throw error;
+      }
+
+      Alert.alert(
+        'Patient Added',
+        invited.length > 0
+          ? `${baby.first_name} has been added. Invited parents will be linked automatically when they register with their email.`
+          : `${baby.first_name} has been added.`
+      );
+      router.replace(`/patient/${baby.id}`);
+    } catch (error) {
+      console.error('Error creating patient:', error);
+      // Remove the partially created baby so the form can be submitted again
+      if (babyId) {
+        await supabase.from('babies').delete().eq('id', babyId);
+      }
+      Alert.alert('Error', 'Could not create the patient. Please try again.');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  const renderChips = <T extends string>(options: T[], value: T, onChange: (value: T) => void) => (
+    <View style={styles.chipRow}>
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option}
+          style={[styles.chip, value === option && styles.selectedChip]}
+          onPress={() => onChange(option)}
+        >
+          <Text style={[styles.chipText, value === option && styles.selectedChipText]}>
+            {option}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderInput = (
+    label: string,
+    value: string,
+    onChangeText: (text: string) => void,
+    props: Partial<React.ComponentProps<typeof TextInput>> = {}
+  ) => (
+    <View style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        value={value}
+        onChangeText={onChangeText}
+        placeholderTextColor="#94a3b8"
+        {...props}
+      />
+    </View>
+  );
+
+  const renderDetailsStep = () => (
+    <View style={styles.card}>
+      {renderInput('First Name *', details.firstName, (text) => setDetails({ ...details, firstName: text }), { autoCapitalize: 'words' })}
+      {renderInput('Last Name *', details.lastName, (text) => setDetails({ ...details, lastName: text }), { autoCapitalize: 'words' })}
+      {renderInput('Birth Date *', details.birthDate, (text) => setDetails({ ...details, birthDate: text }), { placeholder: 'YYYY-MM-DD' })}
+      <Text style={styles.fieldLabel}>Sex</Text>
+      {renderChips(GENDERS, details.gender, (gender) => setDetails({ ...details, gender }))}
+      {renderInput('Blood Type', details.bloodType, (text) => setDetails({ ...details, bloodType: text }), { placeholder: 'e.g. O+', autoCapitalize: 'characters' })}
+      {renderInput('Allergies', details.allergies, (text) => setDetails({ ...details, allergies: text }), { placeholder: 'Comma separated' })}
+      <Text style={styles.fieldLabel}>Assigned Doctor</Text>
+      <View style={styles.chipRow}>
+        {doctors.map((doctor) => (
+          <TouchableOpacity
+            key={doctor.id}
+            style={[styles.chip, details.assignedDoctorId === doctor.id && styles.selectedChip]}
+            onPress={() => setDetails({ ...details, assignedDoctorId: doctor.id })}
+          >
+            <Text style={[styles.chipText, details.assignedDoctorId === doctor.id && styles.selectedChipText]}>
+              Dr. {doctor.last_name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderBirthStep = () => (
+    <View style={styles.card}>
+      <Text style={styles.helperText}>
+        Birth measurements are saved as the first vitals entry and used as the reference for growth alerts.
+      </Text>
+      <Text style={styles.fieldLabel}>Units</Text>
+      <View style={styles.unitRow}>
+        {renderChips<WeightUnit>(['kg', 'lb'], weightUnit, setWeightUnit)}
+        {renderChips<LengthUnit>(['cm', 'in'], lengthUnit, setLengthUnit)}
+      </View>
+      {renderInput(`Birth Weight (${weightUnit})`, birth.weight, (text) => setBirth({ ...birth, weight: text }), { keyboardType: 'decimal-pad' })}
+      {renderInput(`Birth Length (${lengthUnit})`, birth.height, (text) => setBirth({ ...birth, height: text }), { keyboardType: 'decimal-pad' })}
+      {renderInput(`Head Circumference (${lengthUnit})`, birth.headCircumference, (text) => setBirth({ ...birth, headCircumference: text }), { keyboardType: 'decimal-pad' })}
+      {birthIssues.map((issue) => (
+        <View key={issue.message} style={styles.issueRow}>
+          <AlertTriangle size={14} color={issue.level === 'error' ? '#ef4444' : '#f59e0b'} strokeWidth={2} />
+          <Text style={[styles.issueText, issue.level === 'error' && styles.errorText]}>
+            {issue.message}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderParentsStep = () => (
+    <View style={styles.card}>
+      <Text style={styles.fieldLabel}>Parent Email</Text>
+      <View style={styles.searchRow}>
+        <View style={styles.searchInputContainer}>
+          <Mail size={18} color="#64748b" strokeWidth={2} />
+          <TextInput
+            style={styles.searchInput}
+            value={parentEmail}
+            onChangeText={setParentEmail}
+            placeholder="parent@example.com"
+            placeholderTextColor="#94a3b8"
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        </View>
+        <TouchableOpacity
+          style={[styles.addParentButton, searching && styles.buttonDisabled]}
+          onPress={addParent}
+          disabled={searching}
+        >
+          <Search size={18} color="#ffffff" strokeWidth={2} />
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.fieldLabel}>Relationship</Text>
+      {renderChips(RELATIONSHIPS, parentRelationship, setParentRelationship)}
+
+      {parents.length === 0 ? (
+        <Text style={styles.helperText}>
+          No parents linked yet. You can add them later from the patient chart.
+        </Text>
+      ) : (
+        parents.map((parent) => (
+          <View key={parent.email} style={styles.parentRow}>
+            {parent.profile ? (
+              <CheckCircle size={18} color="#10b981" strokeWidth={2} />
+            ) : (
+              <UserPlus size={18} color="#f59e0b" strokeWidth={2} />
+            )}
+            <View style={styles.parentInfo}>
+              <Text style={styles.parentName}>
+                {parent.profile
+                  ? `${parent.profile.first_name} ${parent.profile.last_name}`
+                  : parent.email}
+                <Text style={styles.relationshipText}> · {parent.relationship}</Text>
+              </Text>
+              <Text style={styles.helperText}>
+                {parent.profile ? parent.email : 'No account yet — will be invited'}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={() => removeParent(parent.email)}>
+              <X size={18} color="#64748b" strokeWidth={2} />
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+    </View>
+  );
+
+  const renderReviewStep = () => {
+    const doctor = doctors.find(d => d.id === details.assignedDoctorId);
+    const rows = [
+      ['Name', `${details.firstName} ${details.lastName}`],
+      ['Birth date', details.birthDate],
+      ['Sex', details.gender],
+      ['Blood type', details.bloodType || '—'],
+      ['Allergies', details.allergies || 'None'],
+      ['Doctor', doctor ? `Dr. ${doctor.first_name} ${doctor.last_name}` : 'Unassigned'],
+      ['Birth weight', birthInput.weight != null ? `${birthInput.weight.toFixed(3)} kg` : '—'],
+      ['Birth length', birthInput.height != null ? `${birthInput.height.toFixed(1)} cm` : '—'],
+      ['Head circ.', birthInput.head_circumference != null ? `${birthInput.head_circumference.toFixed(1)} cm` : '—'],
+      ['Parents', parents.length > 0 ? parents.map(parent => `${parent.email} (${parent.relationship})`).join(', ') : 'None'],
+    ];
+
+    return (
+      <View style={styles.card}>
+        {rows.map(([label, value]) => (
+          <View key={label} style={styles.reviewRow}>
+            <Text style={styles.reviewLabel}>{label}</Text>
+            <Text style={styles.reviewValue}>{value}</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => (step > 0 ? setStep(step - 1) : router.back())}
+        >
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{title}</Text>
+      </View>
+
+      {!canCreate ? (
+        <View style={styles.emptyContainer}>
+          <Baby size={64} color="#94a3b8" strokeWidth={1.5} />
+          <Text style={styles.emptyTitle}>Not available</Text>
+          <Text style={styles.emptyText}>
+            Contact your doctor to add your baby to the system
+          </Text>
+        </View>
+      ) : (
+        <>
+          <View style={styles.stepper}>
+            {STEPS.map((label, index) => (
+              <View key={label} style={styles.stepItem}>
+                <View style={[styles.stepDot, index <= step && styles.activeStepDot]}>
+                  <Text style={[styles.stepNumber, index <= step && styles.activeStepNumber]}>
+                    {index + 1}
+                  </Text>
+                </View>
+                <Text style={[styles.stepLabel, index === step && styles.activeStepLabel]}>{label}</Text>
+              </View>
+            ))}
+          </View>
+
+          <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+            {step === 0 && renderDetailsStep()}
+            {step === 1 && renderBirthStep()}
+            {step === 2 && renderParentsStep()}
+            {step === 3 && renderReviewStep()}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              onPress={step === STEPS.length - 1 ? handleCreate : goNext}
+              disabled={saving}
+            >
+              <Text style={styles.primaryButtonText}>
+                {step === STEPS.length - 1 ? (saving ? 'Creating...' : 'Create Patient') : 'Continue'}
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </>
+      )}
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    backgroundColor: '#1e293b',
+    paddingTop: 60,
+    paddingBottom: 24,
+    paddingHorizontal: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#334155',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 100,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  stepper: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  stepItem: {
+    alignItems: 'center',
+    gap: 4,
+  },
+  stepDot: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#f1f5f9',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  activeStepDot: {
+    backgroundColor: '#0ea5e9',
+  },
+  stepNumber: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#64748b',
+  },
+  activeStepNumber: {
+    color: '#ffffff',
+  },
+  stepLabel: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  activeStepLabel: {
+    color: '#1e293b',
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 24,
+    paddingBottom: 48,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  field: {
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  helperText: {
+    fontSize: 12,
+    color: '#64748b',
+    lineHeight: 18,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  selectedChip: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+    textTransform: 'capitalize',
+  },
+  selectedChipText: {
+    color: '#ffffff',
+  },
+  unitRow: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  issueRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 6,
+    marginTop: 4,
+  },
+  issueText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#92400e',
+    lineHeight: 16,
+  },
+  errorText: {
+    color: '#b91c1c',
+  },
+  searchRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  searchInputContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  addParentButton: {
+    backgroundColor: '#0ea5e9',
+    width: 48,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  parentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  parentInfo: {
+    flex: 1,
+  },
+  parentName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 2,
+  },
+  relationshipText: {
+    color: '#64748b',
+    fontWeight: '400',
+    textTransform: 'capitalize',
+  },
+  reviewRow: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  reviewLabel: {
+    width: 110,
+    fontSize: 14,
+    color: '#64748b',
+  },
+  reviewValue: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1e293b',
+    textTransform: 'capitalize',
+  },
+  primaryButton: {
+    backgroundColor: '#0ea5e9',
+    paddingVertical: 18,
+    borderRadius: 16,
+    alignItems: 'center',
+    shadowColor: '#0ea5e9',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+});
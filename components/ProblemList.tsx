@@ -0,0 +1,412 @@
+import React, { useEffect, useState, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert } from 'react-native';
+import { ClipboardList } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { formatProblem, searchProblemCodes, type ProblemCode } from '@/lib/problems';
+import { parseCalendarDate, toCalendarDate } from '@/lib/calendarDates';
+import type { Problem } from '@/types/database';
+
+interface ProblemListProps {
+  babyId: string;
+  canEdit?: boolean;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SUGGESTION_COUNT = 6;
+
+const formatDate = (value: string) =>
+  parseCalendarDate(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export default function ProblemList({ babyId, canEdit = false }: ProblemListProps) {
+  const { user } = useAuth();
+  const [problems, setProblems] = useState<Problem[]>([]);
+  const [showResolved, setShowResolved] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [query, setQuery] = useState('');
+  const [selectedCode, setSelectedCode] = useState<ProblemCode | null>(null);
+  const [onsetDate, setOnsetDate] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const mounted = useRef(true);
+
+  useEffect(() => {
+    mounted.current = true;
+    loadProblems();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, [babyId]);
+
+  const loadProblems = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('problems')
+        .select('*')
+        .eq('baby_id', babyId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      if (mounted.current) {
+        setProblems(data || []);
+      }
+    } catch (error) {
+      console.error('Error loading problems:', error);
+    } finally {
+      if (mounted.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const resetForm = () => {
+    setAdding(false);
+    setQuery('');
+    setSelectedCode(null);
+    setOnsetDate('');
+  };
+
+  const addProblem = async () => {
+    const description = selectedCode?.description ?? query.trim();
+    if (!description) {
+      Alert.alert('Error', 'Please choose or describe the problem');
+      return;
+    }
+    if (onsetDate && (!DATE_PATTERN.test(onsetDate) || parseCalendarDate(onsetDate) > new Date())) {
+      Alert.alert('Error', 'Please enter a past onset date as YYYY-MM-DD');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('problems').insert({
+        baby_id: babyId,
+        code: selectedCode?.code ?? null,
+        description,
+        onset_date: onsetDate || null,
+        recorded_by: user?.id,
+      });
+
+      if (error) throw error;
+      resetForm();
+      await loadProblems();
+    } catch (error) {
+      console.error('Error adding problem:', error);
+      Alert.alert('Error', 'Could not add the problem');
+    } finally {
+      if (mounted.current) {
+        setSaving(false);
+      }
+    }
+  };
+
+  const updateStatus = async (problem: Problem, status: Problem['status']) => {
+    try {
+      const today = toCalendarDate(new Date());
+      const { error } = await supabase
+        .from('problems')
+        .update(
+          status === 'resolved'
+            ? { status, resolved_on: today, resolved_by: user?.id }
+            : { status, resolved_on: null, resolved_by: null }
+        )
+        .eq('id', problem.id);
+
+      if (error) throw error;
+      await loadProblems();
+    } catch (error) {
+      console.error('Error updating problem:', error);
+      Alert.alert('Error', 'Could not update the problem');
+    }
+  };
+
+  const confirmResolve = (problem: Problem) => {
+    Alert.alert('Resolve Problem', `Mark ${problem.description} as resolved today?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Resolve', onPress: () => updateStatus(problem, 'resolved') },
+    ]);
+  };
+
+  const active = problems.filter(problem => problem.status === 'active');
+  const resolved = problems.filter(problem => problem.status === 'resolved');
+  const suggestions = selectedCode ? [] : searchProblemCodes(query).slice(0, SUGGESTION_COUNT);
+
+  const renderProblem = (problem: Problem) => {
+    const isActive = problem.status === 'active';
+
+    return (
+      <View key={problem.id} style={styles.problemRow}>
+        <View style={[styles.statusDot, { backgroundColor: isActive ? '#f59e0b' : '#10b981' }]} />
+        <View style={styles.problemInfo}>
+          <Text style={[styles.problemText, !isActive && styles.resolvedText]}>{formatProblem(problem)}</Text>
+          <Text style={styles.problemDetail}>
+            {problem.onset_date ? `Since ${formatDate(problem.onset_date)}` : 'Onset unknown'}
+            {problem.resolved_on ? ` · Resolved ${formatDate(problem.resolved_on)}` : ''}
+          </Text>
+        </View>
+        {canEdit && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => (isActive ? confirmResolve(problem) : updateStatus(problem, 'active'))}
+          >
+            <Text style={styles.actionButtonText}>{isActive ? 'Resolve' : 'Reactivate'}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.titleRow}>
+        <ClipboardList size={20} color="#0ea5e9" strokeWidth={2} />
+        <Text style={styles.title}>Problem List</Text>
+        {canEdit && !adding && (
+          <TouchableOpacity style={styles.actionButton} onPress={() => setAdding(true)}>
+            <Text style={styles.actionButtonText}>Add</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {adding && (
+        <View style={styles.form}>
+          {selectedCode ? (
+            <TouchableOpacity style={styles.selectedCode} onPress={() => setSelectedCode(null)}>
+              <Text style={styles.selectedCodeText}>{formatProblem(selectedCode)}</Text>
+              <Text style={styles.changeText}>Change</Text>
+            </TouchableOpacity>
+          ) : (
+            <>
+              <TextInput
+                style={styles.input}
+                placeholder="Search by name or ICD-10 code"
+                placeholderTextColor="#94a3b8"
+                value={query}
+                onChangeText={setQuery}
+              />
+              <View style={styles.chipRow}>
+                {suggestions.map((problem) => (
+                  <TouchableOpacity
+                    key={problem.code}
+                    style={styles.chip}
+                    onPress={() => setSelectedCode(problem)}
+                  >
+                    <Text style={styles.chipText}>{problem.description}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {query.trim() && suggestions.length === 0 ? (
+                <Text style={styles.hintText}>No matching code; the problem will be saved as free text</Text>
+              ) : null}
+            </>
+          )}
+          <TextInput
+            style={styles.input}
+            placeholder="Onset date YYYY-MM-DD (optional)"
+            placeholderTextColor="#94a3b8"
+            value={onsetDate}
+            onChangeText={setOnsetDate}
+          />
+          <View style={styles.formButtons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={resetForm} disabled={saving}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              onPress={addProblem}
+              disabled={saving}
+            >
+              <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Add Problem'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {loading ? (
+        <Text style={styles.mutedText}>Loading...</Text>
+      ) : active.length === 0 ? (
+        <Text style={styles.mutedText}>No active problems</Text>
+      ) : (
+        active.map(renderProblem)
+      )}
+
+      {resolved.length > 0 && (
+        <>
+          {showResolved && resolved.map(renderProblem)}
+          <TouchableOpacity style={styles.toggleButton} onPress={() => setShowResolved(!showResolved)}>
+            <Text style={styles.toggleButtonText}>
+              {showResolved ? 'Hide resolved' : `Show resolved (${resolved.length})`}
+            </Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#e0f2fe',
+  },
+  actionButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#0369a1',
+  },
+  mutedText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 12,
+  },
+  form: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#1e293b',
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#475569',
+  },
+  selectedCode: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#e0f2fe',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 12,
+  },
+  selectedCodeText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0369a1',
+  },
+  changeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#0ea5e9',
+  },
+  formButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  saveButton: {
+    backgroundColor: '#0ea5e9',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  saveButtonDisabled: {
+    opacity: 0.7,
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  problemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  problemInfo: {
+    flex: 1,
+  },
+  problemText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  resolvedText: {
+    color: '#94a3b8',
+  },
+  problemDetail: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  toggleButton: {
+    marginTop: 12,
+    alignItems: 'center',
+  },
+  toggleButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0ea5e9',
+  },
+});
@@ -0,0 +1,16 @@
+import React from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { can, type Permission, type PermissionTarget } from '@/lib/permissions';
+
+interface RequirePermissionProps {
+  permission: Permission;
+  target?: PermissionTarget | null;
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+export default function RequirePermission({ permission, target, fallback = null, children }: RequirePermissionProps) {
+  const { user } = useAuth();
+
+  return <>{can(user, permission, target) ? children : fallback}</>;
+}
@@ -0,0 +1,75 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { TriangleAlert as AlertTriangle } from 'lucide-react-native';
+import { getSevereAllergies } from '@/lib/allergies';
+import type { Allergy } from '@/types/database';
+
+interface SevereAllergyBannerProps {
+  allergies?: Allergy[];
+  compact?: boolean;
+}
+
+// Shown wherever a baby is displayed; renders nothing unless a severe allergy is on record
+export default function SevereAllergyBanner({ allergies, compact = false }: SevereAllergyBannerProps) {
+  const severe = getSevereAllergies(allergies);
+  if (severe.length === 0) return null;
+
+  return (
+    <View style={[styles.banner, compact && styles.compactBanner]}>
+      <AlertTriangle size={compact ? 16 : 20} color="#ffffff" strokeWidth={2.5} />
+      <View style={styles.content}>
+        <Text style={[styles.title, compact && styles.compactTitle]}>
+          Severe allerg{severe.length === 1 ? 'y' : 'ies'}
+        </Text>
+        <Text style={[styles.detail, compact && styles.compactDetail]}>
+          {severe
+            .map(allergy => (allergy.reaction ? `${allergy.allergen} (${allergy.reaction})` : allergy.allergen))
+            .join(', ')}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#dc2626',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  compactBanner: {
+    gap: 8,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginTop: 12,
+    marginBottom: 0,
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#ffffff',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  compactTitle: {
+    fontSize: 11,
+  },
+  detail: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginTop: 2,
+  },
+  compactDetail: {
+    fontSize: 13,
+  },
+});
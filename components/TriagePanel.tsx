@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { ChevronDown, ChevronUp, Clock, Flag } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import {
+  SLA_PRESETS,
+  TRIAGE_STATUS_LABELS,
+  URGENCY_LABELS,
+  URGENCY_LEVELS,
+  URGENT_FLAG_LABELS,
+  describeSla,
+  getUrgencyColor,
+} from '@/lib/triage';
+import type { Conversation, User } from '@/types/database';
+
+export interface TriagedConversation extends Conversation {
+  assignee?: Pick<User, 'first_name' | 'last_name'> | null;
+}
+
+type Doctor = Pick<User, 'id' | 'first_name' | 'last_name'>;
+
+interface TriagePanelProps {
+  conversation: TriagedConversation;
+  onChange: (conversation: TriagedConversation) => void;
+}
+
+export default function TriagePanel({ conversation, onChange }: TriagePanelProps) {
+  const [expanded, setExpanded] = useState(conversation.triage_status === 'open');
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (expanded && doctors.length === 0) {
+      loadDoctors();
+    }
+  }, [expanded]);
+
+  const loadDoctors = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('id, first_name, last_name')
+        .eq('role', 'doctor')
+        .neq('is_active', false)
+        .order('last_name', { ascending: true });
+
+      if (error) throw error;
+      setDoctors(data || []);
+    } catch (error) {
+      console.error('Error loading doctors:', error);
+    }
+  };
+
+  const updateTriage = async (
+    updates: Partial<Pick<Conversation, 'assigned_to' | 'urgency' | 'sla_due_at' | 'triage_status'>>
+  ) => {
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('conversations')
+        .update(updates)
+        .eq('id', conversation.id)
+        .select('*, assignee:user_profiles!conversations_assigned_to_fkey (first_name, last_name)')
+        .single();
+
+      if (error) throw error;
+      onChange({ ...conversation, ...data });
+    } catch (error) {
+      console.error('Error updating triage:', error);
+      Alert.alert('Error', 'Could not update this conversation');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sla = describeSla(conversation.sla_due_at);
+  const resolved = conversation.triage_status === 'resolved';
+
+  return (
+    <View style={styles.panel}>
+      <TouchableOpacity style={styles.summaryRow} onPress={() => setExpanded(!expanded)}>
+        <View style={[styles.urgencyBadge, { backgroundColor: getUrgencyColor(conversation.urgency) }]}>
+          <Text style={styles.urgencyText}>{URGENCY_LABELS[conversation.urgency]}</Text>
+        </View>
+        <View style={styles.summaryText}>
+          <Text style={styles.statusText}>
+            {TRIAGE_STATUS_LABELS[conversation.triage_status]}
+            {conversation.assignee ? ` · Dr. ${conversation.assignee.last_name}` : ''}
+          </Text>
+          {sla && (
+            <View style={styles.slaRow}>
+              <Clock size={12} color={sla.overdue ? '#ef4444' : '#64748b'} strokeWidth={2} />
+              <Text style={[styles.slaText, sla.overdue && styles.overdueText]}>{sla.text}</Text>
+            </View>
+          )}
+        </View>
+        {expanded ? (
+          <ChevronUp size={20} color="#64748b" strokeWidth={2} />
+        ) : (
+          <ChevronDown size={20} color="#64748b" strokeWidth={2} />
+        )}
+      </TouchableOpacity>
+
+      {conversation.flag_reasons.length > 0 && (
+        <View style={styles.flagRow}>
+          <Flag size={14} color="#ef4444" strokeWidth={2} />
+          <Text style={styles.flagText}>
+            {conversation.flag_reasons.map(flag => URGENT_FLAG_LABELS[flag] ?? flag).join(' · ')}
+          </Text>
+        </View>
+      )}
+
+      {expanded && (
+        <View style={styles.controls}>
+          <Text style={styles.label}>Assign to</Text>
+          <View style={styles.chipRow}>
+            <TouchableOpacity
+              style={[styles.chip, !conversation.assigned_to && styles.selectedChip]}
+              onPress={() => updateTriage({ assigned_to: null })}
+              disabled={saving}
+            >
+              <Text style={[styles.chipText, !conversation.assigned_to && styles.selectedChipText]}>Queue</Text>
+            </TouchableOpacity>
+            {doctors.map((doctor) => (
+              <TouchableOpacity
+                key={doctor.id}
+                style={[styles.chip, conversation.assigned_to === doctor.id && styles.selectedChip]}
+                onPress={() => updateTriage({ assigned_to: doctor.id })}
+                disabled={saving}
+              >
+                <Text style={[styles.chipText, conversation.assigned_to === doctor.id && styles.selectedChipText]}>
+                  Dr. {doctor.last_name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Urgency</Text>
+          <View style={styles.chipRow}>
+            {URGENCY_LEVELS.map((level) => (
+              <TouchableOpacity
+                key={level}
+                style={[
+                  styles.chip,
+                  conversation.urgency === level && { backgroundColor: getUrgencyColor(level), borderColor: getUrgencyColor(level) },
+                ]}
+                onPress={() => updateTriage({ urgency: level })}
+                disabled={saving}
+              >
+                <Text style={[styles.chipText, conversation.urgency === level && styles.selectedChipText]}>
+                  {URGENCY_LABELS[level]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Reply within</Text>
+          <View style={styles.chipRow}>
+            {SLA_PRESETS.map((preset) => (
+              <TouchableOpacity
+                key={preset.label}
+                style={styles.chip}
+                onPress={() =>
+                  updateTriage({ sla_due_at: new Date(Date.now() + preset.minutes * 60 * 1000).toISOString() })
+                }
+                disabled={saving || resolved}
+              >
+                <Text style={styles.chipText}>{preset.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.resolveButton, resolved && styles.reopenButton, saving && styles.buttonDisabled]}
+            onPress={() =>
+              updateTriage({
+                triage_status: resolved ? (conversation.assigned_to ? 'assigned' : 'open') : 'resolved',
+              })
+            }
+            disabled={saving}
+          >
+            <Text style={[styles.resolveButtonText, resolved && styles.reopenButtonText]}>
+              {resolved ? 'Reopen' : 'Mark Resolved'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  urgencyBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  urgencyText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  summaryText: {
+    flex: 1,
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  slaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 2,
+  },
+  slaText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  overdueText: {
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+  flagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  flagText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#ef4444',
+  },
+  controls: {
+    marginTop: 12,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#64748b',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  selectedChip: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  selectedChipText: {
+    color: '#ffffff',
+  },
+  resolveButton: {
+    backgroundColor: '#10b981',
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  reopenButton: {
+    backgroundColor: '#f1f5f9',
+  },
+  resolveButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  reopenButtonText: {
+    color: '#1e293b',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -70,6 +70,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         .single();
 
       if (error) throw error;
+      if (data.is_active === false) {
+        // Deactivated accounts keep their history but can no longer sign in
+        await supabase.auth.signOut();
+        return;
+      }
       if (mounted.current) {
         setUser(data);
       }
@@ -84,12 +89,23 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const signIn = async (email: string, password: string) => {
     try {
-      const { error } = await supabase.auth.signInWithPassword({
+      const { data, error } = await supabase.auth.signInWithPassword({
         email,
         password,
       });
       
       if (error) return { error: error.message };
+
+      const { data: profile } = await supabase
+        .from('user_profiles')
+        .select('is_active')
+        .eq('id', data.user.id)
+        .single();
+
+      if (profile?.is_active === false) {
+        await supabase.auth.signOut();
+        return { error: 'This account has been deactivated. Please contact the clinic.' };
+      }
       return {};
     } catch (error) {
       return { error: 'An unexpected error occurred' };
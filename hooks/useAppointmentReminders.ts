@@ -0,0 +1,49 @@
+import { useEffect } from 'react';
+import * as Notifications from 'expo-notifications';
+import { router } from 'expo-router';
+import type { User } from '@/types/database';
+import {
+  getMedicationReminderBabyId,
+  handleReminderResponse,
+  notificationsSupported,
+  registerForPushNotifications,
+  syncAppointmentReminders,
+  syncMedicationReminders,
+} from '@/lib/notifications';
+
+export function useAppointmentReminders(user: User | null) {
+  useEffect(() => {
+    if (!user || !notificationsSupported) return;
+
+    registerForPushNotifications(user.id).then(() =>
+      Promise.all([syncAppointmentReminders(user), syncMedicationReminders(user)])
+    );
+
+    const onResponse = async (response: Notifications.NotificationResponse) => {
+      const babyId = getMedicationReminderBabyId(response);
+      if (babyId) {
+        router.push(`/baby/${babyId}`);
+        return;
+      }
+
+      const appointmentId = await handleReminderResponse(response);
+      if (appointmentId) {
+        router.push(`/appointment/${appointmentId}`);
+      } else {
+        // A confirmation changes which reminders still need the Confirm action
+        await syncAppointmentReminders(user);
+      }
+    };
+
+    // Handle a reminder that launched the app before this listener existed
+    Notifications.getLastNotificationResponseAsync().then((response) => {
+      if (response) {
+        Notifications.clearLastNotificationResponseAsync();
+        onResponse(response);
+      }
+    });
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(onResponse);
+    return () => subscription.remove();
+  }, [user?.id]);
+}
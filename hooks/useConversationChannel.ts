@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { getDisplayName } from '@/lib/conversations';
+import type { Message, User } from '@/types/database';
+
+export interface ConversationParticipant {
+  userId: string;
+  name: string;
+  role: User['role'];
+}
+
+interface ConversationChannelHandlers {
+  onInsert: (message: Message) => void;
+  onUpdate: (message: Message) => void;
+}
+
+// A typist is dropped if no keystroke arrives within this window
+const TYPING_TIMEOUT_MS = 4000;
+const TYPING_THROTTLE_MS = 2000;
+
+/**
+ * Joins the realtime channel for one thread: new messages and read receipts
+ * from Postgres changes, typing indicators over broadcast, and who has the
+ * thread open through presence.
+ */
+export function useConversationChannel(
+  conversationId: string | undefined,
+  user: User | null,
+  handlers: ConversationChannelHandlers
+) {
+  const [onlineParticipants, setOnlineParticipants] = useState<ConversationParticipant[]>([]);
+  const [typingParticipants, setTypingParticipants] = useState<ConversationParticipant[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const handlersRef = useRef(handlers);
+  const typingTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const lastTypingSent = useRef(0);
+
+  handlersRef.current = handlers;
+
+  const stopTyping = (userId: string) => {
+    const timer = typingTimers.current.get(userId);
+    if (timer) clearTimeout(timer);
+    typingTimers.current.delete(userId);
+    setTypingParticipants(prev => prev.filter(participant => participant.userId !== userId));
+  };
+
+  useEffect(() => {
+    if (!conversationId || !user) return;
+
+    const self: ConversationParticipant = { userId: user.id, name: getDisplayName(user), role: user.role };
+    const filter = `conversation_id=eq.${conversationId}`;
+
+    const channel = supabase
+      .channel(`conversation:${conversationId}`, {
+        config: {
+          broadcast: { self: false },
+          presence: { key: user.id },
+        },
+      })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages', filter }, (payload) => {
+        const message = payload.new as Message;
+        stopTyping(message.sender_id);
+        handlersRef.current.onInsert(message);
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'messages', filter }, (payload) => {
+        handlersRef.current.onUpdate(payload.new as Message);
+      })
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const participant = payload as ConversationParticipant;
+        if (!participant?.userId || participant.userId === user.id) return;
+
+        const existing = typingTimers.current.get(participant.userId);
+        if (existing) clearTimeout(existing);
+        typingTimers.current.set(
+          participant.userId,
+          setTimeout(() => stopTyping(participant.userId), TYPING_TIMEOUT_MS)
+        );
+
+        setTypingParticipants(prev =>
+          prev.some(entry => entry.userId === participant.userId) ? prev : [...prev, participant]
+        );
+      })
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<ConversationParticipant>();
+        setOnlineParticipants(
+          Object.values(state)
+            .map(entries => entries[0])
+            .filter((entry): entry is typeof entry => !!entry && entry.userId !== user.id)
+            .map(({ userId, name, role }) => ({ userId, name, role }))
+        );
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          channel.track(self);
+        }
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      typingTimers.current.forEach(timer => clearTimeout(timer));
+      typingTimers.current.clear();
+      channelRef.current = null;
+      setTypingParticipants([]);
+      setOnlineParticipants([]);
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, user?.id]);
+
+  const notifyTyping = useCallback(() => {
+    const channel = channelRef.current;
+    if (!channel || !user) return;
+
+    const now = Date.now();
+    if (now - lastTypingSent.current < TYPING_THROTTLE_MS) return;
+    lastTypingSent.current = now;
+
+    channel.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: { userId: user.id, name: getDisplayName(user), role: user.role } satisfies ConversationParticipant,
+    });
+  }, [user?.id]);
+
+  return { onlineParticipants, typingParticipants, notifyTyping };
+}
@@ -0,0 +1,18 @@
+import { useEffect } from 'react';
+import { router, useSegments } from 'expo-router';
+import { can, getRoutePermission } from '@/lib/permissions';
+import type { User } from '@/types/database';
+
+// Sends the user back to their dashboard when they open a route their role cannot use
+export function usePermissionGuard(user: User | null) {
+  const segments = useSegments();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const permission = getRoutePermission(segments);
+    if (permission && !can(user, permission) && can(user, 'dashboard.view')) {
+      router.replace('/(tabs)');
+    }
+  }, [user, segments]);
+}
@@ -0,0 +1,14 @@
+export const calculateAge = (birthDate: string) => {
+  const birth = new Date(birthDate);
+  const now = new Date();
+  const ageInMonths = (now.getFullYear() - birth.getFullYear()) * 12 +
+                     (now.getMonth() - birth.getMonth());
+
+  if (ageInMonths < 12) {
+    return `${ageInMonths} months`;
+  } else {
+    const years = Math.floor(ageInMonths / 12);
+    const months = ageInMonths % 12;
+    return months > 0 ? `${years}y ${months}m` : `${years} years`;
+  }
+};
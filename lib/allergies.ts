@@ -0,0 +1,168 @@
+import { parseCalendarDate } from '@/lib/calendarDates';
+import type { Allergy } from '@/types/database';
+
+export type AllergyCategory = NonNullable<Allergy['category']>;
+export type AllergySeverity = NonNullable<Allergy['severity']>;
+export type VerificationStatus = Allergy['verification_status'];
+
+export interface Allergen {
+  code: string;
+  name: string;
+  category: AllergyCategory;
+  // Other names the allergen is recorded under, used for matching free text
+  synonyms: string[];
+  // Formulary drug class this allergen covers, for prescription checks
+  drugClass?: string;
+}
+
+/**
+ * The allergen list bundled with the app. Codes are stable identifiers stored
+ * in `allergies.allergen_code`; never rename one once it has shipped. The
+ * `allergens` table holds the same list for the prescription allergy check,
+ * so change both together.
+ */
+export const ALLERGENS: Allergen[] = [
+  { code: 'food-cow-milk', name: "Cow's milk", category: 'food', synonyms: ['milk', 'dairy', 'lactose', 'cmpa'] },
+  { code: 'food-egg', name: 'Egg', category: 'food', synonyms: ['eggs'] },
+  { code: 'food-peanut', name: 'Peanut', category: 'food', synonyms: ['peanuts', 'groundnut'] },
+  { code: 'food-tree-nut', name: 'Tree nuts', category: 'food', synonyms: ['almond', 'cashew', 'walnut', 'hazelnut', 'pecan', 'pistachio', 'nuts'] },
+  { code: 'food-soy', name: 'Soy', category: 'food', synonyms: ['soya', 'soybean'] },
+  { code: 'food-wheat', name: 'Wheat', category: 'food', synonyms: ['gluten'] },
+  { code: 'food-fish', name: 'Fish', category: 'food', synonyms: ['salmon', 'cod', 'tuna'] },
+  { code: 'food-shellfish', name: 'Shellfish', category: 'food', synonyms: ['shrimp', 'prawn', 'crab', 'lobster'] },
+  { code: 'food-sesame', name: 'Sesame', category: 'food', synonyms: ['tahini'] },
+  {
+    code: 'drug-penicillins',
+    name: 'Penicillins',
+    category: 'drug',
+    synonyms: ['penicillin', 'amoxicillin', 'ampicillin', 'augmentin'],
+    drugClass: 'Penicillins',
+  },
+  {
+    code: 'drug-cephalosporins',
+    name: 'Cephalosporins',
+    category: 'drug',
+    synonyms: ['cephalosporin', 'cefalexin', 'cephalexin', 'ceftriaxone'],
+    drugClass: 'Cephalosporins',
+  },
+  {
+    code: 'drug-sulfonamides',
+    name: 'Sulfonamides',
+    category: 'drug',
+    synonyms: ['sulfa', 'sulpha', 'co-trimoxazole', 'bactrim'],
+    drugClass: 'Sulfonamides',
+  },
+  {
+    code: 'drug-macrolides',
+    name: 'Macrolides',
+    category: 'drug',
+    synonyms: ['macrolide', 'azithromycin', 'erythromycin', 'clarithromycin'],
+    drugClass: 'Macrolides',
+  },
+  { code: 'drug-nsaids', name: 'NSAIDs', category: 'drug', synonyms: ['nsaid', 'ibuprofen', 'aspirin'], drugClass: 'NSAIDs' },
+  { code: 'drug-paracetamol', name: 'Paracetamol', category: 'drug', synonyms: ['acetaminophen', 'tylenol'] },
+  { code: 'env-latex', name: 'Latex', category: 'environmental', synonyms: ['rubber'] },
+  { code: 'env-dust-mite', name: 'Dust mites', category: 'environmental', synonyms: ['dust', 'house dust mite'] },
+  { code: 'env-pollen', name: 'Pollen', category: 'environmental', synonyms: ['grass', 'hay fever', 'tree pollen'] },
+  { code: 'env-pet-dander', name: 'Pet dander', category: 'environmental', synonyms: ['cat', 'dog', 'animal dander'] },
+  { code: 'env-insect-sting', name: 'Insect stings', category: 'environmental', synonyms: ['bee', 'wasp', 'sting'] },
+  { code: 'env-mould', name: 'Mould', category: 'environmental', synonyms: ['mold'] },
+];
+
+export const ALLERGY_CATEGORY_LABELS: Record<AllergyCategory, string> = {
+  food: 'Food',
+  drug: 'Drug',
+  environmental: 'Environmental',
+};
+
+export const ALLERGY_SEVERITY_LABELS: Record<AllergySeverity, string> = {
+  mild: 'Mild',
+  moderate: 'Moderate',
+  severe: 'Severe',
+};
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  unconfirmed: 'Unconfirmed',
+  confirmed: 'Confirmed',
+  refuted: 'Refuted',
+};
+
+// Common reactions offered as shortcuts when recording an allergy
+export const COMMON_REACTIONS = ['Hives', 'Rash', 'Swelling', 'Vomiting', 'Diarrhoea', 'Wheezing', 'Anaphylaxis'];
+
+export const getAllergySeverityColor = (severity?: AllergySeverity | null) => {
+  switch (severity) {
+    case 'severe':
+      return '#dc2626';
+    case 'moderate':
+      return '#f59e0b';
+    case 'mild':
+      return '#10b981';
+    default:
+      return '#64748b';
+  }
+};
+
+const SEVERITY_RANK: Record<AllergySeverity, number> = { severe: 3, moderate: 2, mild: 1 };
+
+export const getAllergen = (code?: string | null) =>
+  code ? ALLERGENS.find(allergen => allergen.code === code) : undefined;
+
+/**
+ * Finds the bundled allergen that free text refers to, matching the name or
+ * any synonym as a whole word (so "egg" matches "eggs" but not "nutmeg").
+ */
+export const matchAllergen = (text: string) => {
+  const value = text.trim().toLowerCase();
+  if (!value) return undefined;
+
+  return ALLERGENS.find(allergen =>
+    [allergen.name, ...allergen.synonyms].some((term) => {
+      const candidate = term.toLowerCase();
+      return candidate === value || new RegExp(`\\b${candidate.replace(/[^a-z0-9 ]/g, '.')}s?\\b`).test(value);
+    })
+  );
+};
+
+// Allergens whose name or synonyms start with what has been typed so far
+export const searchAllergens = (query: string) => {
+  const value = query.trim().toLowerCase();
+  if (!value) return ALLERGENS;
+  return ALLERGENS.filter(allergen =>
+    [allergen.name, ...allergen.synonyms].some(term =>
+      term.toLowerCase().split(/[\s-]+/).some(word => word.startsWith(value)) || term.toLowerCase().startsWith(value)
+    )
+  );
+};
+
+// Refuted allergies are kept for the record but no longer apply
+export const getActiveAllergies = (allergies: Allergy[] = []) =>
+  allergies
+    .filter(allergy => allergy.verification_status !== 'refuted')
+    .sort(
+      (a, b) =>
+        (b.severity ? SEVERITY_RANK[b.severity] : 0) - (a.severity ? SEVERITY_RANK[a.severity] : 0) ||
+        a.allergen.localeCompare(b.allergen)
+    );
+
+export const getSevereAllergies = (allergies: Allergy[] = []) =>
+  getActiveAllergies(allergies).filter(allergy => allergy.severity === 'severe');
+
+// The highest recorded severity among the active allergies, if any is recorded
+export const getHighestSeverity = (allergies: Allergy[] = []) => getActiveAllergies(allergies)[0]?.severity ?? null;
+
+export const formatAllergyList = (allergies: Allergy[] = []) =>
+  getActiveAllergies(allergies)
+    .map(allergy => allergy.allergen)
+    .join(', ');
+
+export const describeAllergy = (allergy: Allergy) =>
+  [
+    allergy.category ? ALLERGY_CATEGORY_LABELS[allergy.category] : null,
+    allergy.reaction,
+    allergy.onset_date
+      ? `since ${parseCalendarDate(allergy.onset_date).toLocaleDateString('en-US', { month: 'short', year: 'numeric' })}`
+      : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
@@ -0,0 +1,107 @@
+import type { Appointment, User } from '@/types/database';
+
+export type AppointmentStatus = Appointment['status'];
+
+export type AppointmentAction =
+  | 'confirm'
+  | 'check_in'
+  | 'complete'
+  | 'cancel'
+  | 'no_show'
+  | 'reschedule'
+  | 'request_reschedule';
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  scheduled: 'Scheduled',
+  confirmed: 'Confirmed',
+  checked_in: 'Checked in',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'No show',
+};
+
+export const APPOINTMENT_ACTION_LABELS: Record<AppointmentAction, string> = {
+  confirm: 'Confirm',
+  check_in: 'Check In',
+  complete: 'Complete Visit',
+  cancel: 'Cancel',
+  no_show: 'Mark No-Show',
+  reschedule: 'Reschedule',
+  request_reschedule: 'Request New Time',
+};
+
+export const getAppointmentStatusColor = (status: AppointmentStatus) => {
+  switch (status) {
+    case 'confirmed':
+      return '#10b981';
+    case 'checked_in':
+      return '#8b5cf6';
+    case 'completed':
+      return '#0ea5e9';
+    case 'cancelled':
+      return '#ef4444';
+    case 'no_show':
+      return '#64748b';
+    default:
+      return '#f59e0b';
+  }
+};
+
+export const CANCELLATION_REASONS = [
+  'Baby is unwell',
+  'Schedule conflict',
+  'No longer needed',
+  'Doctor unavailable',
+  'Other',
+];
+
+// Status each action moves the appointment to; reschedules keep the current status
+export const ACTION_TARGET_STATUS: Partial<Record<AppointmentAction, AppointmentStatus>> = {
+  confirm: 'confirmed',
+  check_in: 'checked_in',
+  complete: 'completed',
+  cancel: 'cancelled',
+  no_show: 'no_show',
+};
+
+export const isFinalStatus = (status: AppointmentStatus) =>
+  status === 'completed' || status === 'cancelled' || status === 'no_show';
+
+/**
+ * Actions the given user may take on an appointment. Mirrors the transitions
+ * allowed by the enforce_appointment_transition trigger so the UI never offers
+ * a change the database will reject.
+ */
+export const getAppointmentActions = (
+  appointment: Pick<Appointment, 'status' | 'appointment_date' | 'reschedule_requested_at' | 'doctor_id'>,
+  user: Pick<User, 'id' | 'role'>,
+  now: Date = new Date()
+): AppointmentAction[] => {
+  const { status } = appointment;
+  const { role } = user;
+  if (isFinalStatus(status)) return [];
+
+  const started = new Date(appointment.appointment_date).getTime() <= now.getTime();
+  const upcoming = status === 'scheduled' || status === 'confirmed';
+  const actions: AppointmentAction[] = [];
+
+  if (role === 'parent') {
+    if (status === 'scheduled') actions.push('confirm');
+    if (upcoming && !appointment.reschedule_requested_at) actions.push('request_reschedule');
+    if (upcoming) actions.push('cancel');
+    return actions;
+  }
+
+  if (status === 'scheduled') actions.push('confirm');
+  if (upcoming) actions.push('check_in');
+  // Only the appointment's own doctor (or an admin) completes the visit
+  const canComplete = role === 'admin' || (role === 'doctor' && appointment.doctor_id === user.id);
+  if (canComplete && (status === 'confirmed' || status === 'checked_in')) {
+    actions.push('complete');
+  }
+  if (upcoming) actions.push('reschedule');
+  if (upcoming && started) actions.push('no_show');
+  actions.push('cancel');
+
+  return actions;
+};
@@ -0,0 +1,150 @@
+import { supabase } from '@/lib/supabase';
+import type { Message } from '@/types/database';
+
+export const ATTACHMENT_BUCKET = 'message-attachments';
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Mirrors the bucket's allowed_mime_types
+export const ATTACHMENT_MIME_TYPES: Record<string, { messageType: Exclude<Message['message_type'], 'text'>; extension: string }> = {
+  'image/jpeg': { messageType: 'image', extension: 'jpg' },
+  'image/png': { messageType: 'image', extension: 'png' },
+  'image/heic': { messageType: 'image', extension: 'heic' },
+  'image/webp': { messageType: 'image', extension: 'webp' },
+  'application/pdf': { messageType: 'document', extension: 'pdf' },
+};
+
+export interface PendingAttachment {
+  uri: string;
+  name: string;
+  mimeType: string;
+  size?: number | null;
+}
+
+export interface UploadedAttachment {
+  attachment_path: string;
+  attachment_name: string;
+  attachment_mime_type: string;
+  attachment_size: number;
+  message_type: Exclude<Message['message_type'], 'text'>;
+}
+
+interface AttachmentStorageAdapter {
+  upload: (path: string, file: PendingAttachment, bytes: ArrayBuffer) => Promise<void>;
+  remove: (path: string) => Promise<void>;
+  getUrls: (paths: string[]) => Promise<Record<string, string>>;
+}
+
+const SIGNED_URL_SECONDS = 60 * 60;
+
+const supabaseStorageAdapter: AttachmentStorageAdapter = {
+  upload: async (path, file, bytes) => {
+    const { error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(path, bytes, { contentType: file.mimeType, upsert: false });
+    if (error) throw error;
+  },
+  remove: async (path) => {
+    const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).remove([path]);
+    if (error) throw error;
+  },
+  getUrls: async (paths) => {
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUrls(paths, SIGNED_URL_SECONDS);
+    if (error) throw error;
+
+    const urls: Record<string, string> = {};
+    for (const entry of data || []) {
+      if (entry.path && entry.signedUrl) {
+        urls[entry.path] = entry.signedUrl;
+      }
+    }
+    return urls;
+  },
+};
+
+// Keeps files on the device for local development and tests without a Storage bucket
+const localFiles = new Map<string, string>();
+
+const localStorageAdapter: AttachmentStorageAdapter = {
+  upload: async (path, file) => {
+    localFiles.set(path, file.uri);
+  },
+  remove: async (path) => {
+    localFiles.delete(path);
+  },
+  getUrls: async (paths) => {
+    const urls: Record<string, string> = {};
+    for (const path of paths) {
+      const uri = localFiles.get(path);
+      if (uri) urls[path] = uri;
+    }
+    return urls;
+  },
+};
+
+const attachmentStorage = process.env.EXPO_PUBLIC_ATTACHMENT_STORAGE === 'local'
+  ? localStorageAdapter
+  : supabaseStorageAdapter;
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Returns a user-facing reason the file cannot be sent, or null when it is
+ * within the type and size limits.
+ */
+export const validateAttachment = (file: Pick<PendingAttachment, 'mimeType' | 'size'>) => {
+  if (!ATTACHMENT_MIME_TYPES[file.mimeType]) {
+    return 'Only photos (JPEG, PNG, HEIC, WebP) and PDF documents can be attached.';
+  }
+  if (file.size != null && file.size > MAX_ATTACHMENT_BYTES) {
+    return `Attachments must be smaller than ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`;
+  }
+  return null;
+};
+
+/**
+ * Uploads a file into the conversation's folder and returns the columns to
+ * store on the message.
+ */
+export const uploadAttachment = async (conversationId: string, file: PendingAttachment): Promise<UploadedAttachment> => {
+  const invalid = validateAttachment(file);
+  if (invalid) throw new Error(invalid);
+
+  const response = await fetch(file.uri);
+  const bytes = await response.arrayBuffer();
+
+  // Camera captures do not report a size until they are read
+  const sizeError = validateAttachment({ mimeType: file.mimeType, size: bytes.byteLength });
+  if (sizeError) throw new Error(sizeError);
+
+  const { messageType, extension } = ATTACHMENT_MIME_TYPES[file.mimeType];
+  const path = `${conversationId}/${Date.now()}-${Math.random().toString(36).slice(2, 10)}.${extension}`;
+
+  await attachmentStorage.upload(path, file, bytes);
+
+  return {
+    attachment_path: path,
+    attachment_name: file.name,
+    attachment_mime_type: file.mimeType,
+    attachment_size: bytes.byteLength,
+    message_type: messageType,
+  };
+};
+
+/**
+ * Deletes an uploaded file whose message could not be saved, so the bucket
+ * does not collect files no message points to.
+ */
+export const removeAttachment = async (path: string) => {
+  await attachmentStorage.remove(path);
+};
+
+export const getAttachmentUrls = async (paths: string[]) => {
+  if (paths.length === 0) return {};
+  return attachmentStorage.getUrls(paths);
+};
@@ -0,0 +1,348 @@
+import { Platform } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { supabase } from '@/lib/supabase';
+import { calculateAge } from '@/lib/age';
+import { ALLERGY_SEVERITY_LABELS, getActiveAllergies } from '@/lib/allergies';
+import {
+  evaluateGrowthHistory,
+  formatPercentile,
+  getAgeInMonths,
+  getPercentileValue,
+  GROWTH_INDICATORS,
+  PERCENTILE_BANDS,
+  type GrowthIndicator,
+} from '@/lib/growthStandards';
+import { parseCalendarDate } from '@/lib/calendarDates';
+import {
+  computeImmunizationStatus,
+  DOSE_STATUS_LABELS,
+  IMMUNIZATION_SITE_LABELS,
+  loadImmunizationSchedule,
+  type ScheduledDose,
+} from '@/lib/immunizations';
+import type { Allergy, Baby, User, VitalRecord } from '@/types/database';
+
+export type BabyReportKind = 'immunization_certificate' | 'growth_report';
+
+export const BABY_REPORT_LABELS: Record<BabyReportKind, string> = {
+  immunization_certificate: 'Immunization Certificate',
+  growth_report: 'Growth Report',
+};
+
+type StaffName = Pick<User, 'first_name' | 'last_name'>;
+
+export interface BabyReportData {
+  baby: Baby & { assigned_doctor: StaffName | null; allergies: Allergy[] };
+  vitals: VitalRecord[];
+  doses: ScheduledDose[];
+  administeredBy: Record<string, StaffName | null>;
+  generatedAt: Date;
+}
+
+type ChartedIndicator = 'weight_for_age' | 'length_for_age' | 'head_circumference_for_age';
+
+const CHARTS: { indicator: ChartedIndicator; field: 'weight' | 'height' | 'head_circumference'; color: string }[] = [
+  { indicator: 'weight_for_age', field: 'weight', color: '#0ea5e9' },
+  { indicator: 'length_for_age', field: 'height', color: '#10b981' },
+  { indicator: 'head_circumference_for_age', field: 'head_circumference', color: '#8b5cf6' },
+];
+
+const GENDER_LABELS: Record<Baby['gender'], string> = {
+  male: 'Male',
+  female: 'Female',
+  other: 'Other',
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatStaffName = (staff?: StaffName | null) =>
+  staff ? `${staff.first_name} ${staff.last_name}` : '—';
+
+export const loadBabyReportData = async (babyId: string): Promise<BabyReportData> => {
+  const [babyResult, vitalsResult, recordsResult, schedule] = await Promise.all([
+    supabase
+      .from('babies')
+      .select('*, assigned_doctor:user_profiles!babies_assigned_doctor_id_fkey (first_name, last_name), allergies (*)')
+      .eq('id', babyId)
+      .single(),
+    supabase
+      .from('vital_records')
+      .select('*')
+      .eq('baby_id', babyId)
+      .order('recorded_at', { ascending: true }),
+    supabase
+      .from('immunization_records')
+      .select('*, administered_by_profile:user_profiles!immunization_records_administered_by_fkey (first_name, last_name)')
+      .eq('baby_id', babyId),
+    loadImmunizationSchedule(),
+  ]);
+
+  if (babyResult.error) throw babyResult.error;
+  if (vitalsResult.error) throw vitalsResult.error;
+  if (recordsResult.error) throw recordsResult.error;
+
+  const records = recordsResult.data || [];
+
+  return {
+    baby: babyResult.data,
+    vitals: vitalsResult.data || [],
+    doses: computeImmunizationStatus(babyResult.data.birth_date, schedule, records),
+    administeredBy: Object.fromEntries(records.map(record => [record.id, record.administered_by_profile])),
+    generatedAt: new Date(),
+  };
+};
+
+const renderDemographics = ({ baby }: BabyReportData) => {
+  const rows: [string, string][] = [
+    ['Name', `${baby.first_name} ${baby.last_name}`],
+    ['Date of birth', formatDate(parseCalendarDate(baby.birth_date))],
+    ['Age', calculateAge(baby.birth_date)],
+    ['Sex', GENDER_LABELS[baby.gender]],
+  ];
+  if (baby.blood_type) rows.push(['Blood type', baby.blood_type]);
+  getActiveAllergies(baby.allergies).forEach((allergy) => {
+    const detail = [allergy.severity ? ALLERGY_SEVERITY_LABELS[allergy.severity] : null, allergy.reaction]
+      .filter(Boolean)
+      .join(', ');
+    rows.push(['Allergy', detail ? `${allergy.allergen} (${detail})` : allergy.allergen]);
+  });
+  if (baby.assigned_doctor) rows.push(['Physician', `Dr. ${formatStaffName(baby.assigned_doctor)}`]);
+
+  return `
+    <table class="details">
+      ${rows.map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`).join('')}
+    </table>`;
+};
+
+const renderImmunizations = (data: BabyReportData) => {
+  const given = data.doses.filter(dose => dose.record);
+  const outstanding = data.doses.filter(dose => !dose.record && dose.status !== 'upcoming');
+
+  const givenRows = given
+    .sort((a, b) => a.record!.administered_on.localeCompare(b.record!.administered_on))
+    .map(({ entry, record }) => {
+      const site = record!.site ? IMMUNIZATION_SITE_LABELS[record!.site] : '—';
+      const administeredBy = record!.id ? formatStaffName(data.administeredBy[record!.id]) : '—';
+      return `
+        <tr>
+          <td>${escapeHtml(entry.vaccine.name)}<div class="muted">${escapeHtml(entry.vaccine.protects_against ?? '')}</div></td>
+          <td>${entry.dose_number}</td>
+          <td>${formatDate(parseCalendarDate(record!.administered_on))}</td>
+          <td>${escapeHtml(record!.lot_number ?? '—')}</td>
+          <td>${site}</td>
+          <td>${escapeHtml(administeredBy)}</td>
+        </tr>`;
+    })
+    .join('');
+
+  const outstandingRows = outstanding
+    .map(({ entry, status, dueDate }) => `
+      <tr>
+        <td>${escapeHtml(entry.vaccine.name)}</td>
+        <td>${entry.dose_number}</td>
+        <td>${formatDate(dueDate)}</td>
+        <td class="${status}">${DOSE_STATUS_LABELS[status]}</td>
+      </tr>`)
+    .join('');
+
+  return `
+    <h2>Vaccinations Given</h2>
+    ${given.length === 0
+      ? '<p class="muted">No vaccinations have been recorded.</p>'
+      : `<table class="grid">
+          <tr><th>Vaccine</th><th>Dose</th><th>Date given</th><th>Lot</th><th>Site</th><th>Given by</th></tr>
+          ${givenRows}
+        </table>`}
+    ${outstanding.length > 0
+      ? `<h2>Outstanding Doses</h2>
+        <table class="grid">
+          <tr><th>Vaccine</th><th>Dose</th><th>Due</th><th>Status</th></tr>
+          ${outstandingRows}
+        </table>`
+      : ''}`;
+};
+
+// Draws one measurement against the reference percentile curves as inline SVG,
+// since the print renderer cannot run the chart components used in the app.
+const renderGrowthChart = (
+  baby: Baby,
+  vitals: VitalRecord[],
+  indicator: ChartedIndicator,
+  field: 'weight' | 'height' | 'head_circumference',
+  color: string
+) => {
+  const points = vitals
+    .filter(record => record[field] != null)
+    .map(record => ({ age: getAgeInMonths(baby.birth_date, record.recorded_at), value: record[field]! }))
+    .filter(point => point.age >= 0);
+  if (points.length === 0) return '';
+
+  const width = 520;
+  const height = 240;
+  const padding = { top: 16, right: 48, bottom: 32, left: 44 };
+  const maxAge = Math.max(6, Math.ceil(Math.max(...points.map(point => point.age)) + 1));
+
+  const steps = 40;
+  const ages = Array.from({ length: steps + 1 }, (_, i) => (maxAge * i) / steps);
+  const curves = PERCENTILE_BANDS.map(band => ({
+    band,
+    values: ages.map(age => getPercentileValue(indicator, baby.gender, age, band.zScore)),
+  })).filter(curve => curve.values.every(value => value != null)) as {
+    band: (typeof PERCENTILE_BANDS)[number];
+    values: number[];
+  }[];
+
+  const allValues = [...points.map(point => point.value), ...curves.flatMap(curve => curve.values)];
+  const minValue = Math.floor(Math.min(...allValues) * 0.95);
+  const maxValue = Math.ceil(Math.max(...allValues) * 1.05);
+
+  const x = (age: number) => padding.left + (age / maxAge) * (width - padding.left - padding.right);
+  const y = (value: number) =>
+    height - padding.bottom - ((value - minValue) / (maxValue - minValue || 1)) * (height - padding.top - padding.bottom);
+  const path = (coords: [number, number][]) =>
+    coords.map(([px, py], i) => `${i === 0 ? 'M' : 'L'}${px.toFixed(1)},${py.toFixed(1)}`).join(' ');
+
+  const ageTicks = Array.from({ length: 7 }, (_, i) => Math.round((maxAge * i) / 6));
+  const valueTicks = Array.from({ length: 5 }, (_, i) => minValue + ((maxValue - minValue) * i) / 4);
+  const { label, unit } = GROWTH_INDICATORS[indicator];
+
+  return `
+    <div class="chart">
+      <h3>${label} (${unit})</h3>
+      <svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
+        ${valueTicks
+          .map(value => `
+            <line x1="${padding.left}" x2="${width - padding.right}" y1="${y(value)}" y2="${y(value)}" stroke="#e2e8f0" />
+            <text x="${padding.left - 6}" y="${y(value) + 4}" text-anchor="end" class="axis">${value.toFixed(1)}</text>`)
+          .join('')}
+        ${ageTicks
+          .map(age => `<text x="${x(age)}" y="${height - padding.bottom + 16}" text-anchor="middle" class="axis">${age}m</text>`)
+          .join('')}
+        ${curves
+          .map(({ band, values }) => `
+            <path d="${path(values.map((value, i) => [x(ages[i]), y(value)]))}" fill="none"
+              stroke="${band.percentile === 50 ? '#64748b' : '#cbd5e1'}" stroke-width="${band.percentile === 50 ? 1.5 : 1}"
+              ${band.percentile === 50 ? '' : 'stroke-dasharray="4 4"'} />
+            <text x="${width - padding.right + 4}" y="${y(values[values.length - 1]) + 4}" class="axis">P${band.percentile}</text>`)
+          .join('')}
+        <path d="${path(points.map(point => [x(point.age), y(point.value)]))}" fill="none" stroke="${color}" stroke-width="2" />
+        ${points.map(point => `<circle cx="${x(point.age)}" cy="${y(point.value)}" r="3.5" fill="${color}" />`).join('')}
+      </svg>
+    </div>`;
+};
+
+const renderGrowth = ({ baby, vitals }: BabyReportData) => {
+  const history = evaluateGrowthHistory(baby, vitals).filter(point => Object.keys(point.measurements).length > 0);
+  if (history.length === 0) {
+    return `
+      <h2>Growth</h2>
+      <p class="muted">${
+        baby.gender === 'other'
+          ? 'Growth standards are sex-specific, so percentiles cannot be calculated for this profile.'
+          : 'No growth measurements have been recorded.'
+      }</p>`;
+  }
+
+  const cell = (point: (typeof history)[number], indicator: GrowthIndicator) => {
+    const measurement = point.measurements[indicator];
+    return measurement
+      ? `${measurement.value.toFixed(indicator === 'weight_for_age' ? 2 : 1)} <span class="muted">(${formatPercentile(measurement.percentile)})</span>`
+      : '—';
+  };
+
+  const rows = history
+    .map(point => `
+      <tr>
+        <td>${formatDate(new Date(point.recordedAt))}</td>
+        <td>${point.ageInMonths.toFixed(1)}</td>
+        <td>${cell(point, 'weight_for_age')}</td>
+        <td>${cell(point, 'length_for_age')}</td>
+        <td>${cell(point, 'head_circumference_for_age')}</td>
+      </tr>`)
+    .join('');
+
+  return `
+    <h2>Growth Charts</h2>
+    ${CHARTS.map(({ indicator, field, color }) => renderGrowthChart(baby, vitals, indicator, field, color)).join('')}
+    <h2>Measurements</h2>
+    <table class="grid">
+      <tr><th>Date</th><th>Age (months)</th><th>Weight (kg)</th><th>Length (cm)</th><th>Head (cm)</th></tr>
+      ${rows}
+    </table>
+    <p class="muted">Percentiles use WHO standards to 24 months and CDC charts thereafter.</p>`;
+};
+
+export const buildBabyReportHtml = (kind: BabyReportKind, data: BabyReportData) => `
+<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${BABY_REPORT_LABELS[kind]} - ${escapeHtml(`${data.baby.first_name} ${data.baby.last_name}`)}</title>
+    <style>
+      body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1e293b; margin: 32px; font-size: 12px; }
+      h1 { font-size: 22px; margin: 0 0 4px; }
+      h2 { font-size: 16px; margin: 28px 0 12px; border-bottom: 2px solid #0ea5e9; padding-bottom: 4px; }
+      h3 { font-size: 13px; margin: 16px 0 8px; }
+      .muted { color: #64748b; font-size: 11px; }
+      .axis { fill: #64748b; font-size: 10px; }
+      table { border-collapse: collapse; width: 100%; }
+      .details th { text-align: left; width: 140px; color: #64748b; font-weight: 600; padding: 4px 0; }
+      .details td { padding: 4px 0; }
+      .grid th { background: #f1f5f9; text-align: left; padding: 6px 8px; }
+      .grid td { border-bottom: 1px solid #e2e8f0; padding: 6px 8px; vertical-align: top; }
+      .overdue { color: #ef4444; font-weight: 600; }
+      .due { color: #f59e0b; font-weight: 600; }
+      .chart { page-break-inside: avoid; }
+      .signature { margin-top: 48px; display: flex; gap: 48px; }
+      .signature div { flex: 1; border-top: 1px solid #1e293b; padding-top: 4px; color: #64748b; }
+      footer { margin-top: 32px; color: #94a3b8; font-size: 10px; }
+    </style>
+  </head>
+  <body>
+    <h1>${BABY_REPORT_LABELS[kind]}</h1>
+    <div class="muted">Generated ${formatDate(data.generatedAt)}</div>
+    <h2>Patient</h2>
+    ${renderDemographics(data)}
+    ${kind === 'immunization_certificate' ? renderImmunizations(data) : renderGrowth(data)}
+    ${kind === 'immunization_certificate'
+      ? '<div class="signature"><div>Physician signature</div><div>Date</div></div>'
+      : ''}
+    <footer>This document was generated from the clinic's electronic records.</footer>
+  </body>
+</html>`;
+
+/**
+ * Renders the report and hands it to the platform: a PDF through the share
+ * sheet on devices, or the browser print dialog (which can save as PDF) on web.
+ */
+export const exportBabyReport = async (kind: BabyReportKind, babyId: string) => {
+  const data = await loadBabyReportData(babyId);
+  const html = buildBabyReportHtml(kind, data);
+
+  if (Platform.OS === 'web') {
+    await Print.printAsync({ html });
+    return;
+  }
+
+  const { uri } = await Print.printToFileAsync({ html });
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(uri, {
+      mimeType: 'application/pdf',
+      UTI: 'com.adobe.pdf',
+      dialogTitle: `${BABY_REPORT_LABELS[kind]} - ${data.baby.first_name} ${data.baby.last_name}`,
+    });
+  } else {
+    await Print.printAsync({ uri });
+  }
+};
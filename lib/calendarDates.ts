@@ -0,0 +1,15 @@
+// Date-only strings are read as local midnight so due dates do not shift by time zone
+export const parseCalendarDate = (value: string) => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const toCalendarDate = (date: Date) =>
+  [date.getFullYear(), String(date.getMonth() + 1).padStart(2, '0'), String(date.getDate()).padStart(2, '0')].join('-');
+
+// Steps by calendar days so a daylight saving change does not move the date
+export const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
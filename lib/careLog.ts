@@ -0,0 +1,173 @@
+import type { CareLog } from '@/types/database';
+
+export type CareLogType = CareLog['entry_type'];
+export type FeedingMethod = NonNullable<CareLog['feeding_method']>;
+export type CareSide = NonNullable<CareLog['side']>;
+export type DiaperKind = NonNullable<CareLog['diaper_kind']>;
+
+export const CARE_LOG_TYPE_LABELS: Record<CareLogType, string> = {
+  feeding: 'Feed',
+  sleep: 'Sleep',
+  diaper: 'Diaper',
+  pumping: 'Pumping',
+};
+
+export const FEEDING_METHOD_LABELS: Record<FeedingMethod, string> = {
+  breast: 'Breast',
+  bottle: 'Bottle',
+  solid: 'Solids',
+};
+
+export const SIDE_LABELS: Record<CareSide, string> = {
+  left: 'Left',
+  right: 'Right',
+  both: 'Both',
+};
+
+export const DIAPER_KIND_LABELS: Record<DiaperKind, string> = {
+  wet: 'Wet',
+  dirty: 'Dirty',
+  mixed: 'Wet + dirty',
+};
+
+export const getCareLogColor = (type: CareLogType) => {
+  switch (type) {
+    case 'feeding':
+      return '#0ea5e9';
+    case 'sleep':
+      return '#8b5cf6';
+    case 'diaper':
+      return '#f59e0b';
+    default:
+      return '#ec4899';
+  }
+};
+
+const MINUTE_MS = 60 * 1000;
+
+// Entries that run on a timer until the parent stops them
+export const isTimedEntry = (entry: Pick<CareLog, 'entry_type' | 'feeding_method'>) =>
+  entry.entry_type === 'sleep' ||
+  entry.entry_type === 'pumping' ||
+  (entry.entry_type === 'feeding' && entry.feeding_method === 'breast');
+
+export const isRunning = (entry: CareLog) => isTimedEntry(entry) && !entry.ended_at;
+
+export const getDurationMinutes = (entry: CareLog, now = new Date()) => {
+  if (!isTimedEntry(entry)) return 0;
+  const end = entry.ended_at ? new Date(entry.ended_at) : now;
+  return Math.max(0, (end.getTime() - new Date(entry.started_at).getTime()) / MINUTE_MS);
+};
+
+export const formatDuration = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded}m`;
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+};
+
+// Running timers show seconds so the parent can see them tick
+export const formatElapsed = (startedAt: string, now = new Date()) => {
+  const seconds = Math.max(0, Math.floor((now.getTime() - new Date(startedAt).getTime()) / 1000));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds % 60)}`
+    : `${minutes}:${pad(seconds % 60)}`;
+};
+
+export const describeCareLog = (entry: CareLog, now = new Date()) => {
+  const duration = isTimedEntry(entry) ? formatDuration(getDurationMinutes(entry, now)) : null;
+
+  switch (entry.entry_type) {
+    case 'feeding':
+      if (entry.feeding_method === 'bottle') {
+        return `Bottle${entry.volume_ml != null ? ` · ${entry.volume_ml} ml` : ''}`;
+      }
+      if (entry.feeding_method === 'solid') {
+        return `Solids${entry.food ? ` · ${entry.food}` : ''}`;
+      }
+      return `Breast${entry.side ? ` (${SIDE_LABELS[entry.side].toLowerCase()})` : ''} · ${duration}`;
+    case 'sleep':
+      return `Sleep · ${duration}`;
+    case 'diaper':
+      return `Diaper · ${DIAPER_KIND_LABELS[entry.diaper_kind ?? 'wet']}`;
+    default:
+      return `Pumping${entry.side ? ` (${SIDE_LABELS[entry.side].toLowerCase()})` : ''} · ${duration}${
+        entry.volume_ml != null ? ` · ${entry.volume_ml} ml` : ''
+      }`;
+  }
+};
+
+export interface CareSummary {
+  feeds: number;
+  breastMinutes: number;
+  bottleMl: number;
+  solids: number;
+  sleepMinutes: number;
+  wetDiapers: number;
+  dirtyDiapers: number;
+  pumpedMl: number;
+}
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Totals the entries that fall within [start, end). Sleep is clipped to the
+ * window so a night's sleep is split across the two days it spans; everything
+ * else counts on the day it started.
+ */
+export const summarizeCareLogs = (entries: CareLog[], start: Date, end: Date, now = new Date()): CareSummary => {
+  const summary: CareSummary = {
+    feeds: 0,
+    breastMinutes: 0,
+    bottleMl: 0,
+    solids: 0,
+    sleepMinutes: 0,
+    wetDiapers: 0,
+    dirtyDiapers: 0,
+    pumpedMl: 0,
+  };
+
+  entries.forEach((entry) => {
+    const startedAt = new Date(entry.started_at);
+
+    if (entry.entry_type === 'sleep') {
+      const endedAt = entry.ended_at ? new Date(entry.ended_at) : now;
+      const overlap = Math.min(endedAt.getTime(), end.getTime()) - Math.max(startedAt.getTime(), start.getTime());
+      if (overlap > 0) summary.sleepMinutes += overlap / MINUTE_MS;
+      return;
+    }
+
+    if (startedAt < start || startedAt >= end) return;
+
+    switch (entry.entry_type) {
+      case 'feeding':
+        summary.feeds += 1;
+        if (entry.feeding_method === 'breast') summary.breastMinutes += getDurationMinutes(entry, now);
+        if (entry.feeding_method === 'bottle') summary.bottleMl += Number(entry.volume_ml ?? 0);
+        if (entry.feeding_method === 'solid') summary.solids += 1;
+        break;
+      case 'diaper':
+        if (entry.diaper_kind !== 'dirty') summary.wetDiapers += 1;
+        if (entry.diaper_kind !== 'wet') summary.dirtyDiapers += 1;
+        break;
+      case 'pumping':
+        summary.pumpedMl += Number(entry.volume_ml ?? 0);
+        break;
+    }
+  });
+
+  return summary;
+};
+
+// One summary per day, oldest first, ending with the day containing `lastDay`
+export const summarizeByDay = (entries: CareLog[], days: number, lastDay = new Date(), now = new Date()) =>
+  Array.from({ length: days }, (_, index) => {
+    const offset = days - 1 - index;
+    const start = new Date(lastDay.getFullYear(), lastDay.getMonth(), lastDay.getDate() - offset);
+    const end = new Date(lastDay.getFullYear(), lastDay.getMonth(), lastDay.getDate() - offset + 1);
+    return { date: start, summary: summarizeCareLogs(entries, start, end, now) };
+  });
@@ -0,0 +1,122 @@
+import { supabase } from '@/lib/supabase';
+import type { UploadedAttachment } from '@/lib/attachments';
+import type { Conversation, Message, User } from '@/types/database';
+
+export const CLINIC_ROLES: User['role'][] = ['admin', 'doctor', 'staff'];
+
+export const isClinicRole = (role?: string | null) => !!role && CLINIC_ROLES.includes(role as User['role']);
+
+export const getDisplayName = (profile: Pick<User, 'first_name' | 'last_name' | 'role'>) =>
+  `${profile.role === 'doctor' ? 'Dr. ' : ''}${profile.first_name} ${profile.last_name}`;
+
+/**
+ * A message is unread for the viewer when it came from the other side of the
+ * thread: clinic messages for the parent, family messages for the care team.
+ */
+export const isUnreadFor = (
+  message: Pick<Message, 'is_read' | 'sender_id'> & { sender_role?: string | null },
+  viewer: Pick<User, 'id' | 'role'>
+) => {
+  if (message.is_read || message.sender_id === viewer.id) return false;
+  return viewer.role === 'parent' || !isClinicRole(message.sender_role);
+};
+
+/**
+ * Returns the thread between a parent and the care team about a baby
+ * (or general questions when babyId is null), creating it on first use.
+ */
+export const getOrCreateConversation = async (parentId: string, babyId: string | null, createdBy: string) => {
+  const findExisting = async () => {
+    let query = supabase.from('conversations').select('*').eq('parent_id', parentId);
+    query = babyId ? query.eq('baby_id', babyId) : query.is('baby_id', null);
+    const { data, error } = await query.maybeSingle();
+    if (error) throw error;
+    return data;
+  };
+
+  const existing = await findExisting();
+  if (existing) return existing;
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .insert({ parent_id: parentId, baby_id: babyId, created_by: createdBy })
+    .select()
+    .single();
+
+  if (error) {
+    // Another participant opened the same thread in the meantime
+    if (error.code === '23505') {
+      const raced = await findExisting();
+      if (raced) return raced;
+    }
+    throw error;
+  }
+  return data;
+};
+
+/**
+ * Clinic replies go to the parent. Family messages go to the thread's assigned
+ * doctor, or to the shared triage queue (null) until one is assigned; the
+ * server applies the same routing when the message is saved.
+ */
+const resolveRecipient = (conversation: Conversation, sender: Pick<User, 'id' | 'role'>) =>
+  isClinicRole(sender.role) ? conversation.parent_id : conversation.assigned_to ?? null;
+
+export const sendMessage = async (
+  conversation: Conversation,
+  sender: Pick<User, 'id' | 'role'>,
+  content: string,
+  attachment?: UploadedAttachment
+) => {
+  const recipientId = resolveRecipient(conversation, sender);
+
+  const { data, error } = await supabase
+    .from('messages')
+    .insert({
+      conversation_id: conversation.id,
+      sender_id: sender.id,
+      recipient_id: recipientId,
+      baby_id: conversation.baby_id ?? null,
+      content: content.trim(),
+      message_type: 'text',
+      ...attachment,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Marks everything the other side of the thread sent as read in one call and
+ * returns how many messages changed.
+ */
+export const markConversationRead = async (conversationId: string) => {
+  const { data, error } = await supabase.rpc('mark_conversation_read', {
+    p_conversation_id: conversationId,
+  });
+
+  if (error) throw error;
+  return data ?? 0;
+};
+
+export type ParticipantProfile = Pick<User, 'id' | 'first_name' | 'last_name' | 'role'>;
+
+// Realtime payloads carry bare rows, so sender names are looked up once and reused
+const participantCache = new Map<string, ParticipantProfile>();
+
+export const getParticipantProfile = async (userId: string) => {
+  const cached = participantCache.get(userId);
+  if (cached) return cached;
+
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('id, first_name, last_name, role')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) participantCache.set(userId, data);
+  return data;
+};
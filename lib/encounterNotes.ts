@@ -0,0 +1,76 @@
+import type { Appointment, EncounterNote, EncounterNoteVersion } from '@/types/database';
+
+export type SoapSection = 'subjective' | 'objective' | 'assessment' | 'plan';
+export type SoapContent = Pick<EncounterNoteVersion, SoapSection>;
+export type NoteStatus = EncounterNote['status'];
+
+export const SOAP_SECTIONS: { key: SoapSection; label: string; hint: string }[] = [
+  { key: 'subjective', label: 'Subjective', hint: 'History and concerns as reported by the parents' },
+  { key: 'objective', label: 'Objective', hint: 'Examination findings, vitals and results' },
+  { key: 'assessment', label: 'Assessment', hint: 'Diagnoses and clinical impression' },
+  { key: 'plan', label: 'Plan', hint: 'Treatment, advice and follow-up' },
+];
+
+export const EMPTY_SOAP: SoapContent = { subjective: '', objective: '', assessment: '', plan: '' };
+
+/**
+ * Starting text for a new note, by appointment type. Headings are prompts for
+ * the doctor to fill in or delete.
+ */
+export const NOTE_TEMPLATES: Record<Appointment['type'], SoapContent> = {
+  checkup: {
+    subjective: 'Feeding:\nSleep:\nStools / wet diapers:\nDevelopment concerns:\nParent concerns:',
+    objective: 'Weight / length / head circumference:\nGeneral appearance:\nHeart / lungs:\nAbdomen:\nHips:\nSkin:',
+    assessment: 'Well child, growing and developing appropriately.',
+    plan: 'Anticipatory guidance:\nImmunizations due:\nNext check-up:',
+  },
+  vaccination: {
+    subjective: 'Reactions to previous vaccines:\nCurrently unwell:',
+    objective: 'Temperature:\nVaccines given (site / lot):',
+    assessment: 'Fit for vaccination.',
+    plan: 'Post-vaccination advice given.\nNext doses due:',
+  },
+  consultation: {
+    subjective: 'Presenting complaint:\nHistory of presenting complaint:\nFeeding / output:',
+    objective: 'Vitals:\nExamination:',
+    assessment: '',
+    plan: 'Treatment:\nSafety-netting advice:\nFollow-up:',
+  },
+  emergency: {
+    subjective: 'Presenting complaint:\nOnset and duration:\nRed flags:',
+    objective: 'Vitals (HR, RR, SpO2, temperature):\nGeneral appearance:\nExamination:',
+    assessment: 'Severity:',
+    plan: 'Immediate management:\nDisposition:\nFollow-up:',
+  },
+};
+
+export const NOTE_STATUS_LABELS: Record<NoteStatus, string> = {
+  draft: 'Draft',
+  signed: 'Signed',
+  amended: 'Amended',
+};
+
+export const getNoteStatusColor = (status: NoteStatus) => {
+  switch (status) {
+    case 'draft':
+      return '#f59e0b';
+    case 'amended':
+      return '#8b5cf6';
+    default:
+      return '#10b981';
+  }
+};
+
+export const sortVersions = <T extends Pick<EncounterNoteVersion, 'version'>>(versions: T[] = []) =>
+  [...versions].sort((a, b) => b.version - a.version);
+
+// The version shown by default: the newest one, signed or not
+export const getLatestVersion = <T extends Pick<EncounterNoteVersion, 'version'>>(versions: T[] = []) =>
+  sortVersions(versions)[0] ?? null;
+
+export const isSoapEmpty = (content: SoapContent) =>
+  SOAP_SECTIONS.every(section => !content[section.key].trim());
+
+// First line of the assessment, used as the note's one-line summary
+export const summarizeNote = (content?: Pick<SoapContent, 'assessment'> | null) =>
+  content?.assessment.split('\n').map(line => line.trim()).find(Boolean) ?? '';
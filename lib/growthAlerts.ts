@@ -0,0 +1,194 @@
+import {
+  evaluateGrowthHistory,
+  formatPercentile,
+  getAgeInDays,
+  GROWTH_INDICATORS,
+  type GrowthIndicator,
+} from '@/lib/growthStandards';
+import type { Baby, VitalRecord } from '@/types/database';
+
+export type GrowthAlertType = 'percentile_crossing' | 'newborn_weight_loss' | 'weight_plateau';
+
+export type GrowthAlertSeverity = 'warning' | 'critical';
+
+export interface GrowthAlert {
+  type: GrowthAlertType;
+  severity: GrowthAlertSeverity;
+  title: string;
+  detail: string;
+}
+
+export interface GrowthAlertConfig {
+  // Number of major percentile lines that must be crossed to raise an alert
+  percentileLinesCrossed: number;
+  // How far back from the latest visit a crossing is looked for
+  percentileCrossingWindowMonths: number;
+  // Fraction of birth weight that may be lost in the first two weeks
+  maxNewbornWeightLoss: number;
+  // Days without weight gain before weight is considered flat
+  flatWeightWindowDays: number;
+  // Flat weight is only expected to be a concern in infancy
+  flatWeightMaxAgeMonths: number;
+}
+
+export const DEFAULT_GROWTH_ALERT_CONFIG: GrowthAlertConfig = {
+  percentileLinesCrossed: 2,
+  percentileCrossingWindowMonths: 6,
+  maxNewbornWeightLoss: 0.1,
+  flatWeightWindowDays: 30,
+  flatWeightMaxAgeMonths: 12,
+};
+
+// Major lines printed on WHO/CDC charts: 3rd, 10th, 25th, 50th, 75th, 90th, 97th.
+const MAJOR_PERCENTILE_Z_SCORES = [-1.881, -1.282, -0.674, 0, 0.674, 1.282, 1.881];
+
+const CROSSING_INDICATORS: GrowthIndicator[] = [
+  'weight_for_age',
+  'length_for_age',
+  'head_circumference_for_age',
+];
+
+const countLinesBetween = (from: number, to: number) => {
+  const low = Math.min(from, to);
+  const high = Math.max(from, to);
+  return MAJOR_PERCENTILE_Z_SCORES.filter(z => z > low && z < high).length;
+};
+
+const sortByDate = (records: VitalRecord[]) =>
+  [...records].sort(
+    (a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime()
+  );
+
+const checkPercentileCrossing = (
+  baby: Baby,
+  records: VitalRecord[],
+  config: GrowthAlertConfig
+): GrowthAlert[] => {
+  const history = evaluateGrowthHistory(baby, records);
+  const alerts: GrowthAlert[] = [];
+
+  CROSSING_INDICATORS.forEach(indicator => {
+    const measured = history.filter(point => point.measurements[indicator] != null);
+    const latestPoint = measured[measured.length - 1];
+    if (!latestPoint) return;
+
+    // Only recent visits count: percentiles naturally settle over the first
+    // months, so a crossing against a much older visit is not a new trend.
+    const windowStart = latestPoint.ageInMonths - config.percentileCrossingWindowMonths;
+    const points = measured
+      .filter(point => point.ageInMonths >= windowStart)
+      .map(point => point.measurements[indicator]!);
+    if (points.length < 2) return;
+
+    const latest = points[points.length - 1];
+    // Compare against the earlier point in the window that is furthest away, so a
+    // slow drift across several visits is caught as well as a sudden drop.
+    const reference = points
+      .slice(0, -1)
+      .reduce((furthest, point) =>
+        Math.abs(point.zScore - latest.zScore) > Math.abs(furthest.zScore - latest.zScore)
+          ? point
+          : furthest
+      );
+
+    const crossed = countLinesBetween(reference.zScore, latest.zScore);
+    if (crossed < config.percentileLinesCrossed) return;
+
+    const direction = latest.zScore < reference.zScore ? 'down' : 'up';
+    const { label } = GROWTH_INDICATORS[indicator];
+    alerts.push({
+      type: 'percentile_crossing',
+      severity: direction === 'down' && crossed > config.percentileLinesCrossed ? 'critical' : 'warning',
+      title: `${label} crossed ${crossed} percentile lines`,
+      detail: `Moved ${direction} from the ${formatPercentile(reference.percentile)} to the ${formatPercentile(latest.percentile)} percentile.`,
+    });
+  });
+
+  return alerts;
+};
+
+const checkNewbornWeightLoss = (
+  baby: Baby,
+  records: VitalRecord[],
+  config: GrowthAlertConfig
+): GrowthAlert[] => {
+  const weights = sortByDate(records).filter(record => record.weight != null);
+  // The first weight taken within three days of birth stands in for birth weight
+  const birthRecord = weights.find(record => getAgeInDays(baby.birth_date, record.recorded_at) <= 3);
+  if (!birthRecord?.weight) return [];
+
+  const earlyWeights = weights.filter(
+    record => getAgeInDays(baby.birth_date, record.recorded_at) <= 14
+  );
+  const lowest = earlyWeights.reduce(
+    (min, record) => (record.weight! < min.weight! ? record : min),
+    birthRecord
+  );
+
+  const loss = (birthRecord.weight - lowest.weight!) / birthRecord.weight;
+  if (loss <= config.maxNewbornWeightLoss) return [];
+
+  return [
+    {
+      type: 'newborn_weight_loss',
+      severity: 'critical',
+      title: `Lost ${(loss * 100).toFixed(1)}% of birth weight`,
+      detail: `${lowest.weight} kg on day ${getAgeInDays(baby.birth_date, lowest.recorded_at)} vs ${birthRecord.weight} kg at birth.`,
+    },
+  ];
+};
+
+const checkWeightPlateau = (
+  baby: Baby,
+  records: VitalRecord[],
+  config: GrowthAlertConfig
+): GrowthAlert[] => {
+  const weights = sortByDate(records).filter(record => record.weight != null);
+  const latest = weights[weights.length - 1];
+  if (!latest) return [];
+
+  const ageInDays = getAgeInDays(baby.birth_date, latest.recorded_at);
+  // Newborns are covered by the weight-loss rule until they regain birth weight
+  if (ageInDays <= 14 || ageInDays / 30.4375 > config.flatWeightMaxAgeMonths) return [];
+
+  const windowStart = new Date(latest.recorded_at).getTime() - config.flatWeightWindowDays * 86400000;
+  // Latest weight recorded at or before the start of the window
+  const baseline = [...weights]
+    .reverse()
+    .find(record => new Date(record.recorded_at).getTime() <= windowStart);
+  if (!baseline) return [];
+
+  const gain = latest.weight! - baseline.weight!;
+  if (gain > 0) return [];
+
+  const days = Math.round(
+    (new Date(latest.recorded_at).getTime() - new Date(baseline.recorded_at).getTime()) / 86400000
+  );
+  return [
+    {
+      type: 'weight_plateau',
+      severity: gain < 0 ? 'critical' : 'warning',
+      title: gain < 0 ? 'Weight loss' : 'Flat weight',
+      detail:
+        gain < 0
+          ? `Lost ${Math.abs(gain).toFixed(2)} kg over ${days} days (${baseline.weight} → ${latest.weight} kg).`
+          : `No weight gain over ${days} days (${baseline.weight} → ${latest.weight} kg).`,
+    },
+  ];
+};
+
+export const evaluateGrowthAlerts = (
+  baby: Baby,
+  records: VitalRecord[],
+  config: GrowthAlertConfig = DEFAULT_GROWTH_ALERT_CONFIG
+): GrowthAlert[] => {
+  const alerts = [
+    ...checkNewbornWeightLoss(baby, records, config),
+    ...checkWeightPlateau(baby, records, config),
+    ...checkPercentileCrossing(baby, records, config),
+  ];
+
+  return alerts.sort((a, b) =>
+    a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1
+  );
+};
@@ -0,0 +1,271 @@
+import { GROWTH_TABLES, type LmsRow, type LmsTable } from '@/lib/growthTables';
+import type { Baby, VitalRecord } from '@/types/database';
+
+export type GrowthIndicator = keyof typeof GROWTH_TABLES;
+
+export const GROWTH_INDICATORS: Record<GrowthIndicator, { label: string; unit: string }> = {
+  weight_for_age: { label: 'Weight-for-age', unit: 'kg' },
+  length_for_age: { label: 'Length-for-age', unit: 'cm' },
+  weight_for_length: { label: 'Weight-for-length', unit: 'kg' },
+  head_circumference_for_age: { label: 'Head circumference-for-age', unit: 'cm' },
+};
+
+// Percentile lines drawn on the growth charts, with their z-score equivalents.
+export const PERCENTILE_BANDS = [
+  { percentile: 3, zScore: -1.881 },
+  { percentile: 15, zScore: -1.036 },
+  { percentile: 50, zScore: 0 },
+  { percentile: 85, zScore: 1.036 },
+  { percentile: 97, zScore: 1.881 },
+] as const;
+
+const DAYS_PER_MONTH = 30.4375;
+
+// WHO weight-for-length is defined for recumbent length under two years; older
+// children are measured standing and have no weight-for-length reference here.
+const WEIGHT_FOR_LENGTH_MAX_AGE_MONTHS = 24;
+
+export interface GrowthMeasurement {
+  indicator: GrowthIndicator;
+  value: number;
+  zScore: number;
+  percentile: number;
+  source: LmsTable['source'];
+}
+
+export interface GrowthPoint {
+  recordId: string;
+  recordedAt: string;
+  ageInMonths: number;
+  measurements: Partial<Record<GrowthIndicator, GrowthMeasurement>>;
+}
+
+export type GrowthStatus = 'on_track' | 'monitor' | 'concern' | 'insufficient_data';
+
+export interface GrowthAssessment {
+  status: GrowthStatus;
+  title: string;
+  description: string;
+  findings: string[];
+  latest: GrowthPoint | null;
+}
+
+export const getAgeInDays = (birthDate: string, at: Date | string = new Date()) => {
+  const birth = new Date(birthDate);
+  const date = typeof at === 'string' ? new Date(at) : at;
+  return Math.floor((date.getTime() - birth.getTime()) / (1000 * 60 * 60 * 24));
+};
+
+export const getAgeInMonths = (birthDate: string, at: Date | string = new Date()) =>
+  getAgeInDays(birthDate, at) / DAYS_PER_MONTH;
+
+const getSexTables = (indicator: GrowthIndicator, gender: Baby['gender']) => {
+  if (gender === 'male') return GROWTH_TABLES[indicator].male;
+  if (gender === 'female') return GROWTH_TABLES[indicator].female;
+  // The reference populations are sex-specific, so there is nothing to compare against.
+  return null;
+};
+
+const findLms = (indicator: GrowthIndicator, gender: Baby['gender'], x: number) => {
+  const tables = getSexTables(indicator, gender);
+  if (!tables) return null;
+
+  const table = tables.find(t => x >= t.rows[0][0] && x <= t.rows[t.rows.length - 1][0]);
+  if (!table) return null;
+
+  const rows = table.rows;
+  const upperIndex = rows.findIndex(row => row[0] >= x);
+  if (rows[upperIndex][0] === x || upperIndex === 0) {
+    return { row: rows[upperIndex], source: table.source };
+  }
+
+  const lower = rows[upperIndex - 1];
+  const upper = rows[upperIndex];
+  const t = (x - lower[0]) / (upper[0] - lower[0]);
+  const row: LmsRow = [
+    x,
+    lower[1] + (upper[1] - lower[1]) * t,
+    lower[2] + (upper[2] - lower[2]) * t,
+    lower[3] + (upper[3] - lower[3]) * t,
+  ];
+  return { row, source: table.source };
+};
+
+const valueAtZ = ([, L, M, S]: LmsRow, z: number) =>
+  L === 0 ? M * Math.exp(S * z) : M * Math.pow(1 + L * S * z, 1 / L);
+
+const rawZScore = ([, L, M, S]: LmsRow, value: number) =>
+  L === 0 ? Math.log(value / M) / S : (Math.pow(value / M, L) - 1) / (L * S);
+
+// Abramowitz & Stegun 7.1.26, accurate to about 1e-7.
+const normalCdf = (z: number) => {
+  const t = 1 / (1 + 0.3275911 * (Math.abs(z) / Math.SQRT2));
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+export const calculateGrowthMeasurement = (
+  indicator: GrowthIndicator,
+  gender: Baby['gender'],
+  x: number,
+  value: number
+): GrowthMeasurement | null => {
+  if (!(value > 0)) return null;
+  const lms = findLms(indicator, gender, x);
+  if (!lms) return null;
+
+  let zScore = rawZScore(lms.row, value);
+
+  // WHO restricted application of the LMS method: weight distributions are
+  // skewed, so beyond ±3 SD the z-score is measured in fixed SD23 units.
+  const isWeight = indicator === 'weight_for_age' || indicator === 'weight_for_length';
+  if (lms.source === 'WHO' && isWeight && Math.abs(zScore) > 3) {
+    const sd3 = valueAtZ(lms.row, 3 * Math.sign(zScore));
+    const sd2 = valueAtZ(lms.row, 2 * Math.sign(zScore));
+    zScore = 3 * Math.sign(zScore) + (value - sd3) / Math.abs(sd3 - sd2);
+  }
+
+  return {
+    indicator,
+    value,
+    zScore,
+    percentile: normalCdf(zScore) * 100,
+    source: lms.source,
+  };
+};
+
+export const getPercentileValue = (
+  indicator: GrowthIndicator,
+  gender: Baby['gender'],
+  x: number,
+  zScore: number
+) => {
+  const lms = findLms(indicator, gender, x);
+  return lms ? valueAtZ(lms.row, zScore) : null;
+};
+
+export const evaluateVitalRecord = (baby: Baby, record: VitalRecord): GrowthPoint => {
+  const ageInMonths = getAgeInMonths(baby.birth_date, record.recorded_at);
+  const measurements: GrowthPoint['measurements'] = {};
+
+  const add = (indicator: GrowthIndicator, x: number, value: number | null) => {
+    if (value == null) return;
+    const measurement = calculateGrowthMeasurement(indicator, baby.gender, x, value);
+    if (measurement) measurements[indicator] = measurement;
+  };
+
+  add('weight_for_age', ageInMonths, record.weight);
+  add('length_for_age', ageInMonths, record.height);
+  add('head_circumference_for_age', ageInMonths, record.head_circumference);
+  if (record.height != null && ageInMonths < WEIGHT_FOR_LENGTH_MAX_AGE_MONTHS) {
+    add('weight_for_length', record.height, record.weight);
+  }
+
+  return {
+    recordId: record.id,
+    recordedAt: record.recorded_at,
+    ageInMonths,
+    measurements,
+  };
+};
+
+export const evaluateGrowthHistory = (baby: Baby, records: VitalRecord[]) =>
+  [...records]
+    .filter(record => new Date(record.recorded_at) >= new Date(baby.birth_date))
+    .sort((a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime())
+    .map(record => evaluateVitalRecord(baby, record));
+
+export const formatPercentile = (percentile: number) => {
+  if (percentile < 1) return '<1st';
+  if (percentile > 99) return '>99th';
+  const rounded = Math.round(percentile);
+  const lastTwo = rounded % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${rounded}th`;
+  switch (rounded % 10) {
+    case 1:
+      return `${rounded}st`;
+    case 2:
+      return `${rounded}nd`;
+    case 3:
+      return `${rounded}rd`;
+    default:
+      return `${rounded}th`;
+  }
+};
+
+export const assessGrowth = (baby: Baby, records: VitalRecord[]): GrowthAssessment => {
+  const history = evaluateGrowthHistory(baby, records).filter(
+    point => Object.keys(point.measurements).length > 0
+  );
+  const latest = history[history.length - 1] ?? null;
+
+  if (!latest) {
+    return {
+      status: 'insufficient_data',
+      title: 'Not Enough Data',
+      description:
+        baby.gender === 'other'
+          ? 'Growth standards are sex-specific, so percentiles cannot be calculated for this profile.'
+          : 'Record weight, length or head circumference to see how growth compares to WHO/CDC standards.',
+      findings: [],
+      latest: null,
+    };
+  }
+
+  let status = 'on_track' as GrowthStatus;
+  const findings: string[] = [];
+  const raise = (next: GrowthStatus) => {
+    if (next === 'concern' || (next === 'monitor' && status === 'on_track')) status = next;
+  };
+
+  Object.values(latest.measurements).forEach(measurement => {
+    const { label } = GROWTH_INDICATORS[measurement.indicator];
+    findings.push(
+      `${label}: ${formatPercentile(measurement.percentile)} percentile (z ${measurement.zScore.toFixed(2)}, ${measurement.source})`
+    );
+    if (Math.abs(measurement.zScore) > 2) {
+      raise('concern');
+    } else if (Math.abs(measurement.zScore) >= 1.881) {
+      raise('monitor');
+    }
+  });
+
+  // A drop of two-thirds of a z-score roughly equals crossing one major percentile line.
+  const previous = history[history.length - 2];
+  const previousWeight = previous?.measurements.weight_for_age;
+  const latestWeight = latest.measurements.weight_for_age;
+  if (previousWeight && latestWeight && latestWeight.zScore - previousWeight.zScore <= -0.67) {
+    findings.push('Weight-for-age has dropped across a percentile line since the last visit');
+    raise('monitor');
+  }
+
+  const name = baby.first_name;
+  switch (status) {
+    case 'concern':
+      return {
+        status,
+        title: 'Needs Clinical Review',
+        description: `${name}'s latest measurements fall outside the expected range (beyond 2 SD). Please discuss with your doctor.`,
+        findings,
+        latest,
+      };
+    case 'monitor':
+      return {
+        status,
+        title: 'Keep Monitoring',
+        description: `${name}'s growth is near the edge of the expected range. Continue regular check-ups so trends can be followed.`,
+        findings,
+        latest,
+      };
+    default:
+      return {
+        status,
+        title: 'Growth on Track',
+        description: `${name}'s growth is within the expected range for age and sex.`,
+        findings,
+        latest,
+      };
+  }
+};
@@ -0,0 +1,341 @@
+// LMS reference tables for the growth standards engine.
+//
+// WHO Child Growth Standards (2006) are used from birth to 24 months and the
+// CDC 2000 growth charts from 24 months to 20 years, following the CDC
+// recommendation for US clinics. Each row is [x, L, M, S] where x is the age
+// in months (or the recumbent length in cm for weight-for-length). WHO tables
+// are monthly; CDC tables are sampled yearly and interpolated between rows.
+
+export type LmsRow = [x: number, L: number, M: number, S: number];
+
+export interface LmsTable {
+  source: 'WHO' | 'CDC';
+  rows: LmsRow[];
+}
+
+type SexTables = { male: LmsTable[]; female: LmsTable[] };
+
+const WHO_WEIGHT_FOR_AGE_BOYS: LmsRow[] = [
+  [0, 0.3487, 3.3464, 0.14602],
+  [1, 0.2297, 4.4709, 0.13395],
+  [2, 0.197, 5.5675, 0.12385],
+  [3, 0.1738, 6.3762, 0.11727],
+  [4, 0.1553, 7.0023, 0.11316],
+  [5, 0.1395, 7.5105, 0.1108],
+  [6, 0.1257, 7.934, 0.10958],
+  [7, 0.1134, 8.297, 0.10902],
+  [8, 0.1021, 8.6151, 0.10882],
+  [9, 0.0917, 8.9014, 0.10881],
+  [10, 0.082, 9.1649, 0.10891],
+  [11, 0.073, 9.4122, 0.10906],
+  [12, 0.0644, 9.6479, 0.10925],
+  [13, 0.0563, 9.8749, 0.10949],
+  [14, 0.0487, 10.0953, 0.10976],
+  [15, 0.0413, 10.3108, 0.11007],
+  [16, 0.0343, 10.5228, 0.11041],
+  [17, 0.0275, 10.7319, 0.11079],
+  [18, 0.0211, 10.9385, 0.11119],
+  [19, 0.0148, 11.143, 0.11164],
+  [20, 0.0087, 11.3462, 0.11211],
+  [21, 0.0029, 11.5486, 0.11261],
+  [22, -0.0028, 11.7504, 0.11314],
+  [23, -0.0083, 11.9514, 0.11369],
+  [24, -0.0137, 12.1515, 0.11426],
+];
+
+const WHO_WEIGHT_FOR_AGE_GIRLS: LmsRow[] = [
+  [0, 0.3809, 3.2322, 0.14171],
+  [1, 0.1714, 4.1873, 0.13724],
+  [2, 0.0962, 5.1282, 0.13],
+  [3, 0.0402, 5.8458, 0.12619],
+  [4, -0.005, 6.4237, 0.12402],
+  [5, -0.043, 6.8985, 0.12274],
+  [6, -0.0756, 7.297, 0.12204],
+  [7, -0.1039, 7.6422, 0.12178],
+  [8, -0.1288, 7.9487, 0.12181],
+  [9, -0.1507, 8.2254, 0.12199],
+  [10, -0.17, 8.48, 0.12223],
+  [11, -0.1872, 8.7192, 0.12247],
+  [12, -0.2024, 8.9481, 0.12268],
+  [13, -0.2158, 9.1699, 0.12283],
+  [14, -0.2278, 9.387, 0.12294],
+  [15, -0.2384, 9.6008, 0.12299],
+  [16, -0.2478, 9.8124, 0.12303],
+  [17, -0.2562, 10.0226, 0.12306],
+  [18, -0.2637, 10.2315, 0.12309],
+  [19, -0.2703, 10.4393, 0.12315],
+  [20, -0.2762, 10.6464, 0.12323],
+  [21, -0.2815, 10.8534, 0.12335],
+  [22, -0.2862, 11.0608, 0.1235],
+  [23, -0.2903, 11.2688, 0.12369],
+  [24, -0.2941, 11.4775, 0.1239],
+];
+
+const WHO_LENGTH_FOR_AGE_BOYS: LmsRow[] = [
+  [0, 1, 49.8842, 0.03795],
+  [1, 1, 54.7244, 0.03557],
+  [2, 1, 58.4249, 0.03424],
+  [3, 1, 61.4292, 0.03328],
+  [4, 1, 63.886, 0.03257],
+  [5, 1, 65.9026, 0.03204],
+  [6, 1, 67.6236, 0.03165],
+  [7, 1, 69.1645, 0.03139],
+  [8, 1, 70.5994, 0.03124],
+  [9, 1, 71.9687, 0.03117],
+  [10, 1, 73.2812, 0.03118],
+  [11, 1, 74.5388, 0.03125],
+  [12, 1, 75.7488, 0.03137],
+  [13, 1, 76.9186, 0.03154],
+  [14, 1, 78.0497, 0.03174],
+  [15, 1, 79.1458, 0.03197],
+  [16, 1, 80.2113, 0.03222],
+  [17, 1, 81.2487, 0.0325],
+  [18, 1, 82.2587, 0.03279],
+  [19, 1, 83.2418, 0.0331],
+  [20, 1, 84.1996, 0.03342],
+  [21, 1, 85.1348, 0.03376],
+  [22, 1, 86.0477, 0.0341],
+  [23, 1, 86.941, 0.03445],
+  [24, 1, 87.8161, 0.03479],
+];
+
+const WHO_LENGTH_FOR_AGE_GIRLS: LmsRow[] = [
+  [0, 1, 49.1477, 0.0379],
+  [1, 1, 53.6872, 0.0364],
+  [2, 1, 57.0673, 0.03568],
+  [3, 1, 59.8029, 0.0352],
+  [4, 1, 62.0899, 0.03486],
+  [5, 1, 64.0301, 0.03463],
+  [6, 1, 65.7311, 0.03448],
+  [7, 1, 67.2873, 0.03441],
+  [8, 1, 68.7498, 0.0344],
+  [9, 1, 70.1435, 0.03444],
+  [10, 1, 71.4818, 0.03452],
+  [11, 1, 72.771, 0.03464],
+  [12, 1, 74.015, 0.03479],
+  [13, 1, 75.2176, 0.03496],
+  [14, 1, 76.3817, 0.03514],
+  [15, 1, 77.5099, 0.03534],
+  [16, 1, 78.6055, 0.03555],
+  [17, 1, 79.671, 0.03576],
+  [18, 1, 80.7079, 0.03598],
+  [19, 1, 81.7182, 0.0362],
+  [20, 1, 82.7036, 0.03643],
+  [21, 1, 83.6654, 0.03666],
+  [22, 1, 84.604, 0.03688],
+  [23, 1, 85.5202, 0.03711],
+  [24, 1, 86.4153, 0.03734],
+];
+
+const WHO_HEAD_CIRCUMFERENCE_BOYS: LmsRow[] = [
+  [0, 1, 34.4618, 0.03686],
+  [1, 1, 37.2759, 0.03133],
+  [2, 1, 39.1285, 0.02997],
+  [3, 1, 40.5135, 0.02918],
+  [4, 1, 41.6317, 0.02868],
+  [5, 1, 42.5576, 0.02837],
+  [6, 1, 43.3306, 0.02817],
+  [7, 1, 43.9803, 0.02804],
+  [8, 1, 44.53, 0.02796],
+  [9, 1, 44.9998, 0.02792],
+  [10, 1, 45.4051, 0.0279],
+  [11, 1, 45.7573, 0.02789],
+  [12, 1, 46.0661, 0.02789],
+  [13, 1, 46.3395, 0.02789],
+  [14, 1, 46.5844, 0.02791],
+  [15, 1, 46.806, 0.02792],
+  [16, 1, 47.0088, 0.02795],
+  [17, 1, 47.1962, 0.02797],
+  [18, 1, 47.3711, 0.028],
+  [19, 1, 47.5357, 0.02803],
+  [20, 1, 47.6919, 0.02806],
+  [21, 1, 47.8408, 0.0281],
+  [22, 1, 47.9833, 0.02813],
+  [23, 1, 48.1201, 0.02817],
+  [24, 1, 48.2515, 0.02821],
+];
+
+const WHO_HEAD_CIRCUMFERENCE_GIRLS: LmsRow[] = [
+  [0, 1, 33.8787, 0.03496],
+  [1, 1, 36.5463, 0.0321],
+  [2, 1, 38.2521, 0.03168],
+  [3, 1, 39.5328, 0.0314],
+  [4, 1, 40.5817, 0.03119],
+  [5, 1, 41.459, 0.03102],
+  [6, 1, 42.1995, 0.03087],
+  [7, 1, 42.829, 0.03075],
+  [8, 1, 43.3671, 0.03063],
+  [9, 1, 43.83, 0.03053],
+  [10, 1, 44.2319, 0.03044],
+  [11, 1, 44.5844, 0.03035],
+  [12, 1, 44.8965, 0.03027],
+  [13, 1, 45.1752, 0.0302],
+  [14, 1, 45.4265, 0.03013],
+  [15, 1, 45.6551, 0.03007],
+  [16, 1, 45.865, 0.03001],
+  [17, 1, 46.0598, 0.02995],
+  [18, 1, 46.2424, 0.0299],
+  [19, 1, 46.4152, 0.02985],
+  [20, 1, 46.5801, 0.0298],
+  [21, 1, 46.7384, 0.02976],
+  [22, 1, 46.8913, 0.02971],
+  [23, 1, 47.0391, 0.02967],
+  [24, 1, 47.1822, 0.02963],
+];
+
+// Weight-for-length is indexed by recumbent length (cm), sampled every 5 cm.
+const WHO_WEIGHT_FOR_LENGTH_BOYS: LmsRow[] = [
+  [45, -0.3521, 2.441, 0.09182],
+  [50, -0.3521, 3.346, 0.08752],
+  [55, -0.3521, 4.53, 0.08338],
+  [60, -0.3521, 5.988, 0.08064],
+  [65, -0.3521, 7.433, 0.07963],
+  [70, -0.3521, 8.678, 0.07933],
+  [75, -0.3521, 9.732, 0.07956],
+  [80, -0.3521, 10.651, 0.07998],
+  [85, -0.3521, 11.601, 0.08079],
+  [90, -0.3521, 12.613, 0.08211],
+  [95, -0.3521, 13.708, 0.08348],
+  [100, -0.3521, 14.938, 0.08485],
+  [105, -0.3521, 16.345, 0.08622],
+  [110, -0.3521, 17.935, 0.08758],
+];
+
+const WHO_WEIGHT_FOR_LENGTH_GIRLS: LmsRow[] = [
+  [45, -0.3833, 2.461, 0.09029],
+  [50, -0.3833, 3.362, 0.08866],
+  [55, -0.3833, 4.529, 0.08704],
+  [60, -0.3833, 5.838, 0.08564],
+  [65, -0.3833, 7.229, 0.08484],
+  [70, -0.3833, 8.487, 0.08469],
+  [75, -0.3833, 9.525, 0.08495],
+  [80, -0.3833, 10.428, 0.08561],
+  [85, -0.3833, 11.418, 0.08662],
+  [90, -0.3833, 12.491, 0.08785],
+  [95, -0.3833, 13.646, 0.08917],
+  [100, -0.3833, 14.916, 0.0905],
+  [105, -0.3833, 16.362, 0.09177],
+  [110, -0.3833, 18.009, 0.09292],
+];
+
+const CDC_WEIGHT_FOR_AGE_BOYS: LmsRow[] = [
+  [24, -0.216, 12.741, 0.10814],
+  [36, -0.557, 14.341, 0.11094],
+  [48, -0.883, 16.293, 0.11671],
+  [60, -1.131, 18.372, 0.12509],
+  [72, -1.283, 20.67, 0.13572],
+  [84, -1.326, 23.06, 0.14771],
+  [96, -1.279, 25.65, 0.15962],
+  [108, -1.166, 28.56, 0.16974],
+  [120, -1.016, 31.89, 0.17661],
+  [132, -0.853, 35.69, 0.17959],
+  [144, -0.695, 40.0, 0.17884],
+  [156, -0.553, 45.01, 0.17496],
+  [168, -0.437, 50.55, 0.16862],
+  [180, -0.351, 56.01, 0.16123],
+  [192, -0.296, 60.78, 0.15429],
+  [204, -0.268, 64.51, 0.14929],
+  [216, -0.259, 67.3, 0.14719],
+  [228, -0.256, 69.38, 0.14729],
+  [240, -0.256, 70.6, 0.14829],
+];
+
+const CDC_WEIGHT_FOR_AGE_GIRLS: LmsRow[] = [
+  [24, -0.736, 12.13, 0.10795],
+  [36, -0.735, 13.93, 0.11811],
+  [48, -0.748, 15.94, 0.12749],
+  [60, -0.8, 18.03, 0.13717],
+  [72, -0.873, 20.32, 0.14817],
+  [84, -0.943, 22.78, 0.15981],
+  [96, -0.989, 25.57, 0.17154],
+  [108, -0.995, 28.76, 0.18115],
+  [120, -0.958, 32.39, 0.18652],
+  [132, -0.888, 36.4, 0.18757],
+  [144, -0.797, 40.57, 0.18331],
+  [156, -0.701, 44.58, 0.17522],
+  [168, -0.61, 48.05, 0.16579],
+  [180, -0.531, 50.76, 0.15797],
+  [192, -0.468, 52.72, 0.15324],
+  [204, -0.42, 54.09, 0.15148],
+  [216, -0.386, 55.09, 0.15204],
+  [228, -0.362, 55.92, 0.15459],
+  [240, -0.346, 56.73, 0.15814],
+];
+
+const CDC_STATURE_FOR_AGE_BOYS: LmsRow[] = [
+  [24, 1, 86.45, 0.04038],
+  [36, 1, 95.27, 0.04002],
+  [48, 1, 102.52, 0.04117],
+  [60, 1, 109.21, 0.04214],
+  [72, 1, 115.66, 0.04269],
+  [84, 1, 121.72, 0.04314],
+  [96, 1, 127.33, 0.04385],
+  [108, 1, 132.62, 0.04469],
+  [120, 1, 137.78, 0.04539],
+  [132, 1, 143.11, 0.04617],
+  [144, 1, 149.07, 0.04721],
+  [156, 1, 156.03, 0.04772],
+  [168, 1, 163.17, 0.04645],
+  [180, 1, 169.02, 0.04365],
+  [192, 1, 172.94, 0.04104],
+  [204, 1, 175.17, 0.03937],
+  [216, 1, 176.14, 0.03855],
+  [228, 1, 176.52, 0.03824],
+  [240, 1, 176.8, 0.03814],
+];
+
+const CDC_STATURE_FOR_AGE_GIRLS: LmsRow[] = [
+  [24, 1, 85.37, 0.04044],
+  [36, 1, 94.22, 0.04054],
+  [48, 1, 101.56, 0.04149],
+  [60, 1, 108.4, 0.04247],
+  [72, 1, 115.0, 0.04319],
+  [84, 1, 121.1, 0.04391],
+  [96, 1, 127.0, 0.04483],
+  [108, 1, 132.6, 0.04595],
+  [120, 1, 138.4, 0.04688],
+  [132, 1, 144.8, 0.04694],
+  [144, 1, 151.1, 0.04556],
+  [156, 1, 156.7, 0.04263],
+  [168, 1, 160.0, 0.03993],
+  [180, 1, 161.7, 0.03844],
+  [192, 1, 162.5, 0.03785],
+  [204, 1, 162.9, 0.03766],
+  [216, 1, 163.2, 0.03762],
+  [228, 1, 163.3, 0.03763],
+  [240, 1, 163.3, 0.03765],
+];
+
+export const GROWTH_TABLES: Record<
+  'weight_for_age' | 'length_for_age' | 'weight_for_length' | 'head_circumference_for_age',
+  SexTables
+> = {
+  weight_for_age: {
+    male: [
+      { source: 'WHO', rows: WHO_WEIGHT_FOR_AGE_BOYS },
+      { source: 'CDC', rows: CDC_WEIGHT_FOR_AGE_BOYS },
+    ],
+    female: [
+      { source: 'WHO', rows: WHO_WEIGHT_FOR_AGE_GIRLS },
+      { source: 'CDC', rows: CDC_WEIGHT_FOR_AGE_GIRLS },
+    ],
+  },
+  length_for_age: {
+    male: [
+      { source: 'WHO', rows: WHO_LENGTH_FOR_AGE_BOYS },
+      { source: 'CDC', rows: CDC_STATURE_FOR_AGE_BOYS },
+    ],
+    female: [
+      { source: 'WHO', rows: WHO_LENGTH_FOR_AGE_GIRLS },
+      { source: 'CDC', rows: CDC_STATURE_FOR_AGE_GIRLS },
+    ],
+  },
+  weight_for_length: {
+    male: [{ source: 'WHO', rows: WHO_WEIGHT_FOR_LENGTH_BOYS }],
+    female: [{ source: 'WHO', rows: WHO_WEIGHT_FOR_LENGTH_GIRLS }],
+  },
+  head_circumference_for_age: {
+    male: [{ source: 'WHO', rows: WHO_HEAD_CIRCUMFERENCE_BOYS }],
+    female: [{ source: 'WHO', rows: WHO_HEAD_CIRCUMFERENCE_GIRLS }],
+  },
+};
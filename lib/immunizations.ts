@@ -0,0 +1,115 @@
+import { addDays, parseCalendarDate } from '@/lib/calendarDates';
+import { supabase } from '@/lib/supabase';
+import type { ImmunizationRecord, Vaccine, VaccineScheduleDose } from '@/types/database';
+
+export const DEFAULT_SCHEDULE = 'national';
+
+export type ImmunizationSite = NonNullable<ImmunizationRecord['site']>;
+
+export const IMMUNIZATION_SITE_LABELS: Record<ImmunizationSite, string> = {
+  left_thigh: 'Left thigh',
+  right_thigh: 'Right thigh',
+  left_arm: 'Left arm',
+  right_arm: 'Right arm',
+  oral: 'Oral',
+  intranasal: 'Intranasal',
+};
+
+export type DoseStatus = 'given' | 'overdue' | 'due' | 'upcoming';
+
+export const DOSE_STATUS_LABELS: Record<DoseStatus, string> = {
+  given: 'Given',
+  overdue: 'Overdue',
+  due: 'Due',
+  upcoming: 'Upcoming',
+};
+
+export const getDoseStatusColor = (status: DoseStatus) => {
+  switch (status) {
+    case 'given':
+      return '#10b981';
+    case 'overdue':
+      return '#ef4444';
+    case 'due':
+      return '#f59e0b';
+    default:
+      return '#94a3b8';
+  }
+};
+
+export interface ScheduleEntry extends VaccineScheduleDose {
+  vaccine: Vaccine;
+}
+
+export type DoseRecord = Pick<ImmunizationRecord, 'vaccine_id' | 'dose_number' | 'administered_on'> &
+  Partial<ImmunizationRecord>;
+
+export interface ScheduledDose {
+  entry: ScheduleEntry;
+  status: DoseStatus;
+  dueDate: Date;
+  record?: DoseRecord;
+}
+
+export const loadImmunizationSchedule = async (schedule = DEFAULT_SCHEDULE) => {
+  const { data, error } = await supabase
+    .from('vaccine_schedule_doses')
+    .select('*, vaccine:vaccines!inner (*)')
+    .eq('schedule', schedule)
+    .eq('vaccine.is_active', true)
+    .order('recommended_age_days', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Works out when each scheduled dose is due for a baby and whether it has been
+ * given. A dose is due at its recommended age, or after the minimum interval
+ * since the previous dose if that was given late, and becomes overdue once its
+ * grace period has passed.
+ */
+export const computeImmunizationStatus = (
+  birthDate: string,
+  schedule: ScheduleEntry[],
+  records: DoseRecord[],
+  today = new Date()
+): ScheduledDose[] => {
+  const birth = parseCalendarDate(birthDate);
+  const recordFor = (vaccineId: string, doseNumber: number) =>
+    records.find(record => record.vaccine_id === vaccineId && record.dose_number === doseNumber);
+
+  return schedule
+    .map((entry) => {
+      const record = recordFor(entry.vaccine_id, entry.dose_number);
+      let dueDate = addDays(birth, entry.recommended_age_days);
+
+      const previous = recordFor(entry.vaccine_id, entry.dose_number - 1);
+      if (previous && entry.min_interval_days) {
+        const earliest = addDays(parseCalendarDate(previous.administered_on), entry.min_interval_days);
+        if (earliest > dueDate) dueDate = earliest;
+      }
+
+      let status: DoseStatus = 'upcoming';
+      if (record) {
+        status = 'given';
+      } else if (today >= addDays(dueDate, entry.grace_days)) {
+        status = 'overdue';
+      } else if (today >= dueDate) {
+        status = 'due';
+      }
+
+      return { entry, status, dueDate, record };
+    })
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+};
+
+export const summarizeImmunizations = (doses: ScheduledDose[]) => ({
+  total: doses.length,
+  given: doses.filter(dose => dose.status === 'given').length,
+  due: doses.filter(dose => dose.status === 'due').length,
+  overdue: doses.filter(dose => dose.status === 'overdue').length,
+});
+
+export const formatDoseLabel = (dose: ScheduledDose) =>
+  `${dose.entry.vaccine.name} · Dose ${dose.entry.dose_number}`;
@@ -0,0 +1,175 @@
+import { getActiveAllergies, getAllergen } from '@/lib/allergies';
+import { supabase } from '@/lib/supabase';
+import type { Allergy, Medication, Prescription } from '@/types/database';
+
+export type DoseFrequency = Medication['frequency_hours'];
+export type PrescriptionStatus = 'active' | 'completed' | 'discontinued';
+
+export const FREQUENCY_LABELS: Record<DoseFrequency, string> = {
+  4: 'Every 4 hours',
+  6: 'Every 6 hours',
+  8: 'Every 8 hours',
+  12: 'Twice daily',
+  24: 'Once daily',
+};
+
+export const FREQUENCY_OPTIONS = Object.keys(FREQUENCY_LABELS).map(Number) as DoseFrequency[];
+
+export const PRESCRIPTION_STATUS_LABELS: Record<PrescriptionStatus, string> = {
+  active: 'Active',
+  completed: 'Completed',
+  discontinued: 'Stopped',
+};
+
+export const getPrescriptionStatusColor = (status: PrescriptionStatus) => {
+  switch (status) {
+    case 'active':
+      return '#10b981';
+    case 'discontinued':
+      return '#ef4444';
+    default:
+      return '#64748b';
+  }
+};
+
+// Weights older than this are flagged on the prescribing screen
+export const STALE_WEIGHT_DAYS = 30;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Prescriptions are only ever stored as active or discontinued; one that has
+// run its course is reported as completed.
+export const getPrescriptionStatus = (
+  prescription: Pick<Prescription, 'status' | 'ends_at'>,
+  now = new Date()
+): PrescriptionStatus => {
+  if (prescription.status === 'discontinued') return 'discontinued';
+  return new Date(prescription.ends_at) <= now ? 'completed' : 'active';
+};
+
+export const getPrescriptionEnd = (startsAt: Date, durationDays: number) =>
+  new Date(startsAt.getTime() + durationDays * DAY_MS);
+
+/**
+ * Weight-based single dose, rounded to 0.1 mg and capped at the drug's
+ * maximum single dose when one is set.
+ */
+export const computeDose = (doseMgPerKg: number, weightKg: number, maxDoseMg?: number | null) => {
+  const calculated = Math.round(doseMgPerKg * weightKg * 10) / 10;
+  const capped = maxDoseMg != null && calculated > maxDoseMg;
+  return { doseMg: capped ? Number(maxDoseMg) : calculated, capped };
+};
+
+export const formatDose = (doseMg: number) => `${Number(doseMg).toLocaleString('en-US', { maximumFractionDigits: 1 })} mg`;
+
+export const describePrescription = (
+  prescription: Pick<Prescription, 'dose_mg' | 'frequency_hours' | 'duration_days'>
+) =>
+  `${formatDose(prescription.dose_mg)} · ${FREQUENCY_LABELS[prescription.frequency_hours].toLowerCase()} · ${
+    prescription.duration_days
+  } day${prescription.duration_days === 1 ? '' : 's'}`;
+
+/**
+ * When the next dose is due: one interval after the last logged dose, or the
+ * start of the prescription if nothing has been given yet. Returns null once
+ * the prescription has ended or been stopped.
+ */
+export const getNextDoseAt = (
+  prescription: Pick<Prescription, 'status' | 'starts_at' | 'ends_at' | 'frequency_hours'>,
+  lastGivenAt: string | null
+) => {
+  if (prescription.status !== 'active') return null;
+
+  const next = lastGivenAt
+    ? new Date(new Date(lastGivenAt).getTime() + prescription.frequency_hours * HOUR_MS)
+    : new Date(prescription.starts_at);
+  return next < new Date(prescription.ends_at) ? next : null;
+};
+
+/**
+ * The dose times from `from` up to `until`, following on from the next due
+ * dose. A missed dose is not repeated; reminders continue on the regular
+ * interval after it.
+ */
+export const getUpcomingDoseTimes = (
+  prescription: Pick<Prescription, 'status' | 'starts_at' | 'ends_at' | 'frequency_hours'>,
+  lastGivenAt: string | null,
+  from: Date,
+  until: Date
+) => {
+  const next = getNextDoseAt(prescription, lastGivenAt);
+  if (!next) return [];
+
+  const interval = prescription.frequency_hours * HOUR_MS;
+  const end = Math.min(new Date(prescription.ends_at).getTime(), until.getTime());
+  const times: Date[] = [];
+
+  let time = next.getTime();
+  if (time < from.getTime()) {
+    time += Math.ceil((from.getTime() - time) / interval) * interval;
+  }
+  for (; time < end; time += interval) {
+    times.push(new Date(time));
+  }
+  return times;
+};
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Whole-word match, as matchAllergen does for free text
+const namesTerm = (text: string, term: string) =>
+  new RegExp(`\\b${term.toLowerCase().replace(/[^a-z0-9 ]/g, '.')}\\b`).test(text);
+
+/**
+ * Returns the baby's allergies that conflict with the drug, using the same
+ * rules as the check_prescription_allergies trigger: a coded drug allergy
+ * matches the drug's class or a drug named by the allergen or one of its
+ * synonyms, and an uncoded allergy only matches a drug or class of exactly
+ * that name. Refuted allergies are ignored.
+ */
+export const findAllergyConflicts = (
+  drug: { name: string; drug_class?: string | null },
+  allergies: Allergy[] = []
+) => {
+  const name = normalize(drug.name);
+  const drugClass = drug.drug_class ? normalize(drug.drug_class) : null;
+
+  return getActiveAllergies(allergies).filter((allergy) => {
+    const allergen = getAllergen(allergy.allergen_code);
+    if (!allergen) {
+      const value = normalize(allergy.allergen);
+      return value === name || value === drugClass;
+    }
+
+    if (allergen.category !== 'drug') return false;
+    if (allergen.drugClass && drugClass && normalize(allergen.drugClass) === drugClass) return true;
+    return [allergen.name, ...allergen.synonyms].some(term => namesTerm(name, term));
+  });
+};
+
+export const loadFormulary = async () => {
+  const { data, error } = await supabase
+    .from('medications')
+    .select('*')
+    .eq('is_active', true)
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// The most recent recorded weight, used for weight-based dosing
+export const loadLatestWeight = async (babyId: string) => {
+  const { data, error } = await supabase
+    .from('vital_records')
+    .select('weight, recorded_at')
+    .eq('baby_id', babyId)
+    .not('weight', 'is', null)
+    .order('recorded_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? { weightKg: Number(data.weight), recordedAt: data.recorded_at as string } : null;
+};
@@ -0,0 +1,105 @@
+import { supabase } from '@/lib/supabase';
+import { getAgeInMonths } from '@/lib/growthStandards';
+import type { BabyMilestone, Milestone, MilestoneReview } from '@/types/database';
+
+export type MilestoneDomain = Milestone['domain'];
+
+export const MILESTONE_DOMAINS: MilestoneDomain[] = ['motor', 'language', 'social', 'cognitive'];
+
+export const MILESTONE_DOMAIN_LABELS: Record<MilestoneDomain, string> = {
+  motor: 'Movement',
+  language: 'Language',
+  social: 'Social & Emotional',
+  cognitive: 'Thinking & Learning',
+};
+
+export const getMilestoneDomainColor = (domain: MilestoneDomain) => {
+  switch (domain) {
+    case 'motor':
+      return '#0ea5e9';
+    case 'language':
+      return '#f59e0b';
+    case 'social':
+      return '#ec4899';
+    default:
+      return '#8b5cf6';
+  }
+};
+
+export type MilestoneStatus = 'achieved' | 'delayed' | 'expected' | 'upcoming';
+
+export const MILESTONE_STATUS_LABELS: Record<MilestoneStatus, string> = {
+  achieved: 'Achieved',
+  delayed: 'Not yet seen',
+  expected: 'Expected now',
+  upcoming: 'Coming up',
+};
+
+export const REVIEW_STATUS_LABELS: Record<MilestoneReview['status'], string> = {
+  monitoring: 'Monitoring',
+  referred: 'Referred',
+  resolved: 'No concern',
+};
+
+export interface TrackedMilestone {
+  milestone: Milestone;
+  status: MilestoneStatus;
+  record?: BabyMilestone;
+  review?: MilestoneReview;
+}
+
+export const formatAgeBand = (months: number) =>
+  months % 12 === 0 && months > 0 ? `${months / 12} year${months === 12 ? '' : 's'}` : `${months} months`;
+
+export const loadMilestoneCatalog = async () => {
+  const { data, error } = await supabase
+    .from('milestones')
+    .select('*')
+    .eq('is_active', true)
+    .order('age_months', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Places each catalog milestone against the baby's current age. A milestone
+ * not yet seen by `concern_months` is a gap the care team should review,
+ * unless a clinician has already marked it as no concern.
+ */
+export const computeMilestoneStatus = (
+  birthDate: string,
+  catalog: Milestone[],
+  records: BabyMilestone[],
+  reviews: MilestoneReview[] = [],
+  today = new Date()
+): TrackedMilestone[] => {
+  const ageInMonths = getAgeInMonths(birthDate, today);
+
+  return catalog.map((milestone) => {
+    const record = records.find(item => item.milestone_id === milestone.id);
+    const review = reviews.find(item => item.milestone_id === milestone.id);
+
+    let status: MilestoneStatus = 'upcoming';
+    if (record) {
+      status = 'achieved';
+    } else if (ageInMonths >= milestone.concern_months) {
+      status = 'delayed';
+    } else if (ageInMonths >= milestone.age_months) {
+      status = 'expected';
+    }
+
+    return { milestone, status, record, review };
+  });
+};
+
+export const getMilestoneGaps = (tracked: TrackedMilestone[]) =>
+  tracked.filter(item => item.status === 'delayed' && item.review?.status !== 'resolved');
+
+// The age band the checklist opens on: the latest band the baby has reached.
+export const getCurrentAgeBand = (birthDate: string, catalog: Milestone[], today = new Date()) => {
+  const ageInMonths = getAgeInMonths(birthDate, today);
+  const bands = Array.from(new Set(catalog.map(milestone => milestone.age_months))).sort((a, b) => a - b);
+  const reached = bands.filter(band => band <= ageInMonths);
+  return reached.length > 0 ? reached[reached.length - 1] : bands[0] ?? null;
+};
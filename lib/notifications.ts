@@ -0,0 +1,347 @@
+import * as Notifications from 'expo-notifications';
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+import { supabase } from '@/lib/supabase';
+import { formatDose, getUpcomingDoseTimes } from '@/lib/medications';
+import { APPOINTMENT_TYPE_LABELS } from '@/lib/scheduling';
+import type { NotificationPreferences, User } from '@/types/database';
+
+export const APPOINTMENT_REMINDER_CATEGORY = 'appointment-reminder';
+export const CONFIRM_APPOINTMENT_ACTION = 'confirm-appointment';
+
+export type PreferenceKey = Exclude<keyof NotificationPreferences, 'user_id' | 'updated_at'>;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: Omit<NotificationPreferences, 'user_id' | 'updated_at'> = {
+  push_enabled: true,
+  sms_enabled: false,
+  reminder_24h: true,
+  reminder_1h: true,
+  message_alerts: true,
+  medication_reminders: true,
+};
+
+const REMINDER_OFFSETS: { key: 'reminder_24h' | 'reminder_1h'; minutes: number; label: string }[] = [
+  { key: 'reminder_24h', minutes: 24 * 60, label: 'tomorrow' },
+  { key: 'reminder_1h', minutes: 60, label: 'in 1 hour' },
+];
+
+interface ReminderData {
+  type: 'appointment_reminder';
+  appointmentId: string;
+}
+
+interface MedicationReminderData {
+  type: 'medication_reminder';
+  prescriptionId: string;
+  babyId: string;
+}
+
+// Dose reminders are scheduled this far ahead and refreshed whenever a dose is logged
+const MEDICATION_REMINDER_HOURS = 48;
+
+// Local reminders are not supported in the browser
+export const notificationsSupported = Platform.OS !== 'web';
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+export const loadNotificationPreferences = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...data, user_id: userId } as NotificationPreferences;
+};
+
+export const saveNotificationPreferences = async (
+  userId: string,
+  updates: Partial<Pick<NotificationPreferences, PreferenceKey>>
+) => {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: userId, ...updates, updated_at: new Date().toISOString() }, { onConflict: 'user_id' })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Asks for permission, registers the reminder category with its "Confirm" action
+ * and stores the device's Expo push token for the user. Returns null when
+ * notifications are unavailable or the user declined.
+ */
+export const registerForPushNotifications = async (userId: string) => {
+  if (!notificationsSupported) return null;
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync('default', {
+      name: 'Appointments',
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+
+  await Notifications.setNotificationCategoryAsync(APPOINTMENT_REMINDER_CATEGORY, [
+    {
+      identifier: CONFIRM_APPOINTMENT_ACTION,
+      buttonTitle: 'Confirm',
+      options: { opensAppToForeground: false },
+    },
+  ]);
+
+  const { status: existingStatus } = await Notifications.getPermissionsAsync();
+  let status = existingStatus;
+  if (existingStatus !== 'granted') {
+    ({ status } = await Notifications.requestPermissionsAsync());
+  }
+  if (status !== 'granted') return null;
+
+  try {
+    const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+    const { data: token } = await Notifications.getExpoPushTokenAsync(projectId ? { projectId } : undefined);
+
+    const { error } = await supabase
+      .from('push_tokens')
+      .upsert({ user_id: userId, token, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+    if (error) throw error;
+    return token;
+  } catch (error) {
+    // Local reminders still work without a push token (e.g. in Expo Go without a project id)
+    console.error('Error registering push token:', error);
+    return null;
+  }
+};
+
+const cancelAppointmentReminders = async () => {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter(request => (request.content.data as Partial<ReminderData> | null)?.type === 'appointment_reminder')
+      .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+  );
+};
+
+/**
+ * Replaces every scheduled appointment reminder on this device with reminders for
+ * the user's upcoming appointments, honouring their saved preferences. Call after
+ * sign-in and whenever appointments or preferences change.
+ */
+export const syncAppointmentReminders = async (user: Pick<User, 'id' | 'role'>) => {
+  if (!notificationsSupported) return;
+
+  try {
+    await cancelAppointmentReminders();
+
+    const preferences = await loadNotificationPreferences(user.id);
+    if (!preferences.push_enabled) return;
+
+    const offsets = REMINDER_OFFSETS.filter(offset => preferences[offset.key]);
+    if (offsets.length === 0) return;
+
+    let query = supabase
+      .from('appointments')
+      .select(`
+        id,
+        appointment_date,
+        type,
+        status,
+        baby:babies (first_name),
+        doctor:user_profiles!appointments_doctor_id_fkey (last_name)
+      `)
+      .in('status', ['scheduled', 'confirmed'])
+      .gt('appointment_date', new Date().toISOString());
+
+    if (user.role === 'parent') {
+      // Every caregiver linked to the baby is reminded, not only the one who booked
+      const { data: links, error: linksError } = await supabase
+        .from('parent_babies')
+        .select('baby_id')
+        .eq('parent_id', user.id);
+
+      if (linksError) throw linksError;
+      query = query.in('baby_id', (links || []).map(link => link.baby_id));
+    } else {
+      query = query.eq('doctor_id', user.id);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const appointments = data || [];
+
+    const now = Date.now();
+    for (const appointment of appointments) {
+      const start = new Date(appointment.appointment_date);
+      const needsConfirmation = user.role === 'parent' && appointment.status === 'scheduled';
+
+      for (const offset of offsets) {
+        const fireAt = new Date(start.getTime() - offset.minutes * 60 * 1000);
+        if (fireAt.getTime() <= now) continue;
+
+        const who = user.role === 'parent'
+          ? `${appointment.baby?.first_name ?? 'Your baby'}'s ${APPOINTMENT_TYPE_LABELS[appointment.type].toLowerCase()}`
+          : `${APPOINTMENT_TYPE_LABELS[appointment.type]} with ${appointment.baby?.first_name ?? 'a patient'}`;
+        const time = start.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+        await Notifications.scheduleNotificationAsync({
+          content: {
+            title: `Appointment ${offset.label}`,
+            body: `${who} is at ${time}${appointment.doctor ? ` with Dr. ${appointment.doctor.last_name}` : ''}.${
+              needsConfirmation ? ' Tap Confirm to let the clinic know you are coming.' : ''
+            }`,
+            data: { type: 'appointment_reminder', appointmentId: appointment.id } satisfies ReminderData,
+            categoryIdentifier: needsConfirmation ? APPOINTMENT_REMINDER_CATEGORY : undefined,
+          },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date: fireAt,
+            channelId: Platform.OS === 'android' ? 'default' : undefined,
+          },
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error scheduling appointment reminders:', error);
+  }
+};
+
+const cancelMedicationReminders = async () => {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter(request => (request.content.data as Partial<MedicationReminderData> | null)?.type === 'medication_reminder')
+      .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+  );
+};
+
+/**
+ * Replaces the dose reminders on this device with one reminder per dose due in
+ * the next two days of each active prescription, counted on from the last
+ * logged dose. Only parents receive dose reminders. Call after sign-in, when a
+ * dose is logged and when preferences change.
+ */
+export const syncMedicationReminders = async (user: Pick<User, 'id' | 'role'>) => {
+  if (!notificationsSupported || user.role !== 'parent') return;
+
+  try {
+    await cancelMedicationReminders();
+
+    const preferences = await loadNotificationPreferences(user.id);
+    if (!preferences.push_enabled || !preferences.medication_reminders) return;
+
+    const now = new Date();
+    const { data, error } = await supabase
+      .from('prescriptions')
+      .select(`
+        id,
+        baby_id,
+        drug_name,
+        dose_mg,
+        frequency_hours,
+        starts_at,
+        ends_at,
+        status,
+        baby:babies (first_name),
+        doses:medication_doses (given_at)
+      `)
+      .eq('status', 'active')
+      .gt('ends_at', now.toISOString());
+
+    if (error) throw error;
+
+    const prescriptions = data || [];
+
+    const until = new Date(now.getTime() + MEDICATION_REMINDER_HOURS * 60 * 60 * 1000);
+    for (const prescription of prescriptions) {
+      const lastGivenAt = prescription.doses.reduce<string | null>(
+        (latest, dose) => (!latest || dose.given_at > latest ? dose.given_at : latest),
+        null
+      );
+
+      for (const fireAt of getUpcomingDoseTimes(prescription, lastGivenAt, now, until)) {
+        await Notifications.scheduleNotificationAsync({
+          content: {
+            title: 'Medication due',
+            body: `${prescription.baby?.first_name ?? 'Your baby'} is due ${formatDose(prescription.dose_mg)} of ${
+              prescription.drug_name
+            }. Log the dose in the app once given.`,
+            data: {
+              type: 'medication_reminder',
+              prescriptionId: prescription.id,
+              babyId: prescription.baby_id,
+            } satisfies MedicationReminderData,
+          },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date: fireAt,
+            channelId: Platform.OS === 'android' ? 'default' : undefined,
+          },
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error scheduling medication reminders:', error);
+  }
+};
+
+/**
+ * Handles a tap on a reminder. The "Confirm" action confirms the appointment in
+ * place, posting a notification if that fails; a plain tap returns the
+ * appointment id so the caller can open it.
+ */
+export const handleReminderResponse = async (response: Notifications.NotificationResponse) => {
+  const data = response.notification.request.content.data as Partial<ReminderData> | null;
+  if (data?.type !== 'appointment_reminder' || !data.appointmentId) return null;
+
+  if (response.actionIdentifier === CONFIRM_APPOINTMENT_ACTION) {
+    const { data: updated, error } = await supabase
+      .from('appointments')
+      .update({ status: 'confirmed' })
+      .eq('id', data.appointmentId)
+      .eq('status', 'scheduled')
+      .select('id');
+
+    if (!error && updated && updated.length > 0) return null;
+
+    // Nothing changed: fine if someone already confirmed, otherwise the update was refused
+    if (!error) {
+      const { data: current } = await supabase
+        .from('appointments')
+        .select('status')
+        .eq('id', data.appointmentId)
+        .maybeSingle();
+      if (current?.status === 'confirmed') return null;
+    }
+
+    console.error('Error confirming appointment from notification:', error ?? 'no rows updated');
+    // The action runs without opening the app, so the failure is reported as a notification
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: 'Appointment not confirmed',
+        body: 'We could not confirm this appointment. Tap to open it and try again.',
+        data: { type: 'appointment_reminder', appointmentId: data.appointmentId } satisfies ReminderData,
+      },
+      trigger: null,
+    });
+    return null;
+  }
+
+  return data.appointmentId;
+};
+
+// Tapping a dose reminder opens the baby's profile, where the dose is logged
+export const getMedicationReminderBabyId = (response: Notifications.NotificationResponse) => {
+  const data = response.notification.request.content.data as Partial<MedicationReminderData> | null;
+  return data?.type === 'medication_reminder' && data.babyId ? data.babyId : null;
+};
@@ -0,0 +1,185 @@
+import type { Baby, User } from '@/types/database';
+
+export type Role = User['role'];
+
+export type Permission =
+  | 'dashboard.view'
+  | 'settings.view'
+  | 'patients.list'
+  | 'patients.view'
+  | 'patients.create'
+  | 'patients.update'
+  | 'patients.assign_doctor'
+  | 'medical_info.update'
+  | 'babies.list'
+  | 'growth.view'
+  | 'vitals.record'
+  | 'immunizations.record'
+  | 'allergies.manage'
+  | 'medications.prescribe'
+  | 'medications.log_dose'
+  | 'milestones.update'
+  | 'milestones.review'
+  | 'care_logs.view'
+  | 'care_logs.manage'
+  | 'notes.view'
+  | 'notes.write'
+  | 'problems.view'
+  | 'problems.manage'
+  | 'appointments.view'
+  | 'appointments.book'
+  | 'availability.manage'
+  | 'messages.view'
+  | 'tasks.manage'
+  | 'staff.manage'
+  | 'reports.view';
+
+/**
+ * Which babies a permission covers: every baby, the babies assigned to the
+ * doctor, or the babies linked to the parent. Permissions that are not about
+ * a baby use 'all'.
+ */
+export type PermissionScope = 'all' | 'assigned' | 'own';
+
+/**
+ * The baby a permission is checked against. Records loaded without their
+ * parent links have already been filtered by row level security, so a
+ * missing `parent_babies` list is not treated as a denial.
+ */
+export type PermissionTarget = Pick<Baby, 'assigned_doctor_id'> & {
+  parent_babies?: { parent_id: string }[];
+};
+
+const CLINIC_STAFF_PERMISSIONS: Partial<Record<Permission, PermissionScope>> = {
+  'dashboard.view': 'all',
+  'settings.view': 'all',
+  'patients.list': 'all',
+  'patients.view': 'all',
+  'patients.create': 'all',
+  'patients.update': 'all',
+  'vitals.record': 'all',
+  'immunizations.record': 'all',
+  'allergies.manage': 'all',
+  'medications.log_dose': 'all',
+  'milestones.update': 'all',
+  'notes.view': 'all',
+  'problems.view': 'all',
+  'appointments.view': 'all',
+  'appointments.book': 'all',
+  'tasks.manage': 'all',
+};
+
+const CLINICIAN_PERMISSIONS: Partial<Record<Permission, PermissionScope>> = {
+  ...CLINIC_STAFF_PERMISSIONS,
+  'medical_info.update': 'all',
+  'medications.prescribe': 'all',
+  'milestones.review': 'all',
+  'notes.write': 'all',
+  'problems.manage': 'all',
+  'availability.manage': 'all',
+};
+
+/**
+ * The permission matrix. Keep in step with the `role_permissions` table,
+ * which row level security policies check through `has_permission()`.
+ */
+export const ROLE_PERMISSIONS: Record<Role, Partial<Record<Permission, PermissionScope>>> = {
+  admin: {
+    ...CLINICIAN_PERMISSIONS,
+    'patients.assign_doctor': 'all',
+    'staff.manage': 'all',
+    'messages.view': 'all',
+    'reports.view': 'all',
+  },
+  doctor: {
+    ...CLINICIAN_PERMISSIONS,
+    'care_logs.view': 'assigned',
+    'messages.view': 'all',
+    'reports.view': 'assigned',
+  },
+  staff: {
+    ...CLINIC_STAFF_PERMISSIONS,
+    'messages.view': 'all',
+  },
+  parent: {
+    'dashboard.view': 'all',
+    'settings.view': 'all',
+    'patients.view': 'own',
+    'patients.update': 'own',
+    'babies.list': 'own',
+    'growth.view': 'own',
+    'medications.log_dose': 'own',
+    'milestones.update': 'own',
+    'care_logs.view': 'own',
+    'care_logs.manage': 'own',
+    'appointments.view': 'own',
+    'appointments.book': 'own',
+    'messages.view': 'own',
+  },
+};
+
+export const getPermissionScope = (
+  user: Pick<User, 'role' | 'is_active'> | null | undefined,
+  permission: Permission
+): PermissionScope | null => {
+  if (!user || user.is_active === false) return null;
+  return ROLE_PERMISSIONS[user.role]?.[permission] ?? null;
+};
+
+/**
+ * Whether the user may perform an action, optionally for a specific baby.
+ * Without a target this answers whether the user can do it for any baby,
+ * which is what navigation and list screens need.
+ */
+export const can = (
+  user: Pick<User, 'id' | 'role' | 'is_active'> | null | undefined,
+  permission: Permission,
+  target?: PermissionTarget | null
+) => {
+  const scope = getPermissionScope(user, permission);
+  if (!user || !scope) return false;
+  if (scope === 'all' || !target) return true;
+
+  if (scope === 'assigned') {
+    return target.assigned_doctor_id === user.id;
+  }
+  return !target.parent_babies || target.parent_babies.some(link => link.parent_id === user.id);
+};
+
+/**
+ * Permission needed to open each route, keyed by its expo-router segments.
+ * Routes that are not listed are open to every signed in user.
+ */
+export const ROUTE_PERMISSIONS: Record<string, Permission> = {
+  '(tabs)': 'dashboard.view',
+  '(tabs)/patients': 'patients.list',
+  '(tabs)/babies': 'babies.list',
+  '(tabs)/staff': 'staff.manage',
+  '(tabs)/appointments': 'appointments.view',
+  '(tabs)/messages': 'messages.view',
+  '(tabs)/tasks': 'tasks.manage',
+  '(tabs)/growth': 'growth.view',
+  '(tabs)/reports': 'reports.view',
+  '(tabs)/settings': 'settings.view',
+  'patient/[id]': 'patients.list',
+  'baby/[id]': 'patients.view',
+  'add-patient': 'patients.create',
+  'add-baby': 'patients.create',
+  'record-vitals': 'vitals.record',
+  'record-immunization': 'immunizations.record',
+  'allergy': 'allergies.manage',
+  'prescribe-medication': 'medications.prescribe',
+  'encounter-note': 'notes.view',
+  'care-log/[babyId]': 'care_logs.view',
+  'availability': 'availability.manage',
+  'appointment/[id]': 'appointments.view',
+  'book-appointment': 'appointments.book',
+  'compose-message': 'messages.view',
+  'conversation/[id]': 'messages.view',
+};
+
+export const getRoutePermission = (segments: string[]) => {
+  // '(tabs)/index' and '(tabs)' are the same screen
+  const key = segments.filter(segment => segment !== 'index').join('/');
+  return ROUTE_PERMISSIONS[key] ?? null;
+};
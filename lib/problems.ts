@@ -0,0 +1,51 @@
+import type { Problem } from '@/types/database';
+
+export type ProblemStatus = Problem['status'];
+
+export interface ProblemCode {
+  code: string;
+  description: string;
+}
+
+/**
+ * ICD-10-CM codes for conditions commonly seen in the clinic, bundled so the
+ * problem list can be coded offline. Problems outside this list are recorded
+ * as free text without a code.
+ */
+export const PROBLEM_CODES: ProblemCode[] = [
+  { code: 'A08.4', description: 'Viral gastroenteritis' },
+  { code: 'B37.0', description: 'Oral thrush (candidal stomatitis)' },
+  { code: 'H10.9', description: 'Conjunctivitis' },
+  { code: 'H66.90', description: 'Otitis media' },
+  { code: 'J06.9', description: 'Upper respiratory tract infection' },
+  { code: 'J21.9', description: 'Bronchiolitis' },
+  { code: 'K21.9', description: 'Gastro-oesophageal reflux disease' },
+  { code: 'K42.9', description: 'Umbilical hernia' },
+  { code: 'K59.00', description: 'Constipation' },
+  { code: 'L20.9', description: 'Atopic dermatitis (eczema)' },
+  { code: 'L21.0', description: 'Cradle cap (seborrhoea capitis)' },
+  { code: 'L22', description: 'Diaper dermatitis' },
+  { code: 'P07.30', description: 'Preterm newborn' },
+  { code: 'P59.9', description: 'Neonatal jaundice' },
+  { code: 'R05.9', description: 'Cough' },
+  { code: 'R11.10', description: 'Vomiting' },
+  { code: 'R50.9', description: 'Fever' },
+  { code: 'R62.51', description: 'Failure to thrive' },
+  { code: 'R63.3', description: 'Feeding difficulties' },
+];
+
+export const PROBLEM_STATUS_LABELS: Record<ProblemStatus, string> = {
+  active: 'Active',
+  resolved: 'Resolved',
+};
+
+export const searchProblemCodes = (query: string) => {
+  const value = query.trim().toLowerCase();
+  if (!value) return PROBLEM_CODES;
+  return PROBLEM_CODES.filter(
+    problem => problem.code.toLowerCase().startsWith(value) || problem.description.toLowerCase().includes(value)
+  );
+};
+
+export const formatProblem = (problem: Pick<Problem, 'code' | 'description'>) =>
+  problem.code ? `${problem.description} (${problem.code})` : problem.description;
@@ -0,0 +1,138 @@
+import type { QueryData } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+
+// Queries for the joined shapes shared by several screens. Each result type
+// is inferred from its select list, so renaming a column or relationship in
+// the schema fails the type check instead of rendering blanks. Add filters,
+// ordering and `.single()` at the call site.
+
+export const BABY_WITH_ALLERGIES = '*, allergies (*)';
+export const BABY_WITH_VITALS = '*, vital_records (*)';
+
+export const selectBabiesWithAllergies = () => supabase.from('babies').select(BABY_WITH_ALLERGIES);
+export type BabyWithAllergies = QueryData<ReturnType<typeof selectBabiesWithAllergies>>[number];
+
+export const selectBabiesWithVitals = () => supabase.from('babies').select(BABY_WITH_VITALS);
+export type BabyWithVitals = QueryData<ReturnType<typeof selectBabiesWithVitals>>[number];
+
+export const selectPatients = () =>
+  supabase.from('babies').select(`
+    *,
+    assigned_doctor:user_profiles!babies_assigned_doctor_id_fkey (first_name, last_name),
+    vital_records (*),
+    allergies (*)
+  `);
+export type Patient = QueryData<ReturnType<typeof selectPatients>>[number];
+
+// Everything the baby profile and the clinical chart show about one baby
+export const selectPatientCharts = () =>
+  supabase.from('babies').select(`
+    *,
+    assigned_doctor:user_profiles!babies_assigned_doctor_id_fkey (id, first_name, last_name),
+    parent_babies (
+      parent_id,
+      relationship,
+      parent:user_profiles!parent_babies_parent_id_fkey (id, first_name, last_name, email, phone)
+    ),
+    vital_records (*),
+    allergies (*)
+  `);
+export type PatientChart = QueryData<ReturnType<typeof selectPatientCharts>>[number];
+
+export const selectAppointmentsWithDoctor = () =>
+  supabase.from('appointments').select(`
+    *,
+    doctor:user_profiles!appointments_doctor_id_fkey (first_name, last_name)
+  `);
+export type AppointmentWithDoctor = QueryData<ReturnType<typeof selectAppointmentsWithDoctor>>[number];
+
+export const selectAppointmentListItems = () =>
+  supabase.from('appointments').select(`
+    *,
+    baby:babies (first_name, last_name),
+    doctor:user_profiles!appointments_doctor_id_fkey (first_name, last_name),
+    parent:user_profiles!appointments_parent_id_fkey (first_name, last_name)
+  `);
+export type AppointmentListItem = QueryData<ReturnType<typeof selectAppointmentListItems>>[number];
+
+export const selectAppointmentDetails = () =>
+  supabase.from('appointments').select(`
+    *,
+    baby:babies (id, first_name, last_name, allergies (*)),
+    doctor:user_profiles!appointments_doctor_id_fkey (first_name, last_name),
+    parent:user_profiles!appointments_parent_id_fkey (first_name, last_name, phone)
+  `);
+export type AppointmentDetail = QueryData<ReturnType<typeof selectAppointmentDetails>>[number];
+
+export const selectAppointmentHistory = () =>
+  supabase.from('appointment_status_history').select(`
+    *,
+    changed_by_user:user_profiles!appointment_status_history_changed_by_fkey (first_name, last_name, role)
+  `);
+export type AppointmentHistoryEntry = QueryData<ReturnType<typeof selectAppointmentHistory>>[number];
+
+export const selectMessagesWithSender = () =>
+  supabase.from('messages').select(`
+    *,
+    sender:user_profiles!messages_sender_id_fkey (first_name, last_name, role)
+  `);
+export type MessageWithSender = QueryData<ReturnType<typeof selectMessagesWithSender>>[number];
+
+// Pair with `.limit(1, { referencedTable: 'messages' })` to load only the latest message
+export const selectConversationThreads = () =>
+  supabase.from('conversations').select(`
+    *,
+    parent:user_profiles!conversations_parent_id_fkey (first_name, last_name),
+    baby:babies (first_name, last_name),
+    assignee:user_profiles!conversations_assigned_to_fkey (first_name, last_name),
+    messages (
+      id,
+      content,
+      message_type,
+      sent_at,
+      sender_id,
+      sender:user_profiles!messages_sender_id_fkey (first_name, last_name, role)
+    )
+  `);
+export type ConversationThread = QueryData<ReturnType<typeof selectConversationThreads>>[number];
+
+export const selectConversationDetails = () =>
+  supabase.from('conversations').select(`
+    *,
+    parent:user_profiles!conversations_parent_id_fkey (first_name, last_name),
+    baby:babies (id, first_name, last_name),
+    assignee:user_profiles!conversations_assigned_to_fkey (first_name, last_name)
+  `);
+export type ConversationDetail = QueryData<ReturnType<typeof selectConversationDetails>>[number];
+
+export const selectTasksWithDetails = () =>
+  supabase.from('tasks').select(`
+    *,
+    baby:babies (first_name, last_name),
+    assignee:user_profiles!tasks_assigned_to_fkey (first_name, last_name)
+  `);
+export type TaskWithDetails = QueryData<ReturnType<typeof selectTasksWithDetails>>[number];
+
+export const selectEncounterNotesWithVersions = () =>
+  supabase.from('encounter_notes').select(`
+    *,
+    versions:encounter_note_versions (
+      *,
+      author:user_profiles!encounter_note_versions_author_id_fkey (first_name, last_name),
+      signer:user_profiles!encounter_note_versions_signed_by_fkey (first_name, last_name)
+    )
+  `);
+export type EncounterNoteWithVersions = QueryData<ReturnType<typeof selectEncounterNotesWithVersions>>[number];
+
+export const selectEncounterNoteSummaries = () =>
+  supabase.from('encounter_notes').select(`
+    *,
+    appointment:appointments (appointment_date, type),
+    author:user_profiles!encounter_notes_author_id_fkey (first_name, last_name),
+    versions:encounter_note_versions (version, assessment, signed_at)
+  `);
+export type EncounterNoteSummary = QueryData<ReturnType<typeof selectEncounterNoteSummaries>>[number];
+
+export const selectPrescriptionsWithDoses = () =>
+  supabase.from('prescriptions').select('*, doses:medication_doses (id, given_at, dose_mg)');
+export type PrescriptionWithDoses = QueryData<ReturnType<typeof selectPrescriptionsWithDoses>>[number];
@@ -0,0 +1,134 @@
+import type { Appointment, DoctorSchedule, DoctorTimeOff } from '@/types/database';
+
+export type AppointmentType = Appointment['type'];
+
+// Default visit length for each appointment type, in minutes
+export const APPOINTMENT_DURATIONS: Record<AppointmentType, number> = {
+  checkup: 30,
+  vaccination: 15,
+  consultation: 45,
+  emergency: 30,
+};
+
+export const APPOINTMENT_TYPE_LABELS: Record<AppointmentType, string> = {
+  checkup: 'Check-up',
+  vaccination: 'Vaccination',
+  consultation: 'Consultation',
+  emergency: 'Emergency',
+};
+
+export const SLOT_INTERVAL_MINUTES = 15;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export interface BusyTime {
+  starts_at: string;
+  ends_at: string;
+}
+
+// "09:30" or "09:30:00" -> minutes since midnight
+export const parseTimeOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const formatTimeOfDay = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+export const rangesOverlap = (a: TimeRange, b: TimeRange) =>
+  a.start.getTime() < b.end.getTime() && b.start.getTime() < a.end.getTime();
+
+// Milliseconds `timeZone` is ahead of UTC at the given instant
+const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - (date.getTime() - date.getUTCMilliseconds());
+};
+
+// The instant at `minutes` past midnight on the calendar date of `day`, read as a
+// wall-clock time in `timeZone`
+const atMinutes = (day: Date, minutes: number, timeZone: string) => {
+  const wallClock = Date.UTC(day.getFullYear(), day.getMonth(), day.getDate(), 0, minutes);
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  // Re-read the offset at the guess in case a daylight saving change lies in between
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone));
+};
+
+/**
+ * Lists the start times on `day` where a visit of `durationMinutes` fits inside the
+ * doctor's working hours, outside their break and time off, and does not overlap any
+ * busy appointment. Working hours are read in the schedule's own time zone, as the
+ * database does when it validates the booking, so the slots are correct wherever
+ * the device is.
+ */
+export const findAvailableSlots = ({
+  day,
+  durationMinutes,
+  schedules,
+  timeOff,
+  busy,
+  now = new Date(),
+}: {
+  day: Date;
+  durationMinutes: number;
+  schedules: DoctorSchedule[];
+  timeOff: DoctorTimeOff[];
+  busy: BusyTime[];
+  now?: Date;
+}): Date[] => {
+  const schedule = schedules.find(s => s.weekday === day.getDay());
+  if (!schedule) return [];
+
+  const dayStart = parseTimeOfDay(schedule.start_time);
+  const dayEnd = parseTimeOfDay(schedule.end_time);
+  const blocked: TimeRange[] = [
+    ...timeOff.map(t => ({ start: new Date(t.starts_at), end: new Date(t.ends_at) })),
+    ...busy.map(b => ({ start: new Date(b.starts_at), end: new Date(b.ends_at) })),
+  ];
+
+  if (schedule.break_start && schedule.break_end) {
+    blocked.push({
+      start: atMinutes(day, parseTimeOfDay(schedule.break_start), schedule.timezone),
+      end: atMinutes(day, parseTimeOfDay(schedule.break_end), schedule.timezone),
+    });
+  }
+
+  const slots: Date[] = [];
+  for (let minutes = dayStart; minutes + durationMinutes <= dayEnd; minutes += SLOT_INTERVAL_MINUTES) {
+    const slot = {
+      start: atMinutes(day, minutes, schedule.timezone),
+      end: atMinutes(day, minutes + durationMinutes, schedule.timezone),
+    };
+
+    if (slot.start <= now) continue;
+    if (blocked.some(range => rangesOverlap(slot, range))) continue;
+
+    slots.push(slot.start);
+  }
+
+  return slots;
+};
+
+// Maps the errors raised by validate_appointment_slot to a message for the user
+export const getBookingErrorMessage = (error: { code?: string; message?: string }) => {
+  if (error.code === '23P01' || error.code === '23514') {
+    return error.message || 'This time is no longer available.';
+  }
+  return 'Could not book the appointment. Please try again.';
+};
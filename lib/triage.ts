@@ -0,0 +1,111 @@
+import type { Conversation } from '@/types/database';
+
+export type Urgency = Conversation['urgency'];
+export type TriageStatus = Conversation['triage_status'];
+
+export const URGENCY_LEVELS: Urgency[] = ['routine', 'priority', 'urgent'];
+
+export const URGENCY_LABELS: Record<Urgency, string> = {
+  routine: 'Routine',
+  priority: 'Priority',
+  urgent: 'Urgent',
+};
+
+export const TRIAGE_STATUS_LABELS: Record<TriageStatus, string> = {
+  open: 'In Queue',
+  assigned: 'Assigned',
+  resolved: 'Resolved',
+};
+
+// Mirrors sla_interval() in the triage migration
+export const SLA_MINUTES: Record<Urgency, number> = {
+  routine: 24 * 60,
+  priority: 4 * 60,
+  urgent: 30,
+};
+
+export const SLA_PRESETS = [
+  { label: '30 min', minutes: 30 },
+  { label: '1 hour', minutes: 60 },
+  { label: '4 hours', minutes: 4 * 60 },
+  { label: 'Today', minutes: 8 * 60 },
+  { label: '24 hours', minutes: 24 * 60 },
+];
+
+export const EMERGENCY_NUMBER = '911';
+
+export const FEVER_THRESHOLD_C = 38;
+export const FEVER_THRESHOLD_F = 100.4;
+
+export const URGENT_FLAG_LABELS: Record<string, string> = {
+  breathing: 'Breathing difficulty',
+  seizure: 'Seizure',
+  responsiveness: 'Hard to wake or floppy',
+  bleeding: 'Bleeding',
+  dehydration: 'Signs of dehydration',
+  ingestion: 'Swallowed something or choking',
+  fever: 'High fever',
+};
+
+// Keep in sync with detect_urgent_flags() in the triage migration
+const URGENT_PATTERNS: { flag: string; pattern: RegExp }[] = [
+  {
+    flag: 'breathing',
+    pattern: /(trouble|difficulty|hard|struggling|stopped|not) (breathing|to breathe)|can'?t breathe|gasping|turning blue|blue lips/,
+  },
+  { flag: 'seizure', pattern: /seizure|convuls|fitting/ },
+  { flag: 'responsiveness', pattern: /unresponsive|won'?t wake|hard to wake|floppy|limp/ },
+  { flag: 'bleeding', pattern: /blood|bleeding/ },
+  { flag: 'dehydration', pattern: /no wet (diaper|nappy)|dehydrat|sunken/ },
+  { flag: 'ingestion', pattern: /swallowed|poison|chok/ },
+];
+
+const hasFeverReading = (body: string) => {
+  if (!/fever|temp/.test(body)) return false;
+
+  const readings = body.match(/\d{2,3}(?:[.,]\d+)?/g) || [];
+  return readings
+    .map(reading => parseFloat(reading.replace(',', '.')))
+    .some(value =>
+      (value >= FEVER_THRESHOLD_C && value <= 45) || (value >= FEVER_THRESHOLD_F && value <= 113)
+    );
+};
+
+/**
+ * Finds warning signs in a parent's message. The server runs the same rules
+ * when the message is saved; this copy lets the app show emergency guidance
+ * before it is sent.
+ */
+export const detectUrgentFlags = (content: string) => {
+  const body = content.toLowerCase();
+  const flags = URGENT_PATTERNS.filter(({ pattern }) => pattern.test(body)).map(({ flag }) => flag);
+  if (hasFeverReading(body)) flags.push('fever');
+  return flags;
+};
+
+export const getUrgencyColor = (urgency: Urgency) => {
+  switch (urgency) {
+    case 'urgent':
+      return '#ef4444';
+    case 'priority':
+      return '#f59e0b';
+    default:
+      return '#64748b';
+  }
+};
+
+/**
+ * Describes the reply deadline for a thread, e.g. "Reply due in 3h" or
+ * "Overdue by 20m". Returns null when nothing is waiting on the care team.
+ */
+export const describeSla = (slaDueAt: string | null | undefined, now = new Date()) => {
+  if (!slaDueAt) return null;
+
+  const diffMinutes = Math.round((new Date(slaDueAt).getTime() - now.getTime()) / (60 * 1000));
+  const format = (minutes: number) =>
+    minutes >= 60 ? `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}` : `${minutes}m`;
+
+  return diffMinutes < 0
+    ? { overdue: true, text: `Overdue by ${format(-diffMinutes)}` }
+    : { overdue: false, text: `Reply due in ${format(diffMinutes)}` };
+};
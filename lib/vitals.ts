@@ -0,0 +1,260 @@
+import { calculateGrowthMeasurement, getAgeInDays, getAgeInMonths } from '@/lib/growthStandards';
+import type { Baby, VitalRecord } from '@/types/database';
+
+export type WeightUnit = 'kg' | 'lb';
+export type LengthUnit = 'cm' | 'in';
+
+const KG_PER_LB = 0.45359237;
+const CM_PER_IN = 2.54;
+
+export const toKilograms = (value: number, unit: WeightUnit) =>
+  unit === 'kg' ? value : value * KG_PER_LB;
+
+export const fromKilograms = (value: number, unit: WeightUnit) =>
+  unit === 'kg' ? value : value / KG_PER_LB;
+
+export const toCentimeters = (value: number, unit: LengthUnit) =>
+  unit === 'cm' ? value : value * CM_PER_IN;
+
+export const fromCentimeters = (value: number, unit: LengthUnit) =>
+  unit === 'cm' ? value : value / CM_PER_IN;
+
+export type VitalField =
+  | 'weight'
+  | 'height'
+  | 'head_circumference'
+  | 'temperature'
+  | 'heart_rate'
+  | 'respiratory_rate'
+  | 'oxygen_saturation';
+
+// Values entered on the form, already converted to kg/cm
+export type VitalInput = Partial<Record<VitalField, number>>;
+
+// Issues about when the record was taken are reported against its date
+export interface VitalIssue {
+  field: VitalField | 'recorded_at';
+  level: 'error' | 'warning';
+  message: string;
+}
+
+interface AgeRange {
+  maxAgeMonths: number;
+  heartRate: [number, number];
+  respiratoryRate: [number, number];
+}
+
+// Normal resting ranges by age (PALS reference values)
+const AGE_RANGES: AgeRange[] = [
+  { maxAgeMonths: 1, heartRate: [100, 205], respiratoryRate: [30, 60] },
+  { maxAgeMonths: 12, heartRate: [100, 180], respiratoryRate: [30, 53] },
+  { maxAgeMonths: 36, heartRate: [98, 140], respiratoryRate: [22, 37] },
+  { maxAgeMonths: 72, heartRate: [80, 120], respiratoryRate: [20, 28] },
+  { maxAgeMonths: 144, heartRate: [75, 118], respiratoryRate: [18, 25] },
+  { maxAgeMonths: Infinity, heartRate: [60, 100], respiratoryRate: [12, 20] },
+];
+
+// Anything outside these bounds is a data-entry error rather than a sick child
+const PLAUSIBLE_BOUNDS: Record<VitalField, [number, number]> = {
+  weight: [0.3, 150],
+  height: [20, 220],
+  head_circumference: [20, 70],
+  temperature: [30, 43],
+  heart_rate: [30, 300],
+  respiratory_rate: [5, 120],
+  oxygen_saturation: [50, 100],
+};
+
+export const VITAL_LABELS: Record<VitalField, string> = {
+  weight: 'Weight',
+  height: 'Length/height',
+  head_circumference: 'Head circumference',
+  temperature: 'Temperature',
+  heart_rate: 'Heart rate',
+  respiratory_rate: 'Respiratory rate',
+  oxygen_saturation: 'SpO2',
+};
+
+export const getAgeRange = (ageInMonths: number) =>
+  AGE_RANGES.find(range => ageInMonths < range.maxAgeMonths) ?? AGE_RANGES[AGE_RANGES.length - 1];
+
+const checkGrowthValue = (
+  issues: VitalIssue[],
+  field: 'weight' | 'height' | 'head_circumference',
+  baby: Pick<Baby, 'birth_date' | 'gender'>,
+  ageInMonths: number,
+  value: number
+) => {
+  const indicator =
+    field === 'weight'
+      ? 'weight_for_age'
+      : field === 'height'
+        ? 'length_for_age'
+        : 'head_circumference_for_age';
+  const measurement = calculateGrowthMeasurement(indicator, baby.gender, ageInMonths, value);
+  if (!measurement) return;
+
+  if (Math.abs(measurement.zScore) > 5) {
+    issues.push({
+      field,
+      level: 'error',
+      message: `${VITAL_LABELS[field]} is more than 5 SD from the norm for this age. Check the value and unit.`,
+    });
+  } else if (Math.abs(measurement.zScore) > 3) {
+    issues.push({
+      field,
+      level: 'warning',
+      message: `${VITAL_LABELS[field]} is more than 3 SD from the norm for this age.`,
+    });
+  }
+};
+
+const checkAgainstPrevious = (
+  issues: VitalIssue[],
+  input: VitalInput,
+  previous: VitalRecord,
+  recordedAt: Date
+) => {
+  const days = Math.max(
+    (recordedAt.getTime() - new Date(previous.recorded_at).getTime()) / 86400000,
+    1
+  );
+
+  if (input.weight != null && previous.weight) {
+    const change = (input.weight - previous.weight) / previous.weight;
+    // Newborns can gain over 1% of body weight a day, so allow 1.5%/day over longer gaps
+    const allowed = Math.max(0.1, days * 0.015);
+    if (Math.abs(change) > allowed) {
+      issues.push({
+        field: 'weight',
+        level: 'warning',
+        message: `Weight changed ${(change * 100).toFixed(0)}% since ${previous.weight} kg ${Math.round(days)} days ago.`,
+      });
+    }
+  }
+
+  if (input.height != null && previous.height) {
+    const change = input.height - previous.height;
+    if (change < -1.5) {
+      issues.push({
+        field: 'height',
+        level: 'warning',
+        message: `Length is ${Math.abs(change).toFixed(1)} cm shorter than the previous ${previous.height} cm.`,
+      });
+    } else if (change > Math.max(2, (days / 30) * 5)) {
+      issues.push({
+        field: 'height',
+        level: 'warning',
+        message: `Length increased ${change.toFixed(1)} cm in ${Math.round(days)} days, which is faster than expected.`,
+      });
+    }
+  }
+
+  if (input.head_circumference != null && previous.head_circumference) {
+    const change = input.head_circumference - previous.head_circumference;
+    if (change < -1) {
+      issues.push({
+        field: 'head_circumference',
+        level: 'warning',
+        message: `Head circumference is ${Math.abs(change).toFixed(1)} cm smaller than the previous ${previous.head_circumference} cm.`,
+      });
+    } else if (change > Math.max(1.5, (days / 30) * 3)) {
+      issues.push({
+        field: 'head_circumference',
+        level: 'warning',
+        message: `Head circumference increased ${change.toFixed(1)} cm in ${Math.round(days)} days, which is faster than expected.`,
+      });
+    }
+  }
+};
+
+export const validateVitals = (
+  baby: Pick<Baby, 'birth_date' | 'gender'>,
+  input: VitalInput,
+  previous?: VitalRecord | null,
+  recordedAt: Date = new Date()
+): VitalIssue[] => {
+  const issues: VitalIssue[] = [];
+  const ageInMonths = getAgeInMonths(baby.birth_date, recordedAt);
+
+  if (getAgeInDays(baby.birth_date, recordedAt) < 0) {
+    return [{ field: 'recorded_at', level: 'error', message: 'Recording date is before the birth date.' }];
+  }
+
+  (Object.keys(input) as VitalField[]).forEach(field => {
+    const value = input[field];
+    if (value == null) return;
+    const [min, max] = PLAUSIBLE_BOUNDS[field];
+    if (Number.isNaN(value) || value < min || value > max) {
+      issues.push({
+        field,
+        level: 'error',
+        message: `${VITAL_LABELS[field]} must be between ${min} and ${max}.`,
+      });
+    }
+  });
+  // Range errors make the remaining checks meaningless
+  if (issues.length > 0) return issues;
+
+  if (input.weight != null) checkGrowthValue(issues, 'weight', baby, ageInMonths, input.weight);
+  if (input.height != null) checkGrowthValue(issues, 'height', baby, ageInMonths, input.height);
+  if (input.head_circumference != null) {
+    checkGrowthValue(issues, 'head_circumference', baby, ageInMonths, input.head_circumference);
+  }
+
+  const range = getAgeRange(ageInMonths);
+
+  if (input.heart_rate != null) {
+    const [low, high] = range.heartRate;
+    if (input.heart_rate < low || input.heart_rate > high) {
+      issues.push({
+        field: 'heart_rate',
+        level: 'warning',
+        message: `Heart rate is outside the normal ${low}–${high} bpm for this age.`,
+      });
+    }
+  }
+
+  if (input.respiratory_rate != null) {
+    const [low, high] = range.respiratoryRate;
+    if (input.respiratory_rate < low || input.respiratory_rate > high) {
+      issues.push({
+        field: 'respiratory_rate',
+        level: 'warning',
+        message: `Respiratory rate is outside the normal ${low}–${high} breaths/min for this age.`,
+      });
+    }
+  }
+
+  if (input.temperature != null) {
+    if (input.temperature >= 38) {
+      issues.push({
+        field: 'temperature',
+        level: 'warning',
+        message:
+          ageInMonths < 3
+            ? 'Fever in an infant under 3 months needs same-day medical evaluation.'
+            : 'Temperature indicates a fever (38 °C or above).',
+      });
+    } else if (input.temperature < 36) {
+      issues.push({ field: 'temperature', level: 'warning', message: 'Temperature is below 36 °C.' });
+    }
+  }
+
+  if (input.oxygen_saturation != null && input.oxygen_saturation < 95) {
+    issues.push({
+      field: 'oxygen_saturation',
+      level: 'warning',
+      message:
+        input.oxygen_saturation < 90
+          ? 'SpO2 below 90% — escalate immediately.'
+          : 'SpO2 is below the normal 95%.',
+    });
+  }
+
+  if (previous) {
+    checkAgainstPrevious(issues, input, previous, recordedAt);
+  }
+
+  return issues;
+};
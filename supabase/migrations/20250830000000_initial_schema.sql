@@ -0,0 +1,388 @@
+/*
+  # Initial Schema
+
+  1. Types
+    - `user_role`: admin, doctor, staff or parent
+    - `appointment_status`: scheduled, confirmed, completed or cancelled
+
+  2. New Tables
+    - `user_profiles`: one row per auth user with their role and contact details
+    - `babies`: patient records with measurements, medical notes and the
+      assigned doctor
+    - `parent_babies`: links parents to their babies with the relationship
+    - `vital_records`: weight, height, temperature, heart rate and feeding notes
+    - `appointments`: visits booked for a baby with a doctor
+    - `messages`: direct messages between parents and the clinic
+
+  3. Foreign Keys
+    - Constraint names are fixed because the app embeds related rows through
+      them, e.g. `user_profiles!appointments_doctor_id_fkey`
+
+  4. Security
+    - RLS enabled on every table
+    - Everyone can read their own profile and the profiles of clinic staff;
+      clinic roles can read every profile
+    - Parents can read their own babies, links, vitals, appointments and
+      messages, and book appointments for their babies
+    - Clinic roles (admin, doctor, staff) can read and manage all patient data
+*/
+
+CREATE TYPE user_role AS ENUM ('admin', 'doctor', 'staff', 'parent');
+CREATE TYPE appointment_status AS ENUM ('scheduled', 'confirmed', 'completed', 'cancelled');
+
+CREATE TABLE IF NOT EXISTS user_profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role user_role NOT NULL DEFAULT 'parent',
+  first_name text NOT NULL DEFAULT '',
+  last_name text NOT NULL DEFAULT '',
+  phone text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS babies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  first_name text NOT NULL,
+  last_name text NOT NULL,
+  birth_date date NOT NULL,
+  gender text NOT NULL CHECK (gender IN ('male', 'female', 'other')),
+  current_weight numeric(5,2) CHECK (current_weight IS NULL OR current_weight > 0),
+  current_height numeric(5,2) CHECK (current_height IS NULL OR current_height > 0),
+  blood_type text,
+  allergies text[] NOT NULL DEFAULT '{}',
+  medical_notes text,
+  assigned_doctor_id uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT babies_assigned_doctor_id_fkey
+    FOREIGN KEY (assigned_doctor_id) REFERENCES user_profiles(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS parent_babies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_id uuid NOT NULL,
+  baby_id uuid NOT NULL REFERENCES babies(id) ON DELETE CASCADE,
+  relationship text NOT NULL DEFAULT 'guardian' CHECK (relationship IN ('mother', 'father', 'guardian')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT parent_babies_parent_id_fkey
+    FOREIGN KEY (parent_id) REFERENCES user_profiles(id) ON DELETE CASCADE,
+  UNIQUE (parent_id, baby_id)
+);
+
+CREATE TABLE IF NOT EXISTS vital_records (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  baby_id uuid NOT NULL REFERENCES babies(id) ON DELETE CASCADE,
+  weight numeric(5,2) CHECK (weight IS NULL OR weight > 0),
+  height numeric(5,2) CHECK (height IS NULL OR height > 0),
+  temperature numeric(4,1) CHECK (temperature IS NULL OR temperature BETWEEN 30 AND 45),
+  heart_rate integer CHECK (heart_rate IS NULL OR heart_rate > 0),
+  feeding_time text,
+  notes text,
+  recorded_by uuid NOT NULL REFERENCES user_profiles(id),
+  recorded_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS appointments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  baby_id uuid NOT NULL REFERENCES babies(id) ON DELETE CASCADE,
+  doctor_id uuid NOT NULL,
+  parent_id uuid NOT NULL,
+  appointment_date timestamptz NOT NULL,
+  duration_minutes integer NOT NULL DEFAULT 30 CHECK (duration_minutes > 0),
+  type text NOT NULL DEFAULT 'checkup' CHECK (type IN ('checkup', 'vaccination', 'consultation', 'emergency')),
+  status appointment_status NOT NULL DEFAULT 'scheduled',
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT appointments_doctor_id_fkey
+    FOREIGN KEY (doctor_id) REFERENCES user_profiles(id),
+  CONSTRAINT appointments_parent_id_fkey
+    FOREIGN KEY (parent_id) REFERENCES user_profiles(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sender_id uuid NOT NULL,
+  recipient_id uuid NOT NULL,
+  baby_id uuid REFERENCES babies(id) ON DELETE SET NULL,
+  content text NOT NULL,
+  message_type text NOT NULL DEFAULT 'text' CHECK (message_type IN ('text', 'image', 'document')),
+  is_read boolean NOT NULL DEFAULT false,
+  sent_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT messages_sender_id_fkey
+    FOREIGN KEY (sender_id) REFERENCES user_profiles(id) ON DELETE CASCADE,
+  CONSTRAINT messages_recipient_id_fkey
+    FOREIGN KEY (recipient_id) REFERENCES user_profiles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS user_profiles_role_idx ON user_profiles (role);
+CREATE INDEX IF NOT EXISTS babies_assigned_doctor_id_idx ON babies (assigned_doctor_id);
+CREATE INDEX IF NOT EXISTS babies_name_idx ON babies (last_name, first_name);
+CREATE INDEX IF NOT EXISTS parent_babies_baby_id_idx ON parent_babies (baby_id);
+CREATE INDEX IF NOT EXISTS vital_records_baby_recorded_idx ON vital_records (baby_id, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS appointments_baby_id_idx ON appointments (baby_id);
+CREATE INDEX IF NOT EXISTS appointments_parent_date_idx ON appointments (parent_id, appointment_date);
+CREATE INDEX IF NOT EXISTS appointments_date_idx ON appointments (appointment_date);
+CREATE INDEX IF NOT EXISTS messages_sender_idx ON messages (sender_id, sent_at DESC);
+CREATE INDEX IF NOT EXISTS messages_recipient_idx ON messages (recipient_id, sent_at DESC);
+
+-- Keep updated_at current on every edit
+CREATE OR REPLACE FUNCTION public.touch_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_user_profiles ON user_profiles;
+CREATE TRIGGER touch_user_profiles
+  BEFORE UPDATE ON user_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS touch_babies ON babies;
+CREATE TRIGGER touch_babies
+  BEFORE UPDATE ON babies
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS touch_appointments ON appointments;
+CREATE TRIGGER touch_appointments
+  BEFORE UPDATE ON appointments
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+-- Reads the caller's role without going through the user_profiles policies,
+-- so policies on user_profiles itself can check it without recursing
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS user_role AS $$
+  SELECT role FROM public.user_profiles
+  WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE babies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE parent_babies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vital_records ENABLE ROW LEVEL SECURITY;
+ALTER TABLE appointments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+-- user_profiles
+
+DROP POLICY IF EXISTS "Users can view their own profile" ON user_profiles;
+CREATE POLICY "Users can view their own profile"
+  ON user_profiles
+  FOR SELECT
+  TO authenticated
+  USING (id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can view clinic staff profiles" ON user_profiles;
+CREATE POLICY "Users can view clinic staff profiles"
+  ON user_profiles
+  FOR SELECT
+  TO authenticated
+  USING (role <> 'parent');
+
+DROP POLICY IF EXISTS "Clinic staff can view all profiles" ON user_profiles;
+CREATE POLICY "Clinic staff can view all profiles"
+  ON user_profiles
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'doctor', 'staff'));
+
+DROP POLICY IF EXISTS "Users can update their own profile" ON user_profiles;
+CREATE POLICY "Users can update their own profile"
+  ON user_profiles
+  FOR UPDATE
+  TO authenticated
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+-- babies
+
+DROP POLICY IF EXISTS "Parents can view their babies" ON babies;
+CREATE POLICY "Parents can view their babies"
+  ON babies
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = babies.id
+        AND parent_babies.parent_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Parents can update their babies" ON babies;
+CREATE POLICY "Parents can update their babies"
+  ON babies
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = babies.id
+        AND parent_babies.parent_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Clinic staff can view babies" ON babies;
+CREATE POLICY "Clinic staff can view babies"
+  ON babies
+  FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+DROP POLICY IF EXISTS "Clinic staff can manage babies" ON babies;
+CREATE POLICY "Clinic staff can manage babies"
+  ON babies
+  FOR ALL
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  )
+  WITH CHECK (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+-- parent_babies
+
+DROP POLICY IF EXISTS "Parents can view their baby links" ON parent_babies;
+CREATE POLICY "Parents can view their baby links"
+  ON parent_babies
+  FOR SELECT
+  TO authenticated
+  USING (parent_id = auth.uid());
+
+DROP POLICY IF EXISTS "Clinic staff can manage baby links" ON parent_babies;
+CREATE POLICY "Clinic staff can manage baby links"
+  ON parent_babies
+  FOR ALL
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  )
+  WITH CHECK (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+-- vital_records
+
+DROP POLICY IF EXISTS "Parents can view their babies' vitals" ON vital_records;
+CREATE POLICY "Parents can view their babies' vitals"
+  ON vital_records
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = vital_records.baby_id
+        AND parent_babies.parent_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Clinic staff can manage vitals" ON vital_records;
+CREATE POLICY "Clinic staff can manage vitals"
+  ON vital_records
+  FOR ALL
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  )
+  WITH CHECK (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+    AND recorded_by = auth.uid()
+  );
+
+-- appointments
+
+DROP POLICY IF EXISTS "Parents can view their appointments" ON appointments;
+CREATE POLICY "Parents can view their appointments"
+  ON appointments
+  FOR SELECT
+  TO authenticated
+  USING (
+    parent_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = appointments.baby_id
+        AND parent_babies.parent_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Clinic staff can view appointments" ON appointments;
+CREATE POLICY "Clinic staff can view appointments"
+  ON appointments
+  FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+DROP POLICY IF EXISTS "Parents can book appointments for their babies" ON appointments;
+CREATE POLICY "Parents can book appointments for their babies"
+  ON appointments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    parent_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = appointments.baby_id
+        AND parent_babies.parent_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Clinic staff can book appointments" ON appointments;
+CREATE POLICY "Clinic staff can book appointments"
+  ON appointments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+DROP POLICY IF EXISTS "Parents can update their appointments" ON appointments;
+CREATE POLICY "Parents can update their appointments"
+  ON appointments
+  FOR UPDATE
+  TO authenticated
+  USING (parent_id = auth.uid())
+  WITH CHECK (parent_id = auth.uid());
+
+DROP POLICY IF EXISTS "Clinic staff can update appointments" ON appointments;
+CREATE POLICY "Clinic staff can update appointments"
+  ON appointments
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  )
+  WITH CHECK (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+-- messages: named after the conversation policies that later replace them
+
+DROP POLICY IF EXISTS "Conversation participants can view messages" ON messages;
+CREATE POLICY "Conversation participants can view messages"
+  ON messages
+  FOR SELECT
+  TO authenticated
+  USING (sender_id = auth.uid() OR recipient_id = auth.uid());
+
+DROP POLICY IF EXISTS "Conversation participants can send messages" ON messages;
+CREATE POLICY "Conversation participants can send messages"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (sender_id = auth.uid());
+
+DROP POLICY IF EXISTS "Conversation participants can mark messages read" ON messages;
+CREATE POLICY "Conversation participants can mark messages read"
+  ON messages
+  FOR UPDATE
+  TO authenticated
+  USING (recipient_id = auth.uid())
+  WITH CHECK (recipient_id = auth.uid());
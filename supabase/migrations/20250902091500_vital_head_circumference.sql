@@ -0,0 +1,19 @@
+/*
+  # Head Circumference on Vital Records
+
+  1. Schema
+    - Add nullable `head_circumference` (cm) to `vital_records`
+    - Used by the growth standards engine for head-circumference-for-age
+
+  2. Constraints
+    - Reject non-positive measurements
+*/
+
+ALTER TABLE vital_records
+  ADD COLUMN IF NOT EXISTS head_circumference numeric(5,2);
+
+ALTER TABLE vital_records
+  DROP CONSTRAINT IF EXISTS vital_records_head_circumference_check;
+ALTER TABLE vital_records
+  ADD CONSTRAINT vital_records_head_circumference_check
+  CHECK (head_circumference IS NULL OR head_circumference > 0);
@@ -0,0 +1,27 @@
+/*
+  # Respiratory Rate and SpO2 on Vital Records
+
+  1. Schema
+    - Add nullable `respiratory_rate` (breaths/min) to `vital_records`
+    - Add nullable `oxygen_saturation` (SpO2 %) to `vital_records`
+
+  2. Constraints
+    - Keep values within physically possible bounds; age-specific
+      validation happens in the vitals entry screen
+*/
+
+ALTER TABLE vital_records
+  ADD COLUMN IF NOT EXISTS respiratory_rate integer,
+  ADD COLUMN IF NOT EXISTS oxygen_saturation numeric(4,1);
+
+ALTER TABLE vital_records
+  DROP CONSTRAINT IF EXISTS vital_records_respiratory_rate_check;
+ALTER TABLE vital_records
+  ADD CONSTRAINT vital_records_respiratory_rate_check
+  CHECK (respiratory_rate IS NULL OR respiratory_rate BETWEEN 5 AND 120);
+
+ALTER TABLE vital_records
+  DROP CONSTRAINT IF EXISTS vital_records_oxygen_saturation_check;
+ALTER TABLE vital_records
+  ADD CONSTRAINT vital_records_oxygen_saturation_check
+  CHECK (oxygen_saturation IS NULL OR oxygen_saturation BETWEEN 50 AND 100);
@@ -0,0 +1,54 @@
+/*
+  # Parent Edits on Baby Profiles
+
+  1. Security
+    - Allow parents to update babies they are linked to via `parent_babies`
+    - Trigger rejects parent updates to anything other than the baby's name;
+      clinical fields (allergies, blood type, notes, assigned doctor, current
+      measurements) stay owned by the care team
+*/
+
+DROP POLICY IF EXISTS "Parents can update their babies" ON babies;
+CREATE POLICY "Parents can update their babies"
+  ON babies
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = babies.id
+        AND parent_babies.parent_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = babies.id
+        AND parent_babies.parent_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.enforce_parent_baby_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (SELECT role FROM public.user_profiles WHERE id = auth.uid()) = 'parent'::user_role THEN
+    IF NEW.birth_date IS DISTINCT FROM OLD.birth_date
+      OR NEW.gender IS DISTINCT FROM OLD.gender
+      OR NEW.current_weight IS DISTINCT FROM OLD.current_weight
+      OR NEW.current_height IS DISTINCT FROM OLD.current_height
+      OR NEW.blood_type IS DISTINCT FROM OLD.blood_type
+      OR NEW.allergies IS DISTINCT FROM OLD.allergies
+      OR NEW.medical_notes IS DISTINCT FROM OLD.medical_notes
+      OR NEW.assigned_doctor_id IS DISTINCT FROM OLD.assigned_doctor_id
+    THEN
+      RAISE EXCEPTION 'Parents can only update the baby''s name';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_parent_baby_updates ON babies;
+CREATE TRIGGER enforce_parent_baby_updates
+  BEFORE UPDATE ON babies
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_parent_baby_updates();
@@ -0,0 +1,83 @@
+/*
+  # Parent Invitations
+
+  1. New Tables
+    - `parent_invitations`: pending links between a baby and a parent email that
+      has no `user_profiles` row yet, with the `relationship` to record
+
+  2. Registration
+    - `accept_pending_invitations` converts matching pending invitations into
+      `parent_babies` rows once the invited parent's email is confirmed,
+      either at signup (when confirmation is not required) or when the
+      confirmation link is followed. An unconfirmed signup with an invited
+      email is never linked to the baby.
+
+  3. Security
+    - Clinic roles (admin, doctor, staff) can create and view invitations
+*/
+
+CREATE TABLE IF NOT EXISTS parent_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  baby_id uuid NOT NULL REFERENCES babies(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  relationship text NOT NULL CHECK (relationship IN ('mother', 'father', 'guardian')),
+  invited_by uuid NOT NULL REFERENCES user_profiles(id),
+  accepted_by uuid REFERENCES user_profiles(id),
+  accepted_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (baby_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS parent_invitations_pending_email_idx
+  ON parent_invitations (lower(email))
+  WHERE accepted_at IS NULL;
+
+ALTER TABLE parent_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic staff can manage invitations" ON parent_invitations;
+CREATE POLICY "Clinic staff can manage invitations"
+  ON parent_invitations
+  FOR ALL
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  )
+  WITH CHECK (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+-- Link invited parents only once they have proven they own the email address
+CREATE OR REPLACE FUNCTION public.accept_pending_invitations()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.parent_babies (parent_id, baby_id, relationship)
+  SELECT NEW.id, invitation.baby_id, invitation.relationship
+  FROM public.parent_invitations invitation
+  WHERE lower(invitation.email) = lower(NEW.email)
+    AND invitation.accepted_at IS NULL
+  ON CONFLICT DO NOTHING;
+
+  UPDATE public.parent_invitations
+  SET accepted_by = NEW.id,
+      accepted_at = now()
+  WHERE lower(email) = lower(NEW.email)
+    AND accepted_at IS NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Named to fire after on_auth_user_created, which creates the profile
+DROP TRIGGER IF EXISTS on_auth_user_verified ON auth.users;
+CREATE TRIGGER on_auth_user_verified
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  WHEN (NEW.email_confirmed_at IS NOT NULL)
+  EXECUTE FUNCTION public.accept_pending_invitations();
+
+DROP TRIGGER IF EXISTS on_auth_user_email_confirmed ON auth.users;
+CREATE TRIGGER on_auth_user_email_confirmed
+  AFTER UPDATE OF email_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email_confirmed_at IS NULL AND NEW.email_confirmed_at IS NOT NULL)
+  EXECUTE FUNCTION public.accept_pending_invitations();
@@ -0,0 +1,154 @@
+/*
+  # Staff Management
+
+  1. Changes to `user_profiles`
+    - `is_active` flag so administrators can deactivate accounts without deleting history
+    - `deactivated_at` timestamp
+
+  2. New Tables
+    - `staff_invitations`: pending clinic accounts (doctor, staff or admin) by email
+
+  3. Registration
+    - Every signup starts as a parent; the role in signup metadata is ignored
+      because the client controls it
+    - `accept_pending_invitations` now also applies a pending staff invitation
+      matching the user's email, giving the account the invited role. Like
+      parent invitations, this only happens once the email is confirmed, so
+      registering with an invited address does not grant the role.
+
+  4. Security
+    - Only administrators can change `role` or `is_active` on a profile
+    - Only administrators can manage staff invitations
+*/
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS deactivated_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS staff_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  role user_role NOT NULL CHECK (role <> 'parent'),
+  invited_by uuid NOT NULL REFERENCES user_profiles(id),
+  accepted_by uuid REFERENCES user_profiles(id),
+  accepted_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS staff_invitations_pending_email_idx
+  ON staff_invitations (lower(email))
+  WHERE accepted_at IS NULL;
+
+ALTER TABLE staff_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage staff invitations" ON staff_invitations;
+CREATE POLICY "Admins can manage staff invitations"
+  ON staff_invitations
+  FOR ALL
+  TO authenticated
+  USING ((SELECT role FROM user_profiles WHERE id = auth.uid()) = 'admin')
+  WITH CHECK ((SELECT role FROM user_profiles WHERE id = auth.uid()) = 'admin');
+
+DROP POLICY IF EXISTS "Admins can update any profile" ON user_profiles;
+CREATE POLICY "Admins can update any profile"
+  ON user_profiles
+  FOR UPDATE
+  TO authenticated
+  USING ((SELECT role FROM user_profiles WHERE id = auth.uid()) = 'admin')
+  WITH CHECK ((SELECT role FROM user_profiles WHERE id = auth.uid()) = 'admin');
+
+-- Users may still edit their own details, but never their role or active state
+CREATE OR REPLACE FUNCTION public.enforce_profile_admin_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL
+    OR (SELECT role FROM public.user_profiles WHERE id = auth.uid()) = 'admin' THEN
+    IF NEW.is_active IS DISTINCT FROM OLD.is_active THEN
+      NEW.deactivated_at := CASE WHEN NEW.is_active THEN NULL ELSE now() END;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.is_active IS DISTINCT FROM OLD.is_active
+    OR NEW.deactivated_at IS DISTINCT FROM OLD.deactivated_at THEN
+    RAISE EXCEPTION 'Only administrators can change roles or account status';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_profile_admin_fields ON user_profiles;
+CREATE TRIGGER enforce_profile_admin_fields
+  BEFORE UPDATE ON user_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_profile_admin_fields();
+
+-- Recreate the signup hook: signup metadata comes from the client, so it never
+-- decides the role
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.user_profiles (
+    id,
+    email,
+    first_name,
+    last_name,
+    phone,
+    role
+  )
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'first_name', ''),
+    COALESCE(NEW.raw_user_meta_data->>'last_name', ''),
+    COALESCE(NEW.raw_user_meta_data->>'phone', NULL),
+    'parent'::user_role
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Invited staff receive the role chosen by the administrator once they confirm
+-- their email; parent invitations are linked as before
+CREATE OR REPLACE FUNCTION public.accept_pending_invitations()
+RETURNS TRIGGER AS $$
+DECLARE
+  invited_role user_role;
+BEGIN
+  SELECT role INTO invited_role
+  FROM public.staff_invitations
+  WHERE lower(email) = lower(NEW.email)
+    AND accepted_at IS NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF invited_role IS NOT NULL THEN
+    UPDATE public.user_profiles
+    SET role = invited_role
+    WHERE id = NEW.id;
+
+    UPDATE public.staff_invitations
+    SET accepted_by = NEW.id,
+        accepted_at = now()
+    WHERE lower(email) = lower(NEW.email)
+      AND accepted_at IS NULL;
+  END IF;
+
+  INSERT INTO public.parent_babies (parent_id, baby_id, relationship)
+  SELECT NEW.id, invitation.baby_id, invitation.relationship
+  FROM public.parent_invitations invitation
+  WHERE lower(invitation.email) = lower(NEW.email)
+    AND invitation.accepted_at IS NULL
+  ON CONFLICT DO NOTHING;
+
+  UPDATE public.parent_invitations
+  SET accepted_by = NEW.id,
+      accepted_at = now()
+  WHERE lower(email) = lower(NEW.email)
+    AND accepted_at IS NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
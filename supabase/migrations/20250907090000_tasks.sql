@@ -0,0 +1,130 @@
+/*
+  # Clinic Tasks
+
+  1. New Tables
+    - `tasks`: work items for clinic staff with an optional assignee, baby and
+      appointment, a due date, priority and status
+
+  2. Automation
+    - Confirming an appointment creates an unassigned "Record vitals" task due at
+      the appointment time
+    - Completing an appointment creates a "Follow up" task for the doctor
+    - Cancelling an appointment cancels its open automatic tasks
+
+  3. Security
+    - Clinic roles (admin, doctor, staff) can view and manage tasks
+*/
+
+CREATE TABLE IF NOT EXISTS tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  description text,
+  assigned_to uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  baby_id uuid REFERENCES babies(id) ON DELETE CASCADE,
+  appointment_id uuid REFERENCES appointments(id) ON DELETE CASCADE,
+  due_date timestamptz,
+  priority text NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'done', 'cancelled')),
+  source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'appointment_confirmed', 'appointment_completed')),
+  created_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  completed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tasks_assigned_to_idx ON tasks (assigned_to) WHERE status IN ('open', 'in_progress');
+CREATE INDEX IF NOT EXISTS tasks_appointment_id_idx ON tasks (appointment_id);
+
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic staff can manage tasks" ON tasks;
+CREATE POLICY "Clinic staff can manage tasks"
+  ON tasks
+  FOR ALL
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  )
+  WITH CHECK (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+-- Keep completion metadata in sync with status
+CREATE OR REPLACE FUNCTION public.touch_task()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+  IF NEW.status = 'done' AND OLD.status IS DISTINCT FROM 'done' THEN
+    NEW.completed_at := now();
+  ELSIF NEW.status <> 'done' THEN
+    NEW.completed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_task ON tasks;
+CREATE TRIGGER touch_task
+  BEFORE UPDATE ON tasks
+  FOR EACH ROW EXECUTE FUNCTION public.touch_task();
+
+CREATE OR REPLACE FUNCTION public.create_appointment_tasks()
+RETURNS TRIGGER AS $$
+DECLARE
+  baby_name text;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT first_name || ' ' || last_name INTO baby_name
+  FROM public.babies
+  WHERE id = NEW.baby_id;
+
+  IF NEW.status = 'confirmed' AND NOT EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE appointment_id = NEW.id AND source = 'appointment_confirmed'
+  ) THEN
+    INSERT INTO public.tasks (title, description, baby_id, appointment_id, due_date, priority, source, created_by)
+    VALUES (
+      'Record vitals for ' || baby_name,
+      'Measure weight, length, head circumference and temperature at check-in.',
+      NEW.baby_id,
+      NEW.id,
+      NEW.appointment_date,
+      CASE WHEN NEW.type = 'emergency' THEN 'urgent' ELSE 'medium' END,
+      'appointment_confirmed',
+      auth.uid()
+    );
+  ELSIF NEW.status = 'completed' AND NOT EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE appointment_id = NEW.id AND source = 'appointment_completed'
+  ) THEN
+    INSERT INTO public.tasks (title, description, assigned_to, baby_id, appointment_id, due_date, priority, source, created_by)
+    VALUES (
+      'Follow up with ' || baby_name || '''s family',
+      'Share visit results and confirm the next steps agreed during the ' || NEW.type || '.',
+      NEW.doctor_id,
+      NEW.baby_id,
+      NEW.id,
+      now() + interval '2 days',
+      'medium',
+      'appointment_completed',
+      auth.uid()
+    );
+  ELSIF NEW.status = 'cancelled' THEN
+    UPDATE public.tasks
+    SET status = 'cancelled'
+    WHERE appointment_id = NEW.id
+      AND source <> 'manual'
+      AND status IN ('open', 'in_progress');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS create_appointment_tasks ON appointments;
+CREATE TRIGGER create_appointment_tasks
+  AFTER INSERT OR UPDATE OF status ON appointments
+  FOR EACH ROW EXECUTE FUNCTION public.create_appointment_tasks();
@@ -0,0 +1,229 @@
+/*
+  # Doctor Availability and Double-Booking Protection
+
+  1. New Tables
+    - `doctor_schedules`: weekly working hours per doctor and weekday, with an
+      optional break, expressed in the doctor's `timezone`
+    - `doctor_time_off`: blocked periods such as holidays or conferences
+
+  2. Functions
+    - `get_doctor_busy_times`: returns only the start and end of a doctor's active
+      appointments so parents can find free slots without reading other patients'
+      appointments
+    - `validate_appointment_slot`: rejects appointments that overlap another active
+      appointment for the same doctor, fall outside working hours or breaks, or
+      land in time off. Emergency visits may be booked outside working hours but
+      never on top of another appointment.
+
+  3. Security
+    - Everyone signed in can read schedules and time off
+    - Doctors manage their own availability; administrators manage everyone's
+    - Parents can book appointments for their own babies
+*/
+
+CREATE TABLE IF NOT EXISTS doctor_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  doctor_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  weekday smallint NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  break_start time,
+  break_end time,
+  timezone text NOT NULL DEFAULT 'UTC',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (doctor_id, weekday),
+  CHECK (end_time > start_time),
+  CHECK (
+    (break_start IS NULL AND break_end IS NULL)
+    OR (break_start >= start_time AND break_end <= end_time AND break_end > break_start)
+  )
+);
+
+CREATE TABLE IF NOT EXISTS doctor_time_off (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  doctor_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS doctor_time_off_doctor_idx ON doctor_time_off (doctor_id, starts_at);
+CREATE INDEX IF NOT EXISTS appointments_doctor_date_idx ON appointments (doctor_id, appointment_date);
+
+ALTER TABLE doctor_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE doctor_time_off ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view schedules" ON doctor_schedules;
+CREATE POLICY "Authenticated users can view schedules"
+  ON doctor_schedules
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Doctors and admins can manage schedules" ON doctor_schedules;
+CREATE POLICY "Doctors and admins can manage schedules"
+  ON doctor_schedules
+  FOR ALL
+  TO authenticated
+  USING (
+    doctor_id = auth.uid()
+    OR (SELECT role FROM user_profiles WHERE id = auth.uid()) = 'admin'
+  )
+  WITH CHECK (
+    doctor_id = auth.uid()
+    OR (SELECT role FROM user_profiles WHERE id = auth.uid()) = 'admin'
+  );
+
+DROP POLICY IF EXISTS "Authenticated users can view time off" ON doctor_time_off;
+CREATE POLICY "Authenticated users can view time off"
+  ON doctor_time_off
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Doctors and admins can manage time off" ON doctor_time_off;
+CREATE POLICY "Doctors and admins can manage time off"
+  ON doctor_time_off
+  FOR ALL
+  TO authenticated
+  USING (
+    doctor_id = auth.uid()
+    OR (SELECT role FROM user_profiles WHERE id = auth.uid()) = 'admin'
+  )
+  WITH CHECK (
+    doctor_id = auth.uid()
+    OR (SELECT role FROM user_profiles WHERE id = auth.uid()) = 'admin'
+  );
+
+DROP POLICY IF EXISTS "Parents can book appointments for their babies" ON appointments;
+CREATE POLICY "Parents can book appointments for their babies"
+  ON appointments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    parent_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = appointments.baby_id
+        AND parent_babies.parent_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Clinic staff can book appointments" ON appointments;
+CREATE POLICY "Clinic staff can book appointments"
+  ON appointments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+CREATE OR REPLACE FUNCTION public.get_doctor_busy_times(
+  p_doctor_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (starts_at timestamptz, ends_at timestamptz) AS $$
+  SELECT
+    appointment_date,
+    appointment_date + duration_minutes * interval '1 minute'
+  FROM public.appointments
+  WHERE doctor_id = p_doctor_id
+    AND status <> 'cancelled'
+    AND appointment_date < p_to
+    AND appointment_date + duration_minutes * interval '1 minute' > p_from
+  ORDER BY appointment_date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.validate_appointment_slot()
+RETURNS TRIGGER AS $$
+DECLARE
+  slot_end timestamptz;
+  schedule public.doctor_schedules%ROWTYPE;
+  local_start timestamp;
+  local_end timestamp;
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only re-check when the slot itself changes
+  IF TG_OP = 'UPDATE'
+    AND NEW.doctor_id = OLD.doctor_id
+    AND NEW.appointment_date = OLD.appointment_date
+    AND NEW.duration_minutes = OLD.duration_minutes
+    AND OLD.status <> 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  slot_end := NEW.appointment_date + NEW.duration_minutes * interval '1 minute';
+
+  -- Serialise bookings per doctor so two concurrent requests cannot take the same slot
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.doctor_id::text));
+
+  IF EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE doctor_id = NEW.doctor_id
+      AND id <> NEW.id
+      AND status <> 'cancelled'
+      AND appointment_date < slot_end
+      AND appointment_date + duration_minutes * interval '1 minute' > NEW.appointment_date
+  ) THEN
+    RAISE EXCEPTION 'The doctor already has an appointment at this time'
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  IF NEW.type = 'emergency' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.doctor_time_off
+    WHERE doctor_id = NEW.doctor_id
+      AND starts_at < slot_end
+      AND ends_at > NEW.appointment_date
+  ) THEN
+    RAISE EXCEPTION 'The doctor is not available on this date'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Doctors without a configured schedule accept bookings at any time
+  IF NOT EXISTS (SELECT 1 FROM public.doctor_schedules WHERE doctor_id = NEW.doctor_id) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO schedule
+  FROM public.doctor_schedules
+  WHERE doctor_id = NEW.doctor_id
+    AND weekday = EXTRACT(DOW FROM NEW.appointment_date AT TIME ZONE timezone);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The doctor does not work on this day'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  local_start := NEW.appointment_date AT TIME ZONE schedule.timezone;
+  local_end := slot_end AT TIME ZONE schedule.timezone;
+
+  IF local_start::date <> local_end::date
+    OR local_start::time < schedule.start_time
+    OR local_end::time > schedule.end_time
+    OR (
+      schedule.break_start IS NOT NULL
+      AND local_start::time < schedule.break_end
+      AND local_end::time > schedule.break_start
+    ) THEN
+    RAISE EXCEPTION 'The appointment is outside the doctor''s working hours'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS validate_appointment_slot ON appointments;
+CREATE TRIGGER validate_appointment_slot
+  BEFORE INSERT OR UPDATE ON appointments
+  FOR EACH ROW EXECUTE FUNCTION public.validate_appointment_slot();
@@ -0,0 +1,231 @@
+/*
+  # Appointment Lifecycle
+
+  1. Enum Changes
+    - `appointment_status` gains `checked_in` and `no_show`
+
+  2. Changes to `appointments`
+    - Cancellation reason and who cancelled
+    - Visit notes written by the doctor on completion
+    - Parent reschedule requests (`reschedule_requested_at`, `reschedule_note`)
+    - `checked_in_at` and `completed_at` timestamps
+
+  3. New Tables
+    - `appointment_status_history`: one row per status change or reschedule,
+      recording who made it, the reason and the previous/new date
+
+  4. Rules
+    - `enforce_appointment_transition` limits each role to its own transitions:
+      parents confirm, cancel or request a reschedule; staff confirm, check in,
+      reschedule, cancel or mark no-show; the appointment's own doctor (or an
+      admin) additionally completes the visit
+    - Cancelling requires a reason and completing requires visit notes
+    - Every parent linked to the baby can confirm, cancel or request a
+      reschedule, not only the parent who booked
+    - `checked_in_at` and `completed_at` are set by the trigger on the
+      matching transition and cannot be written by clients
+*/
+
+ALTER TYPE appointment_status ADD VALUE IF NOT EXISTS 'checked_in';
+ALTER TYPE appointment_status ADD VALUE IF NOT EXISTS 'no_show';
+
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS cancellation_reason text,
+  ADD COLUMN IF NOT EXISTS cancelled_by uuid REFERENCES user_profiles(id),
+  ADD COLUMN IF NOT EXISTS visit_notes text,
+  ADD COLUMN IF NOT EXISTS reschedule_requested_at timestamptz,
+  ADD COLUMN IF NOT EXISTS reschedule_note text,
+  ADD COLUMN IF NOT EXISTS checked_in_at timestamptz,
+  ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS appointment_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id uuid NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  previous_date timestamptz,
+  new_date timestamptz,
+  reason text,
+  changed_by uuid REFERENCES user_profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS appointment_status_history_appointment_idx
+  ON appointment_status_history (appointment_id, created_at);
+
+ALTER TABLE appointment_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view history of visible appointments" ON appointment_status_history;
+CREATE POLICY "Users can view history of visible appointments"
+  ON appointment_status_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM appointments
+      WHERE appointments.id = appointment_status_history.appointment_id
+    )
+  );
+
+-- Any parent linked to the baby can act on its appointments, not only the one who booked
+DROP POLICY IF EXISTS "Parents can update their appointments" ON appointments;
+CREATE POLICY "Parents can update their appointments"
+  ON appointments
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = appointments.baby_id
+        AND parent_babies.parent_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = appointments.baby_id
+        AND parent_babies.parent_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Clinic staff can update appointments" ON appointments;
+CREATE POLICY "Clinic staff can update appointments"
+  ON appointments
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  )
+  WITH CHECK (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+CREATE OR REPLACE FUNCTION public.enforce_appointment_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor_role user_role;
+  from_status text := OLD.status::text;
+  to_status text := NEW.status::text;
+  rescheduled boolean := NEW.appointment_date IS DISTINCT FROM OLD.appointment_date;
+BEGIN
+  -- Service role and SQL maintenance bypass the workflow
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  actor_role := public.current_user_role();
+  IF actor_role IS NULL THEN
+    RAISE EXCEPTION 'Your account is not active';
+  END IF;
+
+  IF from_status IN ('completed', 'cancelled', 'no_show') AND (to_status <> from_status OR rescheduled) THEN
+    RAISE EXCEPTION 'This appointment is already %', replace(from_status, '_', ' ');
+  END IF;
+
+  IF actor_role = 'parent' THEN
+    IF rescheduled
+      OR NEW.doctor_id IS DISTINCT FROM OLD.doctor_id
+      OR NEW.baby_id IS DISTINCT FROM OLD.baby_id
+      OR NEW.duration_minutes IS DISTINCT FROM OLD.duration_minutes
+      OR NEW.type IS DISTINCT FROM OLD.type
+      OR NEW.visit_notes IS DISTINCT FROM OLD.visit_notes THEN
+      RAISE EXCEPTION 'Parents can only confirm, cancel or request a reschedule';
+    END IF;
+    IF to_status <> from_status AND NOT (
+      (from_status = 'scheduled' AND to_status = 'confirmed')
+      OR (from_status IN ('scheduled', 'confirmed') AND to_status = 'cancelled')
+    ) THEN
+      RAISE EXCEPTION 'Parents cannot change an appointment from % to %', from_status, to_status;
+    END IF;
+  ELSIF to_status <> from_status THEN
+    IF to_status = 'completed'
+      AND actor_role IS DISTINCT FROM 'admin'
+      AND NOT (actor_role = 'doctor' AND OLD.doctor_id = auth.uid()) THEN
+      RAISE EXCEPTION 'Only the appointment''s doctor can complete it';
+    END IF;
+    IF NOT (
+      (from_status = 'scheduled' AND to_status IN ('confirmed', 'checked_in', 'cancelled', 'no_show'))
+      OR (from_status = 'confirmed' AND to_status IN ('scheduled', 'checked_in', 'completed', 'cancelled', 'no_show'))
+      OR (from_status = 'checked_in' AND to_status IN ('completed', 'cancelled'))
+    ) THEN
+      RAISE EXCEPTION 'Cannot change an appointment from % to %', from_status, to_status;
+    END IF;
+  END IF;
+
+  IF NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR NEW.checked_in_at IS DISTINCT FROM OLD.checked_in_at THEN
+    RAISE EXCEPTION 'Check-in and completion times are recorded automatically';
+  END IF;
+
+  IF rescheduled AND from_status NOT IN ('scheduled', 'confirmed') THEN
+    RAISE EXCEPTION 'Only upcoming appointments can be rescheduled';
+  END IF;
+
+  IF to_status = 'cancelled' AND from_status <> 'cancelled' THEN
+    IF coalesce(trim(NEW.cancellation_reason), '') = '' THEN
+      RAISE EXCEPTION 'A cancellation reason is required';
+    END IF;
+    NEW.cancelled_by := auth.uid();
+  END IF;
+
+  IF to_status = 'completed' AND from_status <> 'completed' THEN
+    IF coalesce(trim(NEW.visit_notes), '') = '' THEN
+      RAISE EXCEPTION 'Visit notes are required to complete an appointment';
+    END IF;
+    NEW.completed_at := now();
+  END IF;
+
+  IF to_status = 'checked_in' AND from_status <> 'checked_in' THEN
+    NEW.checked_in_at := now();
+  END IF;
+
+  -- A new time answers any outstanding reschedule request
+  IF rescheduled THEN
+    NEW.reschedule_requested_at := NULL;
+    NEW.reschedule_note := NULL;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_appointment_transition ON appointments;
+CREATE TRIGGER enforce_appointment_transition
+  BEFORE UPDATE ON appointments
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_appointment_transition();
+
+CREATE OR REPLACE FUNCTION public.record_appointment_history()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.appointment_status_history (appointment_id, from_status, to_status, new_date, changed_by)
+    VALUES (NEW.id, NULL, NEW.status::text, NEW.appointment_date, auth.uid());
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.appointment_date IS DISTINCT FROM OLD.appointment_date THEN
+    INSERT INTO public.appointment_status_history (
+      appointment_id, from_status, to_status, previous_date, new_date, reason, changed_by
+    )
+    VALUES (
+      NEW.id,
+      OLD.status::text,
+      NEW.status::text,
+      CASE WHEN NEW.appointment_date IS DISTINCT FROM OLD.appointment_date THEN OLD.appointment_date END,
+      CASE WHEN NEW.appointment_date IS DISTINCT FROM OLD.appointment_date THEN NEW.appointment_date END,
+      CASE WHEN NEW.status::text = 'cancelled' THEN NEW.cancellation_reason END,
+      auth.uid()
+    );
+  ELSIF NEW.reschedule_requested_at IS NOT NULL
+    AND OLD.reschedule_requested_at IS NULL THEN
+    INSERT INTO public.appointment_status_history (appointment_id, from_status, to_status, reason, changed_by)
+    VALUES (NEW.id, OLD.status::text, NEW.status::text, 'Reschedule requested: ' || coalesce(NEW.reschedule_note, ''), auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_appointment_history ON appointments;
+CREATE TRIGGER record_appointment_history
+  AFTER INSERT OR UPDATE ON appointments
+  FOR EACH ROW EXECUTE FUNCTION public.record_appointment_history();
@@ -0,0 +1,61 @@
+/*
+  # Notification Preferences and Push Tokens
+
+  1. New Tables
+    - `notification_preferences`: one row per user controlling push and SMS
+      delivery, appointment reminders (24 hours and 1 hour before) and
+      message alerts
+    - `push_tokens`: the Expo push token of each user's most recent device
+
+  2. Security
+    - Users can only read and change their own preferences
+    - Clinic roles can read preferences so server-side senders can honour them
+    - Push tokens are visible only to their owner; server-side senders read
+      them with the service role. They are kept off `user_profiles`, which
+      parents can read for clinic staff
+*/
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES user_profiles(id) ON DELETE CASCADE,
+  push_enabled boolean NOT NULL DEFAULT true,
+  sms_enabled boolean NOT NULL DEFAULT false,
+  reminder_24h boolean NOT NULL DEFAULT true,
+  reminder_1h boolean NOT NULL DEFAULT true,
+  message_alerts boolean NOT NULL DEFAULT true,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their notification preferences" ON notification_preferences;
+CREATE POLICY "Users can manage their notification preferences"
+  ON notification_preferences
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Clinic staff can view notification preferences" ON notification_preferences;
+CREATE POLICY "Clinic staff can view notification preferences"
+  ON notification_preferences
+  FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+CREATE TABLE IF NOT EXISTS push_tokens (
+  user_id uuid PRIMARY KEY REFERENCES user_profiles(id) ON DELETE CASCADE,
+  token text NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE push_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their push token" ON push_tokens;
+CREATE POLICY "Users can manage their push token"
+  ON push_tokens
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
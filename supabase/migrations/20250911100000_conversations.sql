@@ -0,0 +1,232 @@
+/*
+  # Threaded Conversations
+
+  1. New Tables
+    - `conversations`: one thread per parent and care team, optionally scoped
+      to a baby. `last_message_at` keeps the thread list ordered.
+
+  2. Changes to `messages`
+    - `conversation_id` links every message to its thread. Existing messages
+      are grouped into threads by parent and baby.
+    - `recipient_id` becomes optional so parents can write to the care team
+      when their baby has no assigned doctor
+
+  3. Automation
+    - Messages inserted without a conversation are attached to the matching
+      thread, which is created if needed. A thread about a baby is only
+      created when the thread's parent is linked to that baby.
+    - Each new message bumps the thread's `last_message_at`
+
+  4. Security
+    - Parents see and write in their own threads; clinic roles see all threads
+    - Participants can mark the other side's messages as read, but message
+      content can never be edited
+*/
+
+CREATE TABLE IF NOT EXISTS conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  baby_id uuid REFERENCES babies(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  last_message_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (parent_id, baby_id)
+);
+
+CREATE INDEX IF NOT EXISTS conversations_last_message_idx ON conversations (last_message_at DESC);
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS conversation_id uuid REFERENCES conversations(id) ON DELETE CASCADE;
+
+ALTER TABLE messages ALTER COLUMN recipient_id DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS messages_conversation_idx ON messages (conversation_id, sent_at);
+
+-- Group existing messages into threads keyed by the parent on either side
+INSERT INTO conversations (parent_id, baby_id, last_message_at, created_at)
+SELECT
+  parent_side.parent_id,
+  m.baby_id,
+  max(m.sent_at),
+  min(m.sent_at)
+FROM messages m
+CROSS JOIN LATERAL (
+  SELECT CASE
+    WHEN (SELECT role FROM user_profiles WHERE id = m.sender_id) = 'parent' THEN m.sender_id
+    ELSE m.recipient_id
+  END AS parent_id
+) parent_side
+WHERE m.conversation_id IS NULL
+  AND parent_side.parent_id IS NOT NULL
+GROUP BY parent_side.parent_id, m.baby_id
+ON CONFLICT (parent_id, baby_id) DO NOTHING;
+
+UPDATE messages m
+SET conversation_id = c.id
+FROM conversations c
+WHERE m.conversation_id IS NULL
+  AND c.baby_id IS NOT DISTINCT FROM m.baby_id
+  AND c.parent_id = CASE
+    WHEN (SELECT role FROM user_profiles WHERE id = m.sender_id) = 'parent' THEN m.sender_id
+    ELSE m.recipient_id
+  END;
+
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parents can view their conversations" ON conversations;
+CREATE POLICY "Parents can view their conversations"
+  ON conversations
+  FOR SELECT
+  TO authenticated
+  USING (
+    parent_id = auth.uid()
+    OR (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+DROP POLICY IF EXISTS "Participants can start conversations" ON conversations;
+CREATE POLICY "Participants can start conversations"
+  ON conversations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (
+      parent_id = auth.uid()
+      AND (
+        baby_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM parent_babies
+          WHERE parent_babies.baby_id = conversations.baby_id
+            AND parent_babies.parent_id = auth.uid()
+        )
+      )
+    )
+    OR (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+DROP POLICY IF EXISTS "Conversation participants can view messages" ON messages;
+CREATE POLICY "Conversation participants can view messages"
+  ON messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    sender_id = auth.uid()
+    OR recipient_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id = messages.conversation_id
+        AND (
+          conversations.parent_id = auth.uid()
+          OR (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+        )
+    )
+  );
+
+DROP POLICY IF EXISTS "Conversation participants can send messages" ON messages;
+CREATE POLICY "Conversation participants can send messages"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND (
+      conversation_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM conversations
+        WHERE conversations.id = messages.conversation_id
+          AND (
+            conversations.parent_id = auth.uid()
+            OR (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+          )
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Conversation participants can mark messages read" ON messages;
+CREATE POLICY "Conversation participants can mark messages read"
+  ON messages
+  FOR UPDATE
+  TO authenticated
+  USING (
+    sender_id <> auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id = messages.conversation_id
+        AND (
+          conversations.parent_id = auth.uid()
+          OR (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+        )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.assign_message_conversation()
+RETURNS TRIGGER AS $$
+DECLARE
+  thread_parent_id uuid;
+BEGIN
+  IF NEW.conversation_id IS NULL THEN
+    thread_parent_id := CASE
+      WHEN (SELECT role FROM public.user_profiles WHERE id = NEW.sender_id) = 'parent' THEN NEW.sender_id
+      ELSE NEW.recipient_id
+    END;
+
+    IF thread_parent_id IS NULL THEN
+      RAISE EXCEPTION 'Messages must belong to a conversation';
+    END IF;
+
+    -- This runs as the definer, so it must not open a thread about someone else's baby
+    IF NEW.baby_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.parent_babies
+      WHERE parent_id = thread_parent_id
+        AND baby_id = NEW.baby_id
+    ) THEN
+      RAISE EXCEPTION 'The parent is not linked to this baby'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    INSERT INTO public.conversations (parent_id, baby_id, created_by)
+    VALUES (thread_parent_id, NEW.baby_id, NEW.sender_id)
+    ON CONFLICT (parent_id, baby_id) DO NOTHING;
+
+    SELECT id INTO NEW.conversation_id
+    FROM public.conversations
+    WHERE parent_id = thread_parent_id
+      AND baby_id IS NOT DISTINCT FROM NEW.baby_id;
+  ELSE
+    SELECT baby_id INTO NEW.baby_id
+    FROM public.conversations
+    WHERE id = NEW.conversation_id;
+  END IF;
+
+  UPDATE public.conversations
+  SET last_message_at = coalesce(NEW.sent_at, now())
+  WHERE id = NEW.conversation_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS assign_message_conversation ON messages;
+CREATE TRIGGER assign_message_conversation
+  BEFORE INSERT ON messages
+  FOR EACH ROW EXECUTE FUNCTION public.assign_message_conversation();
+
+-- Readers may flip is_read; everything else about a sent message is fixed
+CREATE OR REPLACE FUNCTION public.restrict_message_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.sender_id IS DISTINCT FROM OLD.sender_id
+    OR NEW.recipient_id IS DISTINCT FROM OLD.recipient_id
+    OR NEW.conversation_id IS DISTINCT FROM OLD.conversation_id
+    OR NEW.baby_id IS DISTINCT FROM OLD.baby_id
+    OR NEW.sent_at IS DISTINCT FROM OLD.sent_at THEN
+    RAISE EXCEPTION 'Sent messages cannot be edited';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS restrict_message_updates ON messages;
+CREATE TRIGGER restrict_message_updates
+  BEFORE UPDATE ON messages
+  FOR EACH ROW EXECUTE FUNCTION public.restrict_message_updates();
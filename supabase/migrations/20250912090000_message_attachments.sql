@@ -0,0 +1,130 @@
+/*
+  # Message Attachments
+
+  1. Changes to `messages`
+    - `attachment_path`, `attachment_name`, `attachment_mime_type` and
+      `attachment_size` describe a file stored in the `message-attachments`
+      bucket
+    - Image and document messages must carry an attachment; text messages
+      must not
+
+  2. Storage
+    - Private `message-attachments` bucket limited to 10 MB JPEG, PNG, HEIC,
+      WebP and PDF files
+    - Objects are stored under `<conversation_id>/` so access can follow the
+      conversation
+
+  3. Security
+    - Only participants of a conversation can upload to or read from its
+      folder; nobody can overwrite or delete a sent attachment
+    - An uploader may delete their own file while no message refers to it,
+      so an upload whose message failed is not left behind
+    - A sent message's type and attachment columns cannot be changed
+*/
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS attachment_path text,
+  ADD COLUMN IF NOT EXISTS attachment_name text,
+  ADD COLUMN IF NOT EXISTS attachment_mime_type text,
+  ADD COLUMN IF NOT EXISTS attachment_size integer CHECK (attachment_size IS NULL OR attachment_size BETWEEN 1 AND 10485760);
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_attachment_matches_type;
+ALTER TABLE messages ADD CONSTRAINT messages_attachment_matches_type CHECK (
+  (message_type = 'text' AND attachment_path IS NULL)
+  OR (
+    message_type = 'image'
+    AND attachment_path IS NOT NULL
+    AND attachment_mime_type IN ('image/jpeg', 'image/png', 'image/heic', 'image/webp')
+  )
+  OR (
+    message_type = 'document'
+    AND attachment_path IS NOT NULL
+    AND attachment_mime_type = 'application/pdf'
+  )
+);
+
+-- Attachments live in their conversation's folder
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_attachment_in_conversation;
+ALTER TABLE messages ADD CONSTRAINT messages_attachment_in_conversation CHECK (
+  attachment_path IS NULL OR attachment_path LIKE conversation_id::text || '/%'
+);
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'message-attachments',
+  'message-attachments',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/heic', 'image/webp', 'application/pdf']
+)
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(p_conversation_id text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE id::text = p_conversation_id
+      AND (
+        parent_id = auth.uid()
+        OR (SELECT role FROM public.user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Participants can read message attachments" ON storage.objects;
+CREATE POLICY "Participants can read message attachments"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'message-attachments'
+    AND public.is_conversation_participant((storage.foldername(name))[1])
+  );
+
+DROP POLICY IF EXISTS "Participants can upload message attachments" ON storage.objects;
+CREATE POLICY "Participants can upload message attachments"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'message-attachments'
+    AND public.is_conversation_participant((storage.foldername(name))[1])
+  );
+
+DROP POLICY IF EXISTS "Uploaders can remove unsent message attachments" ON storage.objects;
+CREATE POLICY "Uploaders can remove unsent message attachments"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'message-attachments'
+    AND owner_id = auth.uid()::text
+    AND NOT EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.attachment_path = storage.objects.name
+    )
+  );
+
+-- Readers may flip is_read; the attachment is as fixed as the text
+CREATE OR REPLACE FUNCTION public.restrict_message_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.sender_id IS DISTINCT FROM OLD.sender_id
+    OR NEW.recipient_id IS DISTINCT FROM OLD.recipient_id
+    OR NEW.conversation_id IS DISTINCT FROM OLD.conversation_id
+    OR NEW.baby_id IS DISTINCT FROM OLD.baby_id
+    OR NEW.sent_at IS DISTINCT FROM OLD.sent_at
+    OR NEW.message_type IS DISTINCT FROM OLD.message_type
+    OR NEW.attachment_path IS DISTINCT FROM OLD.attachment_path
+    OR NEW.attachment_name IS DISTINCT FROM OLD.attachment_name
+    OR NEW.attachment_mime_type IS DISTINCT FROM OLD.attachment_mime_type
+    OR NEW.attachment_size IS DISTINCT FROM OLD.attachment_size THEN
+    RAISE EXCEPTION 'Sent messages cannot be edited';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
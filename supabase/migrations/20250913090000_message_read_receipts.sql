@@ -0,0 +1,88 @@
+/*
+  # Message Read Receipts and Realtime
+
+  1. Changes to `messages`
+    - `read_at` records when the other side first read the message. It is set
+      automatically whenever `is_read` flips to true.
+
+  2. Functions
+    - `mark_conversation_read(p_conversation_id)` marks everything the other
+      side of a thread sent as read in one statement and returns the number
+      of messages updated
+
+  3. Security
+    - Messages are marked read only through `mark_conversation_read`; the
+      direct update policy for recipients is removed
+
+  4. Realtime
+    - `messages` is added to the `supabase_realtime` publication so threads
+      receive inserts and read receipts as they happen
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS read_at timestamptz;
+
+UPDATE messages SET read_at = sent_at WHERE is_read AND read_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.stamp_message_read()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_read AND NOT OLD.is_read THEN
+    NEW.read_at := now();
+  ELSIF NOT NEW.is_read THEN
+    NEW.read_at := NULL;
+  ELSE
+    NEW.read_at := OLD.read_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stamp_message_read ON messages;
+CREATE TRIGGER stamp_message_read
+  BEFORE UPDATE ON messages
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_message_read();
+
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(p_conversation_id uuid)
+RETURNS integer AS $$
+DECLARE
+  viewer_role user_role;
+  updated_count integer;
+BEGIN
+  IF NOT public.is_conversation_participant(p_conversation_id::text) THEN
+    RAISE EXCEPTION 'Not a participant in this conversation'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT role INTO viewer_role FROM public.user_profiles WHERE id = auth.uid();
+
+  -- Parents read the care team's messages; the care team reads the family's
+  UPDATE public.messages m
+  SET is_read = true
+  WHERE m.conversation_id = p_conversation_id
+    AND NOT m.is_read
+    AND m.sender_id <> auth.uid()
+    AND (
+      viewer_role = 'parent'
+      OR (SELECT role FROM public.user_profiles WHERE id = m.sender_id) = 'parent'
+    );
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The function above is the only way to change read state, so readers cannot
+-- touch anything else on a message they received
+DROP POLICY IF EXISTS "Conversation participants can mark messages read" ON messages;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE messages;
+  END IF;
+END $$;
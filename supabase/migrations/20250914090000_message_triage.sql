@@ -0,0 +1,245 @@
+/*
+  # Message Triage
+
+  1. Changes to `conversations`
+    - `triage_status` (open, assigned, resolved) places each thread in the
+      shared clinic queue until a doctor is assigned
+    - `urgency` (routine, priority, urgent), `sla_due_at` and `flag_reasons`
+      track how quickly the family needs an answer and why
+    - `assigned_to`, `assigned_at` and `resolved_at` record routing
+
+  2. Changes to `messages`
+    - `urgent_flags` lists the warning signs found in a parent's message
+      (breathing, fever, seizure, ...)
+
+  3. Automation
+    - `detect_urgent_flags` scans parent messages for warning signs, including
+      temperatures at or above 38 °C / 100.4 °F
+    - Parent messages are routed to the thread's assigned doctor (or the queue),
+      reopen resolved threads, escalate flagged threads to urgent and start the
+      reply SLA: 24 hours routine, 4 hours priority, 30 minutes urgent
+    - A reply from the care team stops the SLA clock
+
+  4. Security
+    - Clinic roles can triage conversations; threads may only be assigned to
+      active doctors
+
+  5. Realtime
+    - `conversations` joins the `supabase_realtime` publication so the queue
+      reflects assignments and SLA changes as they happen
+*/
+
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS triage_status text NOT NULL DEFAULT 'open'
+    CHECK (triage_status IN ('open', 'assigned', 'resolved')),
+  ADD COLUMN IF NOT EXISTS urgency text NOT NULL DEFAULT 'routine'
+    CHECK (urgency IN ('routine', 'priority', 'urgent')),
+  ADD COLUMN IF NOT EXISTS assigned_to uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assigned_at timestamptz,
+  ADD COLUMN IF NOT EXISTS sla_due_at timestamptz,
+  ADD COLUMN IF NOT EXISTS flag_reasons text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS resolved_at timestamptz;
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS urgent_flags text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS conversations_triage_idx ON conversations (triage_status, sla_due_at);
+CREATE INDEX IF NOT EXISTS conversations_assigned_to_idx ON conversations (assigned_to);
+
+DROP POLICY IF EXISTS "Clinic roles can triage conversations" ON conversations;
+CREATE POLICY "Clinic roles can triage conversations"
+  ON conversations
+  FOR UPDATE
+  TO authenticated
+  USING ((SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff'))
+  WITH CHECK ((SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff'));
+
+CREATE OR REPLACE FUNCTION public.sla_interval(p_urgency text)
+RETURNS interval AS $$
+  SELECT CASE p_urgency
+    WHEN 'urgent' THEN interval '30 minutes'
+    WHEN 'priority' THEN interval '4 hours'
+    ELSE interval '24 hours'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Keep in sync with detectUrgentFlags in lib/triage.ts
+CREATE OR REPLACE FUNCTION public.detect_urgent_flags(p_content text)
+RETURNS text[] AS $$
+DECLARE
+  body text := lower(coalesce(p_content, ''));
+  flags text[] := '{}';
+  reading numeric;
+BEGIN
+  IF body ~ '(trouble|difficulty|hard|struggling|stopped|not) (breathing|to breathe)|can''?t breathe|gasping|turning blue|blue lips' THEN
+    flags := flags || 'breathing';
+  END IF;
+  IF body ~ 'seizure|convuls|fitting' THEN
+    flags := flags || 'seizure';
+  END IF;
+  IF body ~ 'unresponsive|won''?t wake|hard to wake|floppy|limp' THEN
+    flags := flags || 'responsiveness';
+  END IF;
+  IF body ~ 'blood|bleeding' THEN
+    flags := flags || 'bleeding';
+  END IF;
+  IF body ~ 'no wet (diaper|nappy)|dehydrat|sunken' THEN
+    flags := flags || 'dehydration';
+  END IF;
+  IF body ~ 'swallowed|poison|chok' THEN
+    flags := flags || 'ingestion';
+  END IF;
+
+  IF body ~ 'fever|temp' THEN
+    FOR reading IN
+      SELECT replace(match[1], ',', '.')::numeric
+      FROM regexp_matches(body, '(\d{2,3}(?:[.,]\d+)?)', 'g') AS match
+    LOOP
+      IF reading BETWEEN 38 AND 45 OR reading BETWEEN 100.4 AND 113 THEN
+        flags := flags || 'fever';
+        EXIT;
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN flags;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.triage_message()
+RETURNS TRIGGER AS $$
+DECLARE
+  sender_role user_role;
+  thread public.conversations%ROWTYPE;
+  next_urgency text;
+BEGIN
+  SELECT role INTO sender_role FROM public.user_profiles WHERE id = NEW.sender_id;
+  SELECT * INTO thread FROM public.conversations WHERE id = NEW.conversation_id;
+
+  IF sender_role <> 'parent' THEN
+    -- The care team has answered, so the reply clock stops
+    UPDATE public.conversations SET sla_due_at = NULL WHERE id = NEW.conversation_id;
+    RETURN NEW;
+  END IF;
+
+  NEW.urgent_flags := public.detect_urgent_flags(NEW.content);
+  -- Families write to the care team; the queue decides who answers
+  NEW.recipient_id := thread.assigned_to;
+
+  next_urgency := CASE WHEN cardinality(NEW.urgent_flags) > 0 THEN 'urgent' ELSE thread.urgency END;
+
+  UPDATE public.conversations
+  SET
+    urgency = next_urgency,
+    flag_reasons = ARRAY(SELECT DISTINCT unnest(thread.flag_reasons || NEW.urgent_flags)),
+    triage_status = CASE
+      WHEN thread.triage_status = 'resolved' THEN
+        CASE WHEN thread.assigned_to IS NULL THEN 'open' ELSE 'assigned' END
+      ELSE thread.triage_status
+    END,
+    resolved_at = NULL,
+    sla_due_at = LEAST(
+      coalesce(thread.sla_due_at, 'infinity'::timestamptz),
+      now() + public.sla_interval(next_urgency)
+    )
+  WHERE id = NEW.conversation_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Runs after assign_message_conversation so the thread is always known
+DROP TRIGGER IF EXISTS triage_message ON messages;
+CREATE TRIGGER triage_message
+  BEFORE INSERT ON messages
+  FOR EACH ROW EXECUTE FUNCTION public.triage_message();
+
+CREATE OR REPLACE FUNCTION public.touch_conversation_triage()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    IF NEW.assigned_to IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE id = NEW.assigned_to
+        AND role = 'doctor'
+        AND is_active
+    ) THEN
+      RAISE EXCEPTION 'Conversations can only be assigned to active doctors'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.assigned_at := CASE WHEN NEW.assigned_to IS NULL THEN NULL ELSE now() END;
+    IF NEW.triage_status <> 'resolved' THEN
+      NEW.triage_status := CASE WHEN NEW.assigned_to IS NULL THEN 'open' ELSE 'assigned' END;
+    END IF;
+  END IF;
+
+  -- Changing urgency restarts the clock unless a deadline was set explicitly
+  IF NEW.urgency IS DISTINCT FROM OLD.urgency
+    AND NEW.sla_due_at IS NOT DISTINCT FROM OLD.sla_due_at
+    AND OLD.sla_due_at IS NOT NULL THEN
+    NEW.sla_due_at := now() + public.sla_interval(NEW.urgency);
+  END IF;
+
+  IF NEW.triage_status = 'resolved' AND OLD.triage_status <> 'resolved' THEN
+    NEW.resolved_at := now();
+    NEW.sla_due_at := NULL;
+  ELSIF NEW.triage_status <> 'resolved' THEN
+    NEW.resolved_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_conversation_triage ON conversations;
+CREATE TRIGGER touch_conversation_triage
+  BEFORE UPDATE ON conversations
+  FOR EACH ROW EXECUTE FUNCTION public.touch_conversation_triage();
+
+-- Urgent flags are set by the server and cannot be edited afterwards
+CREATE OR REPLACE FUNCTION public.restrict_message_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.sender_id IS DISTINCT FROM OLD.sender_id
+    OR NEW.recipient_id IS DISTINCT FROM OLD.recipient_id
+    OR NEW.conversation_id IS DISTINCT FROM OLD.conversation_id
+    OR NEW.baby_id IS DISTINCT FROM OLD.baby_id
+    OR NEW.sent_at IS DISTINCT FROM OLD.sent_at
+    OR NEW.message_type IS DISTINCT FROM OLD.message_type
+    OR NEW.attachment_path IS DISTINCT FROM OLD.attachment_path
+    OR NEW.attachment_name IS DISTINCT FROM OLD.attachment_name
+    OR NEW.attachment_mime_type IS DISTINCT FROM OLD.attachment_mime_type
+    OR NEW.attachment_size IS DISTINCT FROM OLD.attachment_size
+    OR NEW.urgent_flags IS DISTINCT FROM OLD.urgent_flags THEN
+    RAISE EXCEPTION 'Sent messages cannot be edited';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Existing unanswered family messages enter the queue with a routine SLA
+UPDATE conversations c
+SET sla_due_at = latest.sent_at + interval '24 hours'
+FROM (
+  SELECT DISTINCT ON (m.conversation_id) m.conversation_id, m.sent_at, up.role
+  FROM messages m
+  JOIN user_profiles up ON up.id = m.sender_id
+  ORDER BY m.conversation_id, m.sent_at DESC
+) latest
+WHERE latest.conversation_id = c.id
+  AND latest.role = 'parent'
+  AND c.sla_due_at IS NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'conversations'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE conversations;
+  END IF;
+END $$;
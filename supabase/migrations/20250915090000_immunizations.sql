@@ -0,0 +1,177 @@
+/*
+  # Immunizations
+
+  1. New Tables
+    - `vaccines`: catalog of vaccines the clinic gives, keyed by a short code
+    - `vaccine_schedule_doses`: the recommended schedule. Each row is one
+      dose of one vaccine at a recommended age, with an optional minimum gap
+      after the previous dose. Rows belong to a named schedule ('national'
+      by default) so the clinic can adjust it without code changes.
+    - `immunization_records`: doses given to a baby, with lot number,
+      injection site, who gave it and when
+
+  2. Seed Data
+    - The routine birth to 18 month national schedule (HepB, RV, DTaP, Hib,
+      PCV, IPV, MMR, Varicella, HepA)
+
+  3. Security
+    - Everyone signed in can read the catalog and schedule; only admins can
+      change them
+    - Parents can view records for their own babies
+    - Doctors and staff can record and correct doses; only admins can delete
+*/
+
+CREATE TABLE IF NOT EXISTS vaccines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE,
+  name text NOT NULL,
+  protects_against text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS vaccine_schedule_doses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule text NOT NULL DEFAULT 'national',
+  vaccine_id uuid NOT NULL REFERENCES vaccines(id) ON DELETE CASCADE,
+  dose_number integer NOT NULL CHECK (dose_number > 0),
+  recommended_age_days integer NOT NULL CHECK (recommended_age_days >= 0),
+  min_interval_days integer CHECK (min_interval_days IS NULL OR min_interval_days >= 0),
+  -- How long after the due date a missing dose counts as overdue
+  grace_days integer NOT NULL DEFAULT 30 CHECK (grace_days >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (schedule, vaccine_id, dose_number)
+);
+
+CREATE TABLE IF NOT EXISTS immunization_records (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  baby_id uuid NOT NULL REFERENCES babies(id) ON DELETE CASCADE,
+  vaccine_id uuid NOT NULL REFERENCES vaccines(id),
+  dose_number integer NOT NULL CHECK (dose_number > 0),
+  administered_on date NOT NULL,
+  lot_number text,
+  site text CHECK (site IN ('left_thigh', 'right_thigh', 'left_arm', 'right_arm', 'oral', 'intranasal')),
+  administered_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  appointment_id uuid REFERENCES appointments(id) ON DELETE SET NULL,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (baby_id, vaccine_id, dose_number)
+);
+
+CREATE INDEX IF NOT EXISTS immunization_records_baby_idx ON immunization_records (baby_id);
+
+ALTER TABLE vaccines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vaccine_schedule_doses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE immunization_records ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed in users can view vaccines" ON vaccines;
+CREATE POLICY "Signed in users can view vaccines"
+  ON vaccines
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage vaccines" ON vaccines;
+CREATE POLICY "Admins can manage vaccines"
+  ON vaccines
+  FOR ALL
+  TO authenticated
+  USING ((SELECT role FROM user_profiles WHERE id = auth.uid()) = 'admin')
+  WITH CHECK ((SELECT role FROM user_profiles WHERE id = auth.uid()) = 'admin');
+
+DROP POLICY IF EXISTS "Signed in users can view the vaccine schedule" ON vaccine_schedule_doses;
+CREATE POLICY "Signed in users can view the vaccine schedule"
+  ON vaccine_schedule_doses
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage the vaccine schedule" ON vaccine_schedule_doses;
+CREATE POLICY "Admins can manage the vaccine schedule"
+  ON vaccine_schedule_doses
+  FOR ALL
+  TO authenticated
+  USING ((SELECT role FROM user_profiles WHERE id = auth.uid()) = 'admin')
+  WITH CHECK ((SELECT role FROM user_profiles WHERE id = auth.uid()) = 'admin');
+
+DROP POLICY IF EXISTS "Parents can view their babies' immunizations" ON immunization_records;
+CREATE POLICY "Parents can view their babies' immunizations"
+  ON immunization_records
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = immunization_records.baby_id
+        AND parent_babies.parent_id = auth.uid()
+    )
+    OR (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+DROP POLICY IF EXISTS "Clinic roles can record immunizations" ON immunization_records;
+CREATE POLICY "Clinic roles can record immunizations"
+  ON immunization_records
+  FOR INSERT
+  TO authenticated
+  WITH CHECK ((SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff'));
+
+DROP POLICY IF EXISTS "Clinic roles can correct immunizations" ON immunization_records;
+CREATE POLICY "Clinic roles can correct immunizations"
+  ON immunization_records
+  FOR UPDATE
+  TO authenticated
+  USING ((SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff'))
+  WITH CHECK ((SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff'));
+
+DROP POLICY IF EXISTS "Admins can delete immunizations" ON immunization_records;
+CREATE POLICY "Admins can delete immunizations"
+  ON immunization_records
+  FOR DELETE
+  TO authenticated
+  USING ((SELECT role FROM user_profiles WHERE id = auth.uid()) = 'admin');
+
+INSERT INTO vaccines (code, name, protects_against) VALUES
+  ('HepB', 'Hepatitis B', 'Hepatitis B'),
+  ('RV', 'Rotavirus', 'Rotavirus diarrhoea'),
+  ('DTaP', 'DTaP', 'Diphtheria, tetanus and whooping cough'),
+  ('Hib', 'Hib', 'Haemophilus influenzae type b'),
+  ('PCV', 'Pneumococcal conjugate', 'Pneumococcal disease'),
+  ('IPV', 'Polio (IPV)', 'Polio'),
+  ('MMR', 'MMR', 'Measles, mumps and rubella'),
+  ('VAR', 'Varicella', 'Chickenpox'),
+  ('HepA', 'Hepatitis A', 'Hepatitis A')
+ON CONFLICT (code) DO NOTHING;
+
+-- Ages: birth 0, 1 month 30, 2 months 61, 4 months 122, 6 months 183,
+-- 12 months 365, 15 months 456, 18 months 548
+INSERT INTO vaccine_schedule_doses (vaccine_id, dose_number, recommended_age_days, min_interval_days)
+SELECT vaccines.id, doses.dose_number, doses.recommended_age_days, doses.min_interval_days
+FROM (VALUES
+  ('HepB', 1, 0, NULL),
+  ('HepB', 2, 30, 28),
+  ('HepB', 3, 183, 56),
+  ('RV', 1, 61, NULL),
+  ('RV', 2, 122, 28),
+  ('RV', 3, 183, 28),
+  ('DTaP', 1, 61, NULL),
+  ('DTaP', 2, 122, 28),
+  ('DTaP', 3, 183, 28),
+  ('DTaP', 4, 456, 180),
+  ('Hib', 1, 61, NULL),
+  ('Hib', 2, 122, 28),
+  ('Hib', 3, 183, 28),
+  ('Hib', 4, 365, 56),
+  ('PCV', 1, 61, NULL),
+  ('PCV', 2, 122, 28),
+  ('PCV', 3, 183, 28),
+  ('PCV', 4, 365, 56),
+  ('IPV', 1, 61, NULL),
+  ('IPV', 2, 122, 28),
+  ('IPV', 3, 183, 28),
+  ('MMR', 1, 365, NULL),
+  ('VAR', 1, 365, NULL),
+  ('HepA', 1, 365, NULL),
+  ('HepA', 2, 548, 180)
+) AS doses (code, dose_number, recommended_age_days, min_interval_days)
+JOIN vaccines ON vaccines.code = doses.code
+ON CONFLICT (schedule, vaccine_id, dose_number) DO NOTHING;
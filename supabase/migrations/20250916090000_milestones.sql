@@ -0,0 +1,184 @@
+/*
+  # Developmental Milestones
+
+  1. New Tables
+    - `milestones`: catalog of developmental milestones by domain (motor,
+      language, social, cognitive). `age_months` is the age by which most
+      children show the milestone; a milestone still missing at
+      `concern_months` is a gap the care team should look at.
+    - `baby_milestones`: milestones observed for a baby, with the date they
+      were first seen and who recorded them
+    - `milestone_reviews`: the care team's review of a flagged gap
+      (monitoring, referred or resolved) with notes
+
+  2. Seed Data
+    - Milestones from 2 to 36 months, grouped into the usual well-visit age
+      bands
+
+  3. Security
+    - Everyone signed in can read the catalog; only admins can change it
+    - Parents can view and tick milestones for their own babies; clinic
+      roles can do the same for any baby
+    - Parents can view reviews for their own babies; only doctors and
+      admins can write them
+*/
+
+CREATE TABLE IF NOT EXISTS milestones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE,
+  domain text NOT NULL CHECK (domain IN ('motor', 'language', 'social', 'cognitive')),
+  title text NOT NULL,
+  description text,
+  age_months integer NOT NULL CHECK (age_months >= 0),
+  concern_months integer NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (concern_months >= age_months)
+);
+
+CREATE TABLE IF NOT EXISTS baby_milestones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  baby_id uuid NOT NULL REFERENCES babies(id) ON DELETE CASCADE,
+  milestone_id uuid NOT NULL REFERENCES milestones(id) ON DELETE CASCADE,
+  achieved_on date NOT NULL,
+  notes text,
+  recorded_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (baby_id, milestone_id)
+);
+
+CREATE TABLE IF NOT EXISTS milestone_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  baby_id uuid NOT NULL REFERENCES babies(id) ON DELETE CASCADE,
+  milestone_id uuid NOT NULL REFERENCES milestones(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('monitoring', 'referred', 'resolved')),
+  notes text,
+  reviewed_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (baby_id, milestone_id)
+);
+
+CREATE INDEX IF NOT EXISTS baby_milestones_baby_idx ON baby_milestones (baby_id);
+CREATE INDEX IF NOT EXISTS milestone_reviews_baby_idx ON milestone_reviews (baby_id);
+
+ALTER TABLE milestones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE baby_milestones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE milestone_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed in users can view milestones" ON milestones;
+CREATE POLICY "Signed in users can view milestones"
+  ON milestones
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage milestones" ON milestones;
+CREATE POLICY "Admins can manage milestones"
+  ON milestones
+  FOR ALL
+  TO authenticated
+  USING ((SELECT role FROM user_profiles WHERE id = auth.uid()) = 'admin')
+  WITH CHECK ((SELECT role FROM user_profiles WHERE id = auth.uid()) = 'admin');
+
+DROP POLICY IF EXISTS "Parents and clinic roles can manage baby milestones" ON baby_milestones;
+CREATE POLICY "Parents and clinic roles can manage baby milestones"
+  ON baby_milestones
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = baby_milestones.baby_id
+        AND parent_babies.parent_id = auth.uid()
+    )
+    OR (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = baby_milestones.baby_id
+        AND parent_babies.parent_id = auth.uid()
+    )
+    OR (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+DROP POLICY IF EXISTS "Parents can view their babies' milestone reviews" ON milestone_reviews;
+CREATE POLICY "Parents can view their babies' milestone reviews"
+  ON milestone_reviews
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = milestone_reviews.baby_id
+        AND parent_babies.parent_id = auth.uid()
+    )
+    OR (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+DROP POLICY IF EXISTS "Doctors can review milestone gaps" ON milestone_reviews;
+CREATE POLICY "Doctors can review milestone gaps"
+  ON milestone_reviews
+  FOR ALL
+  TO authenticated
+  USING ((SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor'))
+  WITH CHECK ((SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor'));
+
+CREATE OR REPLACE FUNCTION public.touch_baby_milestone()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_baby_milestone ON baby_milestones;
+CREATE TRIGGER touch_baby_milestone
+  BEFORE UPDATE ON baby_milestones
+  FOR EACH ROW EXECUTE FUNCTION public.touch_baby_milestone();
+
+INSERT INTO milestones (code, domain, title, age_months, concern_months) VALUES
+  ('2m_calms', 'social', 'Calms down when spoken to or picked up', 2, 4),
+  ('2m_smiles', 'social', 'Smiles when you talk to or smile at them', 2, 4),
+  ('2m_coos', 'language', 'Makes sounds other than crying', 2, 4),
+  ('2m_watches', 'cognitive', 'Watches you as you move', 2, 4),
+  ('2m_head_up', 'motor', 'Holds head up when on tummy', 2, 4),
+  ('4m_laughs', 'social', 'Chuckles when you try to make them laugh', 4, 6),
+  ('4m_turns_to_voice', 'language', 'Turns head towards the sound of your voice', 4, 6),
+  ('4m_hands_to_mouth', 'cognitive', 'Brings hands to mouth when hungry', 4, 6),
+  ('4m_holds_toy', 'motor', 'Holds a toy when you put it in their hand', 4, 6),
+  ('4m_pushes_up', 'motor', 'Pushes up onto elbows when on tummy', 4, 6),
+  ('6m_knows_family', 'social', 'Knows familiar people', 6, 9),
+  ('6m_takes_turns', 'language', 'Takes turns making sounds with you', 6, 9),
+  ('6m_reaches', 'cognitive', 'Reaches to grab a toy they want', 6, 9),
+  ('6m_rolls', 'motor', 'Rolls from tummy to back', 6, 9),
+  ('9m_stranger', 'social', 'Is shy, clingy or fearful around strangers', 9, 12),
+  ('9m_babbles', 'language', 'Makes sounds like "mamamama" and "babababa"', 9, 12),
+  ('9m_looks_for_object', 'cognitive', 'Looks for objects when dropped out of sight', 9, 12),
+  ('9m_sits', 'motor', 'Sits without support', 9, 12),
+  ('12m_plays_games', 'social', 'Plays games with you, like pat-a-cake', 12, 15),
+  ('12m_waves', 'language', 'Waves "bye-bye"', 12, 15),
+  ('12m_finds_hidden', 'cognitive', 'Looks for things they see you hide', 12, 15),
+  ('12m_pulls_to_stand', 'motor', 'Pulls up to stand', 12, 15),
+  ('15m_shows_objects', 'social', 'Shows you an object they like', 15, 18),
+  ('15m_first_words', 'language', 'Tries to say one or two words besides "mama" or "dada"', 15, 18),
+  ('15m_uses_objects', 'cognitive', 'Tries to use things the right way, like a phone or cup', 15, 18),
+  ('15m_walks', 'motor', 'Takes a few steps on their own', 15, 18),
+  ('18m_points', 'social', 'Points to show you something interesting', 18, 24),
+  ('18m_three_words', 'language', 'Tries to say three or more words besides "mama" or "dada"', 18, 24),
+  ('18m_copies_chores', 'cognitive', 'Copies you doing chores, like sweeping', 18, 24),
+  ('18m_feeds_self', 'motor', 'Feeds themselves some food with their fingers', 18, 24),
+  ('24m_notices_feelings', 'social', 'Notices when others are hurt or upset', 24, 30),
+  ('24m_two_words', 'language', 'Says at least two words together, like "more milk"', 24, 30),
+  ('24m_points_in_book', 'cognitive', 'Points to things in a book when you ask', 24, 30),
+  ('24m_kicks_ball', 'motor', 'Kicks a ball', 24, 30),
+  ('30m_plays_with_others', 'social', 'Plays next to other children and sometimes with them', 30, 36),
+  ('30m_fifty_words', 'language', 'Says about 50 words', 30, 36),
+  ('30m_pretend_play', 'cognitive', 'Uses things to pretend, like feeding a doll', 30, 36),
+  ('30m_jumps', 'motor', 'Jumps off the ground with both feet', 30, 36),
+  ('36m_calms_quickly', 'social', 'Calms down within 10 minutes after you leave them', 36, 48),
+  ('36m_conversation', 'language', 'Talks with you in conversation using back-and-forth exchanges', 36, 48),
+  ('36m_draws_circle', 'cognitive', 'Draws a circle when you show them how', 36, 48),
+  ('36m_uses_fork', 'motor', 'Uses a fork', 36, 48)
+ON CONFLICT (code) DO NOTHING;
@@ -0,0 +1,88 @@
+/*
+  # Daily Care Logs
+
+  1. New Tables
+    - `care_logs`: one row per feed, sleep, diaper change or pumping session.
+      Timed entries (breastfeeds, sleep, pumping) are inserted when the timer
+      starts with `ended_at` left empty, and closed when it stops, so a
+      running timer survives the app being closed. One-off entries (bottle,
+      solids, diapers) start and end at the same moment.
+      - feeds record the method (breast, bottle, solid), the breast side,
+        the bottle volume in ml or the food offered
+      - diaper changes record whether the diaper was wet, dirty or both
+      - pumping records the side and the volume expressed
+
+  2. Security
+    - Parents linked to the baby can add, correct and delete entries
+    - The baby's assigned doctor can read the log but not change it
+*/
+
+CREATE TABLE IF NOT EXISTS care_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  baby_id uuid NOT NULL REFERENCES babies(id) ON DELETE CASCADE,
+  entry_type text NOT NULL CHECK (entry_type IN ('feeding', 'sleep', 'diaper', 'pumping')),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  ended_at timestamptz,
+  feeding_method text CHECK (feeding_method IN ('breast', 'bottle', 'solid')),
+  side text CHECK (side IN ('left', 'right', 'both')),
+  volume_ml numeric(6,1) CHECK (volume_ml IS NULL OR volume_ml >= 0),
+  food text,
+  diaper_kind text CHECK (diaper_kind IN ('wet', 'dirty', 'mixed')),
+  notes text,
+  logged_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (ended_at IS NULL OR ended_at >= started_at),
+  CHECK ((entry_type = 'feeding') = (feeding_method IS NOT NULL)),
+  CHECK ((entry_type = 'diaper') = (diaper_kind IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS care_logs_baby_started_idx ON care_logs (baby_id, started_at DESC);
+
+ALTER TABLE care_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parents can manage their babies' care logs" ON care_logs;
+CREATE POLICY "Parents can manage their babies' care logs"
+  ON care_logs
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = care_logs.baby_id
+        AND parent_babies.parent_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = care_logs.baby_id
+        AND parent_babies.parent_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Assigned doctors can view care logs" ON care_logs;
+CREATE POLICY "Assigned doctors can view care logs"
+  ON care_logs
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM babies
+      WHERE babies.id = care_logs.baby_id
+        AND babies.assigned_doctor_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.touch_care_log()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_care_log ON care_logs;
+CREATE TRIGGER touch_care_log
+  BEFORE UPDATE ON care_logs
+  FOR EACH ROW EXECUTE FUNCTION public.touch_care_log();
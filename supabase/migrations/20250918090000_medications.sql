@@ -0,0 +1,299 @@
+/*
+  # Medications and Prescriptions
+
+  1. New Tables
+    - `medications`: the clinic's paediatric formulary with a default dose in
+      mg per kg, the maximum single dose and the usual dosing interval. The
+      drug class is used to cross-check prescriptions against allergies.
+    - `prescriptions`: a doctor's order for one baby. The dose is calculated
+      from the baby's most recent recorded weight, and both that weight and
+      the resulting dose are stored so the order stays readable if later
+      weights change. Prescriptions run from `starts_at` to `ends_at`
+      (start plus duration) unless discontinued earlier.
+    - `medication_doses`: each dose given, logged by a parent at home or by
+      the clinic
+
+  2. Changes to `notification_preferences`
+    - `medication_reminders`: remind parents when the next dose is due
+
+  3. Security
+    - Everyone signed in can read the formulary; admins maintain it
+    - Doctors and admins prescribe and discontinue; staff can view
+    - Parents can view their babies' prescriptions and log and remove the
+      doses they gave
+    - A prescription whose drug or drug class matches one of the baby's
+      recorded allergies is rejected unless an override reason is given
+    - A dose above the weight-based dose (`weight_kg` x `dose_mg_per_kg`) or
+      the formulary's maximum single dose is rejected unless a dose override
+      reason is given
+*/
+
+CREATE TABLE IF NOT EXISTS medications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  drug_class text,
+  dose_mg_per_kg numeric(6,2) NOT NULL CHECK (dose_mg_per_kg > 0),
+  max_dose_mg numeric(7,1) CHECK (max_dose_mg IS NULL OR max_dose_mg > 0),
+  frequency_hours integer NOT NULL CHECK (frequency_hours IN (4, 6, 8, 12, 24)),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS prescriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  baby_id uuid NOT NULL REFERENCES babies(id) ON DELETE CASCADE,
+  medication_id uuid REFERENCES medications(id) ON DELETE SET NULL,
+  drug_name text NOT NULL,
+  drug_class text,
+  dose_mg_per_kg numeric(6,2) NOT NULL CHECK (dose_mg_per_kg > 0),
+  weight_kg numeric(5,2) NOT NULL CHECK (weight_kg > 0),
+  dose_mg numeric(7,1) NOT NULL CHECK (dose_mg > 0),
+  frequency_hours integer NOT NULL CHECK (frequency_hours IN (4, 6, 8, 12, 24)),
+  duration_days integer NOT NULL CHECK (duration_days BETWEEN 1 AND 90),
+  starts_at timestamptz NOT NULL DEFAULT now(),
+  ends_at timestamptz NOT NULL,
+  instructions text,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'discontinued')),
+  allergy_override_reason text,
+  dose_override_reason text,
+  prescribed_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  discontinued_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  discontinued_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS prescriptions_baby_idx ON prescriptions (baby_id, starts_at DESC);
+
+CREATE TABLE IF NOT EXISTS medication_doses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  prescription_id uuid NOT NULL REFERENCES prescriptions(id) ON DELETE CASCADE,
+  given_at timestamptz NOT NULL DEFAULT now(),
+  dose_mg numeric(7,1) NOT NULL CHECK (dose_mg > 0),
+  notes text,
+  given_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS medication_doses_prescription_idx ON medication_doses (prescription_id, given_at DESC);
+
+ALTER TABLE notification_preferences
+  ADD COLUMN IF NOT EXISTS medication_reminders boolean NOT NULL DEFAULT true;
+
+ALTER TABLE medications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prescriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE medication_doses ENABLE ROW LEVEL SECURITY;
+
+-- Formulary
+
+DROP POLICY IF EXISTS "Authenticated users can view medications" ON medications;
+CREATE POLICY "Authenticated users can view medications"
+  ON medications
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage medications" ON medications;
+CREATE POLICY "Admins can manage medications"
+  ON medications
+  FOR ALL
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) = 'admin'
+  )
+  WITH CHECK (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) = 'admin'
+  );
+
+-- Prescriptions
+
+DROP POLICY IF EXISTS "Clinic staff can view prescriptions" ON prescriptions;
+CREATE POLICY "Clinic staff can view prescriptions"
+  ON prescriptions
+  FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+DROP POLICY IF EXISTS "Parents can view their babies' prescriptions" ON prescriptions;
+CREATE POLICY "Parents can view their babies' prescriptions"
+  ON prescriptions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = prescriptions.baby_id
+        AND parent_babies.parent_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Doctors can prescribe" ON prescriptions;
+CREATE POLICY "Doctors can prescribe"
+  ON prescriptions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor')
+    AND prescribed_by = auth.uid()
+  );
+
+DROP POLICY IF EXISTS "Doctors can update prescriptions" ON prescriptions;
+CREATE POLICY "Doctors can update prescriptions"
+  ON prescriptions
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor')
+  )
+  WITH CHECK (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor')
+  );
+
+-- Doses
+
+DROP POLICY IF EXISTS "Clinic staff can view and log doses" ON medication_doses;
+CREATE POLICY "Clinic staff can view and log doses"
+  ON medication_doses
+  FOR ALL
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  )
+  WITH CHECK (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+DROP POLICY IF EXISTS "Parents can view their babies' doses" ON medication_doses;
+CREATE POLICY "Parents can view their babies' doses"
+  ON medication_doses
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM prescriptions
+      JOIN parent_babies ON parent_babies.baby_id = prescriptions.baby_id
+      WHERE prescriptions.id = medication_doses.prescription_id
+        AND parent_babies.parent_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Parents can log doses" ON medication_doses;
+CREATE POLICY "Parents can log doses"
+  ON medication_doses
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    given_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM prescriptions
+      JOIN parent_babies ON parent_babies.baby_id = prescriptions.baby_id
+      WHERE prescriptions.id = medication_doses.prescription_id
+        AND parent_babies.parent_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Parents can remove doses they logged" ON medication_doses;
+CREATE POLICY "Parents can remove doses they logged"
+  ON medication_doses
+  FOR DELETE
+  TO authenticated
+  USING (given_by = auth.uid());
+
+-- Allergy cross-check. The app runs the same check (with common aliases such
+-- as "sulfa") before saving; this is the backstop for anything that skips it.
+
+CREATE OR REPLACE FUNCTION public.check_prescription_allergies()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.allergy_override_reason IS NULL OR trim(NEW.allergy_override_reason) = '' THEN
+    IF EXISTS (
+      SELECT 1
+      FROM babies, unnest(coalesce(babies.allergies, '{}')) AS allergy
+      WHERE babies.id = NEW.baby_id
+        AND trim(allergy) <> ''
+        AND (
+          lower(NEW.drug_name) LIKE '%' || lower(trim(allergy)) || '%'
+          OR lower(trim(allergy)) LIKE '%' || lower(NEW.drug_name) || '%'
+          OR (
+            NEW.drug_class IS NOT NULL
+            AND (
+              lower(NEW.drug_class) LIKE '%' || lower(trim(allergy)) || '%'
+              OR lower(trim(allergy)) LIKE '%' || lower(NEW.drug_class) || '%'
+            )
+          )
+        )
+    ) THEN
+      RAISE EXCEPTION 'Prescription conflicts with a recorded allergy'
+        USING ERRCODE = 'P0001', HINT = 'allergy_conflict';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_prescription_allergies ON prescriptions;
+CREATE TRIGGER check_prescription_allergies
+  BEFORE INSERT ON prescriptions
+  FOR EACH ROW EXECUTE FUNCTION public.check_prescription_allergies();
+
+-- Dose check. The app calculates the dose and caps it at the formulary
+-- maximum; this stops a mistyped or tampered dose from being stored.
+
+CREATE OR REPLACE FUNCTION public.check_prescription_dose()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_max_dose_mg numeric;
+BEGIN
+  IF NEW.dose_override_reason IS NULL OR trim(NEW.dose_override_reason) = '' THEN
+    SELECT max_dose_mg INTO v_max_dose_mg
+    FROM medications
+    WHERE id = NEW.medication_id;
+
+    IF NEW.dose_mg > round(NEW.weight_kg * NEW.dose_mg_per_kg, 1)
+      OR (v_max_dose_mg IS NOT NULL AND NEW.dose_mg > v_max_dose_mg) THEN
+      RAISE EXCEPTION 'Prescribed dose exceeds the weight-based or maximum dose'
+        USING ERRCODE = 'P0001', HINT = 'dose_limit';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_prescription_dose ON prescriptions;
+CREATE TRIGGER check_prescription_dose
+  BEFORE INSERT OR UPDATE OF dose_mg, dose_mg_per_kg, weight_kg, medication_id, dose_override_reason ON prescriptions
+  FOR EACH ROW EXECUTE FUNCTION public.check_prescription_dose();
+
+CREATE OR REPLACE FUNCTION public.touch_prescription()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_prescription ON prescriptions;
+CREATE TRIGGER touch_prescription
+  BEFORE UPDATE ON prescriptions
+  FOR EACH ROW EXECUTE FUNCTION public.touch_prescription();
+
+-- Formulary defaults (single dose per kg). Doctors can adjust the dose per
+-- prescription.
+
+INSERT INTO medications (name, drug_class, dose_mg_per_kg, max_dose_mg, frequency_hours) VALUES
+  ('Paracetamol (acetaminophen)', 'Analgesics', 15, 1000, 6),
+  ('Ibuprofen', 'NSAIDs', 10, 400, 8),
+  ('Amoxicillin', 'Penicillins', 25, 1000, 12),
+  ('Amoxicillin-clavulanate', 'Penicillins', 22.5, 875, 12),
+  ('Cefalexin', 'Cephalosporins', 12.5, 500, 6),
+  ('Azithromycin', 'Macrolides', 10, 500, 24),
+  ('Trimethoprim-sulfamethoxazole', 'Sulfonamides', 4, 160, 12),
+  ('Cetirizine', 'Antihistamines', 0.25, 10, 24),
+  ('Prednisolone', 'Corticosteroids', 1, 60, 24),
+  ('Ondansetron', 'Antiemetics', 0.15, 4, 8)
+ON CONFLICT (name) DO NOTHING;
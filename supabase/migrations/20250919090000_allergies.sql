@@ -0,0 +1,217 @@
+/*
+  # Structured Allergy Records
+
+  1. New Tables
+    - `allergens`: the coded allergen list, kept in step with the list
+      bundled with the app (`lib/allergies.ts`). Drug allergens carry the
+      formulary drug class they cover.
+    - `allergies`: one row per allergy per baby
+      - `allergen` as written, plus `allergen_code` when it matches the
+        coded allergen list
+      - `category` (food, drug, environmental)
+      - `reaction`, `severity` (mild, moderate, severe) and `onset_date`
+      - `verification_status` (unconfirmed, confirmed, refuted)
+
+  2. Changes to `babies`
+    - Existing `allergies` text arrays are converted into `allergies` rows,
+      marked unconfirmed with no severity so the care team can review them.
+      Entries that name a listed allergen or one of its synonyms are coded
+      and given its category; the rest are left uncoded.
+    - The `allergies` column is dropped
+
+  3. Security
+    - Clinic roles (admin, doctor, staff) can record and update allergies
+    - Parents can view their babies' allergies
+    - The parent edit guard on `babies` and the prescription allergy check
+      are recreated against the new table; refuted allergies no longer
+      block prescriptions
+    - Prescriptions are checked by code and drug class rather than by
+      substring: a coded allergy blocks drugs of its class or named by one
+      of its synonyms, and an uncoded one only blocks a drug or class with
+      exactly that name
+*/
+
+CREATE TABLE IF NOT EXISTS allergens (
+  code text PRIMARY KEY,
+  name text NOT NULL,
+  category text NOT NULL CHECK (category IN ('food', 'drug', 'environmental')),
+  drug_class text,
+  synonyms text[] NOT NULL DEFAULT '{}'
+);
+
+ALTER TABLE allergens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view allergens" ON allergens;
+CREATE POLICY "Authenticated users can view allergens"
+  ON allergens
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO allergens (code, name, category, drug_class, synonyms) VALUES
+  ('food-cow-milk', 'Cow''s milk', 'food', NULL, ARRAY['milk', 'dairy', 'lactose', 'cmpa']),
+  ('food-egg', 'Egg', 'food', NULL, ARRAY['eggs']),
+  ('food-peanut', 'Peanut', 'food', NULL, ARRAY['peanuts', 'groundnut']),
+  ('food-tree-nut', 'Tree nuts', 'food', NULL, ARRAY['almond', 'cashew', 'walnut', 'hazelnut', 'pecan', 'pistachio', 'nuts']),
+  ('food-soy', 'Soy', 'food', NULL, ARRAY['soya', 'soybean']),
+  ('food-wheat', 'Wheat', 'food', NULL, ARRAY['gluten']),
+  ('food-fish', 'Fish', 'food', NULL, ARRAY['salmon', 'cod', 'tuna']),
+  ('food-shellfish', 'Shellfish', 'food', NULL, ARRAY['shrimp', 'prawn', 'crab', 'lobster']),
+  ('food-sesame', 'Sesame', 'food', NULL, ARRAY['tahini']),
+  ('drug-penicillins', 'Penicillins', 'drug', 'Penicillins', ARRAY['penicillin', 'amoxicillin', 'ampicillin', 'augmentin']),
+  ('drug-cephalosporins', 'Cephalosporins', 'drug', 'Cephalosporins', ARRAY['cephalosporin', 'cefalexin', 'cephalexin', 'ceftriaxone']),
+  ('drug-sulfonamides', 'Sulfonamides', 'drug', 'Sulfonamides', ARRAY['sulfa', 'sulpha', 'co-trimoxazole', 'bactrim']),
+  ('drug-macrolides', 'Macrolides', 'drug', 'Macrolides', ARRAY['macrolide', 'azithromycin', 'erythromycin', 'clarithromycin']),
+  ('drug-nsaids', 'NSAIDs', 'drug', 'NSAIDs', ARRAY['nsaid', 'ibuprofen', 'aspirin']),
+  ('drug-paracetamol', 'Paracetamol', 'drug', NULL, ARRAY['acetaminophen', 'tylenol']),
+  ('env-latex', 'Latex', 'environmental', NULL, ARRAY['rubber']),
+  ('env-dust-mite', 'Dust mites', 'environmental', NULL, ARRAY['dust', 'house dust mite']),
+  ('env-pollen', 'Pollen', 'environmental', NULL, ARRAY['grass', 'hay fever', 'tree pollen']),
+  ('env-pet-dander', 'Pet dander', 'environmental', NULL, ARRAY['cat', 'dog', 'animal dander']),
+  ('env-insect-sting', 'Insect stings', 'environmental', NULL, ARRAY['bee', 'wasp', 'sting']),
+  ('env-mould', 'Mould', 'environmental', NULL, ARRAY['mold'])
+ON CONFLICT (code) DO UPDATE SET
+  name = EXCLUDED.name,
+  category = EXCLUDED.category,
+  drug_class = EXCLUDED.drug_class,
+  synonyms = EXCLUDED.synonyms;
+
+CREATE TABLE IF NOT EXISTS allergies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  baby_id uuid NOT NULL REFERENCES babies(id) ON DELETE CASCADE,
+  allergen text NOT NULL CHECK (trim(allergen) <> ''),
+  allergen_code text REFERENCES allergens(code),
+  category text CHECK (category IN ('food', 'drug', 'environmental')),
+  reaction text,
+  severity text CHECK (severity IN ('mild', 'moderate', 'severe')),
+  onset_date date,
+  verification_status text NOT NULL DEFAULT 'unconfirmed'
+    CHECK (verification_status IN ('unconfirmed', 'confirmed', 'refuted')),
+  notes text,
+  recorded_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS allergies_baby_allergen_idx ON allergies (baby_id, lower(allergen));
+
+ALTER TABLE allergies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic staff can manage allergies" ON allergies;
+CREATE POLICY "Clinic staff can manage allergies"
+  ON allergies
+  FOR ALL
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  )
+  WITH CHECK (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+DROP POLICY IF EXISTS "Parents can view their babies' allergies" ON allergies;
+CREATE POLICY "Parents can view their babies' allergies"
+  ON allergies
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM parent_babies
+      WHERE parent_babies.baby_id = allergies.baby_id
+        AND parent_babies.parent_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.touch_allergy()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_allergy ON allergies;
+CREATE TRIGGER touch_allergy
+  BEFORE UPDATE ON allergies
+  FOR EACH ROW EXECUTE FUNCTION public.touch_allergy();
+
+-- Convert the free-text arrays, coding entries that name a listed allergen
+-- (or a synonym, allowing a plural "s")
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'babies' AND column_name = 'allergies'
+  ) THEN
+    INSERT INTO allergies (baby_id, allergen, allergen_code, category, verification_status, created_at)
+    SELECT babies.id, trim(allergy), coded.code, coded.category, 'unconfirmed', babies.created_at
+    FROM babies
+    CROSS JOIN unnest(babies.allergies) AS allergy
+    LEFT JOIN LATERAL (
+      SELECT allergens.code, allergens.category
+      FROM allergens, unnest(allergens.synonyms || lower(allergens.name)) AS term
+      WHERE lower(trim(allergy)) IN (term, term || 's')
+      ORDER BY allergens.code
+      LIMIT 1
+    ) AS coded ON true
+    WHERE trim(allergy) <> ''
+    ON CONFLICT DO NOTHING;
+  END IF;
+END $$;
+
+-- Recreate the parent edit guard without the dropped column
+CREATE OR REPLACE FUNCTION public.enforce_parent_baby_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (SELECT role FROM public.user_profiles WHERE id = auth.uid()) = 'parent'::user_role THEN
+    IF NEW.birth_date IS DISTINCT FROM OLD.birth_date
+      OR NEW.gender IS DISTINCT FROM OLD.gender
+      OR NEW.current_weight IS DISTINCT FROM OLD.current_weight
+      OR NEW.current_height IS DISTINCT FROM OLD.current_height
+      OR NEW.blood_type IS DISTINCT FROM OLD.blood_type
+      OR NEW.medical_notes IS DISTINCT FROM OLD.medical_notes
+      OR NEW.assigned_doctor_id IS DISTINCT FROM OLD.assigned_doctor_id
+    THEN
+      RAISE EXCEPTION 'Parents can only update the baby''s name';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Check prescriptions against the structured records, ignoring refuted ones.
+-- Coded drug allergies match the drug's class, or a drug named by the
+-- allergen or one of its synonyms as a whole word; uncoded ones only match a
+-- drug or class of exactly that name.
+CREATE OR REPLACE FUNCTION public.check_prescription_allergies()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.allergy_override_reason IS NULL OR trim(NEW.allergy_override_reason) = '' THEN
+    IF EXISTS (
+      SELECT 1
+      FROM allergies
+      LEFT JOIN allergens ON allergens.code = allergies.allergen_code
+      WHERE allergies.baby_id = NEW.baby_id
+        AND allergies.verification_status <> 'refuted'
+        AND CASE
+          WHEN allergens.code IS NULL THEN
+            lower(trim(allergies.allergen)) IN (lower(trim(NEW.drug_name)), lower(trim(NEW.drug_class)))
+          WHEN allergens.category = 'drug' THEN
+            lower(allergens.drug_class) = lower(trim(NEW.drug_class))
+            OR EXISTS (
+              SELECT 1 FROM unnest(allergens.synonyms || lower(allergens.name)) AS term
+              WHERE lower(NEW.drug_name) ~ ('\m' || term || '\M')
+            )
+          ELSE false
+        END
+    ) THEN
+      RAISE EXCEPTION 'Prescription conflicts with a recorded allergy'
+        USING ERRCODE = 'P0001', HINT = 'allergy_conflict';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE babies DROP COLUMN IF EXISTS allergies;
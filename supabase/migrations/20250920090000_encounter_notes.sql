@@ -0,0 +1,276 @@
+/*
+  # Encounter Notes and Problem List
+
+  1. New Tables
+    - `encounter_notes`: one clinical note per appointment, written in SOAP
+      format from a template chosen by the appointment type. The status moves
+      from draft to signed, and to amended once an amendment is signed.
+    - `encounter_note_versions`: the text of each version of a note
+      (subjective, objective, assessment, plan). Version 1 is the original
+      note; it can be edited until it is signed. Every later version is an
+      amendment with its own author, reason and signature. Signed versions
+      can never be changed or deleted.
+    - `problems`: the baby's problem list. Each problem is coded against the
+      ICD-10-CM list bundled with the app (or written free text when no code
+      fits), and is either active or resolved with onset and resolution dates.
+
+  2. Security
+    - Doctors and admins write, sign and amend notes and manage problems
+    - Staff can read notes and the problem list
+    - Only the author can edit or sign a draft. Versions are always inserted
+      unsigned and signed afterwards, so a signature cannot be written for
+      someone else on insert
+    - Amendments can only be written by the note's author, the appointment's
+      doctor, the baby's assigned doctor or an admin
+*/
+
+CREATE TABLE IF NOT EXISTS encounter_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  baby_id uuid NOT NULL REFERENCES babies(id) ON DELETE CASCADE,
+  appointment_id uuid NOT NULL UNIQUE REFERENCES appointments(id) ON DELETE CASCADE,
+  template text NOT NULL CHECK (template IN ('checkup', 'vaccination', 'consultation', 'emergency')),
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'signed', 'amended')),
+  author_id uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS encounter_notes_baby_idx ON encounter_notes (baby_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS encounter_note_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id uuid NOT NULL REFERENCES encounter_notes(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  subjective text NOT NULL DEFAULT '',
+  objective text NOT NULL DEFAULT '',
+  assessment text NOT NULL DEFAULT '',
+  plan text NOT NULL DEFAULT '',
+  amendment_reason text,
+  author_id uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  signed_at timestamptz,
+  signed_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (note_id, version),
+  CHECK (version = 1 OR (amendment_reason IS NOT NULL AND trim(amendment_reason) <> '')),
+  CHECK ((signed_at IS NULL) = (signed_by IS NULL))
+);
+
+CREATE TABLE IF NOT EXISTS problems (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  baby_id uuid NOT NULL REFERENCES babies(id) ON DELETE CASCADE,
+  code text,
+  description text NOT NULL CHECK (trim(description) <> ''),
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'resolved')),
+  onset_date date,
+  resolved_on date,
+  notes text,
+  encounter_note_id uuid REFERENCES encounter_notes(id) ON DELETE SET NULL,
+  recorded_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  resolved_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((status = 'resolved') = (resolved_on IS NOT NULL)),
+  CHECK (resolved_on IS NULL OR onset_date IS NULL OR resolved_on >= onset_date)
+);
+
+CREATE INDEX IF NOT EXISTS problems_baby_idx ON problems (baby_id, status);
+
+ALTER TABLE encounter_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE encounter_note_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE problems ENABLE ROW LEVEL SECURITY;
+
+-- Encounter notes
+
+DROP POLICY IF EXISTS "Clinic staff can view encounter notes" ON encounter_notes;
+CREATE POLICY "Clinic staff can view encounter notes"
+  ON encounter_notes
+  FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+DROP POLICY IF EXISTS "Clinicians can start encounter notes" ON encounter_notes;
+CREATE POLICY "Clinicians can start encounter notes"
+  ON encounter_notes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor')
+    AND author_id = auth.uid()
+  );
+
+DROP POLICY IF EXISTS "Authors can discard draft notes" ON encounter_notes;
+CREATE POLICY "Authors can discard draft notes"
+  ON encounter_notes
+  FOR DELETE
+  TO authenticated
+  USING (author_id = auth.uid() AND status = 'draft');
+
+-- Note versions
+
+DROP POLICY IF EXISTS "Clinic staff can view note versions" ON encounter_note_versions;
+CREATE POLICY "Clinic staff can view note versions"
+  ON encounter_note_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+-- Clinicians linked to the note: its author, the appointment's doctor, the
+-- baby's assigned doctor, or an admin
+CREATE OR REPLACE FUNCTION public.can_write_note_version(p_note_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.encounter_notes n
+    JOIN public.appointments a ON a.id = n.appointment_id
+    JOIN public.babies b ON b.id = n.baby_id
+    WHERE n.id = p_note_id
+      AND (
+        n.author_id = auth.uid()
+        OR a.doctor_id = auth.uid()
+        OR b.assigned_doctor_id = auth.uid()
+        OR public.current_user_role() = 'admin'
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Clinicians can write note versions" ON encounter_note_versions;
+CREATE POLICY "Clinicians can write note versions"
+  ON encounter_note_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor')
+    AND author_id = auth.uid()
+    AND signed_at IS NULL
+    AND signed_by IS NULL
+    AND public.can_write_note_version(note_id)
+  );
+
+DROP POLICY IF EXISTS "Authors can edit and sign their drafts" ON encounter_note_versions;
+CREATE POLICY "Authors can edit and sign their drafts"
+  ON encounter_note_versions
+  FOR UPDATE
+  TO authenticated
+  USING (author_id = auth.uid())
+  WITH CHECK (author_id = auth.uid() AND (signed_by IS NULL OR signed_by = auth.uid()));
+
+-- Problems
+
+DROP POLICY IF EXISTS "Clinic staff can view problems" ON problems;
+CREATE POLICY "Clinic staff can view problems"
+  ON problems
+  FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor', 'staff')
+  );
+
+DROP POLICY IF EXISTS "Clinicians can manage problems" ON problems;
+CREATE POLICY "Clinicians can manage problems"
+  ON problems
+  FOR ALL
+  TO authenticated
+  USING (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor')
+  )
+  WITH CHECK (
+    (SELECT role FROM user_profiles WHERE id = auth.uid()) IN ('admin', 'doctor')
+  );
+
+-- Number versions on insert, keep them unsigned, and only allow an amendment
+-- once every earlier version has been signed
+CREATE OR REPLACE FUNCTION public.prepare_note_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.encounter_note_versions
+    WHERE note_id = NEW.note_id AND signed_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Sign the current draft before amending this note';
+  END IF;
+
+  -- Versions are signed by their author with a later update
+  IF NEW.signed_at IS NOT NULL OR NEW.signed_by IS NOT NULL THEN
+    RAISE EXCEPTION 'Note versions must be saved before they are signed';
+  END IF;
+
+  SELECT coalesce(max(version), 0) + 1 INTO NEW.version
+  FROM public.encounter_note_versions
+  WHERE note_id = NEW.note_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prepare_note_version ON encounter_note_versions;
+CREATE TRIGGER prepare_note_version
+  BEFORE INSERT ON encounter_note_versions
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_note_version();
+
+-- Signed versions are part of the legal record
+CREATE OR REPLACE FUNCTION public.protect_signed_note_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.signed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Signed notes cannot be changed; add an amendment instead';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  NEW.note_id := OLD.note_id;
+  NEW.version := OLD.version;
+  NEW.author_id := OLD.author_id;
+  NEW.updated_at := now();
+
+  -- The signing time is the server's, not the client's
+  IF NEW.signed_by IS NOT NULL THEN
+    NEW.signed_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_signed_note_version ON encounter_note_versions;
+CREATE TRIGGER protect_signed_note_version
+  BEFORE UPDATE OR DELETE ON encounter_note_versions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_signed_note_version();
+
+-- Keep the note's status in step with its latest signed version
+CREATE OR REPLACE FUNCTION public.sync_encounter_note_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.signed_at IS NOT NULL THEN
+    UPDATE public.encounter_notes
+    SET status = CASE WHEN NEW.version > 1 THEN 'amended' ELSE 'signed' END,
+        updated_at = now()
+    WHERE id = NEW.note_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_encounter_note_status ON encounter_note_versions;
+CREATE TRIGGER sync_encounter_note_status
+  AFTER INSERT OR UPDATE ON encounter_note_versions
+  FOR EACH ROW EXECUTE FUNCTION public.sync_encounter_note_status();
+
+CREATE OR REPLACE FUNCTION public.touch_problem()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_problem ON problems;
+CREATE TRIGGER touch_problem
+  BEFORE UPDATE ON problems
+  FOR EACH ROW EXECUTE FUNCTION public.touch_problem();
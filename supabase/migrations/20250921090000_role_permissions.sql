@@ -0,0 +1,718 @@
+/*
+  # Role Based Access Control
+
+  1. New Tables
+    - `role_permissions`: the permission matrix shared with the app
+      (`lib/permissions.ts`). Each row grants a role a permission with a scope:
+      `all` babies, the doctor's `assigned` babies, or the parent's `own`
+      babies. Permissions that are not about a baby use `all`.
+
+  2. Functions
+    - `current_user_role()`: the signed in user's role, or null when the
+      account is deactivated
+    - `has_permission(permission, baby_id)`: whether the signed in user holds
+      the permission, for the given baby when one is passed
+
+  3. Security
+    - Policies on babies, parent links, vitals, appointments, immunizations,
+      allergies, prescriptions, doses, milestones, care logs, encounter notes,
+      problems, tasks and staff invitations now check `has_permission()`
+      instead of listing roles, so they match the checks made in the app
+    - Only administrators may change a baby's assigned doctor, and only
+      doctors and administrators its medical details; recording vitals may
+      update the current measurements
+    - Conversations, messages, doctor schedules, invitations, reference
+      data, own-profile edits and parents' appointment changes keep their
+      participant and role rules, now written with
+      `current_user_role()` and `has_permission()`, so a deactivated account
+      is refused by every policy
+*/
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role user_role NOT NULL,
+  permission text NOT NULL,
+  scope text NOT NULL DEFAULT 'all' CHECK (scope IN ('all', 'assigned', 'own')),
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed in users can view role permissions" ON role_permissions;
+CREATE POLICY "Signed in users can view role permissions"
+  ON role_permissions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Keep in step with ROLE_PERMISSIONS in lib/permissions.ts
+DELETE FROM role_permissions;
+
+INSERT INTO role_permissions (role, permission, scope)
+SELECT role::user_role, permission, 'all'
+FROM unnest(ARRAY['admin', 'doctor', 'staff']) AS role
+CROSS JOIN unnest(ARRAY[
+  'dashboard.view',
+  'settings.view',
+  'patients.list',
+  'patients.view',
+  'patients.create',
+  'patients.update',
+  'vitals.record',
+  'immunizations.record',
+  'allergies.manage',
+  'medications.log_dose',
+  'milestones.update',
+  'notes.view',
+  'problems.view',
+  'appointments.view',
+  'appointments.book',
+  'tasks.manage'
+]) AS permission;
+
+INSERT INTO role_permissions (role, permission, scope)
+SELECT role::user_role, permission, 'all'
+FROM unnest(ARRAY['admin', 'doctor']) AS role
+CROSS JOIN unnest(ARRAY[
+  'medical_info.update',
+  'medications.prescribe',
+  'milestones.review',
+  'notes.write',
+  'problems.manage',
+  'availability.manage'
+]) AS permission;
+
+INSERT INTO role_permissions (role, permission, scope) VALUES
+  ('admin', 'patients.assign_doctor', 'all'),
+  ('admin', 'staff.manage', 'all'),
+  ('admin', 'messages.view', 'all'),
+  ('admin', 'reports.view', 'all'),
+  ('doctor', 'care_logs.view', 'assigned'),
+  ('doctor', 'messages.view', 'all'),
+  ('doctor', 'reports.view', 'assigned'),
+  ('staff', 'messages.view', 'all'),
+  ('parent', 'dashboard.view', 'all'),
+  ('parent', 'settings.view', 'all'),
+  ('parent', 'patients.view', 'own'),
+  ('parent', 'patients.update', 'own'),
+  ('parent', 'babies.list', 'own'),
+  ('parent', 'growth.view', 'own'),
+  ('parent', 'medications.log_dose', 'own'),
+  ('parent', 'milestones.update', 'own'),
+  ('parent', 'care_logs.view', 'own'),
+  ('parent', 'care_logs.manage', 'own'),
+  ('parent', 'appointments.view', 'own'),
+  ('parent', 'appointments.book', 'own'),
+  ('parent', 'messages.view', 'own');
+
+-- Permission checks
+
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS user_role AS $$
+  SELECT role FROM public.user_profiles
+  WHERE id = auth.uid() AND is_active;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Without a baby this answers whether the user holds the permission at all;
+-- policies on baby records always pass the baby
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission text, p_baby_id uuid DEFAULT NULL)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.role_permissions
+    WHERE role = public.current_user_role()
+      AND permission = p_permission
+      AND (
+        scope = 'all'
+        OR p_baby_id IS NULL
+        OR (
+          scope = 'assigned'
+          AND EXISTS (
+            SELECT 1 FROM public.babies
+            WHERE id = p_baby_id AND assigned_doctor_id = auth.uid()
+          )
+        )
+        OR (
+          scope = 'own'
+          AND EXISTS (
+            SELECT 1 FROM public.parent_babies
+            WHERE baby_id = p_baby_id AND parent_id = auth.uid()
+          )
+        )
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Babies
+
+DROP POLICY IF EXISTS "Parents can view their babies" ON babies;
+DROP POLICY IF EXISTS "Clinic staff can view babies" ON babies;
+DROP POLICY IF EXISTS "Clinic staff can manage babies" ON babies;
+DROP POLICY IF EXISTS "Parents can update their babies" ON babies;
+
+DROP POLICY IF EXISTS "Users can view permitted babies" ON babies;
+CREATE POLICY "Users can view permitted babies"
+  ON babies
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('patients.view', id));
+
+DROP POLICY IF EXISTS "Permitted users can register babies" ON babies;
+CREATE POLICY "Permitted users can register babies"
+  ON babies
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_permission('patients.create'));
+
+DROP POLICY IF EXISTS "Permitted users can update babies" ON babies;
+CREATE POLICY "Permitted users can update babies"
+  ON babies
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('patients.update', id))
+  WITH CHECK (public.has_permission('patients.update', id));
+
+-- Replaces the parent-only guard with checks for every role
+CREATE OR REPLACE FUNCTION public.enforce_parent_baby_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (
+    NEW.birth_date IS DISTINCT FROM OLD.birth_date
+    OR NEW.gender IS DISTINCT FROM OLD.gender
+    OR NEW.blood_type IS DISTINCT FROM OLD.blood_type
+    OR NEW.medical_notes IS DISTINCT FROM OLD.medical_notes
+  ) AND NOT public.has_permission('medical_info.update', NEW.id) THEN
+    RAISE EXCEPTION 'You do not have permission to change this baby''s medical details';
+  END IF;
+
+  IF (
+    NEW.current_weight IS DISTINCT FROM OLD.current_weight
+    OR NEW.current_height IS DISTINCT FROM OLD.current_height
+  ) AND NOT public.has_permission('vitals.record', NEW.id) THEN
+    RAISE EXCEPTION 'You do not have permission to change this baby''s measurements';
+  END IF;
+
+  IF NEW.assigned_doctor_id IS DISTINCT FROM OLD.assigned_doctor_id
+    AND NOT public.has_permission('patients.assign_doctor', NEW.id) THEN
+    RAISE EXCEPTION 'You do not have permission to change the assigned doctor';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Parent links
+
+DROP POLICY IF EXISTS "Parents can view their baby links" ON parent_babies;
+DROP POLICY IF EXISTS "Clinic staff can manage baby links" ON parent_babies;
+
+DROP POLICY IF EXISTS "Users can view permitted baby links" ON parent_babies;
+CREATE POLICY "Users can view permitted baby links"
+  ON parent_babies
+  FOR SELECT
+  TO authenticated
+  USING (parent_id = auth.uid() OR public.has_permission('patients.view', baby_id));
+
+DROP POLICY IF EXISTS "Permitted users can link parents" ON parent_babies;
+CREATE POLICY "Permitted users can link parents"
+  ON parent_babies
+  FOR ALL
+  TO authenticated
+  USING (public.has_permission('patients.create'))
+  WITH CHECK (public.has_permission('patients.create'));
+
+-- Vitals
+
+DROP POLICY IF EXISTS "Parents can view their babies' vitals" ON vital_records;
+DROP POLICY IF EXISTS "Clinic staff can manage vitals" ON vital_records;
+
+DROP POLICY IF EXISTS "Users can view permitted vitals" ON vital_records;
+CREATE POLICY "Users can view permitted vitals"
+  ON vital_records
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('patients.view', baby_id));
+
+DROP POLICY IF EXISTS "Permitted users can record vitals" ON vital_records;
+CREATE POLICY "Permitted users can record vitals"
+  ON vital_records
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_permission('vitals.record', baby_id)
+    AND recorded_by = auth.uid()
+  );
+
+-- Appointments
+
+DROP POLICY IF EXISTS "Parents can view their appointments" ON appointments;
+DROP POLICY IF EXISTS "Clinic staff can view appointments" ON appointments;
+DROP POLICY IF EXISTS "Parents can book appointments for their babies" ON appointments;
+DROP POLICY IF EXISTS "Clinic staff can book appointments" ON appointments;
+
+DROP POLICY IF EXISTS "Users can view permitted appointments" ON appointments;
+CREATE POLICY "Users can view permitted appointments"
+  ON appointments
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('appointments.view', baby_id));
+
+DROP POLICY IF EXISTS "Permitted users can book appointments" ON appointments;
+CREATE POLICY "Permitted users can book appointments"
+  ON appointments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_permission('appointments.book', baby_id)
+    AND (public.current_user_role() <> 'parent' OR parent_id = auth.uid())
+  );
+
+-- Immunizations
+
+DROP POLICY IF EXISTS "Parents can view their babies' immunizations" ON immunization_records;
+CREATE POLICY "Parents can view their babies' immunizations"
+  ON immunization_records
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('patients.view', baby_id));
+
+DROP POLICY IF EXISTS "Clinic roles can record immunizations" ON immunization_records;
+CREATE POLICY "Clinic roles can record immunizations"
+  ON immunization_records
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_permission('immunizations.record', baby_id));
+
+DROP POLICY IF EXISTS "Clinic roles can correct immunizations" ON immunization_records;
+CREATE POLICY "Clinic roles can correct immunizations"
+  ON immunization_records
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('immunizations.record', baby_id))
+  WITH CHECK (public.has_permission('immunizations.record', baby_id));
+
+-- Allergies
+
+DROP POLICY IF EXISTS "Parents can view their babies' allergies" ON allergies;
+CREATE POLICY "Parents can view their babies' allergies"
+  ON allergies
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('patients.view', baby_id));
+
+DROP POLICY IF EXISTS "Clinic staff can manage allergies" ON allergies;
+CREATE POLICY "Clinic staff can manage allergies"
+  ON allergies
+  FOR ALL
+  TO authenticated
+  USING (public.has_permission('allergies.manage', baby_id))
+  WITH CHECK (public.has_permission('allergies.manage', baby_id));
+
+-- Prescriptions and doses
+
+DROP POLICY IF EXISTS "Clinic staff can view prescriptions" ON prescriptions;
+DROP POLICY IF EXISTS "Parents can view their babies' prescriptions" ON prescriptions;
+CREATE POLICY "Parents can view their babies' prescriptions"
+  ON prescriptions
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('patients.view', baby_id));
+
+DROP POLICY IF EXISTS "Doctors can prescribe" ON prescriptions;
+CREATE POLICY "Doctors can prescribe"
+  ON prescriptions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_permission('medications.prescribe', baby_id)
+    AND prescribed_by = auth.uid()
+  );
+
+DROP POLICY IF EXISTS "Doctors can update prescriptions" ON prescriptions;
+CREATE POLICY "Doctors can update prescriptions"
+  ON prescriptions
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('medications.prescribe', baby_id))
+  WITH CHECK (public.has_permission('medications.prescribe', baby_id));
+
+DROP POLICY IF EXISTS "Clinic staff can view and log doses" ON medication_doses;
+DROP POLICY IF EXISTS "Parents can view their babies' doses" ON medication_doses;
+CREATE POLICY "Parents can view their babies' doses"
+  ON medication_doses
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.has_permission(
+      'patients.view',
+      (SELECT baby_id FROM prescriptions WHERE prescriptions.id = medication_doses.prescription_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Parents can log doses" ON medication_doses;
+CREATE POLICY "Parents can log doses"
+  ON medication_doses
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    given_by = auth.uid()
+    AND public.has_permission(
+      'medications.log_dose',
+      (SELECT baby_id FROM prescriptions WHERE prescriptions.id = medication_doses.prescription_id)
+    )
+  );
+
+-- Milestones
+
+DROP POLICY IF EXISTS "Parents and clinic roles can manage baby milestones" ON baby_milestones;
+CREATE POLICY "Parents and clinic roles can manage baby milestones"
+  ON baby_milestones
+  FOR ALL
+  TO authenticated
+  USING (public.has_permission('milestones.update', baby_id))
+  WITH CHECK (public.has_permission('milestones.update', baby_id));
+
+DROP POLICY IF EXISTS "Parents can view their babies' milestone reviews" ON milestone_reviews;
+CREATE POLICY "Parents can view their babies' milestone reviews"
+  ON milestone_reviews
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('patients.view', baby_id));
+
+DROP POLICY IF EXISTS "Doctors can review milestone gaps" ON milestone_reviews;
+CREATE POLICY "Doctors can review milestone gaps"
+  ON milestone_reviews
+  FOR ALL
+  TO authenticated
+  USING (public.has_permission('milestones.review', baby_id))
+  WITH CHECK (public.has_permission('milestones.review', baby_id));
+
+-- Care logs
+
+DROP POLICY IF EXISTS "Assigned doctors can view care logs" ON care_logs;
+CREATE POLICY "Assigned doctors can view care logs"
+  ON care_logs
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('care_logs.view', baby_id));
+
+DROP POLICY IF EXISTS "Parents can manage their babies' care logs" ON care_logs;
+CREATE POLICY "Parents can manage their babies' care logs"
+  ON care_logs
+  FOR ALL
+  TO authenticated
+  USING (public.has_permission('care_logs.manage', baby_id))
+  WITH CHECK (public.has_permission('care_logs.manage', baby_id));
+
+-- Encounter notes and problems
+
+DROP POLICY IF EXISTS "Clinic staff can view encounter notes" ON encounter_notes;
+CREATE POLICY "Clinic staff can view encounter notes"
+  ON encounter_notes
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('notes.view', baby_id));
+
+DROP POLICY IF EXISTS "Clinicians can start encounter notes" ON encounter_notes;
+CREATE POLICY "Clinicians can start encounter notes"
+  ON encounter_notes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_permission('notes.write', baby_id)
+    AND author_id = auth.uid()
+  );
+
+DROP POLICY IF EXISTS "Clinic staff can view note versions" ON encounter_note_versions;
+CREATE POLICY "Clinic staff can view note versions"
+  ON encounter_note_versions
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('notes.view'));
+
+DROP POLICY IF EXISTS "Clinicians can write note versions" ON encounter_note_versions;
+CREATE POLICY "Clinicians can write note versions"
+  ON encounter_note_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_permission('notes.write')
+    AND author_id = auth.uid()
+    AND signed_at IS NULL
+    AND signed_by IS NULL
+    AND public.can_write_note_version(note_id)
+  );
+
+DROP POLICY IF EXISTS "Clinic staff can view problems" ON problems;
+CREATE POLICY "Clinic staff can view problems"
+  ON problems
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('problems.view', baby_id));
+
+DROP POLICY IF EXISTS "Clinicians can manage problems" ON problems;
+CREATE POLICY "Clinicians can manage problems"
+  ON problems
+  FOR ALL
+  TO authenticated
+  USING (public.has_permission('problems.manage', baby_id))
+  WITH CHECK (public.has_permission('problems.manage', baby_id));
+
+-- Clinic administration
+
+DROP POLICY IF EXISTS "Clinic staff can manage tasks" ON tasks;
+CREATE POLICY "Clinic staff can manage tasks"
+  ON tasks
+  FOR ALL
+  TO authenticated
+  USING (public.has_permission('tasks.manage'))
+  WITH CHECK (public.has_permission('tasks.manage'));
+
+DROP POLICY IF EXISTS "Admins can manage staff invitations" ON staff_invitations;
+CREATE POLICY "Admins can manage staff invitations"
+  ON staff_invitations
+  FOR ALL
+  TO authenticated
+  USING (public.has_permission('staff.manage'))
+  WITH CHECK (public.has_permission('staff.manage'));
+
+DROP POLICY IF EXISTS "Admins can update any profile" ON user_profiles;
+CREATE POLICY "Admins can update any profile"
+  ON user_profiles
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('staff.manage'))
+  WITH CHECK (public.has_permission('staff.manage'));
+
+-- Role checks outside the permission matrix go through current_user_role() so
+-- deactivated accounts are refused everywhere
+
+CREATE OR REPLACE FUNCTION public.enforce_profile_admin_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.current_user_role() = 'admin' THEN
+    IF NEW.is_active IS DISTINCT FROM OLD.is_active THEN
+      NEW.deactivated_at := CASE WHEN NEW.is_active THEN NULL ELSE now() END;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.is_active IS DISTINCT FROM OLD.is_active
+    OR NEW.deactivated_at IS DISTINCT FROM OLD.deactivated_at THEN
+    RAISE EXCEPTION 'Only administrators can change roles or account status';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Users can view clinic staff profiles" ON user_profiles;
+CREATE POLICY "Users can view clinic staff profiles"
+  ON user_profiles
+  FOR SELECT
+  TO authenticated
+  USING (role <> 'parent' AND public.current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Clinic staff can manage invitations" ON parent_invitations;
+CREATE POLICY "Clinic staff can manage invitations"
+  ON parent_invitations
+  FOR ALL
+  TO authenticated
+  USING (public.has_permission('patients.create'))
+  WITH CHECK (public.has_permission('patients.create'));
+
+DROP POLICY IF EXISTS "Parents can update their appointments" ON appointments;
+CREATE POLICY "Parents can update their appointments"
+  ON appointments
+  FOR UPDATE
+  TO authenticated
+  USING (public.current_user_role() = 'parent' AND public.has_permission('appointments.view', baby_id))
+  WITH CHECK (public.current_user_role() = 'parent' AND public.has_permission('appointments.view', baby_id));
+
+DROP POLICY IF EXISTS "Users can update their own profile" ON user_profiles;
+CREATE POLICY "Users can update their own profile"
+  ON user_profiles
+  FOR UPDATE
+  TO authenticated
+  USING (id = auth.uid() AND public.current_user_role() IS NOT NULL)
+  WITH CHECK (id = auth.uid() AND public.current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Clinic staff can update appointments" ON appointments;
+CREATE POLICY "Clinic staff can update appointments"
+  ON appointments
+  FOR UPDATE
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'doctor', 'staff'))
+  WITH CHECK (public.current_user_role() IN ('admin', 'doctor', 'staff'));
+
+DROP POLICY IF EXISTS "Doctors and admins can manage schedules" ON doctor_schedules;
+CREATE POLICY "Doctors and admins can manage schedules"
+  ON doctor_schedules
+  FOR ALL
+  TO authenticated
+  USING (
+    (doctor_id = auth.uid() AND public.has_permission('availability.manage'))
+    OR public.has_permission('staff.manage')
+  )
+  WITH CHECK (
+    (doctor_id = auth.uid() AND public.has_permission('availability.manage'))
+    OR public.has_permission('staff.manage')
+  );
+
+DROP POLICY IF EXISTS "Doctors and admins can manage time off" ON doctor_time_off;
+CREATE POLICY "Doctors and admins can manage time off"
+  ON doctor_time_off
+  FOR ALL
+  TO authenticated
+  USING (
+    (doctor_id = auth.uid() AND public.has_permission('availability.manage'))
+    OR public.has_permission('staff.manage')
+  )
+  WITH CHECK (
+    (doctor_id = auth.uid() AND public.has_permission('availability.manage'))
+    OR public.has_permission('staff.manage')
+  );
+
+DROP POLICY IF EXISTS "Clinic staff can view notification preferences" ON notification_preferences;
+CREATE POLICY "Clinic staff can view notification preferences"
+  ON notification_preferences
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'doctor', 'staff'));
+
+-- Reference data
+
+DROP POLICY IF EXISTS "Admins can manage vaccines" ON vaccines;
+CREATE POLICY "Admins can manage vaccines"
+  ON vaccines
+  FOR ALL
+  TO authenticated
+  USING (public.current_user_role() = 'admin')
+  WITH CHECK (public.current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can manage the vaccine schedule" ON vaccine_schedule_doses;
+CREATE POLICY "Admins can manage the vaccine schedule"
+  ON vaccine_schedule_doses
+  FOR ALL
+  TO authenticated
+  USING (public.current_user_role() = 'admin')
+  WITH CHECK (public.current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can delete immunizations" ON immunization_records;
+CREATE POLICY "Admins can delete immunizations"
+  ON immunization_records
+  FOR DELETE
+  TO authenticated
+  USING (public.current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can manage milestones" ON milestones;
+CREATE POLICY "Admins can manage milestones"
+  ON milestones
+  FOR ALL
+  TO authenticated
+  USING (public.current_user_role() = 'admin')
+  WITH CHECK (public.current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can manage medications" ON medications;
+CREATE POLICY "Admins can manage medications"
+  ON medications
+  FOR ALL
+  TO authenticated
+  USING (public.current_user_role() = 'admin')
+  WITH CHECK (public.current_user_role() = 'admin');
+
+-- Conversations and messages
+
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(p_conversation_id text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE id::text = p_conversation_id
+      AND (
+        (parent_id = auth.uid() AND public.current_user_role() = 'parent')
+        OR public.current_user_role() IN ('admin', 'doctor', 'staff')
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(p_conversation_id uuid)
+RETURNS integer AS $$
+DECLARE
+  updated_count integer;
+BEGIN
+  IF NOT public.is_conversation_participant(p_conversation_id::text) THEN
+    RAISE EXCEPTION 'Not a participant in this conversation'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Parents read the care team's messages; the care team reads the family's
+  UPDATE public.messages m
+  SET is_read = true
+  WHERE m.conversation_id = p_conversation_id
+    AND NOT m.is_read
+    AND m.sender_id <> auth.uid()
+    AND (
+      public.current_user_role() = 'parent'
+      OR (SELECT role FROM public.user_profiles WHERE id = m.sender_id) = 'parent'
+    );
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Parents can view their conversations" ON conversations;
+CREATE POLICY "Parents can view their conversations"
+  ON conversations
+  FOR SELECT
+  TO authenticated
+  USING (public.is_conversation_participant(id::text));
+
+DROP POLICY IF EXISTS "Participants can start conversations" ON conversations;
+CREATE POLICY "Participants can start conversations"
+  ON conversations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (
+      parent_id = auth.uid()
+      AND public.current_user_role() = 'parent'
+      AND (baby_id IS NULL OR public.has_permission('patients.view', baby_id))
+    )
+    OR public.current_user_role() IN ('admin', 'doctor', 'staff')
+  );
+
+DROP POLICY IF EXISTS "Clinic roles can triage conversations" ON conversations;
+CREATE POLICY "Clinic roles can triage conversations"
+  ON conversations
+  FOR UPDATE
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'doctor', 'staff'))
+  WITH CHECK (public.current_user_role() IN ('admin', 'doctor', 'staff'));
+
+DROP POLICY IF EXISTS "Conversation participants can view messages" ON messages;
+CREATE POLICY "Conversation participants can view messages"
+  ON messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.is_conversation_participant(conversation_id::text)
+    OR (
+      public.current_user_role() IS NOT NULL
+      AND (sender_id = auth.uid() OR recipient_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Conversation participants can send messages" ON messages;
+CREATE POLICY "Conversation participants can send messages"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND public.current_user_role() IS NOT NULL
+    AND (conversation_id IS NULL OR public.is_conversation_participant(conversation_id::text))
+  );
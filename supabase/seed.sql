@@ -0,0 +1,132 @@
+/*
+  # Local Demo Data
+
+  Loaded by `supabase db reset` after every migration has run. Vaccines,
+  milestones, medications and permissions are reference data and are seeded by
+  their migrations; this file only adds demo accounts and patients.
+
+  Every account signs in with the password `password123`:
+    - admin@lamela.test (admin)
+    - dr.okafor@lamela.test, dr.chen@lamela.test (doctors)
+    - nurse.silva@lamela.test (staff)
+    - amara.mensah@example.com, james.mensah@example.com, sofia.ruiz@example.com (parents)
+*/
+
+-- Auth users; `handle_new_user` creates each profile from the metadata as a parent
+INSERT INTO auth.users (
+  instance_id,
+  id,
+  aud,
+  role,
+  email,
+  encrypted_password,
+  email_confirmed_at,
+  raw_app_meta_data,
+  raw_user_meta_data,
+  created_at,
+  updated_at,
+  confirmation_token,
+  email_change,
+  email_change_token_new,
+  recovery_token
+)
+SELECT
+  '00000000-0000-0000-0000-000000000000',
+  account.id,
+  'authenticated',
+  'authenticated',
+  account.email,
+  extensions.crypt('password123', extensions.gen_salt('bf')),
+  now(),
+  '{"provider": "email", "providers": ["email"]}'::jsonb,
+  jsonb_build_object(
+    'first_name', account.first_name,
+    'last_name', account.last_name,
+    'phone', account.phone
+  ),
+  now(),
+  now(),
+  '',
+  '',
+  '',
+  ''
+FROM (VALUES
+  ('a0000000-0000-0000-0000-000000000001'::uuid, 'admin@lamela.test', 'Grace', 'Adeyemi', '+1 555 0100'),
+  ('a0000000-0000-0000-0000-000000000002'::uuid, 'dr.okafor@lamela.test', 'Daniel', 'Okafor', '+1 555 0101'),
+  ('a0000000-0000-0000-0000-000000000003'::uuid, 'dr.chen@lamela.test', 'Mei', 'Chen', '+1 555 0102'),
+  ('a0000000-0000-0000-0000-000000000004'::uuid, 'nurse.silva@lamela.test', 'Lucia', 'Silva', '+1 555 0103'),
+  ('a0000000-0000-0000-0000-000000000005'::uuid, 'amara.mensah@example.com', 'Amara', 'Mensah', '+1 555 0200'),
+  ('a0000000-0000-0000-0000-000000000006'::uuid, 'james.mensah@example.com', 'James', 'Mensah', '+1 555 0201'),
+  ('a0000000-0000-0000-0000-000000000007'::uuid, 'sofia.ruiz@example.com', 'Sofia', 'Ruiz', '+1 555 0202')
+) AS account (id, email, first_name, last_name, phone);
+
+INSERT INTO auth.identities (
+  id,
+  user_id,
+  provider_id,
+  identity_data,
+  provider,
+  last_sign_in_at,
+  created_at,
+  updated_at
+)
+SELECT
+  gen_random_uuid(),
+  id,
+  id::text,
+  jsonb_build_object('sub', id::text, 'email', email, 'email_verified', true),
+  'email',
+  now(),
+  now(),
+  now()
+FROM auth.users
+WHERE id::text LIKE 'a0000000-%';
+
+-- Clinic accounts normally come from staff invitations; the seed assigns them directly
+UPDATE user_profiles
+SET role = staff.role::user_role
+FROM (VALUES
+  ('a0000000-0000-0000-0000-000000000001'::uuid, 'admin'),
+  ('a0000000-0000-0000-0000-000000000002'::uuid, 'doctor'),
+  ('a0000000-0000-0000-0000-000000000003'::uuid, 'doctor'),
+  ('a0000000-0000-0000-0000-000000000004'::uuid, 'staff')
+) AS staff (id, role)
+WHERE user_profiles.id = staff.id;
+
+INSERT INTO babies (id, first_name, last_name, birth_date, gender, current_weight, current_height, blood_type, medical_notes, assigned_doctor_id) VALUES
+  ('b0000000-0000-0000-0000-000000000001', 'Kofi', 'Mensah', current_date - 120, 'male', 6.40, 62.5, 'O+', NULL, 'a0000000-0000-0000-0000-000000000002'),
+  ('b0000000-0000-0000-0000-000000000002', 'Ama', 'Mensah', current_date - 700, 'female', 11.20, 84.0, 'O+', 'Mild eczema, managed with emollients', 'a0000000-0000-0000-0000-000000000002'),
+  ('b0000000-0000-0000-0000-000000000003', 'Mateo', 'Ruiz', current_date - 45, 'male', 4.30, 54.0, NULL, 'Born at 37 weeks', 'a0000000-0000-0000-0000-000000000003');
+
+INSERT INTO parent_babies (parent_id, baby_id, relationship) VALUES
+  ('a0000000-0000-0000-0000-000000000005', 'b0000000-0000-0000-0000-000000000001', 'mother'),
+  ('a0000000-0000-0000-0000-000000000006', 'b0000000-0000-0000-0000-000000000001', 'father'),
+  ('a0000000-0000-0000-0000-000000000005', 'b0000000-0000-0000-0000-000000000002', 'mother'),
+  ('a0000000-0000-0000-0000-000000000006', 'b0000000-0000-0000-0000-000000000002', 'father'),
+  ('a0000000-0000-0000-0000-000000000007', 'b0000000-0000-0000-0000-000000000003', 'mother');
+
+INSERT INTO vital_records (baby_id, weight, height, head_circumference, temperature, heart_rate, respiratory_rate, oxygen_saturation, notes, recorded_by, recorded_at) VALUES
+  ('b0000000-0000-0000-0000-000000000001', 3.50, 50.0, 34.5, 36.8, 140, 45, 98, 'Newborn check', 'a0000000-0000-0000-0000-000000000004', now() - interval '118 days'),
+  ('b0000000-0000-0000-0000-000000000001', 4.60, 55.5, 37.5, 36.9, 138, 40, 99, NULL, 'a0000000-0000-0000-0000-000000000004', now() - interval '60 days'),
+  ('b0000000-0000-0000-0000-000000000001', 6.40, 62.5, 40.5, 36.7, 130, 36, 99, 'Feeding well', 'a0000000-0000-0000-0000-000000000002', now() - interval '3 days'),
+  ('b0000000-0000-0000-0000-000000000002', 9.80, 78.0, 45.5, 36.8, 115, 28, 99, NULL, 'a0000000-0000-0000-0000-000000000004', now() - interval '180 days'),
+  ('b0000000-0000-0000-0000-000000000002', 11.20, 84.0, 47.0, 37.0, 110, 26, 98, NULL, 'a0000000-0000-0000-0000-000000000002', now() - interval '10 days'),
+  ('b0000000-0000-0000-0000-000000000003', 3.10, 49.0, 33.5, 36.9, 145, 48, 97, 'Newborn check', 'a0000000-0000-0000-0000-000000000004', now() - interval '43 days'),
+  ('b0000000-0000-0000-0000-000000000003', 4.30, 54.0, 37.0, 36.8, 142, 44, 98, NULL, 'a0000000-0000-0000-0000-000000000003', now() - interval '2 days');
+
+INSERT INTO allergies (baby_id, allergen, allergen_code, category, reaction, severity, verification_status, recorded_by) VALUES
+  ('b0000000-0000-0000-0000-000000000002', 'Peanut', 'food-peanut', 'food', 'Hives and lip swelling', 'severe', 'confirmed', 'a0000000-0000-0000-0000-000000000002'),
+  ('b0000000-0000-0000-0000-000000000002', 'Amoxicillin', 'drug-penicillins', 'drug', 'Rash', 'moderate', 'unconfirmed', 'a0000000-0000-0000-0000-000000000002');
+
+INSERT INTO appointments (baby_id, doctor_id, parent_id, appointment_date, duration_minutes, type, status, notes, visit_notes, completed_at) VALUES
+  ('b0000000-0000-0000-0000-000000000001', 'a0000000-0000-0000-0000-000000000002', 'a0000000-0000-0000-0000-000000000005', date_trunc('day', now()) - interval '3 days' + interval '10 hours', 30, 'checkup', 'completed', '4 month check', 'Growing well, no concerns', date_trunc('day', now()) - interval '3 days' + interval '10 hours 30 minutes'),
+  ('b0000000-0000-0000-0000-000000000001', 'a0000000-0000-0000-0000-000000000002', 'a0000000-0000-0000-0000-000000000005', date_trunc('day', now()) + interval '14 days 9 hours', 30, 'vaccination', 'scheduled', '4 month vaccines', NULL, NULL),
+  ('b0000000-0000-0000-0000-000000000002', 'a0000000-0000-0000-0000-000000000002', 'a0000000-0000-0000-0000-000000000006', date_trunc('day', now()) + interval '2 days 11 hours', 45, 'consultation', 'confirmed', 'Follow up on eczema', NULL, NULL),
+  ('b0000000-0000-0000-0000-000000000003', 'a0000000-0000-0000-0000-000000000003', 'a0000000-0000-0000-0000-000000000007', date_trunc('day', now()) + interval '1 day 14 hours', 30, 'checkup', 'scheduled', '6 week check', NULL, NULL);
+
+-- Parent messages open the conversation and go to the triage queue; the reply
+-- finds the conversation through its recipient
+INSERT INTO messages (sender_id, recipient_id, baby_id, content, sent_at) VALUES
+  ('a0000000-0000-0000-0000-000000000005', NULL, 'b0000000-0000-0000-0000-000000000002', 'Ama''s rash has come back on her arms. Should we bring her in before the appointment?', now() - interval '5 hours'),
+  ('a0000000-0000-0000-0000-000000000002', 'a0000000-0000-0000-0000-000000000005', 'b0000000-0000-0000-0000-000000000002', 'Keep using the emollient twice a day. If it spreads or she gets a fever, call the clinic.', now() - interval '4 hours'),
+  ('a0000000-0000-0000-0000-000000000007', NULL, 'b0000000-0000-0000-0000-000000000003', 'Is it normal for Mateo to feed every two hours at night?', now() - interval '1 hour');
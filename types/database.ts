@@ -1,72 +1,147 @@
-export interface User {
-  id: string;
-  email: string;
-  role: 'admin' | 'doctor' | 'staff' | 'parent';
-  first_name: string;
-  last_name: string;
-  phone?: string;
-  created_at: string;
-  updated_at: string;
-}
+import type { Database as GeneratedDatabase } from './supabase';
 
-export interface Baby {
-  id: string;
-  first_name: string;
-  last_name: string;
-  birth_date: string;
-  gender: 'male' | 'female' | 'other';
-  current_weight?: number;
-  current_height?: number;
-  blood_type?: string;
-  allergies?: string[];
-  medical_notes?: string;
-  assigned_doctor_id?: string;
-  created_at: string;
-  updated_at: string;
-}
+// `types/supabase.ts` is generated from the migrations with `npm run gen:types`;
+// never edit it by hand. The generator types text columns with a CHECK
+// constraint as `string`, so the allowed values are layered on here.
 
-export interface ParentBaby {
-  id: string;
-  parent_id: string;
-  baby_id: string;
-  relationship: 'mother' | 'father' | 'guardian';
-  created_at: string;
-}
+type UserRole = GeneratedDatabase['public']['Enums']['user_role'];
+type AppointmentStatus = GeneratedDatabase['public']['Enums']['appointment_status'];
+type AppointmentType = 'checkup' | 'vaccination' | 'consultation' | 'emergency';
+type Relationship = 'mother' | 'father' | 'guardian';
+type FrequencyHours = 4 | 6 | 8 | 12 | 24;
 
-export interface VitalRecord {
-  id: string;
-  baby_id: string;
-  weight?: number;
-  height?: number;
-  temperature?: number;
-  heart_rate?: number;
-  feeding_time?: string;
-  notes?: string;
-  recorded_by: string;
-  recorded_at: string;
-}
+type CheckedColumns = {
+  allergens: {
+    category: 'food' | 'drug' | 'environmental';
+  };
+  allergies: {
+    category: 'food' | 'drug' | 'environmental';
+    severity: 'mild' | 'moderate' | 'severe';
+    verification_status: 'unconfirmed' | 'confirmed' | 'refuted';
+  };
+  appointment_status_history: {
+    from_status: AppointmentStatus;
+    to_status: AppointmentStatus;
+  };
+  appointments: {
+    type: AppointmentType;
+  };
+  babies: {
+    gender: 'male' | 'female' | 'other';
+  };
+  care_logs: {
+    entry_type: 'feeding' | 'sleep' | 'diaper' | 'pumping';
+    feeding_method: 'breast' | 'bottle' | 'solid';
+    side: 'left' | 'right' | 'both';
+    diaper_kind: 'wet' | 'dirty' | 'mixed';
+  };
+  conversations: {
+    triage_status: 'open' | 'assigned' | 'resolved';
+    urgency: 'routine' | 'priority' | 'urgent';
+  };
+  encounter_notes: {
+    template: AppointmentType;
+    status: 'draft' | 'signed' | 'amended';
+  };
+  immunization_records: {
+    site: 'left_thigh' | 'right_thigh' | 'left_arm' | 'right_arm' | 'oral' | 'intranasal';
+  };
+  medications: {
+    frequency_hours: FrequencyHours;
+  };
+  messages: {
+    message_type: 'text' | 'image' | 'document';
+  };
+  milestone_reviews: {
+    status: 'monitoring' | 'referred' | 'resolved';
+  };
+  milestones: {
+    domain: 'motor' | 'language' | 'social' | 'cognitive';
+  };
+  parent_babies: {
+    relationship: Relationship;
+  };
+  parent_invitations: {
+    relationship: Relationship;
+  };
+  prescriptions: {
+    frequency_hours: FrequencyHours;
+    status: 'active' | 'discontinued';
+  };
+  problems: {
+    status: 'active' | 'resolved';
+  };
+  role_permissions: {
+    scope: 'all' | 'assigned' | 'own';
+  };
+  staff_invitations: {
+    role: Exclude<UserRole, 'parent'>;
+  };
+  tasks: {
+    priority: 'low' | 'medium' | 'high' | 'urgent';
+    status: 'open' | 'in_progress' | 'done' | 'cancelled';
+    source: 'manual' | 'appointment_confirmed' | 'appointment_completed';
+  };
+};
 
-export interface Appointment {
-  id: string;
-  baby_id: string;
-  doctor_id: string;
-  parent_id: string;
-  appointment_date: string;
-  duration_minutes: number;
-  type: 'checkup' | 'vaccination' | 'consultation' | 'emergency';
-  status: 'scheduled' | 'confirmed' | 'completed' | 'cancelled';
-  notes?: string;
-  created_at: string;
-  updated_at: string;
-}
+// Swaps in the narrower type while keeping the column's nullability and optionality
+type WithCheckedColumns<Shape, Columns> = {
+  [K in keyof Shape]: K extends keyof Columns
+    ? Columns[K] | Extract<Shape[K], null | undefined>
+    : Shape[K];
+};
 
-export interface Message {
-  id: string;
-  sender_id: string;
-  recipient_id: string;
-  baby_id?: string;
-  content: string;
-  message_type: 'text' | 'image' | 'document';
-  is_read: boolean;
-  sent_at: string;
-}
\ No newline at end of file
+type GeneratedTables = GeneratedDatabase['public']['Tables'];
+
+type CheckedTable<Name extends keyof GeneratedTables> = Name extends keyof CheckedColumns
+  ? {
+      Row: WithCheckedColumns<GeneratedTables[Name]['Row'], CheckedColumns[Name]>;
+      Insert: WithCheckedColumns<GeneratedTables[Name]['Insert'], CheckedColumns[Name]>;
+      Update: WithCheckedColumns<GeneratedTables[Name]['Update'], CheckedColumns[Name]>;
+      Relationships: GeneratedTables[Name]['Relationships'];
+    }
+  : GeneratedTables[Name];
+
+/** The schema the Supabase client is typed with. */
+export type Database = {
+  __InternalSupabase: GeneratedDatabase['__InternalSupabase'];
+  public: {
+    Tables: { [Name in keyof GeneratedTables]: CheckedTable<Name> };
+    Views: GeneratedDatabase['public']['Views'];
+    Functions: GeneratedDatabase['public']['Functions'];
+    Enums: GeneratedDatabase['public']['Enums'];
+    CompositeTypes: GeneratedDatabase['public']['CompositeTypes'];
+  };
+};
+
+type Row<Name extends keyof Database['public']['Tables']> = Database['public']['Tables'][Name]['Row'];
+
+export type User = Row<'user_profiles'>;
+export type Baby = Row<'babies'>;
+export type ParentBaby = Row<'parent_babies'>;
+export type VitalRecord = Row<'vital_records'>;
+export type Appointment = Row<'appointments'>;
+export type AppointmentStatusHistory = Row<'appointment_status_history'>;
+export type Message = Row<'messages'>;
+export type Conversation = Row<'conversations'>;
+export type ParentInvitation = Row<'parent_invitations'>;
+export type StaffInvitation = Row<'staff_invitations'>;
+export type Task = Row<'tasks'>;
+export type DoctorSchedule = Row<'doctor_schedules'>;
+export type DoctorTimeOff = Row<'doctor_time_off'>;
+export type NotificationPreferences = Row<'notification_preferences'>;
+export type Vaccine = Row<'vaccines'>;
+export type VaccineScheduleDose = Row<'vaccine_schedule_doses'>;
+export type ImmunizationRecord = Row<'immunization_records'>;
+export type Milestone = Row<'milestones'>;
+export type BabyMilestone = Row<'baby_milestones'>;
+export type MilestoneReview = Row<'milestone_reviews'>;
+export type CareLog = Row<'care_logs'>;
+export type Medication = Row<'medications'>;
+export type Prescription = Row<'prescriptions'>;
+export type MedicationDose = Row<'medication_doses'>;
+export type Allergy = Row<'allergies'>;
+export type EncounterNote = Row<'encounter_notes'>;
+export type EncounterNoteVersion = Row<'encounter_note_versions'>;
+export type Problem = Row<'problems'>;
+export type RolePermission = Row<'role_permissions'>;
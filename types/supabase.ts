@@ -0,0 +1,1886 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "12.2.12 (cd3cf9e)"
+  }
+  public: {
+    Tables: {
+      allergens: {
+        Row: {
+          category: string
+          code: string
+          drug_class: string | null
+          name: string
+          synonyms: string[]
+        }
+        Insert: {
+          category: string
+          code: string
+          drug_class?: string | null
+          name: string
+          synonyms?: string[]
+        }
+        Update: {
+          category?: string
+          code?: string
+          drug_class?: string | null
+          name?: string
+          synonyms?: string[]
+        }
+        Relationships: []
+      }
+      allergies: {
+        Row: {
+          allergen: string
+          allergen_code: string | null
+          baby_id: string
+          category: string | null
+          created_at: string
+          id: string
+          notes: string | null
+          onset_date: string | null
+          reaction: string | null
+          recorded_by: string | null
+          severity: string | null
+          updated_at: string
+          verification_status: string
+        }
+        Insert: {
+          allergen: string
+          allergen_code?: string | null
+          baby_id: string
+          category?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          onset_date?: string | null
+          reaction?: string | null
+          recorded_by?: string | null
+          severity?: string | null
+          updated_at?: string
+          verification_status?: string
+        }
+        Update: {
+          allergen?: string
+          allergen_code?: string | null
+          baby_id?: string
+          category?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          onset_date?: string | null
+          reaction?: string | null
+          recorded_by?: string | null
+          severity?: string | null
+          updated_at?: string
+          verification_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "allergies_allergen_code_fkey"
+            columns: ["allergen_code"]
+            isOneToOne: false
+            referencedRelation: "allergens"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "allergies_baby_id_fkey"
+            columns: ["baby_id"]
+            isOneToOne: false
+            referencedRelation: "babies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "allergies_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointment_status_history: {
+        Row: {
+          appointment_id: string
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          new_date: string | null
+          previous_date: string | null
+          reason: string | null
+          to_status: string
+        }
+        Insert: {
+          appointment_id: string
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          new_date?: string | null
+          previous_date?: string | null
+          reason?: string | null
+          to_status: string
+        }
+        Update: {
+          appointment_id?: string
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          new_date?: string | null
+          previous_date?: string | null
+          reason?: string | null
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_status_history_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointments: {
+        Row: {
+          appointment_date: string
+          baby_id: string
+          cancellation_reason: string | null
+          cancelled_by: string | null
+          checked_in_at: string | null
+          completed_at: string | null
+          created_at: string
+          doctor_id: string
+          duration_minutes: number
+          id: string
+          notes: string | null
+          parent_id: string
+          reschedule_note: string | null
+          reschedule_requested_at: string | null
+          status: Database["public"]["Enums"]["appointment_status"]
+          type: string
+          updated_at: string
+          visit_notes: string | null
+        }
+        Insert: {
+          appointment_date: string
+          baby_id: string
+          cancellation_reason?: string | null
+          cancelled_by?: string | null
+          checked_in_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          doctor_id: string
+          duration_minutes?: number
+          id?: string
+          notes?: string | null
+          parent_id: string
+          reschedule_note?: string | null
+          reschedule_requested_at?: string | null
+          status?: Database["public"]["Enums"]["appointment_status"]
+          type?: string
+          updated_at?: string
+          visit_notes?: string | null
+        }
+        Update: {
+          appointment_date?: string
+          baby_id?: string
+          cancellation_reason?: string | null
+          cancelled_by?: string | null
+          checked_in_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          doctor_id?: string
+          duration_minutes?: number
+          id?: string
+          notes?: string | null
+          parent_id?: string
+          reschedule_note?: string | null
+          reschedule_requested_at?: string | null
+          status?: Database["public"]["Enums"]["appointment_status"]
+          type?: string
+          updated_at?: string
+          visit_notes?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointments_baby_id_fkey"
+            columns: ["baby_id"]
+            isOneToOne: false
+            referencedRelation: "babies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointments_cancelled_by_fkey"
+            columns: ["cancelled_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointments_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      babies: {
+        Row: {
+          assigned_doctor_id: string | null
+          birth_date: string
+          blood_type: string | null
+          created_at: string
+          current_height: number | null
+          current_weight: number | null
+          first_name: string
+          gender: string
+          id: string
+          last_name: string
+          medical_notes: string | null
+          updated_at: string
+        }
+        Insert: {
+          assigned_doctor_id?: string | null
+          birth_date: string
+          blood_type?: string | null
+          created_at?: string
+          current_height?: number | null
+          current_weight?: number | null
+          first_name: string
+          gender: string
+          id?: string
+          last_name: string
+          medical_notes?: string | null
+          updated_at?: string
+        }
+        Update: {
+          assigned_doctor_id?: string | null
+          birth_date?: string
+          blood_type?: string | null
+          created_at?: string
+          current_height?: number | null
+          current_weight?: number | null
+          first_name?: string
+          gender?: string
+          id?: string
+          last_name?: string
+          medical_notes?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "babies_assigned_doctor_id_fkey"
+            columns: ["assigned_doctor_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      baby_milestones: {
+        Row: {
+          achieved_on: string
+          baby_id: string
+          created_at: string
+          id: string
+          milestone_id: string
+          notes: string | null
+          recorded_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          achieved_on: string
+          baby_id: string
+          created_at?: string
+          id?: string
+          milestone_id: string
+          notes?: string | null
+          recorded_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          achieved_on?: string
+          baby_id?: string
+          created_at?: string
+          id?: string
+          milestone_id?: string
+          notes?: string | null
+          recorded_by?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "baby_milestones_baby_id_fkey"
+            columns: ["baby_id"]
+            isOneToOne: false
+            referencedRelation: "babies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "baby_milestones_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "milestones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "baby_milestones_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      care_logs: {
+        Row: {
+          baby_id: string
+          created_at: string
+          diaper_kind: string | null
+          ended_at: string | null
+          entry_type: string
+          feeding_method: string | null
+          food: string | null
+          id: string
+          logged_by: string | null
+          notes: string | null
+          side: string | null
+          started_at: string
+          updated_at: string
+          volume_ml: number | null
+        }
+        Insert: {
+          baby_id: string
+          created_at?: string
+          diaper_kind?: string | null
+          ended_at?: string | null
+          entry_type: string
+          feeding_method?: string | null
+          food?: string | null
+          id?: string
+          logged_by?: string | null
+          notes?: string | null
+          side?: string | null
+          started_at?: string
+          updated_at?: string
+          volume_ml?: number | null
+        }
+        Update: {
+          baby_id?: string
+          created_at?: string
+          diaper_kind?: string | null
+          ended_at?: string | null
+          entry_type?: string
+          feeding_method?: string | null
+          food?: string | null
+          id?: string
+          logged_by?: string | null
+          notes?: string | null
+          side?: string | null
+          started_at?: string
+          updated_at?: string
+          volume_ml?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "care_logs_baby_id_fkey"
+            columns: ["baby_id"]
+            isOneToOne: false
+            referencedRelation: "babies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "care_logs_logged_by_fkey"
+            columns: ["logged_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          assigned_at: string | null
+          assigned_to: string | null
+          baby_id: string | null
+          created_at: string
+          created_by: string | null
+          flag_reasons: string[]
+          id: string
+          last_message_at: string
+          parent_id: string
+          resolved_at: string | null
+          sla_due_at: string | null
+          triage_status: string
+          urgency: string
+        }
+        Insert: {
+          assigned_at?: string | null
+          assigned_to?: string | null
+          baby_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          flag_reasons?: string[]
+          id?: string
+          last_message_at?: string
+          parent_id: string
+          resolved_at?: string | null
+          sla_due_at?: string | null
+          triage_status?: string
+          urgency?: string
+        }
+        Update: {
+          assigned_at?: string | null
+          assigned_to?: string | null
+          baby_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          flag_reasons?: string[]
+          id?: string
+          last_message_at?: string
+          parent_id?: string
+          resolved_at?: string | null
+          sla_due_at?: string | null
+          triage_status?: string
+          urgency?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_baby_id_fkey"
+            columns: ["baby_id"]
+            isOneToOne: false
+            referencedRelation: "babies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_schedules: {
+        Row: {
+          break_end: string | null
+          break_start: string | null
+          created_at: string
+          doctor_id: string
+          end_time: string
+          id: string
+          start_time: string
+          timezone: string
+          weekday: number
+        }
+        Insert: {
+          break_end?: string | null
+          break_start?: string | null
+          created_at?: string
+          doctor_id: string
+          end_time: string
+          id?: string
+          start_time: string
+          timezone?: string
+          weekday: number
+        }
+        Update: {
+          break_end?: string | null
+          break_start?: string | null
+          created_at?: string
+          doctor_id?: string
+          end_time?: string
+          id?: string
+          start_time?: string
+          timezone?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_schedules_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_time_off: {
+        Row: {
+          created_at: string
+          doctor_id: string
+          ends_at: string
+          id: string
+          reason: string | null
+          starts_at: string
+        }
+        Insert: {
+          created_at?: string
+          doctor_id: string
+          ends_at: string
+          id?: string
+          reason?: string | null
+          starts_at: string
+        }
+        Update: {
+          created_at?: string
+          doctor_id?: string
+          ends_at?: string
+          id?: string
+          reason?: string | null
+          starts_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_time_off_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      encounter_note_versions: {
+        Row: {
+          amendment_reason: string | null
+          assessment: string
+          author_id: string | null
+          created_at: string
+          id: string
+          note_id: string
+          objective: string
+          plan: string
+          signed_at: string | null
+          signed_by: string | null
+          subjective: string
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          amendment_reason?: string | null
+          assessment?: string
+          author_id?: string | null
+          created_at?: string
+          id?: string
+          note_id: string
+          objective?: string
+          plan?: string
+          signed_at?: string | null
+          signed_by?: string | null
+          subjective?: string
+          updated_at?: string
+          version: number
+        }
+        Update: {
+          amendment_reason?: string | null
+          assessment?: string
+          author_id?: string | null
+          created_at?: string
+          id?: string
+          note_id?: string
+          objective?: string
+          plan?: string
+          signed_at?: string | null
+          signed_by?: string | null
+          subjective?: string
+          updated_at?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "encounter_note_versions_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "encounter_note_versions_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "encounter_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "encounter_note_versions_signed_by_fkey"
+            columns: ["signed_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      encounter_notes: {
+        Row: {
+          appointment_id: string
+          author_id: string | null
+          baby_id: string
+          created_at: string
+          id: string
+          status: string
+          template: string
+          updated_at: string
+        }
+        Insert: {
+          appointment_id: string
+          author_id?: string | null
+          baby_id: string
+          created_at?: string
+          id?: string
+          status?: string
+          template: string
+          updated_at?: string
+        }
+        Update: {
+          appointment_id?: string
+          author_id?: string | null
+          baby_id?: string
+          created_at?: string
+          id?: string
+          status?: string
+          template?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "encounter_notes_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: true
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "encounter_notes_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "encounter_notes_baby_id_fkey"
+            columns: ["baby_id"]
+            isOneToOne: false
+            referencedRelation: "babies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      immunization_records: {
+        Row: {
+          administered_by: string | null
+          administered_on: string
+          appointment_id: string | null
+          baby_id: string
+          created_at: string
+          dose_number: number
+          id: string
+          lot_number: string | null
+          notes: string | null
+          site: string | null
+          vaccine_id: string
+        }
+        Insert: {
+          administered_by?: string | null
+          administered_on: string
+          appointment_id?: string | null
+          baby_id: string
+          created_at?: string
+          dose_number: number
+          id?: string
+          lot_number?: string | null
+          notes?: string | null
+          site?: string | null
+          vaccine_id: string
+        }
+        Update: {
+          administered_by?: string | null
+          administered_on?: string
+          appointment_id?: string | null
+          baby_id?: string
+          created_at?: string
+          dose_number?: number
+          id?: string
+          lot_number?: string | null
+          notes?: string | null
+          site?: string | null
+          vaccine_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "immunization_records_administered_by_fkey"
+            columns: ["administered_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "immunization_records_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "immunization_records_baby_id_fkey"
+            columns: ["baby_id"]
+            isOneToOne: false
+            referencedRelation: "babies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "immunization_records_vaccine_id_fkey"
+            columns: ["vaccine_id"]
+            isOneToOne: false
+            referencedRelation: "vaccines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      medication_doses: {
+        Row: {
+          created_at: string
+          dose_mg: number
+          given_at: string
+          given_by: string | null
+          id: string
+          notes: string | null
+          prescription_id: string
+        }
+        Insert: {
+          created_at?: string
+          dose_mg: number
+          given_at?: string
+          given_by?: string | null
+          id?: string
+          notes?: string | null
+          prescription_id: string
+        }
+        Update: {
+          created_at?: string
+          dose_mg?: number
+          given_at?: string
+          given_by?: string | null
+          id?: string
+          notes?: string | null
+          prescription_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "medication_doses_given_by_fkey"
+            columns: ["given_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "medication_doses_prescription_id_fkey"
+            columns: ["prescription_id"]
+            isOneToOne: false
+            referencedRelation: "prescriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      medications: {
+        Row: {
+          created_at: string
+          dose_mg_per_kg: number
+          drug_class: string | null
+          frequency_hours: number
+          id: string
+          is_active: boolean
+          max_dose_mg: number | null
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          dose_mg_per_kg: number
+          drug_class?: string | null
+          frequency_hours: number
+          id?: string
+          is_active?: boolean
+          max_dose_mg?: number | null
+          name: string
+        }
+        Update: {
+          created_at?: string
+          dose_mg_per_kg?: number
+          drug_class?: string | null
+          frequency_hours?: number
+          id?: string
+          is_active?: boolean
+          max_dose_mg?: number | null
+          name?: string
+        }
+        Relationships: []
+      }
+      messages: {
+        Row: {
+          attachment_mime_type: string | null
+          attachment_name: string | null
+          attachment_path: string | null
+          attachment_size: number | null
+          baby_id: string | null
+          content: string
+          conversation_id: string | null
+          id: string
+          is_read: boolean
+          message_type: string
+          read_at: string | null
+          recipient_id: string | null
+          sender_id: string
+          sent_at: string
+          urgent_flags: string[]
+        }
+        Insert: {
+          attachment_mime_type?: string | null
+          attachment_name?: string | null
+          attachment_path?: string | null
+          attachment_size?: number | null
+          baby_id?: string | null
+          content: string
+          conversation_id?: string | null
+          id?: string
+          is_read?: boolean
+          message_type?: string
+          read_at?: string | null
+          recipient_id?: string | null
+          sender_id: string
+          sent_at?: string
+          urgent_flags?: string[]
+        }
+        Update: {
+          attachment_mime_type?: string | null
+          attachment_name?: string | null
+          attachment_path?: string | null
+          attachment_size?: number | null
+          baby_id?: string | null
+          content?: string
+          conversation_id?: string | null
+          id?: string
+          is_read?: boolean
+          message_type?: string
+          read_at?: string | null
+          recipient_id?: string | null
+          sender_id?: string
+          sent_at?: string
+          urgent_flags?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_baby_id_fkey"
+            columns: ["baby_id"]
+            isOneToOne: false
+            referencedRelation: "babies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      milestone_reviews: {
+        Row: {
+          baby_id: string
+          id: string
+          milestone_id: string
+          notes: string | null
+          reviewed_at: string
+          reviewed_by: string | null
+          status: string
+        }
+        Insert: {
+          baby_id: string
+          id?: string
+          milestone_id: string
+          notes?: string | null
+          reviewed_at?: string
+          reviewed_by?: string | null
+          status: string
+        }
+        Update: {
+          baby_id?: string
+          id?: string
+          milestone_id?: string
+          notes?: string | null
+          reviewed_at?: string
+          reviewed_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "milestone_reviews_baby_id_fkey"
+            columns: ["baby_id"]
+            isOneToOne: false
+            referencedRelation: "babies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "milestone_reviews_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "milestones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "milestone_reviews_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      milestones: {
+        Row: {
+          age_months: number
+          code: string
+          concern_months: number
+          created_at: string
+          description: string | null
+          domain: string
+          id: string
+          is_active: boolean
+          title: string
+        }
+        Insert: {
+          age_months: number
+          code: string
+          concern_months: number
+          created_at?: string
+          description?: string | null
+          domain: string
+          id?: string
+          is_active?: boolean
+          title: string
+        }
+        Update: {
+          age_months?: number
+          code?: string
+          concern_months?: number
+          created_at?: string
+          description?: string | null
+          domain?: string
+          id?: string
+          is_active?: boolean
+          title?: string
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          medication_reminders: boolean
+          message_alerts: boolean
+          push_enabled: boolean
+          reminder_1h: boolean
+          reminder_24h: boolean
+          sms_enabled: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          medication_reminders?: boolean
+          message_alerts?: boolean
+          push_enabled?: boolean
+          reminder_1h?: boolean
+          reminder_24h?: boolean
+          sms_enabled?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          medication_reminders?: boolean
+          message_alerts?: boolean
+          push_enabled?: boolean
+          reminder_1h?: boolean
+          reminder_24h?: boolean
+          sms_enabled?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      parent_babies: {
+        Row: {
+          baby_id: string
+          created_at: string
+          id: string
+          parent_id: string
+          relationship: string
+        }
+        Insert: {
+          baby_id: string
+          created_at?: string
+          id?: string
+          parent_id: string
+          relationship?: string
+        }
+        Update: {
+          baby_id?: string
+          created_at?: string
+          id?: string
+          parent_id?: string
+          relationship?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parent_babies_baby_id_fkey"
+            columns: ["baby_id"]
+            isOneToOne: false
+            referencedRelation: "babies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "parent_babies_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      parent_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          baby_id: string
+          created_at: string
+          email: string
+          id: string
+          invited_by: string
+          relationship: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          baby_id: string
+          created_at?: string
+          email: string
+          id?: string
+          invited_by: string
+          relationship: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          baby_id?: string
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string
+          relationship?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parent_invitations_accepted_by_fkey"
+            columns: ["accepted_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "parent_invitations_baby_id_fkey"
+            columns: ["baby_id"]
+            isOneToOne: false
+            referencedRelation: "babies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "parent_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prescriptions: {
+        Row: {
+          allergy_override_reason: string | null
+          baby_id: string
+          created_at: string
+          discontinued_at: string | null
+          discontinued_by: string | null
+          dose_mg: number
+          dose_mg_per_kg: number
+          dose_override_reason: string | null
+          drug_class: string | null
+          drug_name: string
+          duration_days: number
+          ends_at: string
+          frequency_hours: number
+          id: string
+          instructions: string | null
+          medication_id: string | null
+          prescribed_by: string | null
+          starts_at: string
+          status: string
+          updated_at: string
+          weight_kg: number
+        }
+        Insert: {
+          allergy_override_reason?: string | null
+          baby_id: string
+          created_at?: string
+          discontinued_at?: string | null
+          discontinued_by?: string | null
+          dose_mg: number
+          dose_mg_per_kg: number
+          dose_override_reason?: string | null
+          drug_class?: string | null
+          drug_name: string
+          duration_days: number
+          ends_at: string
+          frequency_hours: number
+          id?: string
+          instructions?: string | null
+          medication_id?: string | null
+          prescribed_by?: string | null
+          starts_at?: string
+          status?: string
+          updated_at?: string
+          weight_kg: number
+        }
+        Update: {
+          allergy_override_reason?: string | null
+          baby_id?: string
+          created_at?: string
+          discontinued_at?: string | null
+          discontinued_by?: string | null
+          dose_mg?: number
+          dose_mg_per_kg?: number
+          dose_override_reason?: string | null
+          drug_class?: string | null
+          drug_name?: string
+          duration_days?: number
+          ends_at?: string
+          frequency_hours?: number
+          id?: string
+          instructions?: string | null
+          medication_id?: string | null
+          prescribed_by?: string | null
+          starts_at?: string
+          status?: string
+          updated_at?: string
+          weight_kg?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prescriptions_baby_id_fkey"
+            columns: ["baby_id"]
+            isOneToOne: false
+            referencedRelation: "babies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prescriptions_discontinued_by_fkey"
+            columns: ["discontinued_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prescriptions_medication_id_fkey"
+            columns: ["medication_id"]
+            isOneToOne: false
+            referencedRelation: "medications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prescriptions_prescribed_by_fkey"
+            columns: ["prescribed_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      problems: {
+        Row: {
+          baby_id: string
+          code: string | null
+          created_at: string
+          description: string
+          encounter_note_id: string | null
+          id: string
+          notes: string | null
+          onset_date: string | null
+          recorded_by: string | null
+          resolved_by: string | null
+          resolved_on: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          baby_id: string
+          code?: string | null
+          created_at?: string
+          description: string
+          encounter_note_id?: string | null
+          id?: string
+          notes?: string | null
+          onset_date?: string | null
+          recorded_by?: string | null
+          resolved_by?: string | null
+          resolved_on?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          baby_id?: string
+          code?: string | null
+          created_at?: string
+          description?: string
+          encounter_note_id?: string | null
+          id?: string
+          notes?: string | null
+          onset_date?: string | null
+          recorded_by?: string | null
+          resolved_by?: string | null
+          resolved_on?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "problems_baby_id_fkey"
+            columns: ["baby_id"]
+            isOneToOne: false
+            referencedRelation: "babies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "problems_encounter_note_id_fkey"
+            columns: ["encounter_note_id"]
+            isOneToOne: false
+            referencedRelation: "encounter_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "problems_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "problems_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_tokens: {
+        Row: {
+          token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          token: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_permissions: {
+        Row: {
+          permission: string
+          role: Database["public"]["Enums"]["user_role"]
+          scope: string
+        }
+        Insert: {
+          permission: string
+          role: Database["public"]["Enums"]["user_role"]
+          scope?: string
+        }
+        Update: {
+          permission?: string
+          role?: Database["public"]["Enums"]["user_role"]
+          scope?: string
+        }
+        Relationships: []
+      }
+      staff_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          id: string
+          invited_by: string
+          role: Database["public"]["Enums"]["user_role"]
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          id?: string
+          invited_by: string
+          role: Database["public"]["Enums"]["user_role"]
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string
+          role?: Database["public"]["Enums"]["user_role"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_invitations_accepted_by_fkey"
+            columns: ["accepted_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tasks: {
+        Row: {
+          appointment_id: string | null
+          assigned_to: string | null
+          baby_id: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          due_date: string | null
+          id: string
+          priority: string
+          source: string
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          appointment_id?: string | null
+          assigned_to?: string | null
+          baby_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          priority?: string
+          source?: string
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          appointment_id?: string | null
+          assigned_to?: string | null
+          baby_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          priority?: string
+          source?: string
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tasks_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_baby_id_fkey"
+            columns: ["baby_id"]
+            isOneToOne: false
+            referencedRelation: "babies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_profiles: {
+        Row: {
+          created_at: string
+          deactivated_at: string | null
+          email: string
+          first_name: string
+          id: string
+          is_active: boolean
+          last_name: string
+          phone: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          deactivated_at?: string | null
+          email: string
+          first_name?: string
+          id: string
+          is_active?: boolean
+          last_name?: string
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          deactivated_at?: string | null
+          email?: string
+          first_name?: string
+          id?: string
+          is_active?: boolean
+          last_name?: string
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      vaccine_schedule_doses: {
+        Row: {
+          created_at: string
+          dose_number: number
+          grace_days: number
+          id: string
+          min_interval_days: number | null
+          recommended_age_days: number
+          schedule: string
+          vaccine_id: string
+        }
+        Insert: {
+          created_at?: string
+          dose_number: number
+          grace_days?: number
+          id?: string
+          min_interval_days?: number | null
+          recommended_age_days: number
+          schedule?: string
+          vaccine_id: string
+        }
+        Update: {
+          created_at?: string
+          dose_number?: number
+          grace_days?: number
+          id?: string
+          min_interval_days?: number | null
+          recommended_age_days?: number
+          schedule?: string
+          vaccine_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vaccine_schedule_doses_vaccine_id_fkey"
+            columns: ["vaccine_id"]
+            isOneToOne: false
+            referencedRelation: "vaccines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vaccines: {
+        Row: {
+          code: string
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          protects_against: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          protects_against?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          protects_against?: string | null
+        }
+        Relationships: []
+      }
+      vital_records: {
+        Row: {
+          baby_id: string
+          feeding_time: string | null
+          head_circumference: number | null
+          heart_rate: number | null
+          height: number | null
+          id: string
+          notes: string | null
+          oxygen_saturation: number | null
+          recorded_at: string
+          recorded_by: string
+          respiratory_rate: number | null
+          temperature: number | null
+          weight: number | null
+        }
+        Insert: {
+          baby_id: string
+          feeding_time?: string | null
+          head_circumference?: number | null
+          heart_rate?: number | null
+          height?: number | null
+          id?: string
+          notes?: string | null
+          oxygen_saturation?: number | null
+          recorded_at?: string
+          recorded_by: string
+          respiratory_rate?: number | null
+          temperature?: number | null
+          weight?: number | null
+        }
+        Update: {
+          baby_id?: string
+          feeding_time?: string | null
+          head_circumference?: number | null
+          heart_rate?: number | null
+          height?: number | null
+          id?: string
+          notes?: string | null
+          oxygen_saturation?: number | null
+          recorded_at?: string
+          recorded_by?: string
+          respiratory_rate?: number | null
+          temperature?: number | null
+          weight?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vital_records_baby_id_fkey"
+            columns: ["baby_id"]
+            isOneToOne: false
+            referencedRelation: "babies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vital_records_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      can_write_note_version: {
+        Args: {
+          p_note_id: string
+        }
+        Returns: boolean
+      }
+      current_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Enums"]["user_role"]
+      }
+      detect_urgent_flags: {
+        Args: {
+          p_content: string
+        }
+        Returns: string[]
+      }
+      get_doctor_busy_times: {
+        Args: {
+          p_doctor_id: string
+          p_from: string
+          p_to: string
+        }
+        Returns: {
+          ends_at: string
+          starts_at: string
+        }[]
+      }
+      has_permission: {
+        Args: {
+          p_baby_id?: string
+          p_permission: string
+        }
+        Returns: boolean
+      }
+      is_conversation_participant: {
+        Args: {
+          p_conversation_id: string
+        }
+        Returns: boolean
+      }
+      mark_conversation_read: {
+        Args: {
+          p_conversation_id: string
+        }
+        Returns: number
+      }
+      sla_interval: {
+        Args: {
+          p_urgency: string
+        }
+        Returns: unknown
+      }
+    }
+    Enums: {
+      appointment_status:
+        | "scheduled"
+        | "confirmed"
+        | "completed"
+        | "cancelled"
+        | "checked_in"
+        | "no_show"
+      user_role: "admin" | "doctor" | "staff" | "parent"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof DatabaseWithoutInternals },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {
+      appointment_status: [
+        "scheduled",
+        "confirmed",
+        "completed",
+        "cancelled",
+        "checked_in",
+        "no_show",
+      ],
+      user_role: ["admin", "doctor", "staff", "parent"],
+    },
+  },
+} as const